@@ -0,0 +1,132 @@
+/**
+ * Bloom filter for nullifier digests
+ *
+ * Peers advertise a filter of their recent nullifiers in gossip pongs. A
+ * Bloom filter has no false negatives, so any nullifier we hold that is
+ * absent from a peer's filter is one the peer has definitely not seen.
+ *
+ * Each filter is salted with a random tweak so an adversary cannot grind
+ * nullifiers that collide in every peer's filter.
+ */
+
+import { Crypto } from './crypto.js';
+import type { NullifierFilter } from './types.js';
+
+/** Upper bound on advertised filter size (64 KiB) */
+export const MAX_FILTER_BYTES = 65_536;
+
+/** Upper bound on hash functions per item */
+export const MAX_FILTER_HASHES = 32;
+
+export class BloomFilter {
+  private readonly bits: Uint8Array;
+  private readonly bitCount: number;
+  readonly hashCount: number;
+  readonly tweak: number;
+  private itemCount = 0;
+
+  constructor(bits: Uint8Array, hashCount: number, tweak: number) {
+    if (bits.length === 0 || bits.length > MAX_FILTER_BYTES) {
+      throw new Error(`Bloom filter size must be between 1 and ${MAX_FILTER_BYTES} bytes`);
+    }
+    if (!Number.isInteger(hashCount) || hashCount < 1 || hashCount > MAX_FILTER_HASHES) {
+      throw new Error(`Bloom filter hash count must be between 1 and ${MAX_FILTER_HASHES}`);
+    }
+    if (!Number.isInteger(tweak) || tweak < 0 || tweak > 0xffffffff) {
+      throw new Error('Bloom filter tweak must be a 32-bit unsigned integer');
+    }
+    this.bits = bits;
+    this.bitCount = bits.length * 8;
+    this.hashCount = hashCount;
+    this.tweak = tweak;
+  }
+
+  /**
+   * Create an empty filter sized for the expected number of items
+   *
+   * @param expectedItems - Number of items the filter will hold
+   * @param falsePositiveRate - Target false positive rate (default: 1%)
+   */
+  static create(expectedItems: number, falsePositiveRate = 0.01): BloomFilter {
+    const n = Math.max(expectedItems, 1);
+    const bitCount = Math.ceil(-n * Math.log(falsePositiveRate) / (Math.LN2 * Math.LN2));
+    const byteCount = Math.min(Math.ceil(bitCount / 8), MAX_FILTER_BYTES);
+    const hashCount = Math.min(
+      Math.max(Math.round((byteCount * 8 / n) * Math.LN2), 1),
+      MAX_FILTER_HASHES
+    );
+    const tweak = new DataView(Crypto.randomBytes(4).buffer).getUint32(0);
+    return new BloomFilter(new Uint8Array(byteCount), hashCount, tweak);
+  }
+
+  /**
+   * Rebuild a filter received from a peer
+   *
+   * @throws If the advertised parameters are out of bounds
+   */
+  static fromWire(filter: NullifierFilter): BloomFilter {
+    if (!(filter.bits instanceof Uint8Array)) {
+      throw new Error('Bloom filter bits must be a byte array');
+    }
+    if (!Number.isInteger(filter.count) || filter.count < 0) {
+      throw new Error('Bloom filter count must be a non-negative integer');
+    }
+    const bloom = new BloomFilter(filter.bits, filter.hashCount, filter.tweak);
+    bloom.itemCount = filter.count;
+    return bloom;
+  }
+
+  /**
+   * Number of items added (as advertised, for received filters)
+   */
+  get count(): number {
+    return this.itemCount;
+  }
+
+  add(item: Uint8Array): void {
+    for (const index of this.indexes(item)) {
+      this.bits[index >>> 3] |= 1 << (index & 7);
+    }
+    this.itemCount++;
+  }
+
+  has(item: Uint8Array): boolean {
+    for (const index of this.indexes(item)) {
+      if ((this.bits[index >>> 3] & (1 << (index & 7))) === 0) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Wire representation for a pong or nullifier-request
+   *
+   * @param since - Start of the time window the filter covers (ms epoch)
+   */
+  toWire(since: number): NullifierFilter {
+    return {
+      bits: this.bits.slice(),
+      hashCount: this.hashCount,
+      tweak: this.tweak,
+      count: this.itemCount,
+      since
+    };
+  }
+
+  /**
+   * Bit positions via double hashing over SHA-256(tweak || item)
+   */
+  private indexes(item: Uint8Array): number[] {
+    const digest = Crypto.hash(this.tweak, item);
+    const view = new DataView(digest.buffer, digest.byteOffset, digest.byteLength);
+    const h1 = view.getUint32(0);
+    const h2 = view.getUint32(4) | 1;
+
+    const result: number[] = [];
+    for (let i = 0; i < this.hashCount; i++) {
+      result.push(((h1 + Math.imul(i, h2)) >>> 0) % this.bitCount);
+    }
+    return result;
+  }
+}
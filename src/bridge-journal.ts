@@ -0,0 +1,198 @@
+/**
+ * Bridge journal
+ *
+ * FederationBridge writes each bridge to a journal before and after every
+ * step that leaves the process, so a bridge interrupted between locking the
+ * source token and timestamping the mint can be resumed instead of leaving
+ * the value stuck with no record. This is a stripped-down version of the
+ * write-ahead records LocalVault keeps for circulation-v1: one JSON file,
+ * replaced atomically on every write, with an explicit state for a publish
+ * whose outcome is unknown.
+ *
+ * Entries hold only what the lock itself reveals (nullifier, commitment,
+ * admission token, ownership proof); the token secret is never written.
+ */
+
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { Crypto } from './crypto.js';
+import type { Attestation, BridgePackage } from './types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Where a bridge stands
+ *
+ * - prepared: lock built and recorded, nothing published
+ * - locking: source lock timestamped and its nullifier submitted; the
+ *   publish may or may not have landed
+ * - locked: source nullifier published, the source token is spent
+ * - target-timestamped: mint timestamped in the target federation; the
+ *   package can be handed to the recipient
+ * - minted: the recipient claimed it in the target federation (done)
+ * - failed: stopped on a validation failure (see failedFrom and error)
+ */
+export type BridgeState = 'prepared' | 'locking' | 'locked' | 'target-timestamped' | 'minted' | 'failed';
+
+/** A bridge package before it is timestamped anywhere */
+export type BridgeLock = Omit<BridgePackage, 'sourceProof' | 'targetProof'>;
+
+export interface BridgeJournalEntry {
+  readonly id: string; // Hex nullifier of the lock
+  readonly state: BridgeState;
+  readonly lock: BridgeLock;
+  readonly sourceProof?: Attestation;
+  readonly targetProof?: Attestation;
+  readonly failedFrom?: BridgeState; // State a failed bridge is retried from
+  readonly error?: string; // Last error; cleared by the next step that succeeds
+  readonly createdAt: number;
+  readonly updatedAt: number;
+  readonly history: readonly { readonly state: BridgeState; readonly at: number }[];
+}
+
+/**
+ * Where bridge entries live
+ *
+ * Synchronous like SwapStore, so an entry is on disk before the bridge
+ * goes on to the next network call.
+ */
+export interface BridgeJournal {
+  get(id: string): BridgeJournalEntry | undefined;
+  /** Insert or replace an entry */
+  put(entry: BridgeJournalEntry): void;
+  /** All entries, oldest first */
+  list(): BridgeJournalEntry[];
+}
+
+/**
+ * Called with the state an entry was just written in. Tests throw from it
+ * to simulate the process dying right after that write.
+ */
+export type BridgeFailureHook = (state: BridgeState) => void | Promise<void>;
+
+// ============================================================================
+// JOURNALS
+// ============================================================================
+
+/**
+ * Map-backed journal. Entries are lost when the process exits.
+ */
+export class InMemoryBridgeJournal implements BridgeJournal {
+  private readonly entries = new Map<string, BridgeJournalEntry>();
+
+  get(id: string): BridgeJournalEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  put(entry: BridgeJournalEntry): void {
+    this.entries.set(entry.id, entry);
+  }
+
+  list(): BridgeJournalEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+/**
+ * JSON file journal (default: ~/.scarcity/bridges.json)
+ *
+ * Each put writes a temporary file, syncs it to disk and renames it over
+ * the journal, so a crash leaves either the old or the new contents.
+ */
+export class FileBridgeJournal implements BridgeJournal {
+  private readonly path: string;
+  private readonly entries = new Map<string, BridgeJournalEntry>();
+
+  constructor(path?: string) {
+    this.path = path ?? join(homedir(), '.scarcity', 'bridges.json');
+    if (existsSync(this.path)) {
+      const data = JSON.parse(readFileSync(this.path, 'utf-8')) as { bridges: BridgeJournalEntryJson[] };
+      for (const json of data.bridges) {
+        const entry = entryFromJson(json);
+        this.entries.set(entry.id, entry);
+      }
+    }
+  }
+
+  get(id: string): BridgeJournalEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  put(entry: BridgeJournalEntry): void {
+    this.entries.set(entry.id, entry);
+
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const temp = `${this.path}.tmp`;
+    const fd = openSync(temp, 'w', 0o600);
+    try {
+      writeSync(fd, JSON.stringify({ version: 1, bridges: this.list().map(entryToJson) }, null, 2));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(temp, this.path);
+  }
+
+  list(): BridgeJournalEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+/**
+ * The package to hand the recipient, once the mint is timestamped
+ *
+ * @throws Error if the entry has not reached target-timestamped
+ */
+export function journaledPackage(entry: BridgeJournalEntry): BridgePackage {
+  if (!entry.sourceProof || !entry.targetProof) {
+    throw new Error(`Bridge ${entry.id.slice(0, 16)} is ${entry.state}; its package is not timestamped yet`);
+  }
+  return { ...entry.lock, sourceProof: entry.sourceProof, targetProof: entry.targetProof };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type BridgeLockBytes = 'commitment' | 'authToken' | 'nullifier' | 'ownershipProof';
+
+interface BridgeJournalEntryJson extends Omit<BridgeJournalEntry, 'lock'> {
+  readonly lock: Omit<BridgeLock, BridgeLockBytes> & { readonly [K in BridgeLockBytes]?: string };
+}
+
+function entryToJson(entry: BridgeJournalEntry): BridgeJournalEntryJson {
+  const { lock } = entry;
+  return {
+    ...entry,
+    lock: {
+      ...lock,
+      commitment: Crypto.toHex(lock.commitment),
+      authToken: lock.authToken && Crypto.toHex(lock.authToken),
+      nullifier: Crypto.toHex(lock.nullifier),
+      ownershipProof: lock.ownershipProof && Crypto.toHex(lock.ownershipProof)
+    }
+  };
+}
+
+function entryFromJson(json: BridgeJournalEntryJson): BridgeJournalEntry {
+  const { lock } = json;
+  if (!lock.commitment || !lock.nullifier) {
+    throw new Error(`Bridge journal entry ${json.id} is missing its lock`);
+  }
+  return {
+    ...json,
+    lock: {
+      ...lock,
+      commitment: Crypto.fromHex(lock.commitment),
+      authToken: lock.authToken ? Crypto.fromHex(lock.authToken) : undefined,
+      nullifier: Crypto.fromHex(lock.nullifier),
+      ownershipProof: lock.ownershipProof ? Crypto.fromHex(lock.ownershipProof) : undefined
+    }
+  };
+}
@@ -4,15 +4,24 @@
  * Enables token transfers between different Witness federations.
  * This allows tokens to move between different networks while maintaining
  * the double-spend prevention guarantees.
+ *
+ * Every bridge is recorded in a BridgeJournal (see bridge-journal.ts) before
+ * and after each step that leaves the process, so a bridge interrupted after
+ * the source lock can be resumed rather than leaving the value stuck.
  */
 
 import { Crypto } from './crypto.js';
 import { DEFAULT_TOKEN_VALIDITY_MS } from './constants.js';
 import { ScarbuckToken } from './token.js';
 import { OwnershipProof } from './ownership.js';
+import { ValidationError } from './validation-error.js';
+import { packageHashInput } from './codec/package-codec.js';
+import { InMemoryBridgeJournal, journaledPackage } from './bridge-journal.js';
+import type { BridgeJournal, BridgeJournalEntry, BridgeState, BridgeFailureHook } from './bridge-journal.js';
 import type {
   PublicKey,
   BridgePackage,
+  ValidationResult,
   AdmissionClient,
   WitnessClient,
   GossipNetwork
@@ -37,8 +46,34 @@ export interface BridgeConfig {
   readonly targetFreebird?: AdmissionClient;
   /** @deprecated Use auth/sourceAuth/targetAuth. When provided alone, used for both federations. */
   readonly freebird?: AdmissionClient;
+  /** Records each bridge so an interrupted one can be resumed (default: InMemoryBridgeJournal). */
+  readonly journal?: BridgeJournal;
+  /** Called after each journal write; see BridgeFailureHook. */
+  readonly failureHook?: BridgeFailureHook;
 }
 
+export type BridgeErrorCategory =
+  | 'unknown-bridge' // No journal entry with that id
+  | 'invalid-state' // The step does not apply in the bridge's current state
+  | 'federation-mismatch'; // The entry is for another pair of federations
+
+export class BridgeError extends Error {
+  constructor(public readonly category: BridgeErrorCategory, message: string) {
+    super(message);
+    this.name = 'BridgeError';
+  }
+}
+
+/** States each state may move to */
+const TRANSITIONS: Record<BridgeState, readonly BridgeState[]> = {
+  prepared: ['locking', 'failed'],
+  locking: ['locked', 'failed'],
+  locked: ['target-timestamped', 'failed'],
+  'target-timestamped': ['minted'],
+  minted: [],
+  failed: ['prepared', 'locking', 'locked']
+};
+
 export class FederationBridge {
   private readonly sourceFederation: string;
   private readonly targetFederation: string;
@@ -48,6 +83,8 @@ export class FederationBridge {
   private readonly targetGossip: GossipNetwork;
   private readonly sourceAuth: AdmissionClient;
   private readonly targetAuth: AdmissionClient;
+  private readonly journal: BridgeJournal;
+  private readonly failureHook?: BridgeFailureHook;
 
   constructor(config: BridgeConfig) {
     this.sourceFederation = config.sourceFederation;
@@ -61,55 +98,35 @@ export class FederationBridge {
     if (!this.sourceAuth || !this.targetAuth) {
       throw new Error('FederationBridge requires admission/auth clients');
     }
+    this.journal = config.journal ?? new InMemoryBridgeJournal();
+    this.failureHook = config.failureHook;
   }
 
   private assertBridgeSourceWasSpendable(sourceCreatedAt: number, spendTimestamp: number): void {
     if (typeof sourceCreatedAt !== 'number' || !Number.isFinite(sourceCreatedAt)) {
-      throw new Error('Missing Scarcity source creation timestamp for bridge');
+      throw new ValidationError('source_timestamp_invalid', 'Missing Scarcity source creation timestamp for bridge');
     }
 
     const sourceAgeAtSpend = spendTimestamp - sourceCreatedAt;
     if (sourceAgeAtSpend < -300_000) {
-      throw new Error('Invalid Scarcity source creation timestamp for bridge');
+      throw new ValidationError('source_timestamp_invalid', 'Invalid Scarcity source creation timestamp for bridge');
     }
     if (sourceAgeAtSpend > DEFAULT_TOKEN_VALIDITY_MS) {
-      throw new Error('Source token expired before bridge');
+      throw new ValidationError('source_expired', 'Source token expired before bridge');
     }
   }
 
-  private hashLockPackage(pkg: BridgePackage): string {
-    return Crypto.hashString(JSON.stringify({
-      sourceTokenId: pkg.sourceTokenId,
-      sourceCreatedAt: pkg.sourceCreatedAt,
-      sourceFederation: pkg.sourceFederation,
-      targetFederation: pkg.targetFederation,
-      amount: pkg.amount,
-      commitment: pkg.commitment,
-      authToken: pkg.authToken,
-      nullifier: pkg.nullifier
-    }));
-  }
-
-  private hashMintPackage(pkg: BridgePackage): string {
-    return Crypto.hashString(JSON.stringify({
-      sourceTokenId: pkg.sourceTokenId,
-      sourceCreatedAt: pkg.sourceCreatedAt,
-      sourceFederation: pkg.sourceFederation,
-      targetFederation: pkg.targetFederation,
-      amount: pkg.amount,
-      commitment: pkg.commitment,
-      authToken: pkg.authToken,
-      nullifier: pkg.nullifier,
-      sourceProof: pkg.sourceProof
-    }));
-  }
-
   private assertProofCoversBridgePackage(pkg: BridgePackage): void {
-    if (pkg.sourceProof.hash !== this.hashLockPackage(pkg)) {
-      throw new Error('Bridge source proof does not match package contents');
+    // Locks proven before the canonical codec cover their version-0 hashes
+    const sourceHash = pkg.sourceProof.hash;
+    if (sourceHash !== Crypto.hashBridgeLockPackage(pkg) &&
+        sourceHash !== Crypto.legacyPackageHash('bridge-lock', pkg)) {
+      throw new ValidationError('hash_mismatch', 'Bridge source proof does not match package contents');
     }
-    if (pkg.targetProof && pkg.targetProof.hash !== this.hashMintPackage(pkg)) {
-      throw new Error('Bridge target proof does not match package contents');
+    const targetHash = pkg.targetProof?.hash;
+    if (targetHash && targetHash !== Crypto.hashBridgeMintPackage(pkg) &&
+        targetHash !== Crypto.legacyPackageHash('bridge-mint', pkg)) {
+      throw new ValidationError('hash_mismatch', 'Bridge target proof does not match package contents');
     }
   }
 
@@ -143,6 +160,10 @@ export class FederationBridge {
       tokenState.secret,
       tokenState.id
     );
+    const journaled = this.journal.get(Crypto.toHex(nullifier));
+    if (journaled && journaled.state !== 'failed') {
+      throw new BridgeError('invalid-state', `Token is already being bridged (${journaled.state}); resume that bridge`);
+    }
 
     // Create Scarcity commitment and target-federation admission token.
     const commitment = await Crypto.createCommitment(recipientKey.bytes);
@@ -155,7 +176,7 @@ export class FederationBridge {
     );
 
     // Package bridge data for source federation
-    const lockPackage = {
+    const lock = {
       sourceTokenId: tokenState.id,
       sourceCreatedAt,
       sourceFederation: this.sourceFederation,
@@ -163,51 +184,61 @@ export class FederationBridge {
       amount: tokenState.amount,
       commitment,
       authToken,
-      nullifier
-    };
-
-    // Hash lock package
-    const lockHash = Crypto.hashString(JSON.stringify(lockPackage));
-
-    // Timestamp lock in source federation
-    const sourceProof = await this.sourceWitness.timestamp(lockHash);
-
-    // Broadcast nullifier in source federation (locks the token)
-    await this.sourceGossip.publish(nullifier, sourceProof);
-
-    // Mark source token as spent
-    token.markSpent();
-
-    // Phase 2: Mint equivalent token in target federation
-    // Package mint data for target federation
-    const mintPackage = {
-      ...lockPackage,
-      sourceProof
+      nullifier,
+      ownershipProof
     };
 
-    // Hash mint package
-    const mintHash = Crypto.hashString(JSON.stringify(mintPackage));
+    // Record the bridge before anything leaves the process
+    const now = Date.now();
+    const entry = await this.save({
+      id: Crypto.toHex(nullifier),
+      state: 'prepared',
+      lock,
+      createdAt: now,
+      updatedAt: now,
+      history: [{ state: 'prepared', at: now }]
+    });
 
-    // Timestamp mint in target federation
-    const targetProof = await this.targetWitness.timestamp(mintHash);
+    // Lock in the source federation, then timestamp the mint in the target
+    const bridged = await this.advance(entry, () => token.markSpent());
+    return journaledPackage(bridged);
+  }
 
-    // Broadcast to target gossip (registers the new token)
-    // Note: We don't publish a nullifier here, as this is a mint operation
-    // The nullifier will be published when this token is spent in the target federation
+  /**
+   * Continue an interrupted bridge from its journaled state
+   *
+   * A bridge left locking is checked against the source federation before
+   * its nullifier is published again. A target-timestamped bridge is
+   * marked minted once its nullifier shows up in the target federation.
+   *
+   * @param id - Journal id (hex nullifier) of the bridge
+   * @returns The entry after resuming; its package is ready once it is target-timestamped
+   * @throws BridgeError if the bridge is unknown, failed (see retry) or for other federations
+   */
+  async resume(id: string): Promise<BridgeJournalEntry> {
+    const entry = this.require(id);
+    if (entry.state === 'failed') {
+      throw new BridgeError('invalid-state', `Bridge ${short(id)} failed (${entry.error}); retry it instead`);
+    }
+    if (entry.state === 'target-timestamped') {
+      const minted = await this.targetGossip.checkNullifier(entry.lock.nullifier) > 0;
+      return minted ? this.move(entry, 'minted') : entry;
+    }
+    return this.advance(entry);
+  }
 
-    return {
-      sourceTokenId: tokenState.id,
-      sourceCreatedAt,
-      sourceFederation: this.sourceFederation,
-      targetFederation: this.targetFederation,
-      amount: tokenState.amount,
-      commitment,
-      authToken,
-      nullifier,
-      sourceProof,
-      targetProof,
-      ownershipProof
-    };
+  /**
+   * Retry a failed bridge from the state it failed in
+   *
+   * @throws BridgeError if the bridge is unknown, has not failed or is for other federations
+   */
+  async retry(id: string): Promise<BridgeJournalEntry> {
+    const entry = this.require(id);
+    if (entry.state !== 'failed') {
+      throw new BridgeError('invalid-state', `Bridge ${short(id)} is ${entry.state}, not failed`);
+    }
+    const restarted = await this.move(entry, entry.failedFrom ?? 'prepared', { failedFrom: undefined });
+    return this.advance(restarted);
   }
 
   /**
@@ -224,7 +255,7 @@ export class FederationBridge {
     // Verify source proof
     const sourceValid = await this.sourceWitness.verify(pkg.sourceProof);
     if (!sourceValid) {
-      throw new Error('Invalid source federation proof');
+      throw new ValidationError('witness_invalid', 'Invalid source federation proof');
     }
     this.assertProofCoversBridgePackage(pkg);
 
@@ -232,32 +263,34 @@ export class FederationBridge {
     if (pkg.targetProof) {
       const targetValid = await this.targetWitness.verify(pkg.targetProof);
       if (!targetValid) {
-        throw new Error('Invalid target federation proof');
+        throw new ValidationError('witness_invalid', 'Invalid target federation proof');
       }
     }
 
     // Verify Freebird admission token is present. Single-use verification
     // happens before receiveBridged is called.
     if (!pkg.authToken || pkg.authToken.length === 0) {
-      throw new Error('Missing required Freebird authorization token for bridge');
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token for bridge');
     }
 
     // Verify ownership proof
     if (!pkg.ownershipProof) {
-      throw new Error('Missing required ownership proof for bridge');
+      throw new ValidationError('ownership_missing', 'Missing required ownership proof for bridge');
     }
     const ownershipValid = await OwnershipProof.verify(pkg.ownershipProof, pkg.nullifier);
     if (!ownershipValid) {
-      throw new Error('Invalid ownership proof');
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proof');
     }
 
     this.assertBridgeSourceWasSpendable(pkg.sourceCreatedAt, pkg.sourceProof.timestamp);
 
     // Verify this is the correct target federation
     if (pkg.targetFederation !== this.targetFederation) {
-      throw new Error(
+      throw new ValidationError(
+        'federation_mismatch',
         `Bridge package is for federation ${pkg.targetFederation}, ` +
-        `not ${this.targetFederation}`
+        `not ${this.targetFederation}`,
+        { expected: this.targetFederation, actual: pkg.targetFederation }
       );
     }
 
@@ -266,7 +299,7 @@ export class FederationBridge {
     // be submitted multiple times to mint duplicate tokens.
     const alreadyBridged = await this.targetGossip.checkNullifier(pkg.nullifier);
     if (alreadyBridged > 0) {
-      throw new Error('Bridge replay detected: nullifier already exists in target federation');
+      throw new ValidationError('already_settled', 'Bridge replay detected: nullifier already exists in target federation');
     }
 
     // Create new token in target federation with unique ID
@@ -278,8 +311,22 @@ export class FederationBridge {
     // Publish nullifier in target federation to prevent replay.
     // Use targetProof (attested by the target witness) so the target gossip
     // network can verify it. Fall back to sourceProof if targetProof is absent.
+    // A proof over a version-0 hash cannot be checked against the package
+    // fields, so it is published without them.
     const replayProof = pkg.targetProof ?? pkg.sourceProof;
-    await this.targetGossip.publish(pkg.nullifier, replayProof);
+    const packageFields = packageHashInput(pkg.targetProof ? 'bridge-mint' : 'bridge-lock', pkg);
+    const proven = Crypto.toHex(Crypto.hash(packageFields)) === replayProof.hash;
+    await this.targetGossip.publish(
+      pkg.nullifier,
+      replayProof,
+      proven ? { packageFields, ownershipProof: pkg.ownershipProof } : undefined
+    );
+
+    // A bridge sent from this journal is now done
+    const sent = this.journal.get(Crypto.toHex(pkg.nullifier));
+    if (sent?.state === 'target-timestamped') {
+      await this.move(sent, 'minted');
+    }
 
     return new ScarbuckToken({
       id: targetTokenId,
@@ -303,39 +350,54 @@ export class FederationBridge {
    * @returns true if bridge is valid, false otherwise
    */
   async verifyBridge(pkg: BridgePackage): Promise<boolean> {
+    return (await this.checkBridge(pkg)).valid;
+  }
+
+  /**
+   * Verify a bridge operation, reporting why it failed
+   *
+   * Same checks as verifyBridge.
+   *
+   * @param pkg - Bridge package to verify
+   * @returns Validation result; confidence is 1 when valid
+   */
+  async checkBridge(pkg: BridgePackage): Promise<ValidationResult> {
     // Check source federation lock
     const sourceLocked = await this.sourceWitness.checkNullifier(pkg.nullifier);
     if (sourceLocked === 0) {
       // Nullifier not found in source federation
-      return false;
+      return new ValidationError(
+        'not_locked',
+        'Bridge nullifier not found in source federation',
+        { federation: this.sourceFederation }
+      ).toResult();
     }
 
     // Verify source proof
     const sourceValid = await this.sourceWitness.verify(pkg.sourceProof);
     if (!sourceValid) {
-      return false;
-    }
-    try {
-      this.assertProofCoversBridgePackage(pkg);
-    } catch {
-      return false;
+      return new ValidationError('witness_invalid', 'Invalid source federation proof').toResult();
     }
 
     try {
+      this.assertProofCoversBridgePackage(pkg);
       this.assertBridgeSourceWasSpendable(pkg.sourceCreatedAt, pkg.sourceProof.timestamp);
-    } catch {
-      return false;
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return error.toResult();
+      }
+      throw error;
     }
 
     // Verify target proof if present
     if (pkg.targetProof) {
       const targetValid = await this.targetWitness.verify(pkg.targetProof);
       if (!targetValid) {
-        return false;
+        return new ValidationError('witness_invalid', 'Invalid target federation proof').toResult();
       }
     }
 
-    return true;
+    return { valid: true, confidence: 1, code: 'ok', reason: 'Bridge verified' };
   }
 
   /**
@@ -349,4 +411,123 @@ export class FederationBridge {
       targetGossipPeers: this.targetGossip.peers.length
     };
   }
+
+  // ==========================================================================
+  // JOURNAL
+  // ==========================================================================
+
+  /**
+   * Run a journaled bridge forward until its package is timestamped
+   *
+   * A validation failure moves the bridge to failed; any other error
+   * (network, crash hook) leaves it in its last written state to resume.
+   *
+   * @param onLocked - Called once the source nullifier is published
+   */
+  private async advance(entry: BridgeJournalEntry, onLocked?: () => void): Promise<BridgeJournalEntry> {
+    let current = entry;
+    try {
+      for (;;) {
+        switch (current.state) {
+          case 'prepared':
+            current = await this.lockSource(current);
+            break;
+          case 'locking':
+            current = await this.publishLock(current);
+            onLocked?.();
+            break;
+          case 'locked':
+            current = await this.timestampMint(current);
+            break;
+          default:
+            return current;
+        }
+      }
+    } catch (error) {
+      // The failing step may have written a newer state than we hold
+      const latest = this.journal.get(current.id) ?? current;
+      if (error instanceof ValidationError && TRANSITIONS[latest.state].includes('failed')) {
+        await this.move(latest, 'failed', { failedFrom: latest.state, error: error.message });
+      } else {
+        this.journal.put({ ...latest, error: (error as Error).message, updatedAt: Date.now() });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * prepared -> locking: timestamp the lock, and record it before publishing
+   */
+  private async lockSource(entry: BridgeJournalEntry): Promise<BridgeJournalEntry> {
+    const { lock } = entry;
+    if (await this.sourceGossip.checkNullifier(lock.nullifier) > 0) {
+      throw new ValidationError('gossip_double_spend', 'Source token was spent before the bridge locked it');
+    }
+    const sourceProof = entry.sourceProof ?? await this.sourceWitness.timestamp(Crypto.hashBridgeLockPackage(lock));
+    this.assertBridgeSourceWasSpendable(lock.sourceCreatedAt, sourceProof.timestamp);
+    return this.move(entry, 'locking', { sourceProof });
+  }
+
+  /**
+   * locking -> locked: publish the nullifier unless an earlier attempt landed
+   */
+  private async publishLock(entry: BridgeJournalEntry): Promise<BridgeJournalEntry> {
+    if (await this.sourceGossip.checkNullifier(entry.lock.nullifier) === 0) {
+      await this.sourceGossip.publish(entry.lock.nullifier, entry.sourceProof!, {
+        packageFields: packageHashInput('bridge-lock', entry.lock),
+        ownershipProof: entry.lock.ownershipProof
+      });
+    }
+    return this.move(entry, 'locked');
+  }
+
+  /**
+   * locked -> target-timestamped: timestamp the mint in the target federation
+   */
+  private async timestampMint(entry: BridgeJournalEntry): Promise<BridgeJournalEntry> {
+    const mintHash = Crypto.hashBridgeMintPackage({ ...entry.lock, sourceProof: entry.sourceProof! });
+    const targetProof = await this.targetWitness.timestamp(mintHash);
+    return this.move(entry, 'target-timestamped', { targetProof });
+  }
+
+  private async move(
+    entry: BridgeJournalEntry,
+    state: BridgeState,
+    patch: Partial<BridgeJournalEntry> = {}
+  ): Promise<BridgeJournalEntry> {
+    if (!TRANSITIONS[entry.state].includes(state)) {
+      throw new BridgeError('invalid-state', `Bridge ${short(entry.id)} cannot go from ${entry.state} to ${state}`);
+    }
+    const now = Date.now();
+    return this.save({ ...entry, error: undefined, ...patch, state, history: [...entry.history, { state, at: now }] });
+  }
+
+  private async save(entry: BridgeJournalEntry): Promise<BridgeJournalEntry> {
+    const saved = { ...entry, updatedAt: Date.now() };
+    this.journal.put(saved);
+    await this.failureHook?.(saved.state);
+    return saved;
+  }
+
+  private require(id: string): BridgeJournalEntry {
+    const entry = this.journal.get(id);
+    if (!entry) {
+      throw new BridgeError('unknown-bridge', `No bridge ${short(id)} in the journal`);
+    }
+    const { sourceFederation, targetFederation } = entry.lock;
+    if (sourceFederation !== this.sourceFederation || targetFederation !== this.targetFederation) {
+      throw new BridgeError('federation-mismatch',
+        `Bridge ${short(id)} is from ${sourceFederation} to ${targetFederation}, ` +
+        `not ${this.sourceFederation} to ${this.targetFederation}`);
+    }
+    return entry;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function short(id: string): string {
+  return id.slice(0, 16);
 }
@@ -0,0 +1,375 @@
+/**
+ * Coin selection for wallet payments
+ *
+ * Picks which stored tokens pay an amount and plans the spend. A single
+ * input pays directly with change (one Witness timestamp); several inputs
+ * are merged into one token first, which then pays (two timestamps).
+ *
+ * Every input is spent, so its value moves into the payment and a fresh
+ * change token: paying also renews whatever value was close to expiring.
+ * Plans report that impact so dry runs can show it before anything is
+ * spent.
+ *
+ * Denominated coins are never mixed with other tokens: they are only
+ * spent by the denominated strategy, which pays whole coins and splits
+ * as planDenominatedPayment decides, one timestamp per coin.
+ */
+
+import { ScarbuckToken, type DenominatedPayment } from '../token.js';
+import { Crypto } from '../crypto.js';
+import { planDenominatedPayment } from '../denominations.js';
+import { DEFAULT_TOKEN_VALIDITY_MS, DEFAULT_EXPIRY_WARNING_DAYS } from '../constants.js';
+import type { TokenStorage, StoredToken } from './token-store.js';
+import type { WalletManager } from './wallet.js';
+import type {
+  PublicKey,
+  PaymentRequest,
+  MergePackage,
+  PaymentPackage,
+  AdmissionClient,
+  WitnessClient,
+  GossipNetwork
+} from '../types.js';
+
+/**
+ * How to choose inputs
+ *
+ * - fewest-inputs: the smallest token that covers the amount, else the
+ *   largest tokens first
+ * - oldest-first: the oldest tokens first, renewing them before they expire
+ * - privacy: avoid change and merges, which link a payment to the rest of
+ *   the wallet: an exact token or small exact set, else one covering token
+ * - denominated: pay from denominated coins only, as standard coins, so no
+ *   output reveals the amount
+ */
+export type CoinSelectionStrategy = 'fewest-inputs' | 'oldest-first' | 'privacy' | 'denominated';
+
+export const COIN_SELECTION_STRATEGIES: readonly CoinSelectionStrategy[] = [
+  'fewest-inputs', 'oldest-first', 'privacy', 'denominated'
+];
+
+export interface CoinSelectorOptions {
+  readonly validityMs?: number; // Token validity window (default: DEFAULT_TOKEN_VALIDITY_MS)
+  readonly warningDays?: number; // Inputs with fewer days left are expiring soon (default: DEFAULT_EXPIRY_WARNING_DAYS)
+  readonly maxPrivacyInputs?: number; // Largest exact set the privacy strategy looks for (default: 3)
+}
+
+export interface PlannedInput {
+  readonly id: string;
+  readonly amount: number;
+  readonly created: number;
+  readonly expiresAt: number;
+  readonly daysLeft: number;
+}
+
+export interface ExpiryImpact {
+  readonly soonestInputExpiry: number; // Earliest expiry among the inputs
+  readonly renewedAmount: number; // Value moved from the inputs into fresh tokens
+  readonly expiringSoonAmount: number; // Part of it that was within the warning window
+  readonly changeExpiresAt?: number; // When the change would expire if created now
+}
+
+export interface PaymentPlan {
+  readonly wallet: string;
+  readonly strategy: CoinSelectionStrategy;
+  readonly amount: number;
+  readonly inputs: readonly PlannedInput[];
+  readonly total: number;
+  readonly change: number;
+  readonly merge: boolean; // Inputs are merged before paying
+  readonly denominated: boolean; // Inputs are denominated coins, each spent on its own
+  readonly timestamps: number; // Witness timestamps the plan takes
+  readonly expiry: ExpiryImpact;
+}
+
+export interface PlanExecution {
+  readonly merge?: MergePackage; // Set when the plan merged its inputs
+  readonly payment: PaymentPackage; // Deliver this to the recipient
+}
+
+/** Services a plan is executed against */
+export interface PaymentServices {
+  readonly auth: AdmissionClient;
+  readonly witness: WitnessClient;
+  readonly gossip: GossipNetwork;
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export class CoinSelector {
+  private readonly validityMs: number;
+  private readonly warningDays: number;
+  private readonly maxPrivacyInputs: number;
+
+  constructor(private readonly storage: TokenStorage, options: CoinSelectorOptions = {}) {
+    this.validityMs = options.validityMs ?? DEFAULT_TOKEN_VALIDITY_MS;
+    this.warningDays = options.warningDays ?? DEFAULT_EXPIRY_WARNING_DAYS;
+    this.maxPrivacyInputs = options.maxPrivacyInputs ?? 3;
+  }
+
+  /**
+   * Plan paying an amount from a wallet's unspent, unexpired tokens
+   *
+   * @throws Error if the wallet cannot cover the amount
+   */
+  plan(wallet: string, amount: number, strategy: CoinSelectionStrategy = 'fewest-inputs'): PaymentPlan {
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new Error(`Payment amount must be a positive integer, got ${amount}`);
+    }
+    if (!COIN_SELECTION_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown coin selection strategy '${strategy}' (use ${COIN_SELECTION_STRATEGIES.join(', ')})`);
+    }
+
+    const now = Date.now();
+    const denominated = strategy === 'denominated';
+    const coins = this.storage.listTokens({ wallet, spent: false })
+      .filter(token => token.created + this.validityMs > now && (token.denominated ?? false) === denominated);
+    const available = coins.reduce((sum, token) => sum + token.amount, 0);
+    if (available < amount) {
+      const kind = denominated ? 'in denominated coins' : 'spendable';
+      throw new Error(`Insufficient funds: wallet '${wallet}' holds ${available} ${kind}, need ${amount}`);
+    }
+
+    const selected = denominated ? this.denominations(coins, amount)
+      : strategy === 'oldest-first' ? this.oldestFirst(coins, amount)
+      : strategy === 'privacy' ? this.privacy(coins, amount)
+      : this.fewestInputs(coins, amount);
+
+    const inputs = selected.map(token => {
+      const expiresAt = token.created + this.validityMs;
+      return {
+        id: token.id,
+        amount: token.amount,
+        created: token.created,
+        expiresAt,
+        daysLeft: Math.floor((expiresAt - now) / DAY_MS)
+      };
+    });
+    const total = inputs.reduce((sum, input) => sum + input.amount, 0);
+    const change = total - amount;
+
+    return {
+      wallet,
+      strategy,
+      amount,
+      inputs,
+      total,
+      change,
+      merge: !denominated && inputs.length > 1,
+      denominated,
+      timestamps: denominated ? inputs.length : inputs.length > 1 ? 2 : 1,
+      expiry: {
+        soonestInputExpiry: Math.min(...inputs.map(input => input.expiresAt)),
+        renewedAmount: total,
+        expiringSoonAmount: inputs
+          .filter(input => input.daysLeft < this.warningDays)
+          .reduce((sum, input) => sum + input.amount, 0),
+        changeExpiresAt: change > 0 ? now + this.validityMs : undefined
+      }
+    };
+  }
+
+  /**
+   * Carry out a plan: merge the inputs if needed, then pay with change
+   *
+   * Spent inputs are marked in storage and new tokens (merged, change) are
+   * stored under secrets derived from the wallet. If paying fails after a
+   * merge, the merged token stays in the wallet unspent. Denominated plans
+   * are carried out by executeDenominated.
+   *
+   * @param to - Recipient's public key, or a payment request to pay
+   */
+  async execute(
+    plan: PaymentPlan,
+    to: PublicKey | PaymentRequest,
+    wallets: WalletManager,
+    services: PaymentServices
+  ): Promise<PlanExecution> {
+    if (plan.denominated) {
+      throw new Error('Denominated plans are carried out by executeDenominated');
+    }
+    const { auth, witness, gossip } = services;
+    const walletKey = wallets.getPublicKey(plan.wallet);
+    const { stored, tokens } = this.loadInputs(plan, services);
+
+    let payer = tokens[0];
+    let merge: MergePackage | undefined;
+    if (plan.merge) {
+      merge = await ScarbuckToken.merge(tokens, walletKey);
+      stored.forEach(token => this.storage.markSpent(token.id));
+
+      const secret = wallets.deriveTokenSecret(merge.targetTokenId, plan.wallet);
+      payer = await ScarbuckToken.receiveMerge(merge, secret, auth, witness, gossip);
+      this.store(plan.wallet, merge.targetTokenId, merge.targetAmount, secret, merge.proof.timestamp, 'merged', stored);
+    }
+
+    const payment = await payer.pay(plan.amount, to, walletKey);
+    this.storage.markSpent(merge ? merge.targetTokenId : stored[0].id);
+
+    if (payment.change) {
+      const { tokenId, amount } = payment.change;
+      const secret = wallets.deriveTokenSecret(tokenId, plan.wallet);
+      this.store(plan.wallet, tokenId, amount, secret, payment.proof.timestamp, 'change', stored);
+    }
+
+    return { merge, payment };
+  }
+
+  /**
+   * Carry out a denominated plan: send whole coins and split the rest
+   *
+   * Each coin is spent on its own, so a failure part-way marks only the
+   * coins already spent. Change outputs of the splits are stored under
+   * secrets derived from the wallet.
+   *
+   * @returns The transfer and split packages; the payee's outputs are the
+   *          split outputs not listed as change
+   */
+  async executeDenominated(
+    plan: PaymentPlan,
+    to: PublicKey,
+    wallets: WalletManager,
+    services: PaymentServices
+  ): Promise<DenominatedPayment> {
+    if (!plan.denominated) {
+      throw new Error('Only denominated plans can be carried out in denominations');
+    }
+    const walletKey = wallets.getPublicKey(plan.wallet);
+    const { stored, tokens } = this.loadInputs(plan, services);
+
+    let payment: DenominatedPayment;
+    try {
+      payment = await ScarbuckToken.payDenominated(tokens, plan.amount, to, walletKey);
+    } finally {
+      stored.forEach((token, i) => {
+        if (tokens[i].isSpent()) {
+          this.storage.markSpent(token.id);
+        }
+      });
+    }
+
+    payment.splits.forEach((split, i) => {
+      for (const index of payment.change[i]) {
+        const { tokenId, amount } = split.splits[index];
+        const secret = wallets.deriveTokenSecret(tokenId, plan.wallet);
+        this.store(plan.wallet, tokenId, amount, secret, split.proof.timestamp, 'change', stored, true);
+      }
+    });
+    return payment;
+  }
+
+  private loadInputs(plan: PaymentPlan, services: PaymentServices): { stored: StoredToken[]; tokens: ScarbuckToken[] } {
+    const stored = plan.inputs.map(input => {
+      const token = this.storage.getToken(input.id);
+      if (!token || token.spent) {
+        throw new Error(`Token ${input.id} is no longer available; plan again`);
+      }
+      return token;
+    });
+    const tokens = stored.map(token => ScarbuckToken.fromPersistentState(
+      {
+        id: token.id,
+        amount: token.amount,
+        secret: Crypto.fromHex(token.secretKey),
+        spent: token.spent,
+        createdAt: token.created,
+        denominated: token.denominated
+      },
+      services.auth,
+      services.witness,
+      services.gossip
+    ));
+    return { stored, tokens };
+  }
+
+  private store(
+    wallet: string,
+    id: string,
+    amount: number,
+    secret: Uint8Array,
+    created: number,
+    type: 'merged' | 'change',
+    sources: StoredToken[],
+    denominated = false
+  ): void {
+    this.storage.addToken({
+      id,
+      amount,
+      secretKey: Crypto.toHex(secret),
+      wallet,
+      created,
+      spent: false,
+      denominated,
+      metadata: { type, source: sources.map(token => token.id).join(',') }
+    });
+  }
+
+  private denominations(coins: StoredToken[], amount: number): StoredToken[] {
+    const plan = planDenominatedPayment(coins.map(token => token.amount), amount);
+    return [...plan.transfers, ...plan.splits.map(split => split.coin)].map(index => coins[index]);
+  }
+
+  private fewestInputs(coins: StoredToken[], amount: number): StoredToken[] {
+    const covering = coins.filter(token => token.amount >= amount).sort((a, b) => a.amount - b.amount);
+    if (covering.length > 0) {
+      return [covering[0]];
+    }
+    return takeUntil([...coins].sort((a, b) => b.amount - a.amount), amount);
+  }
+
+  private oldestFirst(coins: StoredToken[], amount: number): StoredToken[] {
+    return takeUntil([...coins].sort((a, b) => a.created - b.created), amount);
+  }
+
+  private privacy(coins: StoredToken[], amount: number): StoredToken[] {
+    const exact = coins.find(token => token.amount === amount);
+    if (exact) {
+      return [exact];
+    }
+
+    // Small exact sets: a merge but no change output. Search the largest
+    // candidates only, so big wallets stay fast.
+    const candidates = coins.filter(token => token.amount < amount).sort((a, b) => b.amount - a.amount).slice(0, 32);
+    for (let size = 2; size <= this.maxPrivacyInputs; size++) {
+      const set = exactSet(candidates, amount, size);
+      if (set) {
+        return set;
+      }
+    }
+
+    return this.fewestInputs(coins, amount);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function takeUntil(ordered: StoredToken[], amount: number): StoredToken[] {
+  const taken: StoredToken[] = [];
+  let total = 0;
+  for (const token of ordered) {
+    if (total >= amount) {
+      break;
+    }
+    taken.push(token);
+    total += token.amount;
+  }
+  return taken;
+}
+
+function exactSet(candidates: StoredToken[], amount: number, size: number, from = 0): StoredToken[] | null {
+  if (size === 0) {
+    return amount === 0 ? [] : null;
+  }
+  for (let i = from; i < candidates.length; i++) {
+    if (candidates[i].amount > amount) {
+      continue;
+    }
+    const rest = exactSet(candidates, amount - candidates[i].amount, size - 1, i + 1);
+    if (rest) {
+      return [candidates[i], ...rest];
+    }
+  }
+  return null;
+}
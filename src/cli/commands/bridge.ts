@@ -1,5 +1,9 @@
 /**
  * Bridge command - Cross-federation bridge operations
+ *
+ * Outgoing bridges are journaled in ~/.scarcity/bridges.json, so one
+ * interrupted after the source lock shows up in `status` and can be
+ * finished with `resume`.
  */
 
 import { Command } from '../command.js';
@@ -7,8 +11,13 @@ import { ConfigManager } from '../config.js';
 import { TokenStorage } from '../token-store.js';
 import { ScarbuckToken } from '../../token.js';
 import { FederationBridge } from '../../bridge.js';
+import { FileBridgeJournal, journaledPackage, type BridgeJournalEntry } from '../../bridge-journal.js';
 import { FreebirdAdapter, WitnessAdapter, NullifierGossip } from '../../index.js';
 import { Crypto } from '../../crypto.js';
+import type { BridgePackage } from '../../types.js';
+
+/** States after which the source token is spent */
+const LOCKED_STATES: readonly BridgeJournalEntry['state'][] = ['locked', 'target-timestamped', 'minted'];
 
 export class BridgeCommand extends Command {
   constructor() {
@@ -39,6 +48,14 @@ export class BridgeCommand extends Command {
         await this.claim(positional, options);
         break;
 
+      case 'status':
+        this.status(positional);
+        break;
+
+      case 'resume':
+        await this.resume(positional, options);
+        break;
+
       default:
         console.error(`Unknown subcommand: ${subcommand}`);
         this.showHelp();
@@ -67,6 +84,8 @@ export class BridgeCommand extends Command {
 
     const config = new ConfigManager();
     const storage = new TokenStorage();
+    const journal = new FileBridgeJournal();
+    let bridgeId: string | undefined;
 
     try {
       console.log('');
@@ -85,81 +104,159 @@ export class BridgeCommand extends Command {
         process.exit(1);
       }
 
-      // Setup source federation infrastructure
-      const sourceWitness = new WitnessAdapter(config.getWitnessConfig());
-      const sourceFreebird = new FreebirdAdapter(config.getFreebirdConfig());
-      const sourceGossip = new NullifierGossip({ witness: sourceWitness });
-
-      // Setup target federation infrastructure
-      const targetWitness = new WitnessAdapter({
-        gatewayUrl: targetGateway as string,
-        networkId: targetNetwork as string
-      });
-      const targetFreebird = new FreebirdAdapter(config.getFreebirdConfig());
-      const targetGossip = new NullifierGossip({ witness: targetWitness });
+      const { bridge, sourceWitness, sourceFreebird, sourceGossip, close } =
+        this.createBridge(config, journal, targetGateway as string, targetNetwork as string);
+
+      try {
+        // Recreate token
+        const token = ScarbuckToken.fromPersistentState(
+          {
+            id: storedToken.id,
+            amount: storedToken.amount,
+            secret: Crypto.fromHex(storedToken.secretKey),
+            spent: storedToken.spent,
+            createdAt: storedToken.created,
+            denominated: storedToken.denominated
+          },
+          sourceFreebird,
+          sourceWitness,
+          sourceGossip
+        );
+        bridgeId = Crypto.toHex(Crypto.hash(Crypto.fromHex(storedToken.secretKey), storedToken.id));
+
+        // Bridge the token
+        const recipientKey = { bytes: Crypto.fromHex(recipient as string) };
+        const bridgePkg = await bridge.bridgeToken(token, recipientKey);
+
+        // Mark token as spent
+        storage.markSpent(storedToken.id);
+
+        console.log('✅ Token bridged successfully!');
+        console.log('');
+        console.log('Bridge Details:');
+        console.log(`  Bridge ID:         ${bridgeId}`);
+        console.log(`  Token ID:          ${storedToken.id}`);
+        console.log(`  Amount:            ${storedToken.amount}`);
+        console.log(`  Source Federation: ${config.get('witness.networkId')}`);
+        console.log(`  Target Federation: ${targetNetwork}`);
+        console.log(`  Recipient:         ${recipient}`);
+        console.log('');
+        this.printPackage(bridgePkg);
+      } finally {
+        close();
+      }
 
-      // Recreate token
-      const token = ScarbuckToken.fromPersistentState(
-        {
-          id: storedToken.id,
-          amount: storedToken.amount,
-          secret: Crypto.fromHex(storedToken.secretKey),
-          spent: storedToken.spent,
-          createdAt: storedToken.created
-        },
-        sourceFreebird,
-        sourceWitness,
-        sourceGossip
-      );
+    } catch (error: any) {
+      console.error(`Failed to bridge token: ${error.message}`);
+      const entry = bridgeId ? journal.get(bridgeId) : undefined;
+      if (entry) {
+        this.markLocked(storage, entry);
+        console.error(`The bridge is journaled as ${entry.state}. Check it with:`);
+        console.error(`  scar bridge status ${bridgeId}`);
+      }
+      process.exit(1);
+    }
+  }
 
-      // Create bridge
-      const bridge = new FederationBridge({
-        sourceFederation: config.get('witness.networkId'),
-        targetFederation: targetNetwork as string,
-        sourceWitness,
-        targetWitness,
-        sourceGossip,
-        targetGossip,
-        sourceFreebird,
-        targetFreebird
-      });
+  /**
+   * Show journaled bridges, or one bridge in detail
+   */
+  private status(positional: string[]): void {
+    const journal = new FileBridgeJournal();
+    const id = positional[1];
 
-      // Bridge the token
-      const recipientKey = { bytes: Crypto.fromHex(recipient as string) };
-      const bridgePkg = await bridge.bridgeToken(token, recipientKey);
+    if (!id) {
+      const entries = journal.list();
+      console.log('');
+      if (entries.length === 0) {
+        console.log('No bridges in the journal.');
+        console.log('');
+        return;
+      }
+      for (const entry of entries.reverse()) {
+        const { lock } = entry;
+        console.log(`  ${entry.id.slice(0, 16)}  ${entry.state.padEnd(18)} ${String(lock.amount).padStart(8)}  ` +
+          `${lock.sourceFederation} -> ${lock.targetFederation}`);
+      }
+      console.log('');
+      console.log('Show one bridge with: scar bridge status <bridge-id>');
+      console.log('');
+      return;
+    }
 
-      // Mark token as spent
-      storage.markSpent(storedToken.id);
+    const entry = this.findEntry(journal, id);
+    const { lock } = entry;
+    console.log('');
+    console.log('Bridge Details:');
+    console.log(`  Bridge ID:         ${entry.id}`);
+    console.log(`  State:             ${entry.state}${entry.failedFrom ? ` (from ${entry.failedFrom})` : ''}`);
+    console.log(`  Token ID:          ${lock.sourceTokenId}`);
+    console.log(`  Amount:            ${lock.amount}`);
+    console.log(`  Source Federation: ${lock.sourceFederation}`);
+    console.log(`  Target Federation: ${lock.targetFederation}`);
+    console.log(`  Started:           ${new Date(entry.createdAt).toISOString()}`);
+    console.log(`  Updated:           ${new Date(entry.updatedAt).toISOString()}`);
+    if (entry.error) {
+      console.log(`  Last Error:        ${entry.error}`);
+    }
+    console.log('');
+    console.log('History:');
+    for (const step of entry.history) {
+      console.log(`  ${new Date(step.at).toISOString()}  ${step.state}`);
+    }
+    console.log('');
 
-      console.log('✅ Token bridged successfully!');
+    if (entry.state === 'target-timestamped') {
+      this.printPackage(journaledPackage(entry));
+    }
+    if (entry.state !== 'minted') {
+      console.log('Continue this bridge with:');
+      console.log(`  scar bridge resume ${entry.id.slice(0, 16)} --target-gateway <url>`);
       console.log('');
-      console.log('Bridge Details:');
-      console.log(`  Token ID:          ${storedToken.id}`);
-      console.log(`  Amount:            ${storedToken.amount}`);
-      console.log(`  Source Federation: ${config.get('witness.networkId')}`);
-      console.log(`  Target Federation: ${targetNetwork}`);
-      console.log(`  Recipient:         ${recipient}`);
+    }
+  }
+
+  /**
+   * Continue an interrupted bridge, or retry a failed one
+   */
+  private async resume(positional: string[], options: any): Promise<void> {
+    const id = this.requireArg(positional, 1, 'bridge-id');
+    const targetGateway = options['target-gateway'] || options.g;
+
+    if (!targetGateway) {
+      console.error('Error: Target federation gateway URL required (--target-gateway)');
+      process.exit(1);
+    }
+
+    const config = new ConfigManager();
+    const storage = new TokenStorage();
+    const journal = new FileBridgeJournal();
+
+    try {
+      const entry = this.findEntry(journal, id as string);
+
       console.log('');
-      console.log('Send this package to the recipient:');
+      console.log(`🌉 Resuming bridge ${entry.id.slice(0, 16)} (${entry.state})...`);
       console.log('');
-      console.log(JSON.stringify({
-        type: 'bridge',
-        sourceTokenId: bridgePkg.sourceTokenId,
-        sourceCreatedAt: bridgePkg.sourceCreatedAt,
-        sourceFederation: bridgePkg.sourceFederation,
-        targetFederation: bridgePkg.targetFederation,
-        amount: bridgePkg.amount,
-        commitment: Crypto.toHex(bridgePkg.commitment),
-        authToken: bridgePkg.authToken ? Crypto.toHex(bridgePkg.authToken) : undefined,
-        nullifier: Crypto.toHex(bridgePkg.nullifier),
-        sourceProof: bridgePkg.sourceProof,
-        targetProof: bridgePkg.targetProof,
-        ownershipProof: bridgePkg.ownershipProof ? Crypto.toHex(bridgePkg.ownershipProof) : undefined
-      }, null, 2));
+
+      const { bridge, close } =
+        this.createBridge(config, journal, targetGateway as string, entry.lock.targetFederation);
+      let resumed: BridgeJournalEntry;
+      try {
+        resumed = entry.state === 'failed' ? await bridge.retry(entry.id) : await bridge.resume(entry.id);
+      } finally {
+        this.markLocked(storage, journal.get(entry.id) ?? entry);
+        close();
+      }
+
+      console.log(`✅ Bridge is ${resumed.state}`);
       console.log('');
+      if (resumed.state === 'target-timestamped') {
+        this.printPackage(journaledPackage(resumed));
+      }
 
     } catch (error: any) {
-      console.error(`Failed to bridge token: ${error.message}`);
+      console.error(`Failed to resume bridge: ${error.message}`);
       process.exit(1);
     }
   }
@@ -272,6 +369,7 @@ export class BridgeCommand extends Command {
         wallet: wallet as string,
         created: persisted.createdAt ?? Date.now(),
         spent: persisted.spent,
+        denominated: persisted.denominated,
         metadata: {
           type: 'received',
           source: 'bridge',
@@ -295,6 +393,91 @@ export class BridgeCommand extends Command {
     }
   }
 
+  /**
+   * Build a bridge from the configured federation to a target federation
+   */
+  private createBridge(
+    config: ConfigManager,
+    journal: FileBridgeJournal,
+    targetGateway: string,
+    targetNetwork: string
+  ) {
+    // Setup source federation infrastructure
+    const sourceWitness = new WitnessAdapter(config.getWitnessConfig());
+    const sourceFreebird = new FreebirdAdapter(config.getFreebirdConfig());
+    const sourceGossip = new NullifierGossip({ witness: sourceWitness });
+
+    // Setup target federation infrastructure
+    const targetWitness = new WitnessAdapter({
+      gatewayUrl: targetGateway,
+      networkId: targetNetwork
+    });
+    const targetFreebird = new FreebirdAdapter(config.getFreebirdConfig());
+    const targetGossip = new NullifierGossip({ witness: targetWitness });
+
+    const bridge = new FederationBridge({
+      sourceFederation: config.get('witness.networkId'),
+      targetFederation: targetNetwork,
+      sourceWitness,
+      targetWitness,
+      sourceGossip,
+      targetGossip,
+      sourceFreebird,
+      targetFreebird,
+      journal
+    });
+
+    const close = () => {
+      sourceGossip.destroy();
+      targetGossip.destroy();
+    };
+    return { bridge, sourceWitness, sourceFreebird, sourceGossip, close };
+  }
+
+  /**
+   * Mark the source token spent once its bridge has locked it
+   */
+  private markLocked(storage: TokenStorage, entry: BridgeJournalEntry): void {
+    if (LOCKED_STATES.includes(entry.state) && !storage.getToken(entry.lock.sourceTokenId)?.spent) {
+      storage.markSpent(entry.lock.sourceTokenId);
+    }
+  }
+
+  /**
+   * Find a journaled bridge by id or id prefix
+   */
+  private findEntry(journal: FileBridgeJournal, id: string): BridgeJournalEntry {
+    const matches = journal.list().filter(entry => entry.id.startsWith(id.toLowerCase()));
+    if (matches.length !== 1) {
+      console.error(matches.length === 0 ? `Error: No bridge found: ${id}` : `Error: Bridge ID is ambiguous: ${id}`);
+      process.exit(1);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Print the package the recipient claims with
+   */
+  private printPackage(pkg: BridgePackage): void {
+    console.log('Send this package to the recipient:');
+    console.log('');
+    console.log(JSON.stringify({
+      type: 'bridge',
+      sourceTokenId: pkg.sourceTokenId,
+      sourceCreatedAt: pkg.sourceCreatedAt,
+      sourceFederation: pkg.sourceFederation,
+      targetFederation: pkg.targetFederation,
+      amount: pkg.amount,
+      commitment: Crypto.toHex(pkg.commitment),
+      authToken: pkg.authToken ? Crypto.toHex(pkg.authToken) : undefined,
+      nullifier: Crypto.toHex(pkg.nullifier),
+      sourceProof: pkg.sourceProof,
+      targetProof: pkg.targetProof,
+      ownershipProof: pkg.ownershipProof ? Crypto.toHex(pkg.ownershipProof) : undefined
+    }, null, 2));
+    console.log('');
+  }
+
   /**
    * Load package from file
    */
@@ -317,8 +500,10 @@ USAGE:
 SUBCOMMANDS:
   transfer <token-id> <recipient-pubkey>    Bridge token to target federation
   claim <package-file> <wallet-name>        Claim bridged token
+  status [bridge-id]                        Show journaled bridges
+  resume <bridge-id>                        Continue an interrupted or failed bridge
 
-OPTIONS (transfer):
+OPTIONS (transfer, resume):
   -g, --target-gateway <url>     Target federation Witness gateway URL
   -n, --target-network <id>      Target federation network ID
   -h, --help                     Show this help message
@@ -332,6 +517,8 @@ NOTES:
   - Equivalent tokens are minted in target federation
   - Recipient must be on target federation to claim
   - Both federations must be accessible for bridge to work
+  - Outgoing bridges are journaled in ~/.scarcity/bridges.json; a bridge
+    interrupted after the source lock is finished with resume
 
 EXAMPLES:
   # Bridge a token to another federation
@@ -339,6 +526,10 @@ EXAMPLES:
     --target-gateway http://fed2.example.com:8080 \\
     --target-network scarcity-federation-2
 
+  # Finish a bridge that was interrupted
+  scar bridge status
+  scar bridge resume 3f2a9c... --target-gateway http://fed2.example.com:8080
+
   # Claim a bridged token (from target federation)
   scar bridge claim bridge-package.json my-wallet \\
     --source-gateway http://fed1.example.com:8080
@@ -5,8 +5,20 @@
 import { Command } from '../command.js';
 import { InfrastructureManager } from '../infrastructure.js';
 import { TokenStorage } from '../token-store.js';
+import { WalletManager } from '../wallet.js';
+import {
+  HTLCWatchtower,
+  trackHTLC,
+  learnPreimage,
+  trackedPackage,
+  swapPreimages,
+  type HTLCWatchEvent
+} from '../htlc-watchtower.js';
+import { FileSwapStore } from '../../swap.js';
 import { ScarbuckToken } from '../../token.js';
 import { Crypto } from '../../crypto.js';
+import { createHashlock, isHashLocked, isTimeLocked, preimageMatches, settlementWindow } from '../../htlc.js';
+import type { Attestation, HTLCCondition, HTLCPackage } from '../../types.js';
 
 export class HTLCCommand extends Command {
   constructor() {
@@ -41,6 +53,26 @@ export class HTLCCommand extends Command {
         await this.refund(positional, options);
         break;
 
+      case 'secret':
+        this.secret();
+        break;
+
+      case 'track':
+        await this.track(positional, options);
+        break;
+
+      case 'preimage':
+        this.preimage(positional);
+        break;
+
+      case 'pending':
+        this.pending(options);
+        break;
+
+      case 'watch':
+        await this.watch(options);
+        break;
+
       default:
         console.error(`Unknown subcommand: ${subcommand}`);
         this.showHelp();
@@ -56,13 +88,14 @@ export class HTLCCommand extends Command {
     const recipient = this.requireArg(positional, 2, 'recipient-pubkey');
     const hashLock = options['hash-lock'] || options.H;
     const timeLock = options['time-lock'] || options.T;
+    const refundKeyHex = options['refund-key'] as string | undefined;
 
     if (!hashLock && !timeLock) {
       console.error('Error: Either --hash-lock or --time-lock (or both) must be specified');
       process.exit(1);
     }
 
-    // Parse time lock
+    // Parse time lock: Unix seconds on the command line, ms in the condition
     let timeLockValue: number | undefined;
     if (timeLock) {
       timeLockValue = parseInt(timeLock as string, 10);
@@ -70,6 +103,10 @@ export class HTLCCommand extends Command {
         console.error(`Error: Invalid time-lock value: ${timeLock}`);
         process.exit(1);
       }
+      if (timeLockValue * 1000 <= Date.now()) {
+        console.error(`Error: Time lock ${timeLock} is in the past`);
+        process.exit(1);
+      }
     }
 
     // Load infrastructure and storage
@@ -103,7 +140,8 @@ export class HTLCCommand extends Command {
           amount: storedToken.amount,
           secret: Crypto.fromHex(storedToken.secretKey),
           spent: storedToken.spent,
-          createdAt: storedToken.created
+          createdAt: storedToken.created,
+          denominated: storedToken.denominated
         },
         freebird,
         witness,
@@ -111,23 +149,30 @@ export class HTLCCommand extends Command {
       );
 
       // Create HTLC condition
-      const condition: any = {
-        type: hashLock ? 'hash' : 'time'
+      const condition: HTLCCondition = {
+        type: hashLock && timeLockValue !== undefined ? 'hash-time' : hashLock ? 'hash' : 'time',
+        hashlock: hashLock ? hashLock as string : undefined,
+        timelock: timeLockValue !== undefined ? timeLockValue * 1000 : undefined
       };
-      if (hashLock) {
-        condition.hashlock = hashLock as string;
-      }
-      if (timeLockValue !== undefined) {
-        condition.timelock = timeLockValue;
-      }
+
+      // Refunds go back to the token's wallet unless another key is given
+      const refundKey = !isTimeLocked(condition) ? undefined
+        : refundKeyHex ? { bytes: Crypto.fromHex(refundKeyHex) }
+        : new WalletManager().getPublicKey(storedToken.wallet);
 
       // Create HTLC
       const recipientKey = { bytes: Crypto.fromHex(recipient as string) };
-      const htlcPkg = await token.transferHTLC(recipientKey, condition);
+      const htlcPkg = await token.transferHTLC(recipientKey, condition, refundKey);
 
       // Mark token as spent
       storage.markSpent(storedToken.id);
 
+      // Let the watchtower refund it if the wallet holds the refund key
+      const watched = refundKey !== undefined && !refundKeyHex;
+      if (watched) {
+        trackHTLC(storage, htlcPkg, 'sender', storedToken.wallet);
+      }
+
       console.log('✅ HTLC created successfully!');
       console.log('');
       console.log('HTLC Details:');
@@ -138,23 +183,13 @@ export class HTLCCommand extends Command {
         console.log(`  Hash Lock:  ${hashLock}`);
       }
       if (timeLockValue !== undefined) {
-        console.log(`  Time Lock:  ${timeLockValue} seconds`);
+        console.log(`  Time Lock:  ${new Date(timeLockValue * 1000).toISOString()}`);
+        console.log(`  Refund Key: ${Crypto.toHex(refundKey!.bytes)}`);
       }
       console.log('');
       console.log('Send this package to the recipient:');
       console.log('');
-      console.log(JSON.stringify({
-        type: 'htlc',
-        tokenId: htlcPkg.tokenId,
-        amount: htlcPkg.amount,
-        sourceCreatedAt: htlcPkg.sourceCreatedAt,
-        commitment: Crypto.toHex(htlcPkg.commitment),
-        authToken: htlcPkg.authToken ? Crypto.toHex(htlcPkg.authToken) : undefined,
-        condition: htlcPkg.condition,
-        nullifier: Crypto.toHex(htlcPkg.nullifier),
-        proof: htlcPkg.proof,
-        ownershipProof: htlcPkg.ownershipProof ? Crypto.toHex(htlcPkg.ownershipProof) : undefined
-      }, null, 2));
+      console.log(JSON.stringify(toPackageJson(htlcPkg), null, 2));
       console.log('');
 
       if (hashLock) {
@@ -162,6 +197,13 @@ export class HTLCCommand extends Command {
         console.log('   The recipient will need it to claim this HTLC.');
         console.log('');
       }
+      if (watched) {
+        console.log('"scar htlc watch" refunds this HTLC after the time lock if it is not claimed.');
+        console.log('');
+      } else if (timeLockValue !== undefined) {
+        console.log('Keep this package: after the time lock it is needed to refund.');
+        console.log('');
+      }
 
       await infraMgr.cleanup();
 
@@ -177,47 +219,28 @@ export class HTLCCommand extends Command {
    */
   private async claim(positional: string[], options: any): Promise<void> {
     const packagePath = this.requireArg(positional, 1, 'package-file');
-    const wallet = this.requireArg(positional, 2, 'wallet-name');
+    const walletName = (positional[2] ?? options.wallet) as string | undefined;
     const preimage = options.preimage || options.p;
 
     // Load package
     const pkg = await this.loadPackage(packagePath as string);
 
-    if (pkg.type !== 'htlc') {
-      console.error('Error: Package is not an HTLC');
-      process.exit(1);
-    }
-
-    if (!pkg.condition) {
-      console.error('Error: Package missing HTLC condition');
-      process.exit(1);
-    }
-
     // Check if hash lock exists and preimage is provided
-    if (pkg.condition.hashlock && !preimage) {
+    if (isHashLocked(pkg.condition) && !preimage) {
       console.error('Error: This HTLC has a hash lock. Provide --preimage to claim.');
       process.exit(1);
     }
 
-    // Verify preimage if provided — must match the encoding used in token.ts:
-    // token.ts does: Crypto.hashString(Crypto.toHex(preimageBytes))
-    // where preimageBytes = Crypto.fromHex(preimage). So we replicate that here.
-    if (preimage && pkg.condition.hashlock) {
-      const preimageHex = Crypto.toHex(Crypto.fromHex(preimage as string));
-      const preimageHash = Crypto.hashString(preimageHex);
-      if (preimageHash !== pkg.condition.hashlock) {
-        console.error('Error: Invalid preimage for hash lock');
-        process.exit(1);
-      }
+    // Verify preimage if provided (hex, as printed by "htlc secret")
+    if (preimage && isHashLocked(pkg.condition) && !preimageMatches(pkg.condition, Crypto.fromHex(preimage as string))) {
+      console.error('Error: Invalid preimage for hash lock');
+      process.exit(1);
     }
 
     // Check time lock
-    if (pkg.condition.timelock !== undefined) {
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (currentTime >= pkg.condition.timelock) {
-        console.error('Error: HTLC has expired. Use "htlc refund" instead.');
-        process.exit(1);
-      }
+    if (settlementWindow(pkg.condition) === 'refund') {
+      console.error('Error: HTLC has expired. Use "htlc refund" instead.');
+      process.exit(1);
     }
 
     // Load infrastructure and storage
@@ -232,29 +255,11 @@ export class HTLCCommand extends Command {
       await infraMgr.initialize();
       const { witness, gossip, freebird } = infraMgr.get();
 
-      // Import wallet
-      const wallets = await import('../wallet.js');
-      const walletMgr = new wallets.WalletManager();
-      const walletData = walletMgr.getWallet(wallet as string);
-
-      if (!walletData) {
-        console.error(`Error: Wallet not found: ${wallet}`);
-        process.exit(1);
-      }
+      const walletData = new WalletManager().getWallet(walletName);
 
       // Receive HTLC
       const token = await ScarbuckToken.receiveHTLC(
-        {
-          tokenId: pkg.tokenId,
-          amount: pkg.amount,
-          sourceCreatedAt: pkg.sourceCreatedAt,
-          commitment: Crypto.fromHex(pkg.commitment),
-          authToken: pkg.authToken ? Crypto.fromHex(pkg.authToken) : undefined,
-          condition: pkg.condition,
-          nullifier: Crypto.fromHex(pkg.nullifier),
-          proof: pkg.proof,
-          ownershipProof: pkg.ownershipProof ? Crypto.fromHex(pkg.ownershipProof) : undefined
-        },
+        pkg,
         Crypto.fromHex(walletData.secretKey),
         preimage ? Crypto.fromHex(preimage as string) : undefined,
         freebird,
@@ -269,22 +274,28 @@ export class HTLCCommand extends Command {
         id: persisted.id,
         amount: persisted.amount,
         secretKey: Crypto.toHex(persisted.secret),
-        wallet: wallet as string,
+        wallet: walletData.name,
         created: persisted.createdAt ?? Date.now(),
         spent: persisted.spent,
+        denominated: persisted.denominated,
         metadata: {
           type: 'received',
           source: 'htlc',
           notes: preimage ? `Claimed with preimage` : `Claimed (time-locked)`
         }
       });
+      storage.updateHTLC(Crypto.toHex(pkg.nullifier), {
+        status: 'claimed',
+        settledAt: Date.now(),
+        tokenId: persisted.id
+      });
 
       console.log('✅ HTLC claimed successfully!');
       console.log('');
       console.log('Token Details:');
       console.log(`  Token ID: ${metadata.id}`);
       console.log(`  Amount:   ${metadata.amount}`);
-      console.log(`  Wallet:   ${wallet}`);
+      console.log(`  Wallet:   ${walletData.name}`);
       console.log('');
 
       await infraMgr.cleanup();
@@ -301,25 +312,19 @@ export class HTLCCommand extends Command {
    */
   private async refund(positional: string[], options: any): Promise<void> {
     const packagePath = this.requireArg(positional, 1, 'package-file');
-    const wallet = this.requireArg(positional, 2, 'wallet-name');
+    const walletName = (positional[2] ?? options.wallet) as string | undefined;
 
     // Load package
     const pkg = await this.loadPackage(packagePath as string);
 
-    if (pkg.type !== 'htlc') {
-      console.error('Error: Package is not an HTLC');
-      process.exit(1);
-    }
-
-    if (!pkg.condition || pkg.condition.timelock === undefined) {
+    if (!isTimeLocked(pkg.condition)) {
       console.error('Error: This HTLC does not have a time lock and cannot be refunded');
       process.exit(1);
     }
 
     // Check if time lock has expired
-    const currentTime = Math.floor(Date.now() / 1000);
-    if (currentTime < pkg.condition.timelock) {
-      const remaining = pkg.condition.timelock - currentTime;
+    if (settlementWindow(pkg.condition) === 'claim') {
+      const remaining = Math.ceil((pkg.condition.timelock! - Date.now()) / 1000);
       console.error(`Error: HTLC has not expired yet. ${remaining} seconds remaining.`);
       process.exit(1);
     }
@@ -336,29 +341,11 @@ export class HTLCCommand extends Command {
       await infraMgr.initialize();
       const { witness, gossip, freebird } = infraMgr.get();
 
-      // Import wallet
-      const wallets = await import('../wallet.js');
-      const walletMgr = new wallets.WalletManager();
-      const walletData = walletMgr.getWallet(wallet as string);
-
-      if (!walletData) {
-        console.error(`Error: Wallet not found: ${wallet}`);
-        process.exit(1);
-      }
+      const walletData = new WalletManager().getWallet(walletName);
 
       // Refund HTLC
       const token = await ScarbuckToken.refundHTLC(
-        {
-          tokenId: pkg.tokenId,
-          amount: pkg.amount,
-          sourceCreatedAt: pkg.sourceCreatedAt,
-          commitment: Crypto.fromHex(pkg.commitment),
-          authToken: pkg.authToken ? Crypto.fromHex(pkg.authToken) : undefined,
-          condition: pkg.condition,
-          nullifier: Crypto.fromHex(pkg.nullifier),
-          proof: pkg.proof,
-          ownershipProof: pkg.ownershipProof ? Crypto.fromHex(pkg.ownershipProof) : undefined
-        },
+        pkg,
         Crypto.fromHex(walletData.secretKey),
         freebird,
         witness,
@@ -372,22 +359,28 @@ export class HTLCCommand extends Command {
         id: persisted.id,
         amount: persisted.amount,
         secretKey: Crypto.toHex(persisted.secret),
-        wallet: wallet as string,
+        wallet: walletData.name,
         created: persisted.createdAt ?? Date.now(),
         spent: persisted.spent,
+        denominated: persisted.denominated,
         metadata: {
           type: 'received',
           source: 'htlc-refund',
           notes: 'Refunded from expired HTLC'
         }
       });
+      storage.updateHTLC(Crypto.toHex(pkg.nullifier), {
+        status: 'refunded',
+        settledAt: Date.now(),
+        tokenId: persisted.id
+      });
 
       console.log('✅ HTLC refunded successfully!');
       console.log('');
       console.log('Token Details:');
       console.log(`  Token ID: ${metadata.id}`);
       console.log(`  Amount:   ${metadata.amount}`);
-      console.log(`  Wallet:   ${wallet}`);
+      console.log(`  Wallet:   ${walletData.name}`);
       console.log('');
 
       await infraMgr.cleanup();
@@ -400,13 +393,155 @@ export class HTLCCommand extends Command {
   }
 
   /**
-   * Load package from file
+   * Generate a preimage and its hash lock
+   */
+  private secret(): void {
+    const preimage = Crypto.randomBytes(32);
+
+    console.log('');
+    console.log(`Preimage:  ${Crypto.toHex(preimage)}`);
+    console.log(`Hash Lock: ${createHashlock(preimage)}`);
+    console.log('');
+    console.log('Lock the HTLC with the hash lock; keep the preimage secret until you claim.');
+    console.log('');
+  }
+
+  /**
+   * Track a received HTLC so the watchtower claims it
+   */
+  private async track(positional: string[], options: any): Promise<void> {
+    const packagePath = this.requireArg(positional, 1, 'package-file');
+    const walletName = (positional[2] ?? options.wallet) as string | undefined;
+    const preimage = (options.preimage || options.p) as string | undefined;
+
+    const pkg = await this.loadPackage(packagePath as string);
+
+    try {
+      const wallet = new WalletManager().getWallet(walletName);
+      const htlc = trackHTLC(
+        new TokenStorage(),
+        pkg,
+        'recipient',
+        wallet.name,
+        preimage ? Crypto.fromHex(preimage) : undefined
+      );
+
+      console.log('');
+      console.log('👀 Tracking HTLC');
+      console.log(`  Nullifier: ${htlc.id}`);
+      console.log(`  Amount:    ${htlc.amount}`);
+      console.log(`  Wallet:    ${htlc.wallet}`);
+      if (isHashLocked(pkg.condition) && !preimage) {
+        console.log('');
+        console.log('It is claimed once the preimage is known: add it with "scar htlc preimage",');
+        console.log('or let a swap reveal it.');
+      }
+      console.log('');
+    } catch (error: any) {
+      console.error(`Failed to track HTLC: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Record a preimage for the tracked HTLCs it opens
+   */
+  private preimage(positional: string[]): void {
+    const preimage = this.requireArg(positional, 1, 'preimage');
+    const opened = learnPreimage(new TokenStorage(), Crypto.fromHex(preimage));
+
+    console.log('');
+    if (opened === 0) {
+      console.log('The preimage opens none of the pending HTLCs.');
+    } else {
+      console.log(`✅ The preimage opens ${opened} pending HTLC${opened === 1 ? '' : 's'}.`);
+      console.log('   "scar htlc watch" claims them.');
+    }
+    console.log('');
+  }
+
+  /**
+   * List tracked HTLCs
+   */
+  private pending(options: any): void {
+    const showAll = options.all || options.a;
+    const htlcs = new TokenStorage().listHTLCs({ wallet: options.wallet as string | undefined })
+      .filter(htlc => showAll || htlc.status === 'pending');
+
+    console.log('');
+    if (htlcs.length === 0) {
+      console.log(showAll ? 'No tracked HTLCs.' : 'No pending HTLCs.');
+      console.log('');
+      return;
+    }
+
+    for (const htlc of htlcs) {
+      const condition = trackedPackage(htlc).condition!;
+      const deadline = condition.timelock ? new Date(condition.timelock).toISOString() : 'none';
+      const waiting = htlc.status !== 'pending' ? htlc.status
+        : htlc.role === 'sender' ? 'refund after time lock'
+        : isHashLocked(condition) && !htlc.preimage ? 'preimage' : 'claim';
+      console.log(`  ${htlc.id.slice(0, 16)}  ${String(htlc.amount).padStart(8)}  ${htlc.role.padEnd(9)}  ` +
+        `${htlc.wallet.padEnd(12)}  time lock ${deadline}  ${waiting}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * Claim and refund tracked HTLCs as they become settleable
+   */
+  private async watch(options: any): Promise<void> {
+    const once = options.once;
+    const intervalSeconds = options.interval ? parseInt(options.interval as string, 10) : 30;
+    if (isNaN(intervalSeconds) || intervalSeconds <= 0) {
+      console.error(`Error: Invalid interval: ${options.interval}`);
+      process.exit(1);
+    }
+
+    const infraMgr = new InfrastructureManager();
+    const storage = new TokenStorage();
+
+    try {
+      await infraMgr.initialize();
+      const { witness, gossip, freebird } = infraMgr.get();
+
+      const watchtower = new HTLCWatchtower(storage, new WalletManager(), { auth: freebird, witness, gossip }, {
+        sources: [swapPreimages(new FileSwapStore(), gossip)],
+        intervalMs: intervalSeconds * 1000
+      });
+      watchtower.onEvent(notify);
+
+      console.log('');
+      console.log(`👀 Watching ${storage.listHTLCs({ status: 'pending' }).length} pending HTLC(s)...`);
+      console.log('');
+
+      await watchtower.check();
+      if (once) {
+        await infraMgr.cleanup();
+        return;
+      }
+
+      console.log(`Checking every ${intervalSeconds}s. Press Ctrl+C to stop.`);
+      watchtower.start();
+      await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+      watchtower.stop();
+      await infraMgr.cleanup();
+
+    } catch (error: any) {
+      console.error(`HTLC watch failed: ${error.message}`);
+      await infraMgr.cleanup();
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Load an HTLC package from file
    */
-  private async loadPackage(path: string): Promise<any> {
+  private async loadPackage(path: string): Promise<HTLCPackage> {
     const fs = await import('fs/promises');
     try {
       const data = await fs.readFile(path, 'utf-8');
-      return JSON.parse(data);
+      return fromPackageJson(JSON.parse(data));
     } catch (error: any) {
       console.error(`Failed to load package: ${error.message}`);
       process.exit(1);
@@ -420,40 +555,175 @@ USAGE:
 
 SUBCOMMANDS:
   create <token-id> <recipient-pubkey>    Create an HTLC
-  claim <package-file> <wallet-name>      Claim an HTLC
-  refund <package-file> <wallet-name>     Refund an expired HTLC
+  claim <package-file> [wallet-name]      Claim an HTLC
+  refund <package-file> [wallet-name]     Refund an expired HTLC
+  secret                                  Generate a preimage and hash lock
+  track <package-file> [wallet-name]      Watch a received HTLC to claim it
+  preimage <hex>                          Record a preimage for tracked HTLCs
+  pending                                 List tracked HTLCs
+  watch                                   Claim and refund tracked HTLCs automatically
 
 OPTIONS (create):
-  -H, --hash-lock <hash>     Hash lock (SHA-256 hex)
+  -H, --hash-lock <hash>     Hash lock (from "htlc secret")
   -T, --time-lock <seconds>  Time lock (Unix timestamp)
+  --refund-key <pubkey>      Refund key for time locks (default: the token's wallet)
   -h, --help                 Show this help message
 
-OPTIONS (claim):
-  -p, --preimage <string>    Hash preimage for hash-locked HTLC
+OPTIONS (claim, refund, track):
+  -p, --preimage <hex>       Hash preimage for hash-locked HTLC (claim, track)
+  --wallet <name>            Wallet to receive into (default: default wallet)
   -h, --help                 Show this help message
 
+OPTIONS (pending, watch):
+  --wallet <name>            Only list this wallet's HTLCs (pending)
+  -a, --all                  Include settled HTLCs (pending)
+  --interval <seconds>       Time between checks (watch, default: 30)
+  --once                     Check once and exit (watch)
+
 NOTES:
   - HTLCs require at least one lock (hash or time)
-  - Hash lock requires SHA-256 hash of a secret preimage
+  - With both locks the recipient claims with the preimage before the
+    time lock, and the refund key refunds from the time lock on
   - Time lock is a Unix timestamp (seconds since epoch)
-  - Recipient can claim before timeout with valid preimage
-  - Sender can refund after timeout expires
+  - A hash lock alone can never be refunded
+  - Creating publishes the token's nullifier; claiming or refunding publishes
+    the HTLC's settlement nullifier, so only one of them can happen
+  - HTLCs created with the wallet's refund key are tracked automatically;
+    "htlc watch" refunds them after the time lock and claims tracked
+    received HTLCs once their preimage is known (also from swap reveals)
 
 EXAMPLES:
+  # Generate a preimage and hash lock
+  scar htlc secret
+
   # Create hash-locked HTLC
   scar htlc create abc123 deadbeef... --hash-lock 9f86d081...
 
   # Create time-locked HTLC (expires in 1 hour)
   scar htlc create abc123 deadbeef... --time-lock $(date -d '+1 hour' +%s)
 
-  # Create dual-locked HTLC
-  scar htlc create abc123 deadbeef... -H 9f86d081... -T 1735689600
+  # Create hash-and-time-locked HTLC (atomic swaps)
+  scar htlc create abc123 deadbeef... -H 9f86d081... -T $(date -d '+1 day' +%s)
 
   # Claim HTLC with preimage
-  scar htlc claim htlc-package.json my-wallet --preimage "secret"
+  scar htlc claim htlc-package.json my-wallet --preimage 5e8b2c...
 
   # Refund expired HTLC
   scar htlc refund htlc-package.json my-wallet
+
+  # Watch a received HTLC and settle everything tracked in the background
+  scar htlc track htlc-package.json my-wallet
+  scar htlc watch --interval 60
 `);
   }
 }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const EVENT_ICONS: Record<HTLCWatchEvent['type'], string> = {
+  claimed: '✅',
+  refunded: '💸',
+  settled: 'ℹ️ ',
+  expiring: '⚠️ ',
+  expired: '⌛',
+  failed: '❌'
+};
+
+function notify(event: HTLCWatchEvent): void {
+  const time = new Date(event.at).toLocaleTimeString();
+  console.log(`${EVENT_ICONS[event.type]} [${time}] ${event.htlc.slice(0, 16)} (${event.wallet}): ${event.message}`);
+  if (event.tokenId) {
+    console.log(`   Token ID: ${event.tokenId}`);
+  }
+}
+
+function toPackageJson(pkg: HTLCPackage): Record<string, unknown> {
+  return {
+    type: 'htlc',
+    tokenId: pkg.tokenId,
+    amount: pkg.amount,
+    sourceCreatedAt: pkg.sourceCreatedAt,
+    commitment: Crypto.toHex(pkg.commitment),
+    authToken: pkg.authToken ? Crypto.toHex(pkg.authToken) : undefined,
+    condition: pkg.condition,
+    refundPublicKey: pkg.refundPublicKey ? Crypto.toHex(pkg.refundPublicKey.bytes) : undefined,
+    nullifier: Crypto.toHex(pkg.nullifier),
+    proof: pkg.proof,
+    ownershipProof: pkg.ownershipProof ? Crypto.toHex(pkg.ownershipProof) : undefined
+  };
+}
+
+/**
+ * Parse package JSON from toPackageJson
+ *
+ * @throws Error naming the first missing or malformed field
+ */
+function fromPackageJson(json: unknown): HTLCPackage {
+  if (!isObject(json) || json.type !== 'htlc') {
+    throw new Error('Package is not an HTLC');
+  }
+  return {
+    tokenId: string(json.tokenId, 'tokenId'),
+    amount: number(json.amount, 'amount'),
+    sourceCreatedAt: number(json.sourceCreatedAt, 'sourceCreatedAt'),
+    commitment: bytes(json.commitment, 'commitment'),
+    authToken: json.authToken !== undefined ? bytes(json.authToken, 'authToken') : undefined,
+    condition: condition(json.condition),
+    refundPublicKey: json.refundPublicKey !== undefined
+      ? { bytes: bytes(json.refundPublicKey, 'refundPublicKey') }
+      : undefined,
+    nullifier: bytes(json.nullifier, 'nullifier'),
+    proof: object(json.proof, 'proof') as unknown as Attestation, // Verified when the package is claimed or refunded
+    ownershipProof: json.ownershipProof !== undefined ? bytes(json.ownershipProof, 'ownershipProof') : undefined
+  };
+}
+
+function condition(value: unknown): HTLCCondition {
+  const json = object(value, 'condition');
+  if (json.type !== 'hash' && json.type !== 'time' && json.type !== 'hash-time') {
+    throw new Error(`condition.type must be hash, time or hash-time, got ${String(json.type)}`);
+  }
+  const hashlock = json.hashlock !== undefined ? string(json.hashlock, 'condition.hashlock') : undefined;
+  const timelock = json.timelock !== undefined ? number(json.timelock, 'condition.timelock') : undefined;
+  if (json.type !== 'time' && hashlock === undefined) {
+    throw new Error('condition.hashlock is missing');
+  }
+  if (json.type !== 'hash' && timelock === undefined) {
+    throw new Error('condition.timelock is missing');
+  }
+  return { type: json.type, hashlock, timelock };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown, field: string): Record<string, unknown> {
+  if (!isObject(value)) {
+    throw new Error(`${field} must be an object`);
+  }
+  return value;
+}
+
+function string(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  return value;
+}
+
+function number(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${field} must be a finite number`);
+  }
+  return value;
+}
+
+function bytes(value: unknown, field: string): Uint8Array {
+  if (typeof value !== 'string' || !/^([0-9a-f]{2})*$/i.test(value)) {
+    throw new Error(`${field} must be a hex string`);
+  }
+  return Crypto.fromHex(value);
+}
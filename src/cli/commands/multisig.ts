@@ -0,0 +1,362 @@
+/**
+ * Multisig command - m-of-n locked tokens with offline approvals
+ */
+
+import { Command } from '../command.js';
+import { InfrastructureManager } from '../infrastructure.js';
+import { TokenStorage } from '../token-store.js';
+import { WalletManager } from '../wallet.js';
+import { ScarbuckToken } from '../../token.js';
+import { Crypto } from '../../crypto.js';
+import { encodeBearerString, decodeBearerString } from '../../codec/bearer-string.js';
+import { multiSigKey, approveMultiSig, approvingKeys } from '../../multisig.js';
+import type { MultiSigPackage, PublicKey } from '../../types.js';
+
+/** An approval as passed between keyholders */
+interface ApprovalFile {
+  type: 'multisig-approval';
+  lock: string; // Nullifier of the lock, hex
+  recipient: string; // Recipient public key, hex
+  key: string; // Approving ownership key, hex
+  approval: string; // Ownership proof, hex
+}
+
+export class MultiSigCommand extends Command {
+  constructor() {
+    super('multisig', 'Multi-signature (m-of-n) locked tokens');
+  }
+
+  async execute(args: string[]): Promise<void> {
+    const { positional, options } = this.parseArgs(args);
+
+    if (options.help || options.h) {
+      this.showHelp();
+      return;
+    }
+
+    const subcommand = positional[0];
+
+    if (!subcommand) {
+      this.showHelp();
+      return;
+    }
+
+    const infraMgr = new InfrastructureManager();
+
+    try {
+      switch (subcommand) {
+        case 'key':
+          this.key(positional, options);
+          break;
+
+        case 'lock':
+          await this.lock(infraMgr, positional, options);
+          break;
+
+        case 'approve':
+          await this.approve(positional, options);
+          break;
+
+        case 'status':
+          await this.status(positional);
+          break;
+
+        case 'spend':
+          await this.spend(infraMgr, positional, options);
+          break;
+
+        default:
+          console.error(`Unknown subcommand: ${subcommand}`);
+          this.showHelp();
+          process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`Multisig ${subcommand} failed: ${error.message}`);
+      await infraMgr.cleanup();
+      process.exit(1);
+    }
+
+    await infraMgr.cleanup();
+
+    // Force exit after cleanup to prevent hanging
+    setTimeout(() => {
+      process.exit(0);
+    }, 100);
+  }
+
+  /**
+   * Print the key a wallet is listed in policies with
+   */
+  private key(positional: string[], options: any): void {
+    const wallet = new WalletManager().getWallet(positional[1] ?? options.wallet);
+
+    console.log('');
+    console.log(`Multisig key (${wallet.name}):`);
+    console.log(`  ${Crypto.toHex(multiSigKey(Crypto.fromHex(wallet.secretKey)))}`);
+    console.log('');
+    console.log('Share this key to be listed in a multisig policy. It is not your wallet public key.');
+    console.log('');
+  }
+
+  /**
+   * Lock a token to an m-of-n policy
+   */
+  private async lock(infraMgr: InfrastructureManager, positional: string[], options: any): Promise<void> {
+    const tokenId = this.requireArg(positional, 1, 'token-id');
+    const threshold = parseInt(this.requireOption(options, 'threshold'), 10);
+    const keys = this.requireOption(options, 'keys').split(',').map(key => Crypto.fromHex(key.trim()));
+
+    const storage = new TokenStorage();
+    const storedToken = storage.getToken(tokenId);
+    if (!storedToken) {
+      throw new Error(`Token not found: ${tokenId}`);
+    }
+    if (storedToken.spent) {
+      throw new Error('Token already spent');
+    }
+
+    console.log('');
+    console.log(`🔐 Locking token to a ${threshold}-of-${keys.length} policy...`);
+    console.log('');
+
+    await infraMgr.initialize();
+    const { witness, gossip, freebird } = infraMgr.get();
+
+    const token = ScarbuckToken.fromPersistentState(
+      {
+        id: storedToken.id,
+        amount: storedToken.amount,
+        secret: Crypto.fromHex(storedToken.secretKey),
+        spent: storedToken.spent,
+        createdAt: storedToken.created,
+        denominated: storedToken.denominated
+      },
+      freebird,
+      witness,
+      gossip
+    );
+    const pkg = await token.transferMultiSig({ threshold, keys });
+    storage.markSpent(storedToken.id);
+
+    this.printLock(pkg);
+    await this.output('Share this lock with the keyholders:', encodeBearerString('multisig', pkg), options);
+  }
+
+  /**
+   * Approve spending a lock to a recipient; needs no network
+   */
+  private async approve(positional: string[], options: any): Promise<void> {
+    const pkg = await this.loadLock(this.requireArg(positional, 1, 'lock-file'));
+    const recipient: PublicKey = { bytes: Crypto.fromHex(this.requireArg(positional, 2, 'recipient-pubkey')) };
+    const wallet = new WalletManager().getWallet(options.wallet);
+    const secret = Crypto.fromHex(wallet.secretKey);
+
+    const approval: ApprovalFile = {
+      type: 'multisig-approval',
+      lock: Crypto.toHex(pkg.nullifier),
+      recipient: Crypto.toHex(recipient.bytes),
+      key: Crypto.toHex(multiSigKey(secret)),
+      approval: Crypto.toHex(await approveMultiSig(pkg, recipient, secret))
+    };
+
+    console.log('');
+    console.log(`✅ ${wallet.name} approved sending ${pkg.amount} to ${approval.recipient.slice(0, 16)}...`);
+    console.log('');
+    await this.output('Send this approval to the recipient:', JSON.stringify(approval, null, 2), options);
+  }
+
+  /**
+   * Show a lock's policy and which keys approved; needs no network
+   */
+  private async status(positional: string[]): Promise<void> {
+    const pkg = await this.loadLock(this.requireArg(positional, 1, 'lock-file'));
+    const approvals = await this.loadApprovals(pkg, positional.slice(2));
+
+    this.printLock(pkg);
+    if (approvals.length === 0) {
+      console.log(`No approvals given. ${pkg.policy.threshold} are needed to spend.`);
+      console.log('');
+      return;
+    }
+
+    const recipient = this.approvedRecipient(approvals);
+    const approvers = new Set(await approvingKeys(pkg, recipient, approvals.map(a => Crypto.fromHex(a.approval))));
+    console.log(`Approvals for ${Crypto.toHex(recipient.bytes).slice(0, 16)}...:`);
+    for (const key of pkg.policy.keys.map(k => Crypto.toHex(k))) {
+      console.log(`  ${approvers.has(key) ? '✓' : ' '} ${key}`);
+    }
+    console.log('');
+    console.log(approvers.size >= pkg.policy.threshold
+      ? `Ready to spend (${approvers.size} of ${pkg.policy.threshold} needed).`
+      : `${pkg.policy.threshold - approvers.size} more approval(s) needed.`);
+    console.log('');
+  }
+
+  /**
+   * Spend a lock into the recipient's wallet with enough approvals
+   */
+  private async spend(infraMgr: InfrastructureManager, positional: string[], options: any): Promise<void> {
+    const pkg = await this.loadLock(this.requireArg(positional, 1, 'lock-file'));
+    const approvals = await this.loadApprovals(pkg, positional.slice(2));
+    if (approvals.length === 0) {
+      throw new Error('Missing required argument: approval-file');
+    }
+
+    const wallets = new WalletManager();
+    const wallet = wallets.getWallet(options.wallet);
+    const recipient = this.approvedRecipient(approvals);
+    if (Crypto.toHex(recipient.bytes) !== wallet.publicKey) {
+      throw new Error(`The approvals pay ${Crypto.toHex(recipient.bytes).slice(0, 16)}..., not wallet ${wallet.name}`);
+    }
+
+    console.log('');
+    console.log('🔓 Spending multisig lock...');
+    console.log('');
+
+    await infraMgr.initialize();
+    const { witness, gossip, freebird } = infraMgr.get();
+
+    const token = await ScarbuckToken.receiveMultiSig(
+      pkg,
+      approvals.map(approval => Crypto.fromHex(approval.approval)),
+      Crypto.fromHex(wallet.secretKey),
+      freebird,
+      witness,
+      gossip
+    );
+
+    const persisted = token.getPersistentState();
+    new TokenStorage().addToken({
+      id: persisted.id,
+      amount: persisted.amount,
+      secretKey: Crypto.toHex(persisted.secret),
+      wallet: wallet.name,
+      created: persisted.createdAt ?? Date.now(),
+      spent: persisted.spent,
+      denominated: persisted.denominated,
+      metadata: {
+        type: 'received',
+        source: 'multisig',
+        notes: `Spent from a ${pkg.policy.threshold}-of-${pkg.policy.keys.length} lock`
+      }
+    });
+
+    console.log('✅ Multisig lock spent!');
+    console.log('');
+    console.log('Token Details:');
+    console.log(`  Token ID: ${persisted.id}`);
+    console.log(`  Amount:   ${persisted.amount}`);
+    console.log(`  Wallet:   ${wallet.name}`);
+    console.log('');
+  }
+
+  private async loadLock(path: string): Promise<MultiSigPackage> {
+    const fs = await import('fs/promises');
+    const decoded = decodeBearerString((await fs.readFile(path, 'utf-8')).trim());
+    if (decoded.kind !== 'multisig') {
+      throw new Error(`Expected a multisig lock, got a ${decoded.kind} package`);
+    }
+    return decoded.pkg;
+  }
+
+  /**
+   * Load approval files, which must all be for this lock
+   */
+  private async loadApprovals(pkg: MultiSigPackage, paths: string[]): Promise<ApprovalFile[]> {
+    const fs = await import('fs/promises');
+    const lock = Crypto.toHex(pkg.nullifier);
+    const approvals: ApprovalFile[] = [];
+    for (const path of paths) {
+      const approval = JSON.parse(await fs.readFile(path, 'utf-8')) as ApprovalFile;
+      if (approval.type !== 'multisig-approval') {
+        throw new Error(`${path} is not a multisig approval`);
+      }
+      if (approval.lock !== lock) {
+        throw new Error(`${path} approves another lock`);
+      }
+      approvals.push(approval);
+    }
+    return approvals;
+  }
+
+  /**
+   * The recipient all approvals name
+   */
+  private approvedRecipient(approvals: ApprovalFile[]): PublicKey {
+    const recipients = new Set(approvals.map(approval => approval.recipient));
+    if (recipients.size !== 1) {
+      throw new Error('The approvals name different recipients');
+    }
+    return { bytes: Crypto.fromHex(approvals[0].recipient) };
+  }
+
+  private async output(title: string, text: string, options: any): Promise<void> {
+    const out = options.out || options.o;
+    if (out) {
+      const fs = await import('fs/promises');
+      await fs.writeFile(out as string, text + '\n', 'utf-8');
+      console.log(`${title} ${out}`);
+      console.log('');
+      return;
+    }
+
+    console.log(title);
+    console.log('');
+    console.log(text);
+    console.log('');
+  }
+
+  private printLock(pkg: MultiSigPackage): void {
+    console.log('');
+    console.log('Lock Details:');
+    console.log(`  Lock:      ${Crypto.toHex(pkg.nullifier)}`);
+    console.log(`  Amount:    ${pkg.amount}`);
+    console.log(`  Policy:    ${pkg.policy.threshold} of ${pkg.policy.keys.length}`);
+    console.log(`  Locked at: ${new Date(pkg.proof.timestamp).toISOString()}`);
+    console.log('');
+  }
+
+  showHelp(): void {
+    console.log(`
+USAGE:
+  scar multisig <subcommand> [options]
+
+SUBCOMMANDS:
+  key [wallet-name]                              Show the wallet's multisig key
+  lock <token-id>                                Lock a token to an m-of-n policy
+  approve <lock-file> <recipient-pubkey>         Approve a spend (offline)
+  status <lock-file> [approval-file...]          Show the policy and approvals (offline)
+  spend <lock-file> <approval-file...>           Receive the lock with enough approvals
+
+OPTIONS:
+  --threshold <m>            Approvals needed to spend (lock)
+  --keys <key,key,...>       Multisig keys of the n keyholders (lock)
+  --wallet <name>            Wallet that approves or receives (default: default wallet)
+  -o, --out <file>           Write the lock or approval to a file
+  -h, --help                 Show this help message
+
+NOTES:
+  - Policies list multisig keys ("scar multisig key"), not wallet public keys
+  - Approving needs only the lock file and the wallet, so keyholders can
+    sign on offline machines and hand their approval files over
+  - An approval names one recipient; it cannot be used to pay anyone else
+  - Locking publishes the token's nullifier; spending publishes the lock's
+    spend nullifier, so a lock is spent only once
+
+EXAMPLES:
+  # Each keyholder shares their multisig key
+  scar multisig key treasurer
+
+  # Lock a token to 2 of 3 keyholders
+  scar multisig lock abc123 --threshold 2 --keys 02a1...,03b2...,02c3... -o lock.txt
+
+  # Two keyholders approve paying Carol, each on their own machine
+  scar multisig approve lock.txt <carol-pubkey> --wallet treasurer -o alice.json
+  scar multisig approve lock.txt <carol-pubkey> --wallet auditor -o bob.json
+
+  # Carol checks and spends the lock
+  scar multisig status lock.txt alice.json bob.json
+  scar multisig spend lock.txt alice.json bob.json --wallet carol
+`);
+  }
+}
@@ -0,0 +1,485 @@
+/**
+ * Swap command - Cross-federation atomic swaps
+ */
+
+import { Command } from '../command.js';
+import { ConfigManager } from '../config.js';
+import { InfrastructureManager } from '../infrastructure.js';
+import { TokenStorage } from '../token-store.js';
+import type { StoredToken } from '../token-store.js';
+import { WalletManager } from '../wallet.js';
+import type { WalletData } from '../wallet.js';
+import { ScarbuckToken } from '../../token.js';
+import { Crypto } from '../../crypto.js';
+import { SwapCoordinator, FileSwapStore, encodeSwapMessage, decodeSwapMessage } from '../../swap.js';
+import { FreebirdAdapter, WitnessAdapter, NullifierGossip } from '../../index.js';
+import type { SwapFederation, SwapMessage, SwapRecord } from '../../swap.js';
+
+export class SwapCommand extends Command {
+  constructor() {
+    super('swap', 'Cross-federation atomic swaps');
+  }
+
+  async execute(args: string[]): Promise<void> {
+    const { positional, options } = this.parseArgs(args);
+
+    if (options.help || options.h) {
+      this.showHelp();
+      return;
+    }
+
+    const subcommand = positional[0];
+
+    if (!subcommand) {
+      this.showHelp();
+      return;
+    }
+
+    const infraMgr = new InfrastructureManager();
+
+    try {
+      switch (subcommand) {
+        case 'offer':
+          await this.offer(infraMgr, positional, options);
+          break;
+
+        case 'accept':
+          await this.accept(infraMgr, positional, options);
+          break;
+
+        case 'confirm':
+          await this.confirm(infraMgr, positional, options);
+          break;
+
+        case 'claim':
+          await this.claim(infraMgr, positional, options);
+          break;
+
+        case 'reveal':
+          await this.reveal(positional);
+          break;
+
+        case 'refund':
+          await this.refund(infraMgr, positional, options);
+          break;
+
+        case 'status':
+          this.status(positional);
+          break;
+
+        case 'abort':
+          this.abort(positional);
+          break;
+
+        default:
+          console.error(`Unknown subcommand: ${subcommand}`);
+          this.showHelp();
+          process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`Swap ${subcommand} failed: ${error.message}`);
+      await infraMgr.cleanup();
+      process.exit(1);
+    }
+
+    await infraMgr.cleanup();
+  }
+
+  /**
+   * Lock a token and print the offer for the counterparty
+   */
+  private async offer(infraMgr: InfrastructureManager, positional: string[], options: any): Promise<void> {
+    const tokenId = this.requireArg(positional, 1, 'token-id');
+    const counterparty = this.requireArg(positional, 2, 'counterparty-pubkey');
+    const wantAmount = parseInt(this.requireOption(options, 'want'), 10);
+    const network = this.requireOption(options, 'network');
+    const window = options.window !== undefined ? parseFloat(options.window) : undefined;
+
+    if (isNaN(wantAmount) || wantAmount <= 0) {
+      throw new Error('--want must be a positive amount');
+    }
+    if (window !== undefined && !(window > 0)) {
+      throw new Error('--window must be a positive number of hours');
+    }
+
+    const storage = new TokenStorage();
+    const storedToken = this.unspentToken(storage, tokenId);
+    const wallets = new WalletManager();
+    const wallet = wallets.getWallet(options.wallet ?? storedToken.wallet);
+
+    console.log('');
+    console.log('🔁 Locking token for swap...');
+    console.log('');
+
+    const home = await this.homeFederation(infraMgr);
+    const coordinator = this.coordinator([home, this.remoteFederation(network, options)], window);
+    const token = this.loadToken(storedToken, home);
+
+    const { record, offer } = await coordinator.initiate({
+      token,
+      give: { federation: home.id, amount: storedToken.amount },
+      want: { federation: network, amount: wantAmount },
+      counterpartyKey: { bytes: Crypto.fromHex(counterparty) },
+      ownKey: wallets.getPublicKey(wallet.name)
+    });
+    storage.markSpent(storedToken.id);
+
+    this.printRecord(coordinator, record);
+    await this.printMessage('Send this offer to the counterparty:', offer, options);
+    console.log('⚠️  Your preimage is stored in ~/.scarcity/swaps.json. Do not delete it before the swap ends.');
+    console.log('');
+  }
+
+  /**
+   * Check an offer, lock our token and print the acceptance
+   */
+  private async accept(infraMgr: InfrastructureManager, positional: string[], options: any): Promise<void> {
+    const offerPath = this.requireArg(positional, 1, 'offer-file');
+    const tokenId = this.requireArg(positional, 2, 'token-id');
+
+    const offer = await this.loadMessage(offerPath, 'offer');
+    const storage = new TokenStorage();
+    const storedToken = this.unspentToken(storage, tokenId);
+    const wallets = new WalletManager();
+    const wallet = wallets.getWallet(options.wallet ?? storedToken.wallet);
+
+    console.log('');
+    console.log('🔁 Checking offer and locking token...');
+    console.log('');
+
+    const home = await this.homeFederation(infraMgr);
+    if (home.id !== offer.want.federation) {
+      throw new Error(`The offer wants a token in "${offer.want.federation}" but your config is set to "${home.id}"`);
+    }
+    const coordinator = this.coordinator([home, this.remoteFederation(offer.give.federation, options)]);
+
+    const { record, acceptance } = await coordinator.accept(offer, {
+      token: this.loadToken(storedToken, home),
+      ownKey: wallets.getPublicKey(wallet.name)
+    });
+    storage.markSpent(storedToken.id);
+
+    this.printRecord(coordinator, record);
+    await this.printMessage('Send this acceptance to the initiator:', acceptance, options);
+  }
+
+  /**
+   * Check the counterparty's lock (initiator)
+   */
+  private async confirm(infraMgr: InfrastructureManager, positional: string[], options: any): Promise<void> {
+    const acceptancePath = this.requireArg(positional, 1, 'acceptance-file');
+    const acceptance = await this.loadMessage(acceptancePath, 'acceptance');
+    const record = this.record(acceptance.swapId);
+
+    const home = await this.homeFederation(infraMgr);
+    const coordinator = this.coordinator([home, this.remoteFederation(record.want.federation, options)]);
+    const confirmed = await coordinator.confirm(acceptance);
+
+    console.log('');
+    console.log('✅ Counterparty lock checked');
+    this.printRecord(coordinator, confirmed);
+  }
+
+  /**
+   * Claim the counterparty's lock
+   */
+  private async claim(infraMgr: InfrastructureManager, positional: string[], options: any): Promise<void> {
+    const record = this.record(this.requireArg(positional, 1, 'swap-id'));
+    const wallet = this.walletFor(new WalletManager(), record, options.wallet);
+
+    const home = await this.homeFederation(infraMgr);
+    const remote = this.remoteFederation(record.want.federation, options);
+    const coordinator = this.coordinator([home, remote]);
+    const { record: claimed, token, reveal } = await coordinator.claim(record.id, Crypto.fromHex(wallet.secretKey));
+
+    const persisted = token.getPersistentState();
+    new TokenStorage().addToken({
+      id: persisted.id,
+      amount: persisted.amount,
+      secretKey: Crypto.toHex(persisted.secret),
+      wallet: wallet.name,
+      created: persisted.createdAt ?? Date.now(),
+      spent: persisted.spent,
+      denominated: persisted.denominated,
+      metadata: {
+        type: 'received',
+        source: 'swap',
+        notes: `Swap ${record.id.slice(0, 12)} in ${record.want.federation}`
+      }
+    });
+
+    console.log('');
+    console.log(`✅ Claimed ${persisted.amount} in ${record.want.federation}`);
+    this.printRecord(coordinator, claimed);
+    if (reveal) {
+      await this.printMessage('Send this reveal to the counterparty so they can claim:', reveal, options);
+    }
+  }
+
+  /**
+   * Record the initiator's preimage (responder)
+   */
+  private async reveal(positional: string[]): Promise<void> {
+    const reveal = await this.loadMessage(this.requireArg(positional, 1, 'reveal-file'), 'reveal');
+    const coordinator = this.coordinator([]);
+    const record = coordinator.reveal(reveal);
+
+    console.log('');
+    console.log('✅ Preimage recorded');
+    this.printRecord(coordinator, record);
+  }
+
+  /**
+   * Take our lock back after its timelock
+   */
+  private async refund(infraMgr: InfrastructureManager, positional: string[], options: any): Promise<void> {
+    const record = this.record(this.requireArg(positional, 1, 'swap-id'));
+    const wallet = this.walletFor(new WalletManager(), record, options.wallet);
+
+    const home = await this.homeFederation(infraMgr);
+    const coordinator = this.coordinator([home]);
+    const { record: refunded, token } = await coordinator.refund(record.id, Crypto.fromHex(wallet.secretKey));
+
+    const persisted = token.getPersistentState();
+    new TokenStorage().addToken({
+      id: persisted.id,
+      amount: persisted.amount,
+      secretKey: Crypto.toHex(persisted.secret),
+      wallet: wallet.name,
+      created: persisted.createdAt ?? Date.now(),
+      spent: persisted.spent,
+      denominated: persisted.denominated,
+      metadata: {
+        type: 'received',
+        source: 'swap-refund',
+        notes: `Refunded from swap ${record.id.slice(0, 12)}`
+      }
+    });
+
+    console.log('');
+    console.log(`✅ Refunded ${persisted.amount} in ${record.give.federation}`);
+    this.printRecord(coordinator, refunded);
+  }
+
+  /**
+   * Show one swap, or list them all
+   */
+  private status(positional: string[]): void {
+    const coordinator = this.coordinator([]);
+
+    if (positional[1]) {
+      this.printRecord(coordinator, this.record(positional[1]));
+      return;
+    }
+
+    const records = coordinator.list();
+    console.log('');
+    if (records.length === 0) {
+      console.log('No swaps.');
+      console.log('');
+      return;
+    }
+    console.log('Swaps:');
+    console.log('');
+    for (const record of records) {
+      const { give, want } = record;
+      const trade = `${give.amount}@${give.federation} → ${want.amount}@${want.federation}`;
+      console.log(`  ${record.id.slice(0, 16)}...  ${record.role.padEnd(9)}  ${record.state.padEnd(8)}  ${trade}`);
+      console.log(`    next: ${coordinator.nextAction(record)}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * Drop a swap before anything is locked
+   */
+  private abort(positional: string[]): void {
+    const coordinator = this.coordinator([]);
+    const record = coordinator.abort(this.record(this.requireArg(positional, 1, 'swap-id')).id);
+
+    console.log('');
+    console.log('Swap aborted');
+    this.printRecord(coordinator, record);
+  }
+
+  private coordinator(federations: SwapFederation[], windowHours?: number): SwapCoordinator {
+    return new SwapCoordinator({
+      federations,
+      store: new FileSwapStore(),
+      lockWindowMs: windowHours !== undefined ? windowHours * 3600 * 1000 : undefined
+    });
+  }
+
+  private async homeFederation(infraMgr: InfrastructureManager): Promise<SwapFederation> {
+    const { freebird, witness, gossip } = await infraMgr.initialize();
+    return { id: new ConfigManager().get('witness.networkId'), auth: freebird, witness, gossip };
+  }
+
+  private remoteFederation(network: string, options: any): SwapFederation {
+    const gateway = options.gateway || options.g;
+    if (!gateway) {
+      throw new Error(`Witness gateway URL for "${network}" required (--gateway)`);
+    }
+
+    const config = new ConfigManager();
+    const witness = new WitnessAdapter({ gatewayUrl: gateway as string, networkId: network });
+    return {
+      id: network,
+      auth: new FreebirdAdapter(config.getFreebirdConfig()),
+      witness,
+      gossip: new NullifierGossip({ witness })
+    };
+  }
+
+  /**
+   * Find a swap by id or unique id prefix
+   */
+  private record(idOrPrefix: string): SwapRecord {
+    const matches = new FileSwapStore().list().filter(record => record.id.startsWith(idOrPrefix));
+    if (matches.length !== 1) {
+      throw new Error(matches.length === 0
+        ? `Swap not found: ${idOrPrefix}`
+        : `Swap id prefix is ambiguous: ${idOrPrefix}`);
+    }
+    return matches[0];
+  }
+
+  private unspentToken(storage: TokenStorage, tokenId: string): StoredToken {
+    const storedToken = storage.getToken(tokenId);
+    if (!storedToken) {
+      throw new Error(`Token not found: ${tokenId}`);
+    }
+    if (storedToken.spent) {
+      throw new Error('Token already spent');
+    }
+    return storedToken;
+  }
+
+  private loadToken(storedToken: StoredToken, federation: SwapFederation): ScarbuckToken {
+    return ScarbuckToken.fromPersistentState(
+      {
+        id: storedToken.id,
+        amount: storedToken.amount,
+        secret: Crypto.fromHex(storedToken.secretKey),
+        spent: storedToken.spent,
+        createdAt: storedToken.created,
+        denominated: storedToken.denominated
+      },
+      federation.auth,
+      federation.witness,
+      federation.gossip
+    );
+  }
+
+  /**
+   * The wallet whose key the swap pays out to
+   */
+  private walletFor(wallets: WalletManager, record: SwapRecord, name?: string): WalletData {
+    const ownKey = Crypto.toHex(record.ownKey.bytes);
+    const wallet = name
+      ? wallets.getWallet(name)
+      : wallets.listWallets().find(candidate => candidate.publicKey === ownKey);
+    if (!wallet || wallet.publicKey !== ownKey) {
+      throw new Error(`No wallet holds the swap key ${ownKey.slice(0, 16)}...`);
+    }
+    return wallet;
+  }
+
+  private async loadMessage<T extends SwapMessage['type']>(
+    path: string,
+    type: T
+  ): Promise<Extract<SwapMessage, { type: T }>> {
+    const fs = await import('fs/promises');
+    const message = decodeSwapMessage((await fs.readFile(path, 'utf-8')).trim());
+    if (message.type !== type) {
+      throw new Error(`Expected a swap ${type}, got a swap ${message.type}`);
+    }
+    return message as Extract<SwapMessage, { type: T }>;
+  }
+
+  private async printMessage(title: string, message: SwapMessage, options: any): Promise<void> {
+    const out = options.out || options.o;
+    if (out) {
+      const fs = await import('fs/promises');
+      await fs.writeFile(out as string, encodeSwapMessage(message) + '\n', 'utf-8');
+      console.log(`${title} ${out}`);
+      console.log('');
+      return;
+    }
+
+    console.log(title);
+    console.log('');
+    console.log(encodeSwapMessage(message));
+    console.log('');
+  }
+
+  private printRecord(coordinator: SwapCoordinator, record: SwapRecord): void {
+    const date = (time: number) => new Date(time).toISOString();
+
+    console.log('');
+    console.log('Swap Details:');
+    console.log(`  Swap ID:        ${record.id}`);
+    console.log(`  Role:           ${record.role}`);
+    console.log(`  State:          ${record.state}`);
+    console.log(`  Give:           ${record.give.amount} in ${record.give.federation}`);
+    console.log(`  Want:           ${record.want.amount} in ${record.want.federation}`);
+    console.log(`  Our refund:     from ${date(record.ownTimelock)}`);
+    console.log(`  Claim before:   ${date(record.counterTimelock)}`);
+    console.log(`  Next:           ${coordinator.nextAction(record)}`);
+    console.log('');
+  }
+
+  showHelp(): void {
+    console.log(`
+USAGE:
+  scar swap <subcommand> [options]
+
+SUBCOMMANDS:
+  offer <token-id> <counterparty-pubkey>   Lock a token and create an offer
+  accept <offer-file> <token-id>           Check an offer and lock a token
+  confirm <acceptance-file>                Check the counterparty's lock (initiator)
+  claim <swap-id>                          Claim the counterparty's token
+  reveal <reveal-file>                     Record the initiator's preimage (responder)
+  refund <swap-id>                         Take your token back after your timelock
+  status [swap-id]                         Show swaps and what to do next
+  abort <swap-id>                          Drop a swap before anything is locked
+
+OPTIONS:
+  --want <amount>            Amount wanted from the counterparty (offer)
+  --network <id>             Counterparty federation network ID (offer)
+  -g, --gateway <url>        Counterparty federation Witness gateway URL
+                             (offer, accept, confirm, claim)
+  --window <hours>           Claim window for each side (offer, default: 12)
+  -o, --out <file>           Write the offer, acceptance or reveal to a file
+  --wallet <name>            Wallet holding the swap key (default: the token's wallet)
+  -h, --help                 Show this help message
+
+NOTES:
+  - Both tokens are locked as hash-and-time HTLCs under one hashlock
+  - The initiator's lock is refundable one window after the responder's,
+    which leaves the responder time to claim once the preimage is revealed
+  - Claims publish the preimage with their nullifier, so the responder
+    can claim once its federation has seen the initiator's claim; the
+    reveal the initiator's claim prints lets it claim without waiting
+  - Progress is kept in ~/.scarcity/swaps.json; swap ids may be shortened
+    to any unique prefix
+
+EXAMPLES:
+  # Alice (federation A) offers 30 for 50 in federation B
+  scar swap offer abc123 <bob-pubkey> --want 50 --network fed-b -g https://b.example -o offer.json
+
+  # Bob (federation B) accepts with his 50-token
+  scar swap accept offer.json def456 -g https://a.example -o acceptance.json
+
+  # Alice checks Bob's lock, claims, and sends Bob the reveal
+  scar swap confirm acceptance.json -g https://b.example
+  scar swap claim 9f86d081 -g https://b.example -o reveal.json
+
+  # Bob claims with the preimage Alice's claim published (or records the reveal first)
+  scar swap claim 9f86d081 -g https://a.example
+
+  # If the other side disappears, after your timelock
+  scar swap refund 9f86d081
+`);
+  }
+}
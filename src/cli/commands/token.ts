@@ -7,7 +7,10 @@ import { WalletManager } from '../wallet.js';
 import { TokenStorage } from '../token-store.js';
 import { ConfigManager } from '../config.js';
 import { InfrastructureManager } from '../infrastructure.js';
-import { ScarbuckToken, Crypto } from '../../index.js';
+import { ScarbuckToken, Crypto, type DenominatedPayment } from '../../index.js';
+import { encodeBearerString, decodeBearerString, isBearerString, splitForQR, joinQRParts } from '../../codec/bearer-string.js';
+import { CoinSelector, COIN_SELECTION_STRATEGIES, type CoinSelectionStrategy, type PaymentPlan } from '../coin-selector.js';
+import type { TransferPackage, PaymentPackage, SplitPackage } from '../../types.js';
 
 export class TokenCommand extends Command {
   constructor() {
@@ -44,6 +47,14 @@ export class TokenCommand extends Command {
           await this.transfer(walletManager, tokenStorage, infraManager, positional, options);
           break;
 
+        case 'pay':
+          await this.pay(walletManager, tokenStorage, infraManager, positional, options);
+          break;
+
+        case 'send':
+          await this.send(walletManager, tokenStorage, infraManager, positional, options);
+          break;
+
         case 'receive':
           await this.receive(walletManager, tokenStorage, infraManager, positional, options);
           break;
@@ -113,34 +124,35 @@ export class TokenCommand extends Command {
 
       // Mint token
       console.log(`Minting token for ${amountNum}...`);
-      const token = ScarbuckToken.mint(
-        amountNum,
-        infra.freebird,
-        infra.witness,
-        infra.gossip
-      );
+      const tokens = options.denominated
+        ? ScarbuckToken.mintDenominated(amountNum, infra.freebird, infra.witness, infra.gossip)
+        : [ScarbuckToken.mint(amountNum, infra.freebird, infra.witness, infra.gossip)];
 
-      const metadata = token.getMetadata();
-      const persisted = token.getPersistentState();
-
-      // Store token
-      tokenStorage.addToken({
-        id: persisted.id,
-        amount: persisted.amount,
-        secretKey: Crypto.toHex(persisted.secret),
-        wallet: wallet.name,
-        created: persisted.createdAt ?? Date.now(),
-        spent: persisted.spent,
-        metadata: {
-          type: 'minted'
-        }
-      });
+      // Store tokens
+      for (const token of tokens) {
+        const persisted = token.getPersistentState();
+        tokenStorage.addToken({
+          id: persisted.id,
+          amount: persisted.amount,
+          secretKey: Crypto.toHex(persisted.secret),
+          wallet: wallet.name,
+          created: persisted.createdAt ?? Date.now(),
+          spent: persisted.spent,
+          denominated: persisted.denominated,
+          metadata: {
+            type: 'minted'
+          }
+        });
+      }
 
       console.log('');
-      console.log('✅ Token minted successfully!');
+      console.log(tokens.length === 1 ? '✅ Token minted successfully!' : `✅ Minted ${tokens.length} denominated coins!`);
       console.log('');
-      console.log(`Token ID: ${metadata.id}`);
-      console.log(`Amount:   ${metadata.amount}`);
+      for (const token of tokens) {
+        const metadata = token.getMetadata();
+        console.log(`Token ID: ${metadata.id}`);
+        console.log(`Amount:   ${metadata.amount}`);
+      }
       console.log(`Wallet:   ${wallet.name}`);
       console.log('');
     } catch (error: any) {
@@ -184,7 +196,8 @@ export class TokenCommand extends Command {
           amount: storedToken.amount,
           secret,
           spent: storedToken.spent,
-          createdAt: storedToken.created
+          createdAt: storedToken.created,
+          denominated: storedToken.denominated
         },
         infra.freebird,
         infra.witness,
@@ -213,15 +226,285 @@ export class TokenCommand extends Command {
         authToken: transferPkg.authToken ? Crypto.toHex(transferPkg.authToken) : undefined,
         nullifier: Crypto.toHex(transferPkg.nullifier),
         proof: transferPkg.proof,
-        ownershipProof: transferPkg.ownershipProof ? Crypto.toHex(transferPkg.ownershipProof) : undefined
+        ownershipProof: transferPkg.ownershipProof ? Crypto.toHex(transferPkg.ownershipProof) : undefined,
+        denominated: transferPkg.denominated
       }, null, 2));
       console.log('');
+
+      console.log('Or as a payment string (anyone holding it can claim the payment):');
+      this.printPaymentString(encodeBearerString('transfer', transferPkg), options);
     } catch (error: any) {
       console.error(`Failed to transfer token: ${error.message}`);
       process.exit(1);
     }
   }
 
+  private async pay(
+    walletManager: WalletManager,
+    tokenStorage: TokenStorage,
+    infraManager: InfrastructureManager,
+    positional: string[],
+    options: any
+  ): Promise<void> {
+    const tokenId = this.requireArg(positional, 1, 'token-id');
+    const amountStr = this.requireArg(positional, 2, 'amount');
+    const recipientKey = this.requireArg(positional, 3, 'recipient-public-key');
+
+    try {
+      const amount = parseInt(amountStr, 10);
+      if (isNaN(amount) || amount <= 0) {
+        throw new Error('Amount must be a positive number');
+      }
+
+      // Get token
+      const storedToken = tokenStorage.getToken(tokenId);
+      if (!storedToken) {
+        throw new Error(`Token '${tokenId}' not found`);
+      }
+
+      if (storedToken.spent) {
+        throw new Error('Token already spent');
+      }
+
+      console.log(`Paying ${amount} from token ${tokenId}...`);
+
+      // Initialize infrastructure
+      console.log('Initializing infrastructure...');
+      const infra = await infraManager.initialize();
+
+      // Recreate token
+      const token = ScarbuckToken.fromPersistentState(
+        {
+          id: storedToken.id,
+          amount: storedToken.amount,
+          secret: Crypto.fromHex(storedToken.secretKey),
+          spent: storedToken.spent,
+          createdAt: storedToken.created,
+          denominated: storedToken.denominated
+        },
+        infra.freebird,
+        infra.witness,
+        infra.gossip
+      );
+
+      // Denominated coins pay in standard coins; the output can only be split
+      if (storedToken.denominated) {
+        console.log('Creating denominated payment packages...');
+        const coins = await ScarbuckToken.payDenominated(
+          [token],
+          amount,
+          { bytes: Crypto.fromHex(recipientKey) },
+          walletManager.getPublicKey(storedToken.wallet)
+        );
+        tokenStorage.markSpent(tokenId);
+        this.storeDenominatedChange(coins, storedToken.wallet, tokenId, walletManager, tokenStorage);
+        this.printDenominatedPayment(coins, options);
+        return;
+      }
+
+      // Pay, with change back to the token's wallet
+      console.log('Creating payment package...');
+      const paymentPkg = await token.pay(
+        amount,
+        { bytes: Crypto.fromHex(recipientKey) },
+        walletManager.getPublicKey(storedToken.wallet)
+      );
+
+      // Mark as spent
+      tokenStorage.markSpent(tokenId);
+
+      // Keep the change (with a unique derived secret)
+      if (paymentPkg.change) {
+        const secret = walletManager.deriveTokenSecret(paymentPkg.change.tokenId, storedToken.wallet);
+        tokenStorage.addToken({
+          id: paymentPkg.change.tokenId,
+          amount: paymentPkg.change.amount,
+          secretKey: Crypto.toHex(secret),
+          wallet: storedToken.wallet,
+          created: paymentPkg.proof.timestamp,
+          spent: false,
+          metadata: { type: 'change', source: tokenId }
+        });
+      }
+
+      console.log('');
+      console.log('✅ Payment created successfully!');
+      console.log('');
+      console.log(`Paid:   ${paymentPkg.payment.amount}`);
+      if (paymentPkg.change) {
+        console.log(`Change: ${paymentPkg.change.amount} (token ${paymentPkg.change.tokenId})`);
+      }
+      console.log('');
+      console.log('Payment string (send this to recipient; anyone holding it can claim the payment):');
+      this.printPaymentString(encodeBearerString('payment', paymentPkg), options);
+    } catch (error: any) {
+      console.error(`Failed to pay: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  private async send(
+    walletManager: WalletManager,
+    tokenStorage: TokenStorage,
+    infraManager: InfrastructureManager,
+    positional: string[],
+    options: any
+  ): Promise<void> {
+    const amountStr = this.requireArg(positional, 1, 'amount');
+    const recipientKey = this.requireArg(positional, 2, 'recipient-public-key');
+    const strategy = (options.strategy ?? 'fewest-inputs') as CoinSelectionStrategy;
+
+    try {
+      const amount = parseInt(amountStr, 10);
+      if (isNaN(amount) || amount <= 0) {
+        throw new Error('Amount must be a positive number');
+      }
+
+      const wallet = walletManager.getWallet(options.wallet);
+      const selector = new CoinSelector(tokenStorage);
+      const plan = selector.plan(wallet.name, amount, strategy);
+
+      this.printPlan(plan);
+      if (options['dry-run']) {
+        console.log('Dry run: nothing was spent.');
+        console.log('');
+        return;
+      }
+
+      // Initialize infrastructure
+      console.log('Initializing infrastructure...');
+      const infra = await infraManager.initialize();
+
+      const services = { auth: infra.freebird, witness: infra.witness, gossip: infra.gossip };
+      if (plan.denominated) {
+        console.log('Creating denominated payment packages...');
+        const coins = await selector.executeDenominated(
+          plan,
+          { bytes: Crypto.fromHex(recipientKey) },
+          walletManager,
+          services
+        );
+        this.printDenominatedPayment(coins, options);
+        return;
+      }
+
+      console.log(plan.merge ? 'Merging inputs and creating payment package...' : 'Creating payment package...');
+      const { payment } = await selector.execute(
+        plan,
+        { bytes: Crypto.fromHex(recipientKey) },
+        walletManager,
+        services
+      );
+
+      console.log('');
+      console.log('✅ Payment created successfully!');
+      console.log('');
+      console.log('Payment string (send this to recipient; anyone holding it can claim the payment):');
+      this.printPaymentString(encodeBearerString('payment', payment), options);
+    } catch (error: any) {
+      console.error(`Failed to send: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  private printPlan(plan: PaymentPlan): void {
+    const date = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+    console.log('');
+    console.log(`Payment plan (${plan.strategy}):`);
+    console.log('');
+    console.log('  Inputs:');
+    plan.inputs.forEach(input => {
+      const expiry = `expires ${date(input.expiresAt)} (${input.daysLeft} days)`;
+      console.log(`    ${input.id.substring(0, 16)}...  ${String(input.amount).padStart(10)}  ${expiry}`);
+    });
+    const steps = plan.denominated ? `pay ${plan.inputs.length} coins in denominations`
+      : plan.merge ? `merge ${plan.inputs.length} tokens, then pay` : 'pay';
+    console.log('');
+    console.log(`  Total:       ${plan.total}`);
+    console.log(`  Pay:         ${plan.amount}`);
+    console.log(`  Change:      ${plan.change}`);
+    console.log(`  Steps:       ${steps} (${plan.timestamps} Witness timestamp${plan.timestamps === 1 ? '' : 's'})`);
+    console.log('');
+    console.log('  Expiry impact:');
+    console.log(`    Soonest input expiry: ${date(plan.expiry.soonestInputExpiry)}`);
+    console.log(`    Renewed value:        ${plan.expiry.renewedAmount} (${plan.expiry.expiringSoonAmount} was expiring soon)`);
+    if (plan.expiry.changeExpiresAt !== undefined) {
+      console.log(`    Change expires:       ${date(plan.expiry.changeExpiresAt)}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * Keep the change outputs of a denominated payment's splits
+   */
+  private storeDenominatedChange(
+    payment: DenominatedPayment,
+    wallet: string,
+    source: string,
+    walletManager: WalletManager,
+    tokenStorage: TokenStorage
+  ): void {
+    payment.splits.forEach((split, i) => {
+      for (const index of payment.change[i]) {
+        const { tokenId, amount } = split.splits[index];
+        tokenStorage.addToken({
+          id: tokenId,
+          amount,
+          secretKey: Crypto.toHex(walletManager.deriveTokenSecret(tokenId, wallet)),
+          wallet,
+          created: split.proof.timestamp,
+          spent: false,
+          denominated: true,
+          metadata: { type: 'change', source }
+        });
+      }
+    });
+  }
+
+  /**
+   * Print the packages of a denominated payment, telling the recipient
+   * which outputs of each split are theirs
+   */
+  private printDenominatedPayment(payment: DenominatedPayment, options: any): void {
+    const paid = [
+      ...payment.transfers.map(pkg => pkg.amount),
+      ...payment.splits.flatMap((split, i) =>
+        split.splits.filter((_, index) => !payment.change[i].includes(index)).map(output => output.amount))
+    ];
+
+    console.log('');
+    console.log('✅ Payment created successfully!');
+    console.log('');
+    console.log(`Paid in coins: ${paid.join(' + ')}`);
+    console.log('');
+    console.log('Payment strings (send all of these to recipient; anyone holding them can claim the payment):');
+    for (const pkg of payment.transfers) {
+      this.printPaymentString(encodeBearerString('transfer', pkg), options);
+    }
+    payment.splits.forEach((split, i) => {
+      const outputs = split.splits.map((_, index) => index).filter(index => !payment.change[i].includes(index));
+      console.log(`Split (the recipient's outputs are ${outputs.join(', ')}; receive each with --index N):`);
+      this.printPaymentString(encodeBearerString('split', split), options);
+    });
+  }
+
+  private printPaymentString(bearer: string, options: any): void {
+    console.log('');
+    console.log(bearer);
+    console.log('');
+
+    if (options.qr) {
+      const parts = splitForQR(bearer);
+      console.log(`QR payloads (${parts.length} code${parts.length === 1 ? '' : 's'}):`);
+      parts.forEach(part => {
+        console.log('');
+        console.log(part);
+      });
+      console.log('');
+    }
+  }
+
   private async receive(
     walletManager: WalletManager,
     tokenStorage: TokenStorage,
@@ -229,37 +512,62 @@ export class TokenCommand extends Command {
     positional: string[],
     options: any
   ): Promise<void> {
-    const packageJson = this.requireOption(options, 'package', 'package');
+    const packageOption = options.parts ? undefined : this.requireOption(options, 'package', 'package');
     const walletName = options.wallet as string | undefined;
 
     try {
+      const packageText = packageOption ?? joinQRParts((options.parts as string).split(','));
+
       // Get wallet
       const wallet = walletManager.getWallet(walletName);
 
       console.log(`Receiving to wallet: ${wallet.name}`);
 
-      // Parse package
-      let transferPkg: any;
-      try {
-        transferPkg = JSON.parse(packageJson as string);
-      } catch (error) {
-        throw new Error('Invalid transfer package JSON');
+      // Parse package: a scar1... payment string or the JSON printed by transfer
+      let pkg: TransferPackage | undefined;
+      let payment: PaymentPackage | undefined;
+      let split: SplitPackage | undefined;
+      if (isBearerString(packageText)) {
+        const decoded = decodeBearerString(packageText);
+        if (decoded.kind === 'transfer') {
+          pkg = decoded.pkg;
+        } else if (decoded.kind === 'payment') {
+          payment = decoded.pkg;
+        } else if (decoded.kind === 'split') {
+          split = decoded.pkg;
+        } else {
+          throw new Error(`Expected a transfer, payment or split string, got a ${decoded.kind} package`);
+        }
+      } else {
+        let transferPkg: any;
+        try {
+          transferPkg = JSON.parse(packageText);
+        } catch (error) {
+          throw new Error('Invalid transfer package JSON');
+        }
+
+        // Convert hex strings back to Uint8Array
+        pkg = {
+          tokenId: transferPkg.tokenId,
+          amount: transferPkg.amount,
+          sourceCreatedAt: transferPkg.sourceCreatedAt,
+          commitment: Crypto.fromHex(transferPkg.commitment),
+          authToken: transferPkg.authToken ? Crypto.fromHex(transferPkg.authToken) : undefined,
+          nullifier: Crypto.fromHex(transferPkg.nullifier),
+          proof: transferPkg.proof,
+          ownershipProof: transferPkg.ownershipProof ? Crypto.fromHex(transferPkg.ownershipProof) : undefined,
+          denominated: transferPkg.denominated
+        };
       }
 
-      // Convert hex strings back to Uint8Array
-      const pkg = {
-        tokenId: transferPkg.tokenId,
-        amount: transferPkg.amount,
-        sourceCreatedAt: transferPkg.sourceCreatedAt,
-        commitment: Crypto.fromHex(transferPkg.commitment),
-        authToken: transferPkg.authToken ? Crypto.fromHex(transferPkg.authToken) : undefined,
-        nullifier: Crypto.fromHex(transferPkg.nullifier),
-        proof: transferPkg.proof,
-        ownershipProof: transferPkg.ownershipProof ? Crypto.fromHex(transferPkg.ownershipProof) : undefined
-      };
+      const index = split ? parseInt(this.requireOption(options, 'index', 'index'), 10) : 0;
+      if (split && !split.splits[index]) {
+        throw new Error(`Split package has no output ${options.index}`);
+      }
 
       // Derive a unique secret for this token (prevents linking tokens in the same wallet)
-      const recipientSecret = walletManager.deriveTokenSecret(pkg.tokenId, walletName);
+      const newTokenId = payment ? payment.payment.tokenId : split ? split.splits[index].tokenId : pkg!.tokenId;
+      const recipientSecret = walletManager.deriveTokenSecret(newTokenId, walletName);
 
       // Initialize infrastructure
       console.log('Initializing infrastructure...');
@@ -267,13 +575,11 @@ export class TokenCommand extends Command {
 
       // Receive token
       console.log('Receiving token...');
-      const receivedToken = await ScarbuckToken.receive(
-        pkg,
-        recipientSecret,
-        infra.freebird,
-        infra.witness,
-        infra.gossip
-      );
+      const receivedToken = payment
+        ? await ScarbuckToken.receivePayment(payment, recipientSecret, infra.freebird, infra.witness, infra.gossip)
+        : split
+          ? await ScarbuckToken.receiveSplit(split, recipientSecret, index, infra.freebird, infra.witness, infra.gossip)
+          : await ScarbuckToken.receive(pkg!, recipientSecret, infra.freebird, infra.witness, infra.gossip);
 
       const metadata = receivedToken.getMetadata();
       const persisted = receivedToken.getPersistentState();
@@ -286,6 +592,7 @@ export class TokenCommand extends Command {
         wallet: wallet.name,
         created: persisted.createdAt ?? Date.now(),
         spent: persisted.spent,
+        denominated: persisted.denominated,
         metadata: {
           type: 'received'
         }
@@ -483,7 +790,8 @@ export class TokenCommand extends Command {
           amount: storedToken.amount,
           secret,
           spent: storedToken.spent,
-          createdAt: storedToken.created
+          createdAt: storedToken.created,
+          denominated: storedToken.denominated
         },
         infra.freebird,
         infra.witness,
@@ -517,7 +825,8 @@ export class TokenCommand extends Command {
         })),
         nullifier: Crypto.toHex(splitPkg.nullifier),
         proof: splitPkg.proof,
-        ownershipProof: splitPkg.ownershipProof ? Crypto.toHex(splitPkg.ownershipProof) : undefined
+        ownershipProof: splitPkg.ownershipProof ? Crypto.toHex(splitPkg.ownershipProof) : undefined,
+        denominated: splitPkg.denominated
       }, null, 2));
       console.log('');
       console.log(`Split into ${splitPkg.splits.length} tokens:`);
@@ -573,7 +882,8 @@ export class TokenCommand extends Command {
           amount: st.amount,
           secret: Crypto.fromHex(st.secretKey),
           spent: st.spent,
-          createdAt: st.created
+          createdAt: st.created,
+          denominated: st.denominated
         },
         infra.freebird,
         infra.witness,
@@ -607,7 +917,8 @@ export class TokenCommand extends Command {
           nullifier: Crypto.toHex(s.nullifier)
         })),
         proof: mergePkg.proof,
-        ownershipProofs: mergePkg.ownershipProofs?.map(p => Crypto.toHex(p))
+        ownershipProofs: mergePkg.ownershipProofs?.map(p => Crypto.toHex(p)),
+        denominated: mergePkg.denominated
       }, null, 2));
       console.log('');
       console.log(`Merged ${tokenIds.length} tokens into one token of ${totalAmount} units`);
@@ -668,7 +979,8 @@ export class TokenCommand extends Command {
           amount: storedToken.amount,
           secret,
           spent: storedToken.spent,
-          createdAt: storedToken.created
+          createdAt: storedToken.created,
+          denominated: storedToken.denominated
         },
         infra.freebird,
         infra.witness,
@@ -700,7 +1012,8 @@ export class TokenCommand extends Command {
         })),
         nullifier: Crypto.toHex(multiPartyPkg.nullifier),
         proof: multiPartyPkg.proof,
-        ownershipProof: multiPartyPkg.ownershipProof ? Crypto.toHex(multiPartyPkg.ownershipProof) : undefined
+        ownershipProof: multiPartyPkg.ownershipProof ? Crypto.toHex(multiPartyPkg.ownershipProof) : undefined,
+        denominated: multiPartyPkg.denominated
       }, null, 2));
       console.log('');
       console.log('Recipients:');
@@ -722,6 +1035,8 @@ USAGE:
 SUBCOMMANDS:
   mint                          Mint a new token
   transfer <token-id> <to-key>  Transfer token to recipient
+  pay <token-id> <amt> <to-key> Pay part of a token, keeping the change
+  send <amount> <to-key>        Pay from the wallet, choosing tokens automatically
   receive                       Receive a transferred token
   split <token-id>              Split token into multiple tokens
   merge <token-ids...>          Merge multiple tokens into one
@@ -732,8 +1047,14 @@ SUBCOMMANDS:
 
 OPTIONS:
   --amount AMOUNT          Token amount (for mint)
+  --denominated            Mint the amount as power-of-two coins (for mint)
   --wallet NAME            Wallet to use (default: default wallet)
-  --package JSON           Transfer package JSON (for receive)
+  --package DATA           Payment string or transfer package JSON (for receive)
+  --parts PART,...         QR payloads of a payment string, any order (for receive)
+  --index N                Output of a split payment string to receive (for receive)
+  --qr                     Also print the payment string as QR payloads (for transfer, pay, send)
+  --strategy NAME          Coin selection: ${COIN_SELECTION_STRATEGIES.join(', ')} (for send)
+  --dry-run                Show the inputs, change and expiry impact without paying (for send)
   --amounts AMOUNTS        Comma-separated amounts (for split)
   --recipients KEYS        Comma-separated recipient public keys (for split)
   --recipients KEY:AMT,... Key:amount pairs (for multiparty)
@@ -749,7 +1070,18 @@ EXAMPLES:
   # Transfer a token
   scar token transfer abc123... 0x456def...
 
+  # Pay 30 from a 100-unit token; the 70 change stays in your wallet
+  scar token pay abc123... 30 0x456def...
+
+  # Mint 100 as coins of 64, 32 and 4, then pay 37 from them in denominations
+  scar token mint --amount 100 --denominated
+  scar token send 37 0x456def... --strategy denominated
+
+  # Preview paying 120 from whichever tokens renew the oldest first
+  scar token send 120 0x456def... --strategy oldest-first --dry-run
+
   # Receive a token
+  scar token receive --package scar1AQE...
   scar token receive --package '{"tokenId":"abc","amount":100,...}'
 
   # Split a token into 3 parts
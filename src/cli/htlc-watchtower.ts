@@ -0,0 +1,307 @@
+/**
+ * HTLC watchtower
+ *
+ * Watches the HTLCs tracked in token storage and settles them without the
+ * user having to remember: recipients claim as soon as the preimage is
+ * known (for example once a swap counterparty reveals it) and senders
+ * refund as soon as the timelock passes. Recipients are warned while a
+ * claim window is closing without the preimage.
+ *
+ * Each check is one pass over the pending HTLCs; start() repeats it on an
+ * interval. A lock whose settlement nullifier is already published was
+ * settled by the other side (or another device) and is marked as such.
+ */
+
+import { ScarbuckToken } from '../token.js';
+import { Crypto } from '../crypto.js';
+import { encodeBearerString, decodeBearerString } from '../codec/bearer-string.js';
+import { htlcSettlementNullifier, isHashLocked, isTimeLocked, preimageMatches, settlementWindow } from '../htlc.js';
+import type { TokenStorage, StoredHTLC } from './token-store.js';
+import type { WalletManager } from './wallet.js';
+import type { PaymentServices } from './coin-selector.js';
+import type { SwapStore } from '../swap.js';
+import type { GossipNetwork, HTLCPackage } from '../types.js';
+
+export type HTLCWatchEventType = 'claimed' | 'refunded' | 'settled' | 'expiring' | 'expired' | 'failed';
+
+export interface HTLCWatchEvent {
+  readonly type: HTLCWatchEventType;
+  readonly htlc: string; // Nullifier of the lock
+  readonly role: StoredHTLC['role'];
+  readonly wallet: string;
+  readonly amount: number;
+  readonly tokenId?: string; // Token claimed or refunded into
+  readonly message: string;
+  readonly at: number;
+}
+
+/** Looks up the preimage of a hashlock, if the source knows it */
+export type PreimageSource = (hashlock: string) => Uint8Array | undefined;
+
+export interface HTLCWatchtowerOptions {
+  readonly sources?: readonly PreimageSource[]; // Where else preimages are learned (default: none)
+  readonly intervalMs?: number; // Time between checks once started (default: 30 seconds)
+  readonly warningMs?: number; // Warn recipients this long before a claim window closes (default: 1 hour)
+}
+
+export class HTLCWatchtower {
+  private readonly sources: readonly PreimageSource[];
+  private readonly intervalMs: number;
+  private readonly warningMs: number;
+  private readonly listeners = new Set<(event: HTLCWatchEvent) => void>();
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+
+  constructor(
+    private readonly storage: TokenStorage,
+    private readonly wallets: WalletManager,
+    private readonly services: PaymentServices,
+    options: HTLCWatchtowerOptions = {}
+  ) {
+    this.sources = options.sources ?? [];
+    this.intervalMs = options.intervalMs ?? 30_000;
+    this.warningMs = options.warningMs ?? 3_600_000;
+  }
+
+  /**
+   * Listen for claims, refunds and warnings
+   *
+   * @returns Function that removes the listener
+   */
+  onEvent(listener: (event: HTLCWatchEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Settle whatever the pending HTLCs allow right now
+   *
+   * A failed claim or refund, or an HTLC that cannot be checked at all
+   * (undecodable record, network error), is reported as a failed event and
+   * retried on the next check; it does not stop the rest of the pass.
+   *
+   * @returns The events of this pass
+   */
+  async check(now = Date.now()): Promise<HTLCWatchEvent[]> {
+    const events: HTLCWatchEvent[] = [];
+    for (const htlc of this.storage.listHTLCs({ status: 'pending' })) {
+      const result = await this.checkOne(htlc, now).catch((error: Error) =>
+        event(htlc, 'failed', now, `Could not check the HTLC: ${error.message}`));
+      if (result) {
+        events.push(result);
+        this.listeners.forEach(listener => listener(result));
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Check every intervalMs until stopped; overlapping checks are skipped
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (this.checking) {
+        return;
+      }
+      this.checking = true;
+      this.check()
+        .catch(error => console.warn('[HTLCWatchtower] Check failed:', error))
+        .finally(() => { this.checking = false; });
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  // ==========================================================================
+  // SETTLEMENT
+  // ==========================================================================
+
+  private async checkOne(htlc: StoredHTLC, now: number): Promise<HTLCWatchEvent | null> {
+    const pkg = trackedPackage(htlc);
+    const condition = pkg.condition!;
+
+    if (await this.services.gossip.checkNullifier(htlcSettlementNullifier(pkg)) > 0) {
+      this.storage.updateHTLC(htlc.id, { status: 'settled', settledAt: now });
+      return event(htlc, 'settled', now, htlc.role === 'sender'
+        ? 'The recipient claimed the HTLC'
+        : 'The HTLC was settled before it could be claimed here');
+    }
+
+    const window = settlementWindow(condition, now);
+
+    if (htlc.role === 'sender') {
+      return window === 'refund' ? this.settle(htlc, pkg, 'refund', now) : null;
+    }
+
+    if (window === 'refund') {
+      this.storage.updateHTLC(htlc.id, { status: 'expired', settledAt: now });
+      return event(htlc, 'expired', now, 'The claim window closed before the HTLC was claimed');
+    }
+
+    if (isHashLocked(condition) && !this.preimageFor(htlc, pkg)) {
+      if (isTimeLocked(condition) && !htlc.warned && condition.timelock! - now <= this.warningMs) {
+        this.storage.updateHTLC(htlc.id, { warned: true });
+        return event(htlc, 'expiring', now,
+          `The claim window closes at ${new Date(condition.timelock!).toISOString()} and the preimage is unknown`);
+      }
+      return null;
+    }
+
+    return this.settle(htlc, pkg, 'claim', now);
+  }
+
+  /**
+   * The preimage of a recipient HTLC, from its record or a source
+   */
+  private preimageFor(htlc: StoredHTLC, pkg: HTLCPackage): Uint8Array | undefined {
+    if (htlc.preimage) {
+      return Crypto.fromHex(htlc.preimage);
+    }
+    for (const source of this.sources) {
+      const preimage = source(pkg.condition!.hashlock!);
+      if (preimage && preimageMatches(pkg.condition!, preimage)) {
+        this.storage.updateHTLC(htlc.id, { preimage: Crypto.toHex(preimage) });
+        htlc.preimage = Crypto.toHex(preimage);
+        return preimage;
+      }
+    }
+    return undefined;
+  }
+
+  private async settle(
+    htlc: StoredHTLC,
+    pkg: HTLCPackage,
+    settlement: 'claim' | 'refund',
+    now: number
+  ): Promise<HTLCWatchEvent> {
+    const { auth, witness, gossip } = this.services;
+    const secret = Crypto.fromHex(this.wallets.getWallet(htlc.wallet).secretKey);
+
+    let token: ScarbuckToken;
+    try {
+      token = settlement === 'claim'
+        ? await ScarbuckToken.receiveHTLC(
+          pkg, secret, htlc.preimage ? Crypto.fromHex(htlc.preimage) : undefined, auth, witness, gossip
+        )
+        : await ScarbuckToken.refundHTLC(pkg, secret, auth, witness, gossip);
+    } catch (error) {
+      // Losing a race with the other settlement leaves its nullifier published
+      if (await gossip.checkNullifier(htlcSettlementNullifier(pkg)) > 0) {
+        this.storage.updateHTLC(htlc.id, { status: 'settled', settledAt: now });
+        return event(htlc, 'settled', now, `The HTLC was settled before it could be ${settlement}ed here`);
+      }
+      return event(htlc, 'failed', now, `Could not ${settlement} the HTLC: ${(error as Error).message}`);
+    }
+
+    const state = token.getPersistentState();
+    this.storage.addToken({
+      id: state.id,
+      amount: state.amount,
+      secretKey: Crypto.toHex(state.secret),
+      wallet: htlc.wallet,
+      created: state.createdAt ?? now,
+      spent: false,
+      denominated: state.denominated,
+      metadata: {
+        type: 'received',
+        source: settlement === 'claim' ? 'htlc' : 'htlc-refund',
+        notes: settlement === 'claim' ? 'Claimed by the HTLC watchtower' : 'Refunded by the HTLC watchtower'
+      }
+    });
+
+    const status = settlement === 'claim' ? 'claimed' : 'refunded';
+    this.storage.updateHTLC(htlc.id, { status, settledAt: now, tokenId: state.id });
+    return { ...event(htlc, status, now, `${settlement === 'claim' ? 'Claimed' : 'Refunded'} ${htlc.amount}`),
+      tokenId: state.id };
+  }
+}
+
+/**
+ * Start watching an HTLC
+ *
+ * @param role - 'sender' to refund it after the timelock, 'recipient' to claim it
+ * @param wallet - Wallet holding the refund key (sender) or receiving the claim (recipient)
+ * @param preimage - Preimage, if already known
+ * @throws Error if the package is not an HTLC or the preimage does not open it
+ */
+export function trackHTLC(
+  storage: TokenStorage,
+  pkg: HTLCPackage,
+  role: StoredHTLC['role'],
+  wallet: string,
+  preimage?: Uint8Array
+): StoredHTLC {
+  if (!pkg.condition) {
+    throw new Error('Package is not an HTLC');
+  }
+  if (role === 'sender' && !isTimeLocked(pkg.condition)) {
+    throw new Error('Only time-locked HTLCs can be refunded, so there is nothing to watch for the sender');
+  }
+  if (preimage && !preimageMatches(pkg.condition, preimage)) {
+    throw new Error('Preimage does not open the hash lock');
+  }
+
+  const htlc: StoredHTLC = {
+    id: Crypto.toHex(pkg.nullifier),
+    role,
+    wallet,
+    package: encodeBearerString('htlc', pkg),
+    amount: pkg.amount,
+    preimage: preimage ? Crypto.toHex(preimage) : undefined,
+    status: 'pending',
+    added: Date.now()
+  };
+  storage.addHTLC(htlc);
+  return htlc;
+}
+
+/**
+ * Record a preimage for every pending HTLC it opens
+ *
+ * @returns How many HTLCs it opens
+ */
+export function learnPreimage(storage: TokenStorage, preimage: Uint8Array): number {
+  const opened = storage.listHTLCs({ status: 'pending' })
+    .filter(htlc => htlc.role === 'recipient' && preimageMatches(trackedPackage(htlc).condition!, preimage));
+  opened.forEach(htlc => storage.updateHTLC(htlc.id, { preimage: Crypto.toHex(preimage) }));
+  return opened.length;
+}
+
+/**
+ * Preimages the swap coordinator knows (its own, and counterparties'
+ * reveals), then those published with hash-locked claims in the gossip
+ */
+export function swapPreimages(store: SwapStore, gossip?: GossipNetwork): PreimageSource {
+  return hashlock => store.get(hashlock)?.preimage ?? gossip?.getPreimage?.(hashlock);
+}
+
+/**
+ * The package of a tracked HTLC
+ */
+export function trackedPackage(htlc: StoredHTLC): HTLCPackage {
+  const decoded = decodeBearerString(htlc.package);
+  if (decoded.kind !== 'htlc') {
+    throw new Error(`Tracked HTLC ${htlc.id.slice(0, 16)} holds a ${decoded.kind} package`);
+  }
+  return decoded.pkg;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function event(htlc: StoredHTLC, type: HTLCWatchEventType, at: number, message: string): HTLCWatchEvent {
+  return { type, htlc: htlc.id, role: htlc.role, wallet: htlc.wallet, amount: htlc.amount, message, at };
+}
@@ -10,6 +10,8 @@ import { WalletCommand } from './commands/wallet.js';
 import { TokenCommand } from './commands/token.js';
 import { HTLCCommand } from './commands/htlc.js';
 import { BridgeCommand } from './commands/bridge.js';
+import { SwapCommand } from './commands/swap.js';
+import { MultiSigCommand } from './commands/multisig.js';
 import { ConfigCommand } from './commands/config.js';
 import { InteractiveCommand } from './commands/interactive.js';
 
@@ -40,6 +42,8 @@ async function main() {
     token: new TokenCommand(),
     htlc: new HTLCCommand(),
     bridge: new BridgeCommand(),
+    swap: new SwapCommand(),
+    multisig: new MultiSigCommand(),
     config: new ConfigCommand(),
     interactive: new InteractiveCommand(),
     repl: new InteractiveCommand(), // Alias
@@ -77,6 +81,8 @@ COMMANDS:
   token          Token operations (mint, transfer, split, merge)
   htlc           Hash Time-Locked Contracts
   bridge         Cross-federation bridge operations
+  swap           Cross-federation atomic swaps
+  multisig       Multi-signature (m-of-n) locked tokens
   config         Configuration management
   interactive    Interactive REPL mode
 
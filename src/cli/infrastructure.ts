@@ -4,11 +4,16 @@
  * Initializes Witness, Freebird, HyperToken, and Gossip based on config
  */
 
+import { join } from 'path';
+import { homedir } from 'os';
 import {
   FreebirdAdapter,
   WitnessAdapter,
   HyperTokenAdapter,
-  NullifierGossip
+  NullifierGossip,
+  NodeIdentity,
+  ReputationLedger,
+  SqliteNullifierStore
 } from '../index.js';
 import { ConfigManager } from './config.js';
 
@@ -22,6 +27,7 @@ export interface Infrastructure {
 export class InfrastructureManager {
   private config: ConfigManager;
   private infrastructure?: Infrastructure;
+  private store?: SqliteNullifierStore;
 
   constructor(config?: ConfigManager) {
     this.config = config || new ConfigManager();
@@ -41,8 +47,18 @@ export class InfrastructureManager {
     // Initialize Witness
     const witness = new WitnessAdapter(this.config.getWitnessConfig());
 
+    // Persistent node identity, so peers can track our reputation across restarts
+    const identity = NodeIdentity.loadOrCreate(join(homedir(), '.scarcity', 'node-identity.json'));
+
+    // Persistent peer reputation, so banned peers stay banned across restarts
+    const reputation = new ReputationLedger({ path: join(homedir(), '.scarcity', 'reputation.json') });
+
+    // Persistent nullifier set, so spends seen before a restart are still refused
+    const store = new SqliteNullifierStore(join(homedir(), '.scarcity', 'nullifiers.db'));
+    this.store = store;
+
     // Initialize Gossip network FIRST (so we can pass it to the handler)
-    const gossip = new NullifierGossip({ witness });
+    const gossip = new NullifierGossip({ witness, identity, reputation, store });
 
     // Initialize HyperToken
     const hypertoken = new HyperTokenAdapter(this.config.getHyperTokenConfig());
@@ -94,6 +110,10 @@ export class InfrastructureManager {
       } catch (error) {
         // Ignore cleanup errors
       }
+
+      // Flushes the reputation ledger; the gossip layer does not own the store
+      this.infrastructure.gossip.destroy();
+      this.store?.close();
     }
   }
 
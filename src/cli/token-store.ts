@@ -1,7 +1,8 @@
 /**
  * Token storage for CLI
  *
- * Manages local storage of tokens and their metadata
+ * Manages local storage of tokens and their metadata, and the HTLCs the
+ * wallet is waiting to claim or refund
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
@@ -16,16 +17,43 @@ export interface StoredToken {
   created: number;
   spent: boolean;
   spentAt?: number;
+  denominated?: boolean; // Denominated coin (see denominations.ts)
   metadata?: {
-    type?: 'minted' | 'received' | 'split' | 'merged';
+    type?: 'minted' | 'received' | 'split' | 'merged' | 'change';
     source?: string;
     notes?: string;
   };
 }
 
+/**
+ * An HTLC the wallet can still settle
+ *
+ * Senders keep their locks to refund them after the timelock; recipients
+ * keep theirs to claim them once the preimage is known. The id is the
+ * lock's nullifier, which either settlement publishes.
+ */
+export type HTLCStatus = 'pending' | 'claimed' | 'refunded' | 'settled' | 'expired';
+
+export const HTLC_STATUSES: readonly HTLCStatus[] = ['pending', 'claimed', 'refunded', 'settled', 'expired'];
+
+export interface StoredHTLC {
+  id: string;
+  role: 'sender' | 'recipient';
+  wallet: string; // Wallet that refunds (sender) or claims (recipient)
+  package: string; // HTLC bearer string
+  amount: number;
+  preimage?: string; // Hex, once known
+  status: HTLCStatus;
+  added: number;
+  settledAt?: number;
+  tokenId?: string; // Token the watcher claimed or refunded into
+  warned?: boolean; // Recipient was told the claim window is closing
+}
+
 export interface TokenStore {
   version: string;
   tokens: { [id: string]: StoredToken };
+  htlcs?: { [id: string]: StoredHTLC };
 }
 
 export class TokenStorage {
@@ -55,18 +83,22 @@ export class TokenStorage {
     if (!existsSync(this.storePath)) {
       return {
         version: '1.0',
-        tokens: {}
+        tokens: {},
+        htlcs: {}
       };
     }
 
     try {
       const data = readFileSync(this.storePath, 'utf-8');
-      return JSON.parse(data);
+      const store: TokenStore = JSON.parse(data);
+      store.htlcs ??= {};
+      return store;
     } catch (error) {
       console.warn('Failed to load token store, creating new one');
       return {
         version: '1.0',
-        tokens: {}
+        tokens: {},
+        htlcs: {}
       };
     }
   }
@@ -148,4 +180,50 @@ export class TokenStorage {
   getTokenCount(wallet?: string, spent?: boolean): number {
     return this.listTokens({ wallet, spent }).length;
   }
+
+  /**
+   * Track an HTLC, replacing any earlier record of the same lock
+   */
+  addHTLC(htlc: StoredHTLC): void {
+    this.store.htlcs![htlc.id] = htlc;
+    this.saveStore();
+  }
+
+  /**
+   * Get a tracked HTLC by its nullifier
+   */
+  getHTLC(id: string): StoredHTLC | undefined {
+    return this.store.htlcs![id];
+  }
+
+  /**
+   * List tracked HTLCs, newest first
+   */
+  listHTLCs(filter?: {
+    wallet?: string;
+    status?: StoredHTLC['status'];
+  }): StoredHTLC[] {
+    let htlcs = Object.values(this.store.htlcs!);
+
+    if (filter?.wallet) {
+      htlcs = htlcs.filter(h => h.wallet === filter.wallet);
+    }
+
+    if (filter?.status) {
+      htlcs = htlcs.filter(h => h.status === filter.status);
+    }
+
+    return htlcs.sort((a, b) => b.added - a.added);
+  }
+
+  /**
+   * Update fields of a tracked HTLC
+   */
+  updateHTLC(id: string, changes: Partial<Omit<StoredHTLC, 'id'>>): void {
+    const htlc = this.store.htlcs![id];
+    if (htlc) {
+      Object.assign(htlc, changes);
+      this.saveStore();
+    }
+  }
 }
@@ -0,0 +1,266 @@
+/**
+ * Bearer strings: packages as compact text for copy-paste and QR codes
+ *
+ * A bearer string is a human-readable prefix, the separator '1' and the
+ * base64url encoding of
+ *
+ *   format version (1 byte) | flags (1 byte) | body | checksum (4 bytes)
+ *
+ * where the body is the package codec encoding (see package-codec.ts),
+ * deflated when the Deflate flag is set, and the checksum is the first
+ * four bytes of SHA-256 over the prefix and everything before it. A typo
+ * or truncation fails the checksum instead of producing a different
+ * package. Like a banknote, whoever holds the string can receive the
+ * payment it carries, so treat it as cash.
+ *
+ * Strings too long for one QR code are cut into parts
+ *
+ *   <prefix>:<index>/<total>:<set id>:<slice>
+ *
+ * which can be scanned in any order and joined with joinQRParts.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { decodePackage, encodePackage, PACKAGE_CBOR_LIMITS } from './package-codec.js';
+import type { DecodedPackage, PackageKind, PackageTypes } from './package-codec.js';
+
+/** Prefix of bearer strings for the main network */
+export const BEARER_PREFIX = 'scar';
+
+/** Bearer string format version written by this node */
+export const BEARER_FORMAT_VERSION = 1;
+
+/** Default QR part length; fits a version 25 code (1273 bytes) at medium error correction */
+export const DEFAULT_QR_PART_CHARS = 1200;
+
+/** Most parts a QR set may announce; every part carries at least one byte of a package */
+export const MAX_QR_PARTS = PACKAGE_CBOR_LIMITS.maxEncodedBytes;
+
+const SEPARATOR = '1';
+const CHECKSUM_BYTES = 4;
+const FLAG_DEFLATE = 1 << 0;
+
+export type BearerStringErrorCategory = 'bad-prefix' | 'bad-checksum' | 'unsupported-version' | 'malformed' | 'incomplete';
+
+export class BearerStringError extends Error {
+  constructor(public readonly category: BearerStringErrorCategory, message: string) {
+    super(message);
+    this.name = 'BearerStringError';
+  }
+}
+
+export interface BearerStringOptions {
+  readonly prefix?: string; // Human-readable prefix, lowercase letters only (default: BEARER_PREFIX)
+  readonly compress?: boolean; // Deflate the body when that makes it shorter (default: true)
+}
+
+/**
+ * Encode a package as a bearer string
+ */
+export function encodeBearerString<K extends PackageKind>(
+  kind: K,
+  pkg: PackageTypes[K],
+  options: BearerStringOptions = {}
+): string {
+  const prefix = checkPrefix(options.prefix ?? BEARER_PREFIX);
+
+  let body = encodePackage(kind, pkg);
+  let flags = 0;
+  if (options.compress ?? true) {
+    const deflated = new Uint8Array(deflateRawSync(body));
+    if (deflated.byteLength < body.byteLength) {
+      body = deflated;
+      flags |= FLAG_DEFLATE;
+    }
+  }
+
+  const payload = new Uint8Array(2 + body.byteLength);
+  payload[0] = BEARER_FORMAT_VERSION;
+  payload[1] = flags;
+  payload.set(body, 2);
+
+  const data = new Uint8Array(payload.byteLength + CHECKSUM_BYTES);
+  data.set(payload);
+  data.set(checksum(prefix, payload), payload.byteLength);
+  return prefix + SEPARATOR + Buffer.from(data).toString('base64url');
+}
+
+/**
+ * Decode a bearer string back into a package
+ *
+ * Surrounding whitespace is ignored, so strings pasted with line breaks
+ * still decode.
+ *
+ * @throws BearerStringError on a wrong prefix, failed checksum or
+ *         unsupported version
+ * @throws PackageCodecError if the package inside is malformed
+ */
+export function decodeBearerString(text: string, options: Pick<BearerStringOptions, 'prefix'> = {}): DecodedPackage {
+  const prefix = checkPrefix(options.prefix ?? BEARER_PREFIX);
+  const compact = text.replace(/\s+/g, '');
+
+  if (!compact.startsWith(prefix + SEPARATOR)) {
+    throw new BearerStringError('bad-prefix', `Bearer string must start with '${prefix}${SEPARATOR}'`);
+  }
+  const encoded = compact.slice(prefix.length + SEPARATOR.length);
+  if (!/^[A-Za-z0-9_-]+$/.test(encoded)) {
+    throw new BearerStringError('malformed', 'Bearer string is not base64url');
+  }
+
+  const data = new Uint8Array(Buffer.from(encoded, 'base64url'));
+  if (data.byteLength < 2 + CHECKSUM_BYTES) {
+    throw new BearerStringError('malformed', 'Bearer string is too short');
+  }
+  const payload = data.subarray(0, data.byteLength - CHECKSUM_BYTES);
+  const expected = checksum(prefix, payload);
+  if (!Buffer.from(expected).equals(Buffer.from(data.subarray(payload.byteLength)))) {
+    throw new BearerStringError('bad-checksum', 'Bearer string checksum does not match; it may be mistyped or cut short');
+  }
+
+  const [version, flags] = payload;
+  if (version !== BEARER_FORMAT_VERSION) {
+    throw new BearerStringError('unsupported-version', `Unsupported bearer string version ${version}`);
+  }
+  if ((flags & ~FLAG_DEFLATE) !== 0) {
+    throw new BearerStringError('malformed', `Unsupported bearer string flags 0x${flags.toString(16)}`);
+  }
+
+  let body = payload.subarray(2);
+  if (flags & FLAG_DEFLATE) {
+    try {
+      body = new Uint8Array(inflateRawSync(body, { maxOutputLength: PACKAGE_CBOR_LIMITS.maxEncodedBytes }));
+    } catch {
+      throw new BearerStringError('malformed', 'Bearer string body does not inflate');
+    }
+  }
+  return decodePackage(body);
+}
+
+/**
+ * Whether text looks like a bearer string (prefix only; not validated)
+ */
+export function isBearerString(text: string, prefix = BEARER_PREFIX): boolean {
+  return text.trim().startsWith(prefix + SEPARATOR);
+}
+
+// ============================================================================
+// QR PARTS
+// ============================================================================
+
+/**
+ * Cut a bearer string into parts that each fit a QR code
+ *
+ * A string that already fits is returned as its only part, unchanged,
+ * so single-code payments scan as plain bearer strings.
+ *
+ * @param maxChars - Longest part, header included (default: DEFAULT_QR_PART_CHARS)
+ */
+export function splitForQR(bearer: string, maxChars = DEFAULT_QR_PART_CHARS): string[] {
+  if (bearer.length <= maxChars) {
+    return [bearer];
+  }
+
+  const prefix = bearer.slice(0, bearer.indexOf(SEPARATOR));
+  const setId = bytesToHex(sha256(new TextEncoder().encode(bearer))).slice(0, 8);
+
+  // Headers grow with the part count, so size the slices for the widest one
+  let total = 1;
+  let sliceChars = 0;
+  for (;;) {
+    const header = `${prefix}:${total}/${total}:${setId}:`;
+    sliceChars = maxChars - header.length;
+    if (sliceChars < 1) {
+      throw new Error(`QR parts of ${maxChars} characters are too short to carry data`);
+    }
+    const needed = Math.ceil(bearer.length / sliceChars);
+    if (needed <= total) {
+      break;
+    }
+    total = needed;
+  }
+
+  const parts: string[] = [];
+  for (let i = 0; i < total; i++) {
+    parts.push(`${prefix}:${i + 1}/${total}:${setId}:${bearer.slice(i * sliceChars, (i + 1) * sliceChars)}`);
+  }
+  return parts;
+}
+
+/**
+ * Reassemble a bearer string from scanned QR parts
+ *
+ * Parts may arrive in any order and repeat. A lone plain bearer string is
+ * returned as is.
+ *
+ * @throws BearerStringError('incomplete') naming any missing parts, or
+ *         ('malformed') if parts belong to different payments
+ */
+export function joinQRParts(parts: readonly string[]): string {
+  const trimmed = parts.map(part => part.trim()).filter(part => part.length > 0);
+  if (trimmed.length === 1 && !/^[a-z]+:\d+\//.test(trimmed[0])) {
+    return trimmed[0];
+  }
+
+  let set: { prefix: string; total: number; setId: string } | null = null;
+  const slices = new Map<number, string>();
+  for (const part of trimmed) {
+    const match = /^([a-z]+):(\d+)\/(\d+):([0-9a-f]{8}):(.+)$/s.exec(part);
+    if (!match) {
+      throw new BearerStringError('malformed', 'Not a bearer string QR part');
+    }
+    const [, prefix, index, total, setId, slice] = match;
+    if (Number(total) > MAX_QR_PARTS) {
+      throw new BearerStringError('malformed', `QR set announces ${total} parts, more than ${MAX_QR_PARTS}`);
+    }
+    if (set && (set.prefix !== prefix || set.total !== Number(total) || set.setId !== setId)) {
+      throw new BearerStringError('malformed', 'QR parts belong to different payments');
+    }
+    set = { prefix, total: Number(total), setId };
+    if (Number(index) < 1 || Number(index) > set.total) {
+      throw new BearerStringError('malformed', `QR part ${index} is out of range 1-${total}`);
+    }
+    slices.set(Number(index), slice);
+  }
+
+  if (!set) {
+    throw new BearerStringError('incomplete', 'No QR parts to join');
+  }
+  const missing: number[] = [];
+  for (let i = 1; i <= set.total; i++) {
+    if (!slices.has(i)) {
+      missing.push(i);
+    }
+  }
+  if (missing.length > 0) {
+    const listed = missing.length > 20
+      ? `${missing.slice(0, 20).join(', ')} and ${missing.length - 20} more`
+      : missing.join(', ');
+    throw new BearerStringError('incomplete', `Missing QR parts ${listed} of ${set.total}`);
+  }
+
+  const bearer = Array.from({ length: set.total }, (_, i) => slices.get(i + 1)).join('');
+  if (bytesToHex(sha256(new TextEncoder().encode(bearer))).slice(0, 8) !== set.setId) {
+    throw new BearerStringError('malformed', 'QR parts do not reassemble into the payment they announce');
+  }
+  return bearer;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function checkPrefix(prefix: string): string {
+  if (!/^[a-z]+$/.test(prefix)) {
+    throw new Error(`Bearer string prefix must be lowercase letters, got '${prefix}'`);
+  }
+  return prefix;
+}
+
+function checksum(prefix: string, payload: Uint8Array): Uint8Array {
+  const input = new Uint8Array(prefix.length + payload.byteLength);
+  input.set(new TextEncoder().encode(prefix));
+  input.set(payload, prefix.length);
+  return sha256(input).subarray(0, CHECKSUM_BYTES);
+}
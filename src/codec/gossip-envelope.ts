@@ -0,0 +1,316 @@
+/**
+ * Versioned gossip wire format
+ *
+ * A gossip message on the wire is a canonical CBOR envelope:
+ *
+ *   { v: protocol version, f: envelope flags, b: body }
+ *
+ * where the body is the canonical CBOR encoding of the message, deflated when
+ * the Compression flag is set. Both layers are decoded with decodeRestricted,
+ * so malformed, oversized or non-canonical input is rejected before any
+ * handler sees it.
+ *
+ * Peers agree on the format with a 'hello' handshake (see negotiate()). A
+ * peer that never says hello is an older node and keeps receiving the
+ * legacy JSON encoding, so old and new nodes can share a network during an
+ * upgrade.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { CborError, DEFAULT_CBOR_LIMITS, decodeRestricted, encodeCanonical, type CborLimits } from './canonical-cbor.js';
+import { MAX_SYNC_BUCKETS } from '../reconciliation.js';
+import { MAX_FILTER_BYTES } from '../bloom-filter.js';
+import { attestationToWire, attestationFromWire as parseAttestation, dropUndefined, toPlain } from './wire.js';
+import type {
+  Attestation,
+  GossipMessage,
+  NegotiatedCapabilities,
+  PeerCapabilities,
+  SpendClaim
+} from '../types.js';
+
+/** Wire protocol version spoken by this node */
+export const GOSSIP_PROTOCOL_VERSION = 1;
+
+/** Oldest wire protocol version this node still accepts */
+export const MIN_GOSSIP_PROTOCOL_VERSION = 1;
+
+/** Default cap on an encoded envelope */
+export const MAX_ENVELOPE_BYTES = 4 * 1024 * 1024;
+
+/** Bodies smaller than this are sent uncompressed even when compression is agreed */
+export const COMPRESSION_THRESHOLD = 512;
+
+/**
+ * Capability bits advertised in 'hello'. The Compression bit doubles as the
+ * envelope flag for a deflated body.
+ */
+export const GossipFeature = {
+  CborEnvelope: 1 << 0, // Accepts CBOR envelopes instead of legacy JSON
+  Compression: 1 << 1, // Accepts deflated envelope bodies
+  OwnershipProofRequired: 1 << 2, // Drops nullifiers without an ownership proof
+  Sharding: 1 << 3, // Stores only its shard of the nullifier set
+  SignedEnvelopes: 1 << 4, // Signs its envelopes with a node identity
+  BatchedAttestations: 1 << 5 // Verifies Merkle-batched Witness attestations
+} as const;
+
+// Envelope flags this node knows how to decode
+const KNOWN_ENVELOPE_FLAGS = GossipFeature.Compression;
+
+// Confidence (0-1) travels as an integer in parts per million
+const CONFIDENCE_SCALE = 1_000_000;
+
+/**
+ * Limits for message bodies: large enough for a full sync round
+ * (MAX_SYNC_KEYS nullifier keys, MAX_SYNC_BUCKETS digest buckets) and a
+ * full-size Bloom filter
+ */
+export const GOSSIP_CBOR_LIMITS: CborLimits = {
+  ...DEFAULT_CBOR_LIMITS,
+  maxStringBytes: 65_536,
+  maxByteStringBytes: MAX_FILTER_BYTES,
+  maxItems: MAX_SYNC_BUCKETS,
+  maxEncodedBytes: MAX_ENVELOPE_BYTES
+};
+
+export type GossipEnvelopeErrorCategory = 'unsupported-version' | 'unsupported-flags' | 'too-large' | 'malformed';
+
+export class GossipEnvelopeError extends Error {
+  constructor(public readonly category: GossipEnvelopeErrorCategory, message: string) {
+    super(message);
+    this.name = 'GossipEnvelopeError';
+  }
+}
+
+export interface EncodeEnvelopeOptions {
+  readonly compress?: boolean; // Deflate bodies over COMPRESSION_THRESHOLD (default: false)
+  readonly maxBytes?: number; // Reject envelopes larger than this (default: MAX_ENVELOPE_BYTES)
+}
+
+export interface DecodedEnvelope {
+  readonly version: number;
+  readonly flags: number;
+  readonly message: GossipMessage;
+}
+
+/**
+ * Encode a gossip message as a canonical CBOR envelope
+ *
+ * @throws GossipEnvelopeError('too-large') if the envelope exceeds maxBytes
+ * @throws CborError if the message holds values CBOR cannot carry canonically
+ *         or exceeds GOSSIP_CBOR_LIMITS
+ */
+export function encodeEnvelope(message: GossipMessage, options: EncodeEnvelopeOptions = {}): Uint8Array {
+  const maxBytes = options.maxBytes ?? MAX_ENVELOPE_BYTES;
+
+  // The size cap applies to the (possibly compressed) envelope, checked below
+  let body = encodeCanonical(toWire(message), bodyLimits(Number.MAX_SAFE_INTEGER));
+  let flags = 0;
+  if (options.compress && body.byteLength >= COMPRESSION_THRESHOLD) {
+    const deflated = new Uint8Array(deflateRawSync(body));
+    // Incompressible bodies (mostly hashes and signatures) are sent as-is
+    if (deflated.byteLength < body.byteLength) {
+      body = deflated;
+      flags |= GossipFeature.Compression;
+    }
+  }
+
+  let envelope: Uint8Array;
+  try {
+    envelope = encodeCanonical({ v: GOSSIP_PROTOCOL_VERSION, f: flags, b: body }, envelopeLimits(maxBytes));
+  } catch (error) {
+    if (error instanceof CborError) {
+      throw new GossipEnvelopeError('too-large', `Gossip envelope exceeds ${maxBytes} bytes`);
+    }
+    throw error;
+  }
+  return envelope;
+}
+
+/**
+ * Decode and validate a gossip envelope
+ *
+ * @throws GossipEnvelopeError on an unsupported version or flag, an envelope
+ *         or inflated body over maxBytes, or malformed CBOR
+ */
+export function decodeEnvelope(bytes: Uint8Array, maxBytes = MAX_ENVELOPE_BYTES): DecodedEnvelope {
+  if (bytes.byteLength > maxBytes) {
+    throw new GossipEnvelopeError('too-large', `Gossip envelope of ${bytes.byteLength} bytes exceeds ${maxBytes}`);
+  }
+
+  const envelope = decodeLayer(bytes, envelopeLimits(maxBytes));
+  if (!(envelope instanceof Map) || envelope.size !== 3) {
+    throw new GossipEnvelopeError('malformed', 'Gossip envelope must be a {v, f, b} map');
+  }
+  const version = envelope.get('v');
+  const flags = envelope.get('f');
+  let body = envelope.get('b');
+  if (typeof version !== 'number' || typeof flags !== 'number' || !(body instanceof Uint8Array)) {
+    throw new GossipEnvelopeError('malformed', 'Gossip envelope must be a {v, f, b} map');
+  }
+  if (version < MIN_GOSSIP_PROTOCOL_VERSION || version > GOSSIP_PROTOCOL_VERSION) {
+    throw new GossipEnvelopeError('unsupported-version', `Unsupported gossip protocol version ${version}`);
+  }
+  if ((flags & ~KNOWN_ENVELOPE_FLAGS) !== 0) {
+    throw new GossipEnvelopeError('unsupported-flags', `Unsupported gossip envelope flags 0x${flags.toString(16)}`);
+  }
+
+  if (flags & GossipFeature.Compression) {
+    try {
+      body = new Uint8Array(inflateRawSync(body, { maxOutputLength: maxBytes }));
+    } catch (error) {
+      // Node reports an inflate bomb as a RangeError
+      if (error instanceof RangeError) {
+        throw new GossipEnvelopeError('too-large', `Inflated gossip body exceeds ${maxBytes} bytes`);
+      }
+      throw new GossipEnvelopeError('malformed', 'Gossip envelope body does not inflate');
+    }
+  }
+
+  return { version, flags, message: fromWire(decodeLayer(body, bodyLimits(maxBytes))) };
+}
+
+// ============================================================================
+// CAPABILITY NEGOTIATION
+// ============================================================================
+
+/**
+ * Whether a peer's advertised capabilities are well-formed
+ */
+export function isValidCapabilities(capabilities: unknown): capabilities is PeerCapabilities {
+  if (typeof capabilities !== 'object' || capabilities === null) {
+    return false;
+  }
+  const { version, minVersion, features, maxMessageBytes } = capabilities as Record<string, unknown>;
+  return Number.isInteger(minVersion) && (minVersion as number) >= 1 &&
+    Number.isInteger(version) && (version as number) >= (minVersion as number) &&
+    Number.isInteger(features) && (features as number) >= 0 && (features as number) <= 0x7fffffff &&
+    Number.isInteger(maxMessageBytes) && (maxMessageBytes as number) > 0;
+}
+
+/**
+ * Settle on what two peers can use with each other
+ *
+ * Both speak the highest version they share; features must be supported by
+ * both; messages must fit the smaller limit.
+ *
+ * @returns The agreement, or null if the peers share no protocol version
+ */
+export function negotiate(local: PeerCapabilities, remote: PeerCapabilities): NegotiatedCapabilities | null {
+  const version = Math.min(local.version, remote.version);
+  if (version < Math.max(local.minVersion, remote.minVersion)) {
+    return null;
+  }
+  return {
+    version,
+    features: local.features & remote.features,
+    remoteFeatures: remote.features,
+    maxMessageBytes: Math.min(local.maxMessageBytes, remote.maxMessageBytes)
+  };
+}
+
+/**
+ * Confidence as the envelope carries it. Signers round to this first, so a
+ * signature still verifies after a CBOR round-trip.
+ */
+export function quantizeConfidence(confidence: number): number {
+  return Math.round(confidence * CONFIDENCE_SCALE) / CONFIDENCE_SCALE;
+}
+
+// ============================================================================
+// WIRE FORM
+// ============================================================================
+
+function bodyLimits(maxBytes: number): CborLimits {
+  return { ...GOSSIP_CBOR_LIMITS, maxEncodedBytes: maxBytes };
+}
+
+function envelopeLimits(maxBytes: number): CborLimits {
+  return { ...GOSSIP_CBOR_LIMITS, maxByteStringBytes: maxBytes, maxEncodedBytes: maxBytes };
+}
+
+function decodeLayer(bytes: Uint8Array, limits: CborLimits): unknown {
+  try {
+    return decodeRestricted(bytes, limits);
+  } catch (error) {
+    if (error instanceof CborError) {
+      throw new GossipEnvelopeError('malformed', `Malformed gossip envelope (${error.category})`);
+    }
+    throw error;
+  }
+}
+
+function attestationFromWire(wire: unknown): Attestation {
+  try {
+    return parseAttestation(wire);
+  } catch {
+    throw new GossipEnvelopeError('malformed', 'Attestation raw payload is not JSON');
+  }
+}
+
+function claimToWire(claim: SpendClaim): unknown {
+  return { ...claim, proof: attestationToWire(claim.proof) };
+}
+
+function claimFromWire(wire: unknown): SpendClaim {
+  if (!isObject(wire)) {
+    throw new GossipEnvelopeError('malformed', 'Double-spend evidence claim is not a map');
+  }
+  return { ...wire, proof: attestationFromWire(wire.proof) } as unknown as SpendClaim;
+}
+
+/**
+ * Message in a form encodeCanonical accepts: undefined fields dropped,
+ * confidence as an integer
+ */
+function toWire(message: GossipMessage): unknown {
+  const wire: Record<string, unknown> = {
+    ...message,
+    proof: message.proof && attestationToWire(message.proof),
+    entries: message.entries?.map(entry => ({ ...entry, proof: attestationToWire(entry.proof) })),
+    evidence: message.evidence && {
+      ...message.evidence,
+      first: claimToWire(message.evidence.first),
+      second: claimToWire(message.evidence.second)
+    },
+    confidence: message.confidence === undefined ? undefined : Math.round(message.confidence * CONFIDENCE_SCALE)
+  };
+  return dropUndefined(wire);
+}
+
+function fromWire(wire: unknown): GossipMessage {
+  const message = toPlain(wire);
+  if (!isObject(message) || typeof message.type !== 'string' || typeof message.timestamp !== 'number') {
+    throw new GossipEnvelopeError('malformed', 'Gossip envelope body is not a message');
+  }
+  const byteFields = ['nullifier', 'ownershipProof', 'packageFields', 'preimage', 'sender', 'signature', 'recipient'];
+  for (const field of byteFields) {
+    if (message[field] !== undefined && !(message[field] instanceof Uint8Array)) {
+      throw new GossipEnvelopeError('malformed', `Gossip message field ${field} must be bytes`);
+    }
+  }
+
+  const { entries, evidence } = message;
+  if (entries !== undefined && !(Array.isArray(entries) && entries.every(isObject))) {
+    throw new GossipEnvelopeError('malformed', 'Gossip message entries must be a list of maps');
+  }
+  if (evidence !== undefined && !isObject(evidence)) {
+    throw new GossipEnvelopeError('malformed', 'Gossip message evidence must be a map');
+  }
+
+  return {
+    ...message,
+    proof: message.proof === undefined ? undefined : attestationFromWire(message.proof),
+    entries: entries?.map(entry => ({ ...entry, proof: attestationFromWire(entry.proof) })),
+    evidence: evidence && {
+      ...evidence,
+      first: claimFromWire(evidence.first),
+      second: claimFromWire(evidence.second)
+    },
+    confidence: typeof message.confidence === 'number' ? message.confidence / CONFIDENCE_SCALE : message.confidence
+  } as unknown as GossipMessage;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
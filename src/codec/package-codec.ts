@@ -0,0 +1,348 @@
+/**
+ * Canonical encoding for token packages
+ *
+ * A package is encoded as a canonical CBOR map:
+ *
+ *   { v: codec version, k: package kind, p: package }
+ *
+ * Byte fields travel as CBOR byte strings, so the encoding is compact and
+ * any language with a deterministic CBOR library produces the same bytes.
+ *
+ * Package hashes, the values Witness timestamps, are taken over the same
+ * encoding of the package with its proofs left out (see packageHashInput).
+ * They replace the JSON.stringify and field-list hashes of earlier
+ * versions, which depended on JavaScript's property order and encoding of
+ * byte arrays. Packages proven before this codec (version 0) still carry
+ * proofs over those hashes; legacyHashedFields recovers what they covered
+ * so verifiers can accept them.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { CborError, DEFAULT_CBOR_LIMITS, decodeRestricted, encodeCanonical, type CborLimits } from './canonical-cbor.js';
+import { attestationFromWire, attestationToWire, dropUndefined, toPlain } from './wire.js';
+import type {
+  Attestation,
+  TransferPackage,
+  SplitPackage,
+  PaymentPackage,
+  MergePackage,
+  MultiPartyTransfer,
+  HTLCPackage,
+  MultiSigPackage,
+  BridgePackage
+} from '../types.js';
+
+/** Package codec version written by this node */
+export const PACKAGE_CODEC_VERSION = 1;
+
+/** Oldest package codec version this node still decodes */
+export const MIN_PACKAGE_CODEC_VERSION = 1;
+
+/** Package types by the kind tag they are encoded with */
+export interface PackageTypes {
+  transfer: TransferPackage;
+  split: SplitPackage;
+  payment: PaymentPackage;
+  merge: MergePackage;
+  multiparty: MultiPartyTransfer;
+  htlc: HTLCPackage;
+  multisig: MultiSigPackage;
+  bridge: BridgePackage;
+}
+
+export type PackageKind = keyof PackageTypes;
+
+export type DecodedPackage = {
+  [K in PackageKind]: { readonly version: number; readonly kind: K; readonly pkg: PackageTypes[K] }
+}[PackageKind];
+
+/** What a package hash covers; bridges are hashed once per federation */
+export type HashedPackageKind = Exclude<PackageKind, 'bridge'> | 'bridge-lock' | 'bridge-mint';
+
+/** Package kinds that lock a token until a claim, refund or spend settles it */
+export type LockKind = 'htlc' | 'multisig';
+
+/** What a version-0 package hash covers; payment and multisig packages came later */
+export type LegacyPackageKind = Exclude<HashedPackageKind, 'payment' | 'multisig'>;
+
+/**
+ * Limits for packages: Witness raw payloads travel as JSON strings and
+ * may be long
+ */
+export const PACKAGE_CBOR_LIMITS: CborLimits = {
+  ...DEFAULT_CBOR_LIMITS,
+  maxStringBytes: 65_536
+};
+
+export type PackageCodecErrorCategory = 'unsupported-version' | 'unknown-kind' | 'wrong-kind' | 'malformed';
+
+export class PackageCodecError extends Error {
+  constructor(public readonly category: PackageCodecErrorCategory, message: string) {
+    super(message);
+    this.name = 'PackageCodecError';
+  }
+}
+
+type FieldType = 'string' | 'number' | 'bytes' | 'array' | 'object';
+
+// Required fields of each kind, checked on decode
+const REQUIRED_FIELDS: Record<PackageKind, Record<string, FieldType>> = {
+  transfer: { tokenId: 'string', amount: 'number', sourceCreatedAt: 'number', commitment: 'bytes', nullifier: 'bytes', proof: 'object' },
+  split: { sourceTokenId: 'string', sourceAmount: 'number', sourceCreatedAt: 'number', splits: 'array', nullifier: 'bytes', proof: 'object' },
+  payment: { sourceTokenId: 'string', sourceAmount: 'number', sourceCreatedAt: 'number', payment: 'object', nullifier: 'bytes', proof: 'object' },
+  merge: { targetTokenId: 'string', targetAmount: 'number', commitment: 'bytes', sources: 'array', proof: 'object' },
+  multiparty: { sourceTokenId: 'string', sourceAmount: 'number', sourceCreatedAt: 'number', recipients: 'array', nullifier: 'bytes', proof: 'object' },
+  htlc: { tokenId: 'string', amount: 'number', sourceCreatedAt: 'number', commitment: 'bytes', nullifier: 'bytes', condition: 'object', proof: 'object' },
+  multisig: { tokenId: 'string', amount: 'number', sourceCreatedAt: 'number', commitment: 'bytes', nullifier: 'bytes', policy: 'object', proof: 'object' },
+  bridge: {
+    sourceTokenId: 'string', sourceCreatedAt: 'number', sourceFederation: 'string', targetFederation: 'string',
+    amount: 'number', commitment: 'bytes', nullifier: 'bytes', sourceProof: 'object'
+  }
+};
+
+// Fields covered by each package hash: everything but the proofs of it
+const HASHED_FIELDS: Record<HashedPackageKind, readonly string[]> = {
+  transfer: [
+    'tokenId', 'amount', 'sourceCreatedAt', 'commitment', 'authToken', 'nullifier', 'paymentRequest', 'denominated'
+  ],
+  split: ['sourceTokenId', 'sourceAmount', 'sourceCreatedAt', 'splits', 'nullifier', 'denominated'],
+  payment: [
+    'sourceTokenId', 'sourceAmount', 'sourceCreatedAt', 'payment', 'change', 'paymentRequest', 'nullifier', 'denominated'
+  ],
+  merge: ['targetTokenId', 'targetAmount', 'commitment', 'authToken', 'sources', 'denominated'],
+  multiparty: ['sourceTokenId', 'sourceAmount', 'sourceCreatedAt', 'recipients', 'nullifier', 'denominated'],
+  htlc: [
+    'tokenId', 'amount', 'sourceCreatedAt', 'commitment', 'authToken', 'nullifier', 'condition', 'refundPublicKey', 'denominated'
+  ],
+  multisig: ['tokenId', 'amount', 'sourceCreatedAt', 'commitment', 'authToken', 'nullifier', 'policy', 'denominated'],
+  'bridge-lock': [
+    'sourceTokenId', 'sourceCreatedAt', 'sourceFederation', 'targetFederation', 'amount', 'commitment', 'authToken', 'nullifier'
+  ],
+  'bridge-mint': [
+    'sourceTokenId', 'sourceCreatedAt', 'sourceFederation', 'targetFederation', 'amount', 'commitment', 'authToken', 'nullifier',
+    'sourceProof'
+  ]
+};
+
+// Fields covered by each version-0 hash, in the order it covered them
+const LEGACY_HASHED_FIELDS: Record<LegacyPackageKind, readonly string[]> = {
+  transfer: ['tokenId', 'amount', 'commitment', 'nullifier', 'sourceCreatedAt', 'authToken'],
+  split: ['sourceTokenId', 'sourceAmount', 'sourceCreatedAt', 'splits', 'nullifier'],
+  merge: ['targetTokenId', 'targetAmount', 'commitment', 'authToken', 'sources'],
+  multiparty: ['sourceTokenId', 'sourceAmount', 'sourceCreatedAt', 'recipients', 'nullifier'],
+  htlc: [
+    'tokenId', 'amount', 'sourceCreatedAt', 'commitment', 'authToken', 'nullifier', 'condition', 'refundPublicKey'
+  ],
+  'bridge-lock': HASHED_FIELDS['bridge-lock'],
+  'bridge-mint': HASHED_FIELDS['bridge-mint']
+};
+
+// Domain tags of the nullifiers that settle locks (see lockNullifier)
+const LOCK_NULLIFIER_TAGS: Record<LockKind, string> = {
+  htlc: 'SCARCITY_HTLC_SETTLEMENT',
+  multisig: 'SCARCITY_MULTISIG_LOCK_SPEND'
+};
+
+// Attestation-valued fields, whose raw payload needs converting
+const ATTESTATION_FIELDS = ['proof', 'sourceProof', 'targetProof'];
+
+/**
+ * Encode a package as a canonical CBOR envelope
+ *
+ * @throws CborError if the package holds values CBOR cannot carry
+ *         canonically (fractional amounts) or exceeds PACKAGE_CBOR_LIMITS
+ */
+export function encodePackage<K extends PackageKind>(kind: K, pkg: PackageTypes[K]): Uint8Array {
+  return encodeCanonical({ v: PACKAGE_CODEC_VERSION, k: kind, p: toWire(pkg) }, PACKAGE_CBOR_LIMITS);
+}
+
+/**
+ * Decode and check a package envelope
+ *
+ * @throws PackageCodecError on an unsupported version or kind, or
+ *         malformed CBOR or package fields
+ */
+export function decodePackage(bytes: Uint8Array): DecodedPackage {
+  let envelope: unknown;
+  try {
+    envelope = decodeRestricted(bytes, PACKAGE_CBOR_LIMITS);
+  } catch (error) {
+    if (error instanceof CborError) {
+      throw new PackageCodecError('malformed', `Malformed package encoding (${error.category})`);
+    }
+    throw error;
+  }
+
+  if (!(envelope instanceof Map) || envelope.size !== 3) {
+    throw new PackageCodecError('malformed', 'Package envelope must be a {v, k, p} map');
+  }
+  const version = envelope.get('v');
+  const kind = envelope.get('k');
+  const body = toPlain(envelope.get('p'));
+  if (typeof version !== 'number' || typeof kind !== 'string' || typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new PackageCodecError('malformed', 'Package envelope must be a {v, k, p} map');
+  }
+  if (version < MIN_PACKAGE_CODEC_VERSION || version > PACKAGE_CODEC_VERSION) {
+    throw new PackageCodecError('unsupported-version', `Unsupported package codec version ${version}`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(REQUIRED_FIELDS, kind)) {
+    throw new PackageCodecError('unknown-kind', `Unknown package kind '${kind}'`);
+  }
+
+  const packageKind = kind as PackageKind;
+  for (const [field, type] of Object.entries(REQUIRED_FIELDS[packageKind])) {
+    if (!hasType((body as Record<string, unknown>)[field], type)) {
+      throw new PackageCodecError('malformed', `Package field ${field} must be ${type === 'array' ? 'an' : 'a'} ${type}`);
+    }
+  }
+
+  return { version, kind: packageKind, pkg: fromWire(body as Record<string, unknown>) } as DecodedPackage;
+}
+
+/**
+ * Decode a package that must be of the given kind
+ *
+ * @throws PackageCodecError('wrong-kind') if it is another kind
+ */
+export function decodePackageAs<K extends PackageKind>(bytes: Uint8Array, kind: K): PackageTypes[K] {
+  const decoded = decodePackage(bytes);
+  if (decoded.kind !== kind) {
+    throw new PackageCodecError('wrong-kind', `Expected a ${kind} package, got ${decoded.kind}`);
+  }
+  return decoded.pkg as PackageTypes[K];
+}
+
+/**
+ * The bytes a package hash is taken over: the canonical envelope of the
+ * hashed fields, tagged with the hash kind so packages of different kinds
+ * never share a hash
+ */
+export function packageHashInput(kind: HashedPackageKind, pkg: object): Uint8Array {
+  const fields = pkg as Record<string, unknown>;
+  const hashed = Object.fromEntries(HASHED_FIELDS[kind].map(field => [field, fields[field]]));
+  return encodeCanonical({ v: PACKAGE_CODEC_VERSION, k: kind, p: toWire(hashed) }, PACKAGE_CBOR_LIMITS);
+}
+
+/**
+ * The fields a version-0 hash of the package covered, in order, or
+ * undefined if the package sets fields added since (denominated, payment
+ * requests): those are only bound by the current hash, so such a package
+ * must not be accepted on a version-0 proof
+ */
+export function legacyHashedFields(kind: LegacyPackageKind, pkg: object): Record<string, unknown> | undefined {
+  const fields = pkg as Record<string, unknown>;
+  const legacy = LEGACY_HASHED_FIELDS[kind];
+  if (HASHED_FIELDS[kind].some(field => !legacy.includes(field) && fields[field] !== undefined)) {
+    return undefined;
+  }
+  return Object.fromEntries(legacy.map(field => [field, fields[field]]));
+}
+
+/**
+ * The nullifier that settles a lock. A lock publishes its source token's
+ * nullifier when it is made; the locked value is claimed, refunded or
+ * spent under this one, derived from the lock's package hash, so exactly
+ * one settlement can be published and the source cannot be spent again.
+ */
+export function lockNullifier(kind: LockKind, packageHash: string): Uint8Array {
+  return sha256(concatBytes(utf8ToBytes(LOCK_NULLIFIER_TAGS[kind]), utf8ToBytes(packageHash)));
+}
+
+/**
+ * Whether a package hash input (see packageHashInput) spends a nullifier,
+ * as its own nullifier, one of a merge's sources or the nullifier settling
+ * a lock. Lets a node that only holds an attestation and these bytes check
+ * the attestation is for a spend of that nullifier and not some unrelated
+ * package.
+ */
+export function hashInputSpends(input: Uint8Array, nullifier: Uint8Array): boolean {
+  const decoded = decodeHashInput(input);
+  if (!decoded) {
+    return false;
+  }
+  if (Object.prototype.hasOwnProperty.call(LOCK_NULLIFIER_TAGS, decoded.kind) &&
+      sameBytes(lockNullifier(decoded.kind as LockKind, bytesToHex(sha256(input))), nullifier)) {
+    return true;
+  }
+
+  const { nullifier: spent, sources } = decoded.body;
+  const spends = decoded.kind === 'merge' && Array.isArray(sources)
+    ? sources.map(source => (source as Record<string, unknown> | null)?.nullifier)
+    : [spent];
+  return spends.some(candidate => candidate instanceof Uint8Array && sameBytes(candidate, nullifier));
+}
+
+/**
+ * The hashlock of an HTLC package hash input, if it is hash-locked. Lets a
+ * node check that a preimage gossiped with an HTLC claim opens that lock.
+ */
+export function hashInputHashlock(input: Uint8Array): string | undefined {
+  const decoded = decodeHashInput(input);
+  if (decoded?.kind !== 'htlc') {
+    return undefined;
+  }
+  const condition = decoded.body.condition as Record<string, unknown> | null | undefined;
+  return typeof condition?.hashlock === 'string' ? condition.hashlock : undefined;
+}
+
+// ============================================================================
+// WIRE FORM
+// ============================================================================
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'bytes': return value instanceof Uint8Array;
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+    default: return typeof value === type;
+  }
+}
+
+function toWire(pkg: object): unknown {
+  const wire: Record<string, unknown> = { ...pkg };
+  for (const field of ATTESTATION_FIELDS) {
+    const attestation = wire[field];
+    if (typeof attestation === 'object' && attestation !== null) {
+      wire[field] = attestationToWire(attestation as Attestation);
+    }
+  }
+  return dropUndefined(wire);
+}
+
+function fromWire(wire: Record<string, unknown>): unknown {
+  const pkg = { ...wire };
+  for (const field of ATTESTATION_FIELDS) {
+    if (pkg[field] !== undefined) {
+      try {
+        pkg[field] = attestationFromWire(pkg[field]);
+      } catch {
+        throw new PackageCodecError('malformed', `Attestation raw payload in ${field} is not JSON`);
+      }
+    }
+  }
+  return pkg;
+}
+
+function decodeHashInput(input: Uint8Array): { kind: string; body: Record<string, unknown> } | undefined {
+  let envelope: unknown;
+  try {
+    envelope = decodeRestricted(input, PACKAGE_CBOR_LIMITS);
+  } catch {
+    return undefined;
+  }
+  if (!(envelope instanceof Map) || envelope.size !== 3) {
+    return undefined;
+  }
+  const kind = envelope.get('k');
+  const body = toPlain(envelope.get('p'));
+  if (typeof kind !== 'string' || !Object.prototype.hasOwnProperty.call(HASHED_FIELDS, kind) ||
+      typeof body !== 'object' || body === null) {
+    return undefined;
+  }
+  return { kind, body: body as Record<string, unknown> };
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
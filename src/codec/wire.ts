@@ -0,0 +1,66 @@
+/**
+ * Helpers shared by the CBOR wire formats
+ */
+
+import type { Attestation } from '../types.js';
+
+/**
+ * Attestations may carry an arbitrary JSON `raw` payload from the Witness
+ * gateway, which need not be canonical CBOR (floats, nulls); it travels as
+ * a JSON string
+ */
+export function attestationToWire(attestation: Attestation): unknown {
+  const { raw, ...rest } = attestation;
+  return raw === undefined ? rest : { ...rest, rawJson: JSON.stringify(raw) };
+}
+
+/**
+ * Inverse of attestationToWire
+ *
+ * @throws SyntaxError if the raw payload is not JSON
+ */
+export function attestationFromWire(wire: unknown): Attestation {
+  if (typeof wire !== 'object' || wire === null) {
+    // Left for the attestation checks to reject
+    return wire as Attestation;
+  }
+  const { rawJson, ...rest } = wire as Record<string, unknown>;
+  if (rawJson === undefined) {
+    return rest as unknown as Attestation;
+  }
+  if (typeof rawJson !== 'string') {
+    throw new SyntaxError('Attestation raw payload is not a JSON string');
+  }
+  return { ...rest, raw: JSON.parse(rawJson) } as unknown as Attestation;
+}
+
+/**
+ * Drop undefined fields, which canonical CBOR cannot carry
+ */
+export function dropUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(dropUndefined);
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Uint8Array)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, child]) => child !== undefined)
+        .map(([key, child]) => [key, dropUndefined(child)])
+    );
+  }
+  return value;
+}
+
+/**
+ * decodeRestricted yields Maps; callers expect plain objects
+ */
+export function toPlain(value: unknown): unknown {
+  if (value instanceof Map) {
+    // fromEntries defines own properties, so a "__proto__" key stays inert
+    return Object.fromEntries(Array.from(value, ([key, child]) => [key, toPlain(child)]));
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain);
+  }
+  return value;
+}
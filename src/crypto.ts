@@ -5,6 +5,16 @@
 import { sha256 } from '@noble/hashes/sha256';
 import { bytesToHex, hexToBytes, concatBytes } from '@noble/hashes/utils';
 import { randomBytes } from 'crypto';
+import { legacyHashedFields, packageHashInput, type LegacyPackageKind } from './codec/package-codec.js';
+import type {
+  SplitPackage,
+  PaymentPackage,
+  MergePackage,
+  MultiPartyTransfer,
+  HTLCPackage,
+  MultiSigPackage,
+  BridgePackage
+} from './types.js';
 
 export class Crypto {
   /**
@@ -77,6 +87,9 @@ export class Crypto {
   }
   /**
    * Hash transfer package for Witness timestamping
+   *
+   * Package hashes are taken over the canonical CBOR encoding of the
+   * package without its proofs (see codec/package-codec.ts).
    */
   static hashTransferPackage(pkg: {
     tokenId: string;
@@ -85,23 +98,88 @@ export class Crypto {
     commitment: Uint8Array;
     authToken?: Uint8Array;
     nullifier: Uint8Array;
+    paymentRequest?: string;
+    denominated?: boolean;
   }): string {
-    const inputs: (string | number | Uint8Array)[] = [
-      pkg.tokenId,
-      pkg.amount,
-      pkg.commitment,
-      pkg.nullifier
-    ];
-    if (pkg.sourceCreatedAt !== undefined) {
-      inputs.push(pkg.sourceCreatedAt);
+    // authToken is covered when present so the Witness proof binds the
+    // authorization token, preventing token swapping attacks. So is the
+    // payment request hash, binding the payment to its purpose.
+    return this.toHex(this.hash(packageHashInput('transfer', pkg)));
+  }
+
+  /**
+   * Hash split package for Witness timestamping
+   */
+  static hashSplitPackage(pkg: Omit<SplitPackage, 'proof' | 'ownershipProof'>): string {
+    return this.toHex(this.hash(packageHashInput('split', pkg)));
+  }
+
+  /**
+   * Hash payment package for Witness timestamping
+   */
+  static hashPaymentPackage(pkg: Omit<PaymentPackage, 'proof' | 'ownershipProof'>): string {
+    return this.toHex(this.hash(packageHashInput('payment', pkg)));
+  }
+
+  /**
+   * Hash merge package for Witness timestamping
+   */
+  static hashMergePackage(pkg: Omit<MergePackage, 'proof' | 'ownershipProofs'>): string {
+    return this.toHex(this.hash(packageHashInput('merge', pkg)));
+  }
+
+  /**
+   * Hash multi-party transfer package for Witness timestamping
+   */
+  static hashMultiPartyPackage(pkg: Omit<MultiPartyTransfer, 'proof' | 'ownershipProof'>): string {
+    return this.toHex(this.hash(packageHashInput('multiparty', pkg)));
+  }
+
+  /**
+   * Hash HTLC package for Witness timestamping
+   */
+  static hashHTLCPackage(pkg: Omit<HTLCPackage, 'proof' | 'ownershipProof'>): string {
+    return this.toHex(this.hash(packageHashInput('htlc', pkg)));
+  }
+
+  /**
+   * Hash multisig lock package for Witness timestamping
+   */
+  static hashMultiSigPackage(pkg: Omit<MultiSigPackage, 'proof' | 'ownershipProof'>): string {
+    return this.toHex(this.hash(packageHashInput('multisig', pkg)));
+  }
+
+  /**
+   * Hash the source-federation lock of a bridge package
+   */
+  static hashBridgeLockPackage(pkg: Omit<BridgePackage, 'sourceProof' | 'targetProof' | 'ownershipProof'>): string {
+    return this.toHex(this.hash(packageHashInput('bridge-lock', pkg)));
+  }
+
+  /**
+   * Hash the target-federation mint of a bridge package
+   */
+  static hashBridgeMintPackage(pkg: Omit<BridgePackage, 'targetProof' | 'ownershipProof'>): string {
+    return this.toHex(this.hash(packageHashInput('bridge-mint', pkg)));
+  }
+
+  /**
+   * Version-0 hash of a package, which proofs made before the canonical
+   * codec cover, or undefined if the package has fields added since
+   *
+   * Transfers hashed their fields concatenated; the other kinds hashed the
+   * JSON of their fields.
+   */
+  static legacyPackageHash(kind: LegacyPackageKind, pkg: object): string | undefined {
+    const fields = legacyHashedFields(kind, pkg);
+    if (!fields) {
+      return undefined;
     }
-    // Include authToken in the hash when present so the Witness proof
-    // covers the authorization token, preventing token swapping attacks.
-    if (pkg.authToken) {
-      inputs.push(pkg.authToken);
+    if (kind === 'transfer') {
+      const inputs = Object.values(fields).filter(value => value !== undefined);
+      return this.toHex(this.hash(...(inputs as (Uint8Array | string | number)[])));
     }
-    const hash = this.hash(...inputs);
-    return this.toHex(hash);
+    return this.hashString(JSON.stringify(fields));
   }
 
   /**
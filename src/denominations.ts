@@ -0,0 +1,148 @@
+/**
+ * Power-of-two denominations
+ *
+ * Amounts appear in cleartext in every package and in the hash Witness
+ * timestamps, so an unusual amount like 1337 links payer and payee as
+ * surely as an address would. In denominated mode every token holds a
+ * power of two, and a payment is sent as the standard coins its amount
+ * decomposes into: 1337 travels as 1024 + 256 + 32 + 16 + 8 + 1, each
+ * indistinguishable from every other coin of its size.
+ */
+
+/** A coin split to pay part of an amount, keeping the rest as change */
+export interface DenominationSplit {
+  readonly coin: number; // Index of the coin to split
+  readonly pay: number[]; // Denominations sent to the payee
+  readonly change: number[]; // Denominations kept by the payer
+}
+
+/** Which coins to spend, and how, to pay an amount in denominations */
+export interface DenominationPlan {
+  readonly transfers: number[]; // Indexes of coins sent whole
+  readonly splits: DenominationSplit[];
+}
+
+/**
+ * Whether an amount is a power-of-two denomination
+ */
+export function isDenomination(amount: number): boolean {
+  if (!Number.isSafeInteger(amount) || amount <= 0) {
+    return false;
+  }
+  let denomination = 1;
+  while (denomination < amount) {
+    denomination *= 2;
+  }
+  return denomination === amount;
+}
+
+/**
+ * Reject amounts that are not denominations
+ *
+ * @param label - What the amounts are, for the error message
+ */
+export function assertDenominations(amounts: readonly number[], label: string): void {
+  const odd = amounts.find(amount => !isDenomination(amount));
+  if (odd !== undefined) {
+    throw new Error(`${label} ${odd} is not a power-of-two denomination`);
+  }
+}
+
+/**
+ * Decompose an amount into denominations, largest first
+ */
+export function decompose(amount: number): number[] {
+  if (!Number.isSafeInteger(amount) || amount <= 0) {
+    throw new Error('Amount must be a positive integer');
+  }
+
+  let denomination = 1;
+  while (denomination * 2 <= amount) {
+    denomination *= 2;
+  }
+
+  const parts: number[] = [];
+  for (let remaining = amount; remaining > 0; denomination /= 2) {
+    if (denomination <= remaining) {
+      parts.push(denomination);
+      remaining -= denomination;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Plan a payment from a wallet's coins
+ *
+ * Each denomination of the amount is paid, in order of preference, from
+ * a coin already being split, by a coin of exactly that size, by
+ * splitting the smallest larger coin, or by several smaller coins. The
+ * payee only ever receives standard denominations, and split coins
+ * return their remainder as change in standard denominations too.
+ *
+ * @param coins - Amounts of the unspent coins, all denominations
+ * @param amount - Amount to pay
+ * @returns Coins to send whole and coins to split
+ */
+export function planDenominatedPayment(coins: readonly number[], amount: number): DenominationPlan {
+  assertDenominations(coins, 'Coin');
+  const wanted = decompose(amount);
+
+  const total = coins.reduce((sum, coin) => sum + coin, 0);
+  if (total < amount) {
+    throw new Error(`Insufficient funds: cannot pay ${amount} from ${total}`);
+  }
+
+  // Smallest first, so exact and larger matches waste as little as possible
+  const unused = [...coins.keys()].sort((a, b) => coins[a] - coins[b]);
+  const take = (predicate: (coin: number) => boolean): number | undefined => {
+    const position = unused.findIndex(i => predicate(coins[i]));
+    return position === -1 ? undefined : unused.splice(position, 1)[0];
+  };
+
+  const transfers: number[] = [];
+  const splits: Array<{ coin: number; pay: number[] }> = [];
+  const remainder = (split: { coin: number; pay: number[] }) =>
+    coins[split.coin] - split.pay.reduce((sum, part) => sum + part, 0);
+
+  for (const denomination of wanted) {
+    const open = splits.find(split => remainder(split) >= denomination);
+    if (open) {
+      open.pay.push(denomination);
+      continue;
+    }
+
+    const exact = take(coin => coin === denomination);
+    if (exact !== undefined) {
+      transfers.push(exact);
+      continue;
+    }
+
+    const larger = take(coin => coin > denomination);
+    if (larger !== undefined) {
+      splits.push({ coin: larger, pay: [denomination] });
+      continue;
+    }
+
+    // Only smaller coins are left; being powers of two, taking the
+    // largest that fit either adds up exactly or runs out
+    let needed = denomination;
+    while (needed > 0) {
+      const smaller = unused.filter(i => coins[i] <= needed).pop();
+      if (smaller === undefined) {
+        throw new Error(`Cannot make ${amount} from coins of ${coins.join(', ')}`);
+      }
+      unused.splice(unused.indexOf(smaller), 1);
+      transfers.push(smaller);
+      needed -= coins[smaller];
+    }
+  }
+
+  return {
+    transfers,
+    splits: splits.map(split => {
+      const left = remainder(split);
+      return { ...split, change: left > 0 ? decompose(left) : [] };
+    })
+  };
+}
@@ -9,6 +9,7 @@ import { NullifierDatabase, type NullifierRecord } from './database.js';
 import { NullifierGossip } from '../gossip.js';
 import { Crypto } from '../crypto.js';
 import type { GossipMessage, WitnessClient } from '../types.js';
+import type { PropagationTrace } from '../propagation.js';
 
 export interface CollectorConfig {
   database: NullifierDatabase;
@@ -17,6 +18,8 @@ export interface CollectorConfig {
   federation?: string;
   // Add callback for realtime updates
   onNullifier?: (message: GossipMessage) => void;
+  // Propagation traces for charting; enables gossip trace mode
+  onTrace?: (trace: PropagationTrace) => void;
 }
 
 export class NullifierCollector {
@@ -26,6 +29,7 @@ export class NullifierCollector {
   private federation: string;
   private running = false;
   private onNullifier?: (message: GossipMessage) => void;
+  private onTrace?: (trace: PropagationTrace) => void;
   private stats = {
     received: 0,
     stored: 0,
@@ -38,6 +42,7 @@ export class NullifierCollector {
     this.witness = config.witness;
     this.federation = config.federation || 'default';
     this.onNullifier = config.onNullifier;
+    this.onTrace = config.onTrace;
   }
 
   /**
@@ -58,6 +63,10 @@ export class NullifierCollector {
     this.gossip.setReceiveHandler(async (message: GossipMessage) => {
       await this.handleGossipMessage(message);
     });
+
+    if (this.onTrace) {
+      this.gossip.setTraceHandler(this.onTrace);
+    }
   }
 
   /**
@@ -65,6 +74,7 @@ export class NullifierCollector {
    */
   stop(): void {
     this.running = false;
+    this.gossip.setTraceHandler(undefined);
     console.log('🛑 Nullifier collector stopped');
     console.log(`   Stats: ${this.stats.stored} stored, ${this.stats.errors} errors`);
   }
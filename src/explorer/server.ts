@@ -14,6 +14,7 @@ import { NullifierDatabase } from './database.js';
 import { NullifierCollector } from './collector.js';
 import { InfrastructureManager } from '../cli/infrastructure.js';
 import { Crypto } from '../crypto.js';
+import type { PropagationTrace } from '../propagation.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -90,7 +91,8 @@ export class ExplorerServer {
                 proof: message.proof
               });
             }
-          }
+          },
+          onTrace: (trace) => this.broadcastTrace(trace)
         });
 
         this.collector.start();
@@ -316,6 +318,22 @@ export class ExplorerServer {
     });
   }
 
+  /**
+   * Broadcast a propagation trace (latency, hops) to all WebSocket clients
+   */
+  private broadcastTrace(data: PropagationTrace): void {
+    const message = JSON.stringify({
+      type: 'trace',
+      data
+    });
+
+    this.wsClients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  }
+
   /**
    * Start the server
    */
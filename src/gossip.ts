@@ -8,12 +8,55 @@
 import { Crypto } from './crypto.js';
 import { DEFAULT_TOKEN_VALIDITY_MS } from './constants.js';
 import { OwnershipProof } from './ownership.js';
+import { InMemoryNullifierStore, type NullifierStore } from './nullifier-store.js';
+import { hashInputHashlock, hashInputSpends } from './codec/package-codec.js';
+import { preimageMatches } from './htlc.js';
+import { BloomFilter } from './bloom-filter.js';
+import { verifyGossipSignature, type NodeIdentity } from './node-identity.js';
+import { ReputationLedger, getSubnet } from './reputation.js';
+import { PropagationTracker, nextHopCount, type PropagationTrace } from './propagation.js';
+import { xorDistance } from './networking/routing/types.js';
+import {
+  GOSSIP_PROTOCOL_VERSION,
+  GossipFeature,
+  MAX_ENVELOPE_BYTES,
+  MIN_GOSSIP_PROTOCOL_VERSION,
+  isValidCapabilities,
+  negotiate
+} from './codec/gossip-envelope.js';
+import {
+  DEFAULT_REPLICATION,
+  UNKNOWN_SHARD_CONFIDENCE,
+  assertPrefixes,
+  closestNodes,
+  isValidShardAnnouncement,
+  matchesPrefix
+} from './sharding.js';
+import {
+  DEFAULT_SYNC_BUCKETS,
+  MAX_SYNC_ENTRIES,
+  MAX_SYNC_KEYS,
+  assertBucketCount,
+  bucketOf,
+  computeDigest,
+  diffDigests,
+  isBucketCount,
+  isNullifierKey,
+  isValidDigest
+} from './reconciliation.js';
 import type {
   PeerConnection,
   GossipMessage,
   Attestation,
   WitnessClient,
-  FreebirdClient
+  FreebirdClient,
+  SyncEntry,
+  DoubleSpendEvidence,
+  SpendClaim,
+  SpendDetails,
+  ShardAnnouncement,
+  PeerCapabilities,
+  NegotiatedCapabilities
 } from './types.js';
 
 export interface GossipConfig {
@@ -26,6 +69,43 @@ export interface GossipConfig {
   readonly peerScoreThreshold?: number; // Minimum score before disconnect (default: -50)
   readonly maxTimestampFuture?: number; // Max seconds in future (default: 5)
   readonly requireOwnershipProof?: boolean; // Require Scarcity ownership proof (default: false)
+  /**
+   * Backing store for seen nullifiers (default: in-memory).
+   * Owned by the caller: destroy() does not close it.
+   */
+  readonly store?: NullifierStore;
+  readonly syncBuckets?: number; // Hash-range buckets for set reconciliation, power of two (default: 256)
+  readonly syncOnConnect?: boolean; // Reconcile with each newly added peer (default: true)
+  readonly syncInterval?: number; // Periodic reconciliation with a random peer in ms, 0 disables (default: 5 minutes)
+  readonly maxSyncEntries?: number; // Max entries per sync-response message, at most MAX_SYNC_ENTRIES (default: 256)
+  readonly pingInterval?: number; // Filter-digest pings to all peers in ms, 0 disables (default: 60s)
+  readonly filterWindow?: number; // Recent-nullifier window advertised in pongs in ms (default: 10 minutes)
+  readonly maxFilterItems?: number; // Max nullifiers in an advertised filter (default: 2000)
+  readonly filterGrace?: number; // Propagation allowance before a missing nullifier counts as lag in ms (default: 30s)
+  readonly lagThreshold?: number; // Missing nullifiers before a peer counts as lagging (default: 3)
+  readonly eclipseThreshold?: number; // Fraction of lagging peers that flags a possible eclipse (default: 0.5)
+  readonly sharding?: ShardingConfig; // Store and relay only this node's shard of the nullifier set (default: unsharded)
+  readonly identity?: NodeIdentity; // Sign outgoing envelopes with this key (default: unsigned)
+  readonly requireSignatures?: boolean; // Drop unsigned messages from peers (default: false)
+  readonly replayWindow?: number; // Max clock distance of a signed envelope's timestamp in ms (default: 5 minutes)
+  readonly reputation?: ReputationLedger; // Score decay, bans and persistence (default: in-memory ledger)
+  readonly compression?: boolean; // Offer compressed envelopes in the handshake (default: true)
+  readonly maxMessageBytes?: number; // Largest envelope we accept, advertised in the handshake (default: 4 MiB)
+  readonly traceWindow?: number; // Recent nullifiers kept for propagation percentiles (default: 1000)
+}
+
+export interface ShardingConfig {
+  readonly nodeId: Uint8Array; // 32-byte position in the Kademlia keyspace
+  readonly replication?: number; // Full nodes responsible for each nullifier (default: 3)
+  readonly light?: boolean; // Hold no shard; query responsible nodes instead (default: false)
+  readonly prefixes?: string[]; // Hex nullifier prefixes to store regardless of distance
+  readonly queryTimeout?: number; // Shard query timeout in ms (default: 2000)
+}
+
+export interface EclipseStatus {
+  readonly suspected: boolean;
+  readonly laggingPeers: string[];
+  readonly reportingPeers: number;
 }
 
 interface PeerScore {
@@ -34,27 +114,72 @@ interface PeerScore {
   duplicates: number;
   validMessages: number;
   lastSeen: number;
+  filterChecks: number; // Pongs whose filter we compared against our recent set
+  missingNullifiers: number; // Our settled nullifiers absent from the peer's last filter
+  lagStreak: number; // Consecutive filter checks where the peer was lagging
+}
+
+interface PendingShardQuery {
+  readonly expected: Set<string>;
+  confidence: number | null; // null until a member answers
+  readonly resolve: (confidence: number | null) => void;
+  readonly timer: NodeJS.Timeout;
 }
 
 export class NullifierGossip {
-  private readonly seenNullifiers = new Map<string, NullifierRecord>();
+  private readonly store: NullifierStore;
   private readonly peerConnections: PeerConnection[] = [];
   private readonly peerScores = new Map<string, PeerScore>();
+  private readonly reputation: ReputationLedger;
+  private readonly evidence = new Map<string, DoubleSpendEvidence>();
   private readonly witness: WitnessClient;
   private readonly maxNullifiers: number;
   private readonly pruneInterval: number;
   private receiveHandler?: (data: GossipMessage) => Promise<void>;
+  private readonly watchers = new Map<string, Set<() => void>>();
+  private traceHandler?: (trace: PropagationTrace) => void;
+  private readonly propagation: PropagationTracker;
   private pruneTimer?: NodeJS.Timeout;
   private readonly maxNullifierAge: number;
   private readonly peerScoreThreshold: number;
   private readonly maxTimestampFuture: number;
   private readonly requireOwnershipProof: boolean;
+  private readonly syncBuckets: number;
+  private readonly syncOnConnect: boolean;
+  private readonly syncInterval: number;
+  private readonly maxSyncEntries: number;
+  private syncTimer?: NodeJS.Timeout;
+  private readonly pingInterval: number;
+  private readonly filterWindow: number;
+  private readonly maxFilterItems: number;
+  private readonly filterGrace: number;
+  private readonly lagThreshold: number;
+  private readonly eclipseThreshold: number;
+  private pingTimer?: NodeJS.Timeout;
+  private eclipseSuspected = false;
+  private readonly sharding?: Required<ShardingConfig>;
+  private readonly shardPeers = new Map<string, ShardAnnouncement>();
+  private readonly announcedTo = new Set<string>();
+  private readonly pendingQueries = new Map<string, PendingShardQuery>();
+  private readonly identity?: NodeIdentity;
+  private readonly requireSignatures: boolean;
+  private readonly replayWindow: number;
+  // Transport peer ID -> verified identity (hex public key) of that connection
+  private readonly peerIdentities = new Map<string, string>();
+  // Hex signature -> when its timestamp leaves the replay window, oldest first
+  private readonly seenSignatures = new Map<string, number>();
+  private readonly capabilities: PeerCapabilities;
+  private readonly peerCapabilities = new Map<string, NegotiatedCapabilities>();
+  private readonly greeted = new Set<string>();
   // Tracks in-flight publish operations to prevent race conditions
   // where two concurrent publishes of the same nullifier both pass the has() check.
   private readonly publishingNullifiers = new Set<string>();
+  // Preimages of hash-locked HTLC claims forwarded without storing, by hashlock
+  private readonly forwardedPreimages = new Map<string, Uint8Array>();
 
   constructor(config: GossipConfig) {
     this.witness = config.witness;
+    this.store = config.store ?? new InMemoryNullifierStore();
     this.maxNullifiers = config.maxNullifiers ?? 100_000;
     this.pruneInterval = config.pruneInterval ?? 3600_000; // 1 hour
     // Default to ~576 days (~1.58 years). See constants.ts for details.
@@ -63,9 +188,62 @@ export class NullifierGossip {
     this.peerScoreThreshold = config.peerScoreThreshold ?? -50;
     this.maxTimestampFuture = (config.maxTimestampFuture ?? 5) * 1000; // Convert to ms
     this.requireOwnershipProof = config.requireOwnershipProof ?? false;
+    this.syncBuckets = config.syncBuckets ?? DEFAULT_SYNC_BUCKETS;
+    assertBucketCount(this.syncBuckets);
+    this.syncOnConnect = config.syncOnConnect ?? true;
+    this.syncInterval = config.syncInterval ?? 300_000; // 5 minutes
+    this.maxSyncEntries = config.maxSyncEntries ?? 256;
+    if (!Number.isInteger(this.maxSyncEntries) || this.maxSyncEntries < 1 || this.maxSyncEntries > MAX_SYNC_ENTRIES) {
+      throw new Error(`maxSyncEntries must be an integer between 1 and ${MAX_SYNC_ENTRIES}`);
+    }
+    this.pingInterval = config.pingInterval ?? 60_000;
+    this.filterWindow = config.filterWindow ?? 600_000; // 10 minutes
+    this.maxFilterItems = config.maxFilterItems ?? 2000;
+    this.filterGrace = config.filterGrace ?? 30_000;
+    this.lagThreshold = config.lagThreshold ?? 3;
+    this.eclipseThreshold = config.eclipseThreshold ?? 0.5;
+    this.identity = config.identity;
+    this.requireSignatures = config.requireSignatures ?? false;
+    this.replayWindow = config.replayWindow ?? 300_000; // 5 minutes
+    this.reputation = config.reputation ?? new ReputationLedger();
+    this.propagation = new PropagationTracker({ window: config.traceWindow });
+
+    if (config.sharding) {
+      if (!(config.sharding.nodeId instanceof Uint8Array) || config.sharding.nodeId.length !== 32) {
+        throw new Error('Sharding requires a 32-byte nodeId');
+      }
+      this.sharding = {
+        nodeId: config.sharding.nodeId,
+        replication: config.sharding.replication ?? DEFAULT_REPLICATION,
+        light: config.sharding.light ?? false,
+        prefixes: config.sharding.prefixes ?? [],
+        queryTimeout: config.sharding.queryTimeout ?? 2000
+      };
+      if (!Number.isInteger(this.sharding.replication) || this.sharding.replication < 1) {
+        throw new Error('Shard replication must be a positive integer');
+      }
+      assertPrefixes(this.sharding.prefixes);
+    }
+
+    const maxMessageBytes = config.maxMessageBytes ?? MAX_ENVELOPE_BYTES;
+    if (!Number.isInteger(maxMessageBytes) || maxMessageBytes < 1) {
+      throw new Error('Max message size must be a positive integer');
+    }
+    this.capabilities = {
+      version: GOSSIP_PROTOCOL_VERSION,
+      minVersion: MIN_GOSSIP_PROTOCOL_VERSION,
+      features: GossipFeature.CborEnvelope | GossipFeature.BatchedAttestations |
+        ((config.compression ?? true) ? GossipFeature.Compression : 0) |
+        (this.requireOwnershipProof ? GossipFeature.OwnershipProofRequired : 0) |
+        (this.sharding ? GossipFeature.Sharding : 0) |
+        (this.identity ? GossipFeature.SignedEnvelopes : 0),
+      maxMessageBytes
+    };
 
     // Start pruning old nullifiers periodically
     this.startPruning();
+    this.startSync();
+    this.startPinging();
   }
 
   /**
@@ -73,12 +251,20 @@ export class NullifierGossip {
    *
    * @param nullifier - Unique spend identifier
    * @param proof - Witness attestation
+   * @param spend - The attested package's hashed fields and ownership proof,
+   *                without which a conflicting spend cannot be proven
    */
-  async publish(nullifier: Uint8Array, proof: Attestation): Promise<void> {
+  async publish(nullifier: Uint8Array, proof: Attestation, spend?: SpendDetails): Promise<void> {
     const key = Crypto.toHex(nullifier);
+    if (spend && !attestsSpend(proof, spend.packageFields, nullifier)) {
+      throw new Error('Cannot publish nullifier: the attestation is not over a package spending it');
+    }
+    if (spend?.preimage && !opensLock(spend.packageFields, spend.preimage)) {
+      throw new Error('Cannot publish nullifier: the preimage does not open the spent lock');
+    }
 
     // Check if already spent
-    if (this.seenNullifiers.has(key)) {
+    if (this.store.has(key)) {
       throw new Error('Double-spend detected! Nullifier already published.');
     }
 
@@ -90,6 +276,18 @@ export class NullifierGossip {
     this.publishingNullifiers.add(key);
 
     try {
+      // SHARDING: our store does not cover this nullifier, so ask the shard that does
+      const responsible = this.isResponsible(key);
+      if (!responsible) {
+        const confidence = await this.queryShard(nullifier);
+        if (confidence === null) {
+          throw new Error('Cannot publish nullifier: no responsible shard node answered');
+        }
+        if (confidence > 0) {
+          throw new Error('Double-spend detected! Nullifier already published.');
+        }
+      }
+
       // Verify Witness proof before storing — reject invalid attestations
       const valid = await this.witness.verify(proof);
       if (!valid) {
@@ -97,22 +295,37 @@ export class NullifierGossip {
       }
 
       // Add to local set with metadata
-      this.seenNullifiers.set(key, {
-      nullifier,
-      proof,
-      firstSeen: Date.now(),
-      peerCount: 1
-    });
+      if (responsible) {
+        this.store.set(key, {
+          nullifier,
+          proof,
+          firstSeen: Date.now(),
+          peerCount: 1,
+          ownershipProof: spend?.ownershipProof,
+          packageFields: spend?.packageFields,
+          preimage: spend?.preimage,
+          hashlock: spend?.preimage && hashInputHashlock(spend.packageFields)
+        });
+      } else if (spend?.preimage) {
+        this.forwardedPreimages.set(hashInputHashlock(spend.packageFields)!, spend.preimage);
+      }
 
-    // Broadcast to all peers
+    // Broadcast to all peers (or, when sharded, to the responsible ones)
     const message: GossipMessage = {
       type: 'nullifier',
       nullifier,
       proof,
+      ownershipProof: spend?.ownershipProof,
+      packageFields: spend?.packageFields,
+      preimage: spend?.preimage,
       timestamp: Date.now()
     };
 
-    await this.broadcast(message);
+    if (this.sharding) {
+      await this.sendToPeers(this.shardTargets(key), message);
+    } else {
+      await this.broadcast(message);
+    }
 
     // Notify local receiveHandler (so collectors in same process can see it)
     if (this.receiveHandler) {
@@ -128,10 +341,24 @@ export class NullifierGossip {
    *
    * @param nullifier - Nullifier to check
    * @returns Confidence score (0-1), where 0 = never seen, 1 = widely propagated
+   *          (UNKNOWN_SHARD_CONFIDENCE if the responsible shard did not answer)
    */
   async checkNullifier(nullifier: Uint8Array): Promise<number> {
     const key = Crypto.toHex(nullifier);
-    const record = this.seenNullifiers.get(key);
+
+    // SHARDING: another shard's nullifier - ask the nodes responsible for it
+    if (!this.store.has(key) && !this.isResponsible(key)) {
+      return (await this.queryShard(nullifier)) ?? UNKNOWN_SHARD_CONFIDENCE;
+    }
+
+    return this.localConfidence(key);
+  }
+
+  /**
+   * Confidence from the local store only
+   */
+  private localConfidence(key: string): number {
+    const record = this.store.get(key);
 
     if (!record) {
       return 0; // Never seen
@@ -158,13 +385,93 @@ export class NullifierGossip {
   }
 
   /**
-   * Receive nullifier from peer
+   * Receive message from peer
    *
    * @param data - Gossip message from peer
-   * @param peerId - Optional peer ID for reputation tracking
+   * @param peerId - Optional peer ID for reputation tracking (required for sync messages)
    */
   async onReceive(data: GossipMessage, peerId?: string): Promise<void> {
-    if (data.type !== 'nullifier' || !data.nullifier || !data.proof) {
+    if (peerId && (this.isBanned(peerId) || !this.authenticate(data, peerId))) {
+      return;
+    }
+
+    switch (data.type) {
+      case 'nullifier':
+        if (data.nullifier && data.proof) {
+          await this.handleNullifier(data, peerId, true);
+        }
+        return;
+      case 'sync-digest':
+        if (peerId) {
+          await this.handleSyncDigest(data, peerId);
+        }
+        return;
+      case 'sync-request':
+        if (peerId) {
+          await this.handleSyncRequest(data, peerId);
+        }
+        return;
+      case 'sync-response':
+        if (peerId) {
+          await this.handleSyncResponse(data, peerId);
+        }
+        return;
+      case 'ping':
+        if (peerId) {
+          await this.handlePing(peerId);
+        }
+        return;
+      case 'pong':
+        if (peerId) {
+          await this.handlePong(data, peerId);
+        }
+        return;
+      case 'nullifier-request':
+        if (peerId) {
+          await this.handleNullifierRequest(data, peerId);
+        }
+        return;
+      case 'nullifier-response':
+        if (peerId) {
+          await this.handleNullifierResponse(data, peerId);
+        }
+        return;
+      case 'double-spend-evidence':
+        await this.handleEvidence(data, peerId);
+        return;
+      case 'shard-announce':
+        if (peerId) {
+          await this.handleShardAnnounce(data, peerId);
+        }
+        return;
+      case 'shard-query':
+        if (peerId) {
+          await this.handleShardQuery(data, peerId);
+        }
+        return;
+      case 'shard-answer':
+        if (peerId) {
+          await this.handleShardAnswer(data, peerId);
+        }
+        return;
+      case 'hello':
+        if (peerId) {
+          await this.handleHello(data, peerId);
+        }
+        return;
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Validate and store a nullifier announced by a peer
+   *
+   * @param relay - Rebroadcast to other peers (false for reconciliation entries,
+   *                which every peer pulls for itself)
+   */
+  private async handleNullifier(data: GossipMessage, peerId: string | undefined, relay: boolean): Promise<void> {
+    if (!data.nullifier || !data.proof) {
       return;
     }
 
@@ -199,15 +506,53 @@ export class NullifierGossip {
     }
 
     const key = Crypto.toHex(data.nullifier);
-    const existing = this.seenNullifiers.get(key);
+
+    // An attestation over some other package says nothing about this nullifier
+    if (data.packageFields !== undefined && !attestsSpend(data.proof, data.packageFields, data.nullifier)) {
+      console.warn('[Gossip] Rejecting nullifier whose attestation is not over a package spending it');
+      if (peerScore) {
+        this.penalizePeer(peerId!, -10, 'unrelated attestation');
+      }
+      return;
+    }
+
+    // A preimage is only meaningful bound to the lock the attested package spends
+    if (data.preimage !== undefined && !(data.packageFields && opensLock(data.packageFields, data.preimage))) {
+      console.warn('[Gossip] Rejecting nullifier whose preimage does not open the spent lock');
+      if (peerScore) {
+        this.penalizePeer(peerId!, -10, 'invalid preimage');
+      }
+      return;
+    }
 
     // Check for duplicate spam (before expensive verification)
+    const existing = this.store.get(key);
     if (existing) {
-      // Increment peer count (saw from another source)
-      existing.peerCount++;
+      // Same nullifier, different package: a second spend, not a duplicate
+      if (existing.proof.hash !== data.proof.hash && !this.evidence.has(key)) {
+        await this.handleConflict(existing, data, peerId);
+        return;
+      }
 
-      // LAYER 1: PEER SCORING - Penalize duplicate spam
-      if (peerScore) {
+      // The first copy may have arrived without the claim's preimage
+      if (data.preimage && !existing.preimage && existing.proof.hash === data.proof.hash) {
+        this.store.set(key, {
+          ...existing,
+          preimage: data.preimage,
+          hashlock: hashInputHashlock(data.packageFields!)
+        });
+      }
+
+      // Increment peer count (saw from another source)
+      this.store.incrementPeerCount(key);
+      this.notifyWatchers(key);
+
+      // LAYER 1: PEER SCORING - Penalize duplicate spam. A signed duplicate
+      // is only counted: honest relays re-sign what they forward, and its
+      // signer is not necessarily who chose to deliver it again.
+      if (peerScore && this.peerIdentities.has(peerId!)) {
+        peerScore.duplicates++;
+      } else if (peerScore) {
         this.penalizePeer(peerId!, -1, 'duplicate nullifier');
       }
       return;
@@ -251,19 +596,50 @@ export class NullifierGossip {
     // Valid message - reward peer
     if (peerScore) {
       peerScore.validMessages++;
-      peerScore.score = Math.min(peerScore.score + 1, 100); // Cap at 100
+      peerScore.score = this.reputation.adjust(this.scoreKey(peerId!), 1); // Capped by the ledger
+    }
+
+    // TRACING: first sighting; relays pass the hop count on
+    const trace = this.propagation.record(key, data, peerId, relay ? 'gossip' : 'sync');
+    if (trace) {
+      this.emitTrace(trace);
+    }
+    const forwarded: GossipMessage = { ...data, hops: nextHopCount(data) };
+
+    // SHARDING: outside our range - pass it on toward the responsible nodes
+    // without storing. Full nodes only forward to strictly closer nodes, so
+    // disagreeing views of shard membership cannot create a forwarding loop.
+    if (!this.isResponsible(key)) {
+      if (data.preimage) {
+        this.forwardedPreimages.set(hashInputHashlock(data.packageFields!)!, data.preimage);
+      }
+      if (relay) {
+        await this.sendToPeers(this.shardTargets(key, peerId, !this.sharding!.light), forwarded, true);
+      }
+      return;
     }
 
     // First time seeing this nullifier
-    this.seenNullifiers.set(key, {
+    this.store.set(key, {
       nullifier: data.nullifier,
       proof: data.proof,
       firstSeen: Date.now(),
-      peerCount: 1
+      peerCount: 1,
+      ownershipProof: data.ownershipProof,
+      packageFields: data.packageFields,
+      preimage: data.preimage,
+      hashlock: data.preimage && hashInputHashlock(data.packageFields!)
     });
-
-    // Propagate to other peers (epidemic broadcast)
-    await this.broadcast(data, true);
+    this.notifyWatchers(key);
+
+    // Propagate to other peers (epidemic broadcast, or within the shard)
+    if (relay) {
+      if (this.sharding) {
+        await this.sendToPeers(this.shardTargets(key, peerId), forwarded, true);
+      } else {
+        await this.broadcast(forwarded, true);
+      }
+    }
 
     // Call user handler if registered
     if (this.receiveHandler) {
@@ -271,232 +647,1469 @@ export class NullifierGossip {
     }
   }
 
+  // ==========================================================================
+  // DOUBLE-SPEND EVIDENCE
+  // ==========================================================================
+
   /**
-   * Register handler for received messages
+   * Get proof that a nullifier was spent twice
+   *
+   * @returns Evidence, or null if no conflicting spend has been observed
    */
-  setReceiveHandler(handler: (data: GossipMessage) => Promise<void>): void {
-    this.receiveHandler = handler;
+  getDoubleSpendEvidence(nullifier: Uint8Array): DoubleSpendEvidence | null {
+    return this.evidence.get(Crypto.toHex(nullifier)) ?? null;
   }
 
   /**
-   * Add peer connection
+   * A known nullifier arrived with a different attestation
    *
-   * ANTI-SYBIL: Checks IP subnet diversity to prevent attacks from single network
+   * If both spends carry their package fields and a valid ownership proof,
+   * the two claims together are evidence of a double-spend: record it and
+   * gossip it so every node can reject the token deterministically. Claims
+   * without them only count as another sighting.
    */
-  addPeer(peer: PeerConnection): void {
-    // Check subnet diversity if we have the remote address
-    if (peer.remoteAddress) {
-      const subnet = this.getSubnet(peer.remoteAddress);
-      const sameSubnetPeers = this.peerConnections.filter(p =>
-        p.remoteAddress && this.getSubnet(p.remoteAddress) === subnet
-      );
-
-      // Warn if too many peers from same subnet (potential Sybil attack)
-      const MAX_PEERS_PER_SUBNET = 3;
-      if (sameSubnetPeers.length >= MAX_PEERS_PER_SUBNET) {
-        console.warn(
-          `[Gossip] Warning: ${sameSubnetPeers.length + 1} peers from subnet ${subnet}. ` +
-          `Possible Sybil attack. Consider limiting connections from same subnet.`
-        );
-        // Still add the peer, but log the warning
-        // In production, you might want to reject or deprioritize
+  private async handleConflict(existing: SpendClaim, data: GossipMessage, peerId?: string): Promise<void> {
+    const valid = await this.witness.verify(data.proof!);
+    if (!valid) {
+      console.warn('[Gossip] Received conflicting nullifier with invalid proof, ignoring');
+      if (peerId) {
+        this.penalizePeer(peerId, -10, 'invalid witness proof');
       }
+      return;
     }
 
-    // Set up message handler for this peer (if supported)
-    if (peer.setMessageHandler) {
-      peer.setMessageHandler(async (data: GossipMessage) => {
-        await this.onReceive(data, peer.id);
-      });
+    const key = Crypto.toHex(data.nullifier!);
+    // The conflict may have been recorded while we were verifying
+    if (this.evidence.has(key)) {
+      return;
     }
+    this.store.incrementPeerCount(key);
 
-    this.peerConnections.push(peer);
-    console.log(`[Gossip] Added peer ${peer.id} (total: ${this.peerConnections.length})`);
+    const evidence: DoubleSpendEvidence = {
+      nullifier: data.nullifier!,
+      first: { proof: existing.proof, packageFields: existing.packageFields, ownershipProof: existing.ownershipProof },
+      second: { proof: data.proof!, packageFields: data.packageFields, ownershipProof: data.ownershipProof },
+      detectedAt: Date.now()
+    };
+    if (!(await this.verifyEvidence(evidence))) {
+      console.warn(`[Gossip] Conflicting spends of ${key.slice(0, 16)}... cannot be proven; counted as a sighting`);
+      this.notifyWatchers(key);
+      return;
+    }
+    // ... or while we were verifying the claims
+    if (this.evidence.has(key)) {
+      return;
+    }
+    await this.recordEvidence(key, evidence);
   }
 
   /**
-   * Remove peer connection
+   * Evidence gossiped by a peer: verify both claims before trusting it
    */
-  removePeer(peerId: string): void {
-    const index = this.peerConnections.findIndex(p => p.id === peerId);
-    if (index !== -1) {
-      this.peerConnections.splice(index, 1);
+  private async handleEvidence(data: GossipMessage, peerId?: string): Promise<void> {
+    const evidence = data.evidence;
+    if (!evidence || !(evidence.nullifier instanceof Uint8Array) || evidence.nullifier.length !== 32) {
+      if (peerId) {
+        this.penalizePeer(peerId, -2, 'malformed evidence');
+      }
+      return;
+    }
+
+    const key = Crypto.toHex(evidence.nullifier);
+    if (this.evidence.has(key)) {
+      return;
+    }
+
+    if (!(await this.verifyEvidence(evidence))) {
+      console.warn('[Gossip] Received invalid double-spend evidence, ignoring');
+      if (peerId) {
+        this.penalizePeer(peerId, -10, 'invalid evidence');
+      }
+      return;
+    }
+    if (this.evidence.has(key)) {
+      return;
+    }
+
+    // The pair is also the strongest possible sighting of the nullifier
+    if (!this.store.has(key)) {
+      this.store.set(key, {
+        nullifier: evidence.nullifier,
+        proof: evidence.first.proof,
+        firstSeen: Date.now(),
+        peerCount: 2,
+        ownershipProof: evidence.first.ownershipProof,
+        packageFields: evidence.first.packageFields
+      });
     }
+
+    await this.recordEvidence(key, {
+      ...evidence,
+      detectedAt: Date.now()
+    });
   }
 
   /**
-   * Get current peer list
+   * Check that both claims are valid and genuinely conflict
+   *
+   * Each claim must attest a package that spends the nullifier, and carry
+   * the token owner's proof for it: two attestations alone could be over
+   * anything, and anyone can timestamp a hash.
    */
-  get peers(): PeerConnection[] {
-    return [...this.peerConnections];
+  private async verifyEvidence(evidence: DoubleSpendEvidence): Promise<boolean> {
+    const claims: SpendClaim[] = [evidence.first, evidence.second];
+    if (claims.some(claim => !claim?.proof || typeof claim.proof.hash !== 'string')) {
+      return false;
+    }
+    if (evidence.first.proof.hash === evidence.second.proof.hash) {
+      return false;
+    }
+
+    for (const claim of claims) {
+      if (!(claim.packageFields instanceof Uint8Array) ||
+          !attestsSpend(claim.proof, claim.packageFields, evidence.nullifier)) {
+        return false;
+      }
+      if (!(claim.ownershipProof instanceof Uint8Array) ||
+          !(await OwnershipProof.verify(claim.ownershipProof, evidence.nullifier))) {
+        return false;
+      }
+      if (!(await this.witness.verify(claim.proof))) {
+        return false;
+      }
+    }
+    return true;
   }
 
   /**
-   * Get gossip network statistics
+   * Store evidence, gossip it and notify the local handler
    */
-  getStats() {
-    return {
-      nullifierCount: this.seenNullifiers.size,
-      peerCount: this.peerConnections.length,
-      activePeers: this.peerConnections.filter(p => p.isConnected()).length
+  private async recordEvidence(key: string, evidence: DoubleSpendEvidence): Promise<void> {
+    this.evidence.set(key, evidence);
+    console.warn(`[Gossip] Double-spend evidence recorded for nullifier ${key.slice(0, 16)}...`);
+    this.notifyWatchers(key);
+
+    const message: GossipMessage = {
+      type: 'double-spend-evidence',
+      evidence,
+      timestamp: Date.now()
     };
+    await this.broadcast(message, true);
+
+    if (this.receiveHandler) {
+      await this.receiveHandler(message);
+    }
   }
 
+  // ==========================================================================
+  // ENVELOPE AUTHENTICATION: NODE IDENTITY
+  // ==========================================================================
+
   /**
-   * Broadcast message to all peers
+   * Verified identity (hex Ed25519 public key) behind a transport peer ID
    */
-  private async broadcast(message: GossipMessage, skipFailed = false): Promise<void> {
-    const promises = this.peerConnections
-      .filter(peer => peer.isConnected())
-      .map(async (peer) => {
-        try {
-          await peer.send(message);
-        } catch (error) {
-          if (!skipFailed) {
-            throw error;
-          }
-          console.warn(`Failed to send to peer ${peer.id}:`, error);
-        }
-      });
-
-    await Promise.all(promises);
+  getPeerIdentity(peerId: string): string | null {
+    return this.peerIdentities.get(peerId) ?? null;
   }
 
   /**
-   * Prune old nullifiers to prevent unbounded growth
+   * Check a received envelope's signature and bind the connection to its signer
+   *
+   * A connection is bound to the first identity that signs over it; messages
+   * signed by any other key, and unsigned messages once bound, are dropped.
+   * Failures on a bound connection are not scored, since anyone able to inject
+   * under the transport ID could otherwise frame the bound identity. Replayed
+   * envelopes are dropped unscored before they can bind anything.
+   *
+   * @returns Whether the message should be processed
    */
-  private startPruning(): void {
-    this.pruneTimer = setInterval(() => {
-      const now = Date.now();
-      const cutoff = now - this.maxNullifierAge;
-
-      // Remove nullifiers older than cutoff
-      for (const [key, record] of this.seenNullifiers.entries()) {
-        // We rely on 'firstSeen' as the approximation of the token's timestamp
-        if (record.firstSeen < cutoff) {
-          this.seenNullifiers.delete(key);
-        }
+  private authenticate(data: GossipMessage, peerId: string): boolean {
+    const bound = this.peerIdentities.get(peerId);
+
+    if (data.sender === undefined && data.signature === undefined) {
+      if (bound || this.requireSignatures) {
+        console.warn(`[Gossip] Dropping unsigned ${data.type} message from peer ${peerId}`);
+        return false;
       }
+      return true;
+    }
 
-      // Safety Valve: If still over maxNullifiers limit (e.g. DDoS), 
-      // we must enforce the hard cap to prevent crashing.
-      // NOTE: This creates a theoretical double-spend risk if the network is flooded,
-      // but preventing a crash is the priority.
-      if (this.seenNullifiers.size > this.maxNullifiers) {
-        console.warn(`[Gossip] Nullifier set size (${this.seenNullifiers.size}) exceeded limit. Forcing prune.`);
-        
-        const entries = Array.from(this.seenNullifiers.entries())
-          .sort((a, b) => a[1].firstSeen - b[1].firstSeen);
+    const signer = verifyGossipSignature(data);
+    if (!signer) {
+      if (bound) {
+        console.warn(`[Gossip] Dropping ${data.type} message with invalid signature from peer ${peerId}`);
+      } else {
+        this.penalizePeer(peerId, -10, 'invalid signature');
+      }
+      return false;
+    }
 
-        const toRemove = entries.slice(0, this.seenNullifiers.size - this.maxNullifiers);
-        for (const [key] of toRemove) {
-          this.seenNullifiers.delete(key);
-        }
+    const replay = this.replayReason(data);
+    if (replay) {
+      console.warn(`[Gossip] Dropping ${data.type} message from peer ${peerId}: ${replay}`);
+      return false;
+    }
+
+    if (bound) {
+      if (bound !== signer) {
+        console.warn(`[Gossip] Dropping message from peer ${peerId} signed by ${signer.slice(0, 16)}... (bound to ${bound.slice(0, 16)}...)`);
+        return false;
       }
-    }, this.pruneInterval);
-	}
+      return true;
+    }
 
-  /**
-   * Get or create peer score record
-   */
-  private getOrCreatePeerScore(peerId: string): PeerScore {
-    let score = this.peerScores.get(peerId);
-    if (!score) {
-      score = {
-        score: 0,
-        invalidProofs: 0,
-        duplicates: 0,
-        validMessages: 0,
-        lastSeen: Date.now()
-      };
-      this.peerScores.set(peerId, score);
+    this.bindIdentity(peerId, signer);
+
+    // A banned identity reconnecting under a fresh transport ID
+    if (this.isBanned(peerId)) {
+      console.warn(`[Gossip] Peer ${peerId} authenticated as banned identity ${signer.slice(0, 16)}...`);
+      this.disconnectPeer(peerId);
+      return false;
     }
-    return score;
+    return true;
   }
 
   /**
-   * Penalize a peer and potentially disconnect them
+   * Why a validly signed envelope cannot be trusted to come from its signer
+   * right now: signed for another node, stale, or delivered before
+   *
+   * @returns The reason, or null if the envelope is fresh
    */
-  private penalizePeer(peerId: string, penalty: number, reason: string): void {
-    const score = this.getOrCreatePeerScore(peerId);
-    score.score += penalty; // Penalty is negative
-
-    if (reason === 'invalid witness proof') {
-      score.invalidProofs++;
-    } else if (reason === 'duplicate nullifier') {
-      score.duplicates++;
+  private replayReason(data: GossipMessage): string | null {
+    const recipient = data.recipient instanceof Uint8Array ? Crypto.toHex(data.recipient) : data.recipient;
+    if (recipient !== undefined && recipient !== this.identity?.id) {
+      return 'signed for another node';
     }
 
-    console.log(`[Gossip] Peer ${peerId} penalized ${penalty} for ${reason} (score: ${score.score})`);
+    const now = Date.now();
+    if (Math.abs(now - data.timestamp) > this.replayWindow) {
+      return `signed ${Math.round((now - data.timestamp) / 1000)}s from our clock`;
+    }
 
-    // Disconnect if score falls below threshold
-    if (score.score < this.peerScoreThreshold) {
-      console.warn(`[Gossip] Disconnecting peer ${peerId} due to low score (${score.score})`);
-      this.disconnectPeer(peerId);
+    for (const [signature, expires] of this.seenSignatures) {
+      if (expires >= now) {
+        break;
+      }
+      this.seenSignatures.delete(signature);
+    }
+    const key = Crypto.toHex(data.signature!);
+    if (this.seenSignatures.has(key)) {
+      return 'already delivered';
     }
+    this.seenSignatures.set(key, data.timestamp + this.replayWindow);
+    return null;
   }
 
   /**
-   * Disconnect a peer by ID
+   * Bind a connection to a verified identity, folding any reputation earned
+   * under the bare transport ID into the identity's record
    */
-  private disconnectPeer(peerId: string): void {
-    const peerIndex = this.peerConnections.findIndex(p => p.id === peerId);
-    if (peerIndex !== -1) {
-      const peer = this.peerConnections[peerIndex];
+  private bindIdentity(peerId: string, identity: string): void {
+    this.peerIdentities.set(peerId, identity);
 
-      // If peer has disconnect method, call it
-      if ('disconnect' in peer && typeof (peer as any).disconnect === 'function') {
-        (peer as any).disconnect();
-      }
+    const transportReputation = this.reputation.getScore(peerId);
+    if (transportReputation !== 0) {
+      this.reputation.adjust(identity, transportReputation);
+    }
+    this.reputation.remove(peerId);
 
-      // Remove from connections
-      this.peerConnections.splice(peerIndex, 1);
+    const transportScore = this.peerScores.get(peerId);
+    if (transportScore) {
       this.peerScores.delete(peerId);
-
-      console.log(`[Gossip] Peer ${peerId} disconnected and removed`);
+      const score = this.peerScores.get(identity);
+      if (score) {
+        score.score = this.reputation.getScore(identity);
+        score.invalidProofs += transportScore.invalidProofs;
+        score.duplicates += transportScore.duplicates;
+        score.validMessages += transportScore.validMessages;
+        score.lastSeen = Math.max(score.lastSeen, transportScore.lastSeen);
+      } else {
+        transportScore.score = this.reputation.getScore(identity);
+        this.peerScores.set(identity, transportScore);
+      }
     }
+
+    console.log(`[Gossip] Peer ${peerId} authenticated as ${identity.slice(0, 16)}...`);
   }
 
   /**
-   * Get peer reputation statistics
+   * Key a peer's reputation is tracked under: its verified identity if bound,
+   * otherwise the transport peer ID
    */
-  getPeerStats(peerId: string): PeerScore | null {
-    return this.peerScores.get(peerId) ?? null;
+  private scoreKey(peerId: string): string {
+    return this.peerIdentities.get(peerId) ?? peerId;
   }
 
   /**
-   * Get all peer scores
+   * Subnet a connected peer's transport address belongs to, if known
    */
-  getAllPeerScores(): Map<string, PeerScore> {
-    return new Map(this.peerScores);
+  private subnetOf(peerId: string): string | undefined {
+    const address = this.peerConnections.find(p => p.id === peerId)?.remoteAddress;
+    return address ? getSubnet(address) : undefined;
+  }
+
+  /**
+   * Whether the peer's identity (or transport ID) or subnet is banned
+   */
+  private isBanned(peerId: string): boolean {
+    return this.reputation.isBanned(this.scoreKey(peerId), this.subnetOf(peerId));
   }
 
   /**
-   * Extract /24 subnet from IP address
+   * Sign an outgoing envelope for one peer if this node has an identity
    *
-   * Used for detecting Sybil attacks from the same network.
-   * IPv4: Returns first 3 octets (e.g., "192.168.1" from "192.168.1.100")
-   * IPv6: Returns first 48 bits (simplified implementation)
+   * The envelope is stamped with the time of signing and, once the peer has
+   * authenticated to us, its identity, so it cannot be replayed later or to
+   * another node.
    */
-  private getSubnet(ip: string): string {
-    // IPv4
-    if (ip.includes('.')) {
-      const octets = ip.split('.');
-      if (octets.length >= 3) {
-        return octets.slice(0, 3).join('.');
-      }
+  private seal(message: GossipMessage, peerId: string): GossipMessage {
+    if (!this.identity) {
+      // A relayed envelope must not go out under its previous hop's signature
+      return { ...message, sender: undefined, signature: undefined, recipient: undefined };
     }
+    const recipient = this.peerIdentities.get(peerId);
+    return this.identity.sign({
+      ...message,
+      timestamp: Date.now(),
+      recipient: recipient === undefined ? undefined : Crypto.fromHex(recipient)
+    });
+  }
+
+  /**
+   * Register handler for received messages
+   */
+  setReceiveHandler(handler: (data: GossipMessage) => Promise<void>): void {
+    this.receiveHandler = handler;
+  }
+
+  /**
+   * Call `listener` whenever this node sees the nullifier or records
+   * evidence that it was spent twice. Used by validators to react during
+   * their propagation wait instead of only re-checking at the end.
+   *
+   * @returns Function that removes the listener
+   */
+  watchNullifier(nullifier: Uint8Array, listener: () => void): () => void {
+    const key = Crypto.toHex(nullifier);
+    let listeners = this.watchers.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.watchers.set(key, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0 && this.watchers.get(key) === listeners) {
+        this.watchers.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Preimage a hash-locked HTLC claim published for the hashlock
+   *
+   * Lets the other side of an atomic swap claim without waiting for the
+   * initiator to reveal it.
+   *
+   * @returns The preimage, or undefined if no such claim has been seen
+   */
+  getPreimage(hashlock: string): Uint8Array | undefined {
+    return this.store.getPreimage(hashlock) ?? this.forwardedPreimages.get(hashlock);
+  }
+
+  private notifyWatchers(key: string): void {
+    for (const listener of this.watchers.get(key) ?? []) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('[Gossip] Nullifier watcher failed:', error);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // PROPAGATION TRACING
+  // ==========================================================================
+
+  /**
+   * Trace mode: call `handler` with a PropagationTrace for every nullifier
+   * this node sees for the first time. Pass undefined to stop tracing.
+   */
+  setTraceHandler(handler?: (trace: PropagationTrace) => void): void {
+    this.traceHandler = handler;
+  }
+
+  /**
+   * First-seen time, latency, hop count and relaying peer of a recently
+   * received nullifier
+   *
+   * @returns The trace, or null if unseen or no longer in the trace window
+   */
+  getPropagation(nullifier: Uint8Array): PropagationTrace | null {
+    return this.propagation.get(Crypto.toHex(nullifier));
+  }
+
+  private emitTrace(trace: PropagationTrace): void {
+    if (!this.traceHandler) {
+      return;
+    }
+    try {
+      this.traceHandler(trace);
+    } catch (error) {
+      console.warn('[Gossip] Trace handler failed:', error);
+    }
+  }
+
+  /**
+   * Add peer connection
+   *
+   * ANTI-SYBIL: Checks IP subnet diversity to prevent attacks from single network
+   */
+  addPeer(peer: PeerConnection): void {
+    // Refuse banned peers and peers from banned subnets
+    const peerSubnet = peer.remoteAddress ? getSubnet(peer.remoteAddress) : undefined;
+    if (this.reputation.isBanned(peer.id, peerSubnet)) {
+      console.warn(`[Gossip] Refusing banned peer ${peer.id}`);
+      peer.disconnect?.();
+      return;
+    }
+
+    // Check subnet diversity if we have the remote address
+    if (peer.remoteAddress) {
+      const subnet = getSubnet(peer.remoteAddress);
+      const sameSubnetPeers = this.peerConnections.filter(p =>
+        p.remoteAddress && getSubnet(p.remoteAddress) === subnet
+      );
+
+      // Warn if too many peers from same subnet (potential Sybil attack)
+      const MAX_PEERS_PER_SUBNET = 3;
+      if (sameSubnetPeers.length >= MAX_PEERS_PER_SUBNET) {
+        console.warn(
+          `[Gossip] Warning: ${sameSubnetPeers.length + 1} peers from subnet ${subnet}. ` +
+          `Possible Sybil attack. Consider limiting connections from same subnet.`
+        );
+        // Still add the peer, but log the warning
+        // In production, you might want to reject or deprioritize
+      }
+    }
+
+    // Set up message handler for this peer (if supported)
+    if (peer.setMessageHandler) {
+      peer.setMessageHandler(async (data: GossipMessage) => {
+        await this.onReceive(data, peer.id);
+      });
+    }
+
+    this.peerConnections.push(peer);
+    console.log(`[Gossip] Added peer ${peer.id} (total: ${this.peerConnections.length})`);
+
+    // Advertise our wire format; the peer may have greeted us first
+    const agreed = this.peerCapabilities.get(peer.id);
+    if (agreed) {
+      peer.setCapabilities?.(agreed);
+    }
+    if (peer.isConnected()) {
+      void this.greet(peer.id);
+    }
+
+    // Tell sharded peers which part of the keyspace we hold
+    if (this.sharding && peer.isConnected()) {
+      this.announceShard(peer.id).catch(error => {
+        console.warn(`[Gossip] Shard announcement to peer ${peer.id} failed:`, error);
+      });
+    }
+
+    // Catch up on anything either side missed while disconnected
+    if (this.syncOnConnect && !this.sharding?.light && peer.isConnected()) {
+      this.reconcile(peer.id).catch(error => {
+        console.warn(`[Gossip] Initial sync with peer ${peer.id} failed:`, error);
+      });
+    }
+  }
+
+  /**
+   * Remove peer connection
+   */
+  removePeer(peerId: string): void {
+    const index = this.peerConnections.findIndex(p => p.id === peerId);
+    if (index !== -1) {
+      this.peerConnections.splice(index, 1);
+    }
+    this.peerIdentities.delete(peerId);
+    this.shardPeers.delete(peerId);
+    this.announcedTo.delete(peerId);
+    this.peerCapabilities.delete(peerId);
+    this.greeted.delete(peerId);
+  }
+
+  /**
+   * Get current peer list
+   */
+  get peers(): PeerConnection[] {
+    return [...this.peerConnections];
+  }
+
+  /**
+   * Get gossip network statistics
+   */
+  getStats() {
+    return {
+      nullifierCount: this.store.size(),
+      evidenceCount: this.evidence.size,
+      peerCount: this.peerConnections.length,
+      activePeers: this.peerConnections.filter(p => p.isConnected()).length,
+      propagation: this.propagation.getStats()
+    };
+  }
+
+  /**
+   * Broadcast message to all peers
+   */
+  private async broadcast(message: GossipMessage, skipFailed = false): Promise<void> {
+    await this.sendToPeers(this.peerConnections.filter(peer => peer.isConnected()), message, skipFailed);
+  }
+
+  /**
+   * Send a message to a set of peers
+   */
+  private async sendToPeers(peers: PeerConnection[], message: GossipMessage, skipFailed = false): Promise<void> {
+    const promises = peers
+      .filter(peer => this.accepts(peer.id, message))
+      .map(async (peer) => {
+        try {
+          await peer.send(this.seal(message, peer.id));
+        } catch (error) {
+          if (!skipFailed) {
+            throw error;
+          }
+          console.warn(`Failed to send to peer ${peer.id}:`, error);
+        }
+      });
+
+    await Promise.all(promises);
+  }
+
+  /**
+   * Send a message to a single connected peer
+   */
+  private async sendTo(peerId: string, message: GossipMessage): Promise<void> {
+    const peer = this.peerConnections.find(p => p.id === peerId && p.isConnected());
+    if (!peer || !this.accepts(peerId, message)) {
+      return;
+    }
+    try {
+      await peer.send(this.seal(message, peerId));
+    } catch (error) {
+      console.warn(`Failed to send to peer ${peerId}:`, error);
+    }
+  }
+
+  // ==========================================================================
+  // WIRE FORMAT: CAPABILITY HANDSHAKE
+  // ==========================================================================
+
+  /**
+   * Wire protocol versions and features this node advertises
+   */
+  getCapabilities(): PeerCapabilities {
+    return this.capabilities;
+  }
+
+  /**
+   * What we agreed with a peer in the handshake
+   *
+   * @returns The agreement, or null for peers that have not said hello
+   *          (older nodes, which keep the legacy wire format)
+   */
+  getPeerCapabilities(peerId: string): NegotiatedCapabilities | null {
+    return this.peerCapabilities.get(peerId) ?? null;
+  }
+
+  /**
+   * Send our capabilities to a peer; a failed hello is retried when the
+   * peer next pings us
+   */
+  private async greet(peerId: string): Promise<void> {
+    const peer = this.peerConnections.find(p => p.id === peerId && p.isConnected());
+    if (!peer) {
+      return;
+    }
+    this.greeted.add(peerId);
+    try {
+      await peer.send(this.seal({ type: 'hello', capabilities: this.capabilities, timestamp: Date.now() }, peerId));
+    } catch (error) {
+      this.greeted.delete(peerId);
+      console.warn(`[Gossip] Hello to peer ${peerId} failed:`, error);
+    }
+  }
+
+  /**
+   * Peer advertised its capabilities: settle on a wire format, or drop the
+   * peer if we share no protocol version
+   */
+  private async handleHello(data: GossipMessage, peerId: string): Promise<void> {
+    if (!isValidCapabilities(data.capabilities)) {
+      this.penalizePeer(peerId, -2, 'malformed hello');
+      return;
+    }
+
+    const agreed = negotiate(this.capabilities, data.capabilities);
+    if (!agreed) {
+      console.warn(
+        `[Gossip] Peer ${peerId} speaks protocol ${data.capabilities.minVersion}-${data.capabilities.version}, ` +
+        `we speak ${this.capabilities.minVersion}-${this.capabilities.version}; disconnecting`
+      );
+      this.disconnectPeer(peerId);
+      return;
+    }
+
+    this.peerCapabilities.set(peerId, agreed);
+    this.peerConnections.find(p => p.id === peerId)?.setCapabilities?.(agreed);
+
+    // Peers that connected before they were reachable never got ours
+    if (!this.greeted.has(peerId)) {
+      await this.greet(peerId);
+    }
+  }
+
+  /**
+   * Whether a peer's advertised policy lets it accept a message. Peers that
+   * require ownership proofs would drop (and penalize) nullifiers without one.
+   */
+  private accepts(peerId: string, message: GossipMessage): boolean {
+    const remote = this.peerCapabilities.get(peerId)?.remoteFeatures ?? 0;
+    return !(message.type === 'nullifier' && !message.ownershipProof &&
+      (remote & GossipFeature.OwnershipProofRequired));
+  }
+
+  // ==========================================================================
+  // ANTI-ENTROPY: SET RECONCILIATION
+  // ==========================================================================
+
+  /**
+   * Start reconciliation with a peer
+   *
+   * Sends our bucketed digest; the peer requests whatever buckets differ and
+   * both sides end up exchanging only the nullifiers the other is missing.
+   *
+   * @param peerId - Peer to sync with (default: a random connected peer)
+   */
+  async reconcile(peerId?: string): Promise<void> {
+    // Light nodes hold no shard, so there is nothing to reconcile
+    if (this.sharding?.light) {
+      return;
+    }
+
+    const connected = this.peerConnections.filter(p => p.isConnected());
+    const target = peerId ?? connected[Math.floor(Math.random() * connected.length)]?.id;
+    if (!target) {
+      return;
+    }
+
+    await this.sendTo(target, {
+      type: 'sync-digest',
+      digest: computeDigest(this.store.keys(), this.syncBuckets),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Peer sent its digest: request the buckets where our sets differ
+   *
+   * Peers may be configured with different bucket counts, so the exchange
+   * uses the count of the digest it starts from.
+   */
+  private async handleSyncDigest(data: GossipMessage, peerId: string): Promise<void> {
+    const bucketCount = data.digest?.bucketCount;
+    if (!isBucketCount(bucketCount) || !isValidDigest(data.digest, bucketCount)) {
+      this.penalizePeer(peerId, -2, 'malformed sync message');
+      return;
+    }
+
+    const local = computeDigest(this.store.keys(), bucketCount);
+    const differing = diffDigests(local, data.digest);
+    if (differing.length === 0) {
+      return;
+    }
+
+    await this.sendSyncRequest(peerId, differing, 0, bucketCount);
+  }
+
+  /**
+   * Peer asked for buckets: send what it lacks, and ask for what we lack
+   */
+  private async handleSyncRequest(data: GossipMessage, peerId: string): Promise<void> {
+    const buckets = data.syncBuckets;
+    const bucketCount = data.syncBucketCount ?? this.syncBuckets;
+    const theirKeys = data.nullifierKeys ?? [];
+    if (
+      !isBucketCount(bucketCount) ||
+      !Array.isArray(buckets) ||
+      buckets.length > bucketCount ||
+      !buckets.every(b => Number.isInteger(b) && b >= 0 && b < bucketCount) ||
+      !Array.isArray(theirKeys) ||
+      theirKeys.length > MAX_SYNC_KEYS ||
+      !theirKeys.every(isNullifierKey)
+    ) {
+      this.penalizePeer(peerId, -2, 'malformed sync message');
+      return;
+    }
+
+    const requested = new Set(buckets);
+    const theirs = new Set(theirKeys);
+    const missing: SyncEntry[] = [];
+
+    for (const [key, record] of this.store.entries()) {
+      if (!requested.has(bucketOf(key, bucketCount)) || !this.expectsToHold(peerId, key)) {
+        continue;
+      }
+      if (theirs.delete(key)) {
+        continue; // Peer already has it
+      }
+      missing.push({
+        nullifier: record.nullifier,
+        proof: record.proof,
+        packageFields: record.packageFields,
+        ownershipProof: record.ownershipProof,
+        preimage: record.preimage
+      });
+    }
+    // Anything left in `theirs` is a nullifier the peer holds and we do not
+    const weLack = theirs.size > 0;
+
+    for (let i = 0; i < missing.length; i += this.maxSyncEntries) {
+      await this.sendTo(peerId, {
+        type: 'sync-response',
+        entries: missing.slice(i, i + this.maxSyncEntries),
+        timestamp: Date.now()
+      });
+    }
+
+    // Only counter an initial request, so an exchange is at most two rounds
+    if (weLack && data.syncRound === 0) {
+      const lackingBuckets = new Set(Array.from(theirs, key => bucketOf(key, bucketCount)));
+      await this.sendSyncRequest(peerId, Array.from(lackingBuckets).sort((a, b) => a - b), 1, bucketCount);
+    }
+  }
+
+  /**
+   * Peer sent entries we were missing: validate each like a fresh nullifier
+   */
+  private async handleSyncResponse(data: GossipMessage, peerId: string): Promise<void> {
+    await this.acceptEntries(data, peerId);
+  }
+
+  /**
+   * Validate and store pulled entries without relaying them
+   *
+   * @returns Number of previously unknown nullifiers accepted
+   */
+  private async acceptEntries(data: GossipMessage, peerId: string): Promise<number> {
+    const entries = data.entries;
+    if (!Array.isArray(entries) || entries.length > MAX_SYNC_ENTRIES) {
+      this.penalizePeer(peerId, -2, 'malformed sync message');
+      return 0;
+    }
+
+    // A peer configured to send more than we take is not misbehaving: take
+    // our share and leave the rest to the next reconciliation round
+    let accepted = 0;
+    for (const entry of entries.slice(0, this.maxSyncEntries)) {
+      if (
+        !entry ||
+        !(entry.nullifier instanceof Uint8Array) ||
+        entry.nullifier.length !== 32 ||
+        !entry.proof ||
+        typeof entry.proof.timestamp !== 'number'
+      ) {
+        this.penalizePeer(peerId, -2, 'malformed sync message');
+        return accepted;
+      }
+
+      // Already known: not a new sighting, so neither count nor penalize it.
+      // A different attestation still goes through, as it is a conflicting spend.
+      const key = Crypto.toHex(entry.nullifier);
+      const existing = this.store.get(key);
+      if (existing && (existing.proof.hash === entry.proof.hash || this.evidence.has(key))) {
+        continue;
+      }
+      // Another shard's nullifier: not ours to hold
+      if (!existing && !this.isResponsible(key)) {
+        continue;
+      }
+
+      await this.handleNullifier({
+        type: 'nullifier',
+        nullifier: entry.nullifier,
+        proof: entry.proof,
+        packageFields: entry.packageFields,
+        ownershipProof: entry.ownershipProof,
+        preimage: entry.preimage,
+        timestamp: data.timestamp
+      }, peerId, false);
+
+      if (!existing && this.store.has(key)) {
+        accepted++;
+      }
+
+      // Stop if the peer got disconnected for sending bad entries
+      if (!this.peerScores.has(this.scoreKey(peerId))) {
+        return accepted;
+      }
+    }
+    return accepted;
+  }
+
+  /**
+   * Request buckets from a peer, listing the keys we already hold there
+   *
+   * Buckets are taken in order until MAX_SYNC_KEYS would be exceeded; the
+   * remainder is picked up by the next reconciliation round.
+   */
+  private async sendSyncRequest(
+    peerId: string,
+    buckets: number[],
+    syncRound: number,
+    bucketCount: number
+  ): Promise<void> {
+    const wanted = new Set(buckets);
+    const keysByBucket = new Map<number, string[]>();
+    for (const key of this.store.keys()) {
+      const bucket = bucketOf(key, bucketCount);
+      if (wanted.has(bucket)) {
+        const keys = keysByBucket.get(bucket) ?? [];
+        keys.push(key);
+        keysByBucket.set(bucket, keys);
+      }
+    }
+
+    const syncBuckets: number[] = [];
+    const nullifierKeys: string[] = [];
+    for (const bucket of buckets) {
+      const keys = keysByBucket.get(bucket) ?? [];
+      if (syncBuckets.length > 0 && nullifierKeys.length + keys.length > MAX_SYNC_KEYS) {
+        break;
+      }
+      syncBuckets.push(bucket);
+      nullifierKeys.push(...keys.slice(0, MAX_SYNC_KEYS - nullifierKeys.length));
+    }
+
+    await this.sendTo(peerId, {
+      type: 'sync-request',
+      syncBuckets,
+      syncBucketCount: bucketCount,
+      nullifierKeys,
+      syncRound,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Reconcile with a random peer periodically
+   */
+  private startSync(): void {
+    if (this.syncInterval > 0) {
+      this.syncTimer = setInterval(() => {
+        this.reconcile().catch(error => {
+          console.warn('[Gossip] Periodic sync failed:', error);
+        });
+      }, this.syncInterval);
+    }
+  }
+
+  // ==========================================================================
+  // SHARDING: KADEMLIA-DISTANCE NULLIFIER RANGES
+  // ==========================================================================
+
+  /**
+   * Whether this node stores the given nullifier
+   *
+   * Always true when unsharded. Otherwise true for subscribed prefixes and,
+   * on full nodes, when we are among the `replication` members closest to it.
+   */
+  private isResponsible(key: string): boolean {
+    if (!this.sharding) {
+      return true;
+    }
+    if (matchesPrefix(key, this.sharding.prefixes)) {
+      return true;
+    }
+    if (this.sharding.light) {
+      return false;
+    }
+    return closestNodes(Crypto.fromHex(key), this.shardMembers(), this.sharding.replication)
+      .some(member => member.peerId === null);
+  }
+
+  /**
+   * Whether we expect a peer to hold the given nullifier
+   *
+   * Peers that never announced a shard are unsharded and hold everything.
+   */
+  private expectsToHold(peerId: string, key: string): boolean {
+    const shard = this.shardPeers.get(peerId);
+    if (!this.sharding || !shard) {
+      return true;
+    }
+    if (matchesPrefix(key, shard.prefixes)) {
+      return true;
+    }
+    if (shard.light) {
+      return false;
+    }
+    return closestNodes(Crypto.fromHex(key), this.shardMembers(), this.sharding.replication)
+      .some(member => member.peerId === peerId);
+  }
+
+  /**
+   * Full nodes known to hold a shard, including ourselves (peerId null)
+   */
+  private shardMembers(): Array<{ peerId: string | null; nodeId: Uint8Array }> {
+    const members: Array<{ peerId: string | null; nodeId: Uint8Array }> = [];
+    if (this.sharding && !this.sharding.light) {
+      members.push({ peerId: null, nodeId: this.sharding.nodeId });
+    }
+    for (const [peerId, shard] of this.shardPeers) {
+      if (!shard.light) {
+        members.push({ peerId, nodeId: shard.nodeId });
+      }
+    }
+    return members;
+  }
+
+  /**
+   * Connected peers a nullifier should be routed to
+   *
+   * The responsible members, prefix subscribers and any unsharded peers.
+   *
+   * @param excludePeerId - Peer the nullifier came from
+   * @param closerOnly - Only members strictly closer to the nullifier than us
+   */
+  private shardTargets(key: string, excludePeerId?: string, closerOnly = false): PeerConnection[] {
+    const target = Crypto.fromHex(key);
+    const closest = new Set(
+      closestNodes(target, this.shardMembers(), this.sharding!.replication).map(member => member.peerId)
+    );
+    const ownDistance = xorDistance(this.sharding!.nodeId, target);
+
+    return this.peerConnections.filter(peer => {
+      if (peer.id === excludePeerId || !peer.isConnected()) {
+        return false;
+      }
+      const shard = this.shardPeers.get(peer.id);
+      if (!shard || matchesPrefix(key, shard.prefixes)) {
+        return true;
+      }
+      if (!closest.has(peer.id)) {
+        return false;
+      }
+      return !closerOnly || xorDistance(shard.nodeId, target) < ownDistance;
+    });
+  }
+
+  /**
+   * Tell a peer our node ID, whether we are light, and our prefix subscriptions
+   */
+  private async announceShard(peerId: string): Promise<void> {
+    this.announcedTo.add(peerId);
+    await this.sendTo(peerId, {
+      type: 'shard-announce',
+      shard: {
+        nodeId: this.sharding!.nodeId,
+        light: this.sharding!.light,
+        prefixes: [...this.sharding!.prefixes]
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Peer announced its shard; unsharded nodes ignore announcements
+   */
+  private async handleShardAnnounce(data: GossipMessage, peerId: string): Promise<void> {
+    if (!this.sharding) {
+      return;
+    }
+    if (!isValidShardAnnouncement(data.shard)) {
+      this.penalizePeer(peerId, -2, 'malformed shard announcement');
+      return;
+    }
+
+    this.shardPeers.set(peerId, data.shard);
+
+    // Peers that connected before they were reachable never got ours
+    if (!this.announcedTo.has(peerId)) {
+      await this.announceShard(peerId);
+    }
+  }
+
+  /**
+   * Ask the responsible shard members how widely a nullifier has been seen
+   *
+   * Resolves with the highest confidence reported (a single honest member
+   * suffices), or null if none answer within queryTimeout: silence is not
+   * evidence that the nullifier is unspent.
+   */
+  private async queryShard(nullifier: Uint8Array): Promise<number | null> {
+    const key = Crypto.toHex(nullifier);
+    const targets = this.shardTargets(key).filter(peer => this.shardPeers.has(peer.id));
+    if (targets.length === 0) {
+      return null;
+    }
+
+    const queryId = Crypto.toHex(Crypto.randomBytes(8));
+    const result = new Promise<number | null>(resolve => {
+      this.pendingQueries.set(queryId, {
+        expected: new Set(targets.map(peer => peer.id)),
+        confidence: null,
+        resolve,
+        timer: setTimeout(() => this.settleQuery(queryId), this.sharding!.queryTimeout)
+      });
+    });
+
+    await Promise.all(targets.map(peer => this.sendTo(peer.id, {
+      type: 'shard-query',
+      nullifier,
+      queryId,
+      timestamp: Date.now()
+    })));
+
+    return result;
+  }
+
+  /**
+   * Answer a shard query from our local store
+   */
+  private async handleShardQuery(data: GossipMessage, peerId: string): Promise<void> {
+    if (
+      !(data.nullifier instanceof Uint8Array) ||
+      data.nullifier.length !== 32 ||
+      typeof data.queryId !== 'string' ||
+      data.queryId.length > 64
+    ) {
+      this.penalizePeer(peerId, -2, 'malformed shard query');
+      return;
+    }
+
+    const key = Crypto.toHex(data.nullifier);
+    await this.sendTo(peerId, {
+      type: 'shard-answer',
+      nullifier: data.nullifier,
+      queryId: data.queryId,
+      confidence: this.localConfidence(key),
+      evidence: this.evidence.get(key),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Collect an answer to one of our shard queries
+   */
+  private async handleShardAnswer(data: GossipMessage, peerId: string): Promise<void> {
+    const pending = data.queryId ? this.pendingQueries.get(data.queryId) : undefined;
+    if (!pending || !pending.expected.delete(peerId)) {
+      return; // Unsolicited or late
+    }
+
+    if (typeof data.confidence === 'number' && data.confidence >= 0 && data.confidence <= 1) {
+      pending.confidence = Math.max(pending.confidence ?? 0, data.confidence);
+    }
+
+    // Adopt evidence only after verifying it like any gossiped evidence
+    if (data.evidence) {
+      await this.handleEvidence({ type: 'double-spend-evidence', evidence: data.evidence, timestamp: data.timestamp }, peerId);
+    }
+
+    if (pending.expected.size === 0) {
+      this.settleQuery(data.queryId!);
+    }
+  }
+
+  /**
+   * Resolve a pending shard query with the confidence gathered so far
+   */
+  private settleQuery(queryId: string): void {
+    const pending = this.pendingQueries.get(queryId);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pendingQueries.delete(queryId);
+    pending.resolve(pending.confidence);
+  }
+
+  // ==========================================================================
+  // ECLIPSE DETECTION: FILTER DIGESTS
+  // ==========================================================================
+
+  /**
+   * Ask peers for a filter of their recent nullifiers
+   *
+   * @param peerId - Peer to ping (default: all connected peers)
+   */
+  async ping(peerId?: string): Promise<void> {
+    const message: GossipMessage = { type: 'ping', timestamp: Date.now() };
+    if (peerId) {
+      await this.sendTo(peerId, message);
+    } else {
+      await this.broadcast(message, true);
+    }
+  }
+
+  /**
+   * Assess whether our view of the network may be eclipsed
+   *
+   * A peer is lagging when its last advertised filter lacked at least
+   * lagThreshold of our settled recent nullifiers. If most reporting peers
+   * lag, the honest network is likely reaching us through few (or no) of them.
+   */
+  getEclipseStatus(): EclipseStatus {
+    const reporting = Array.from(this.peerScores.entries())
+      .filter(([, score]) => score.filterChecks > 0);
+    const laggingPeers = reporting
+      .filter(([, score]) => score.missingNullifiers >= this.lagThreshold)
+      .map(([peerId]) => peerId);
+
+    return {
+      suspected: reporting.length > 0 && laggingPeers.length / reporting.length >= this.eclipseThreshold,
+      laggingPeers,
+      reportingPeers: reporting.length
+    };
+  }
+
+  /**
+   * Build a filter over nullifiers first seen within the filter window
+   *
+   * If the window holds more than maxFilterItems, only the most recent are
+   * included and `since` moves forward accordingly.
+   */
+  private buildRecentFilter(): { filter: BloomFilter; since: number } {
+    const recent = Array.from(this.store.since(Date.now() - this.filterWindow))
+      .slice(-this.maxFilterItems);
+    const since = recent.length === this.maxFilterItems
+      ? recent[0][1].firstSeen
+      : Date.now() - this.filterWindow;
+
+    const filter = BloomFilter.create(recent.length);
+    for (const [, record] of recent) {
+      filter.add(record.nullifier);
+    }
+    return { filter, since };
+  }
+
+  /**
+   * Peer pinged us: answer with a filter of our recent nullifiers
+   */
+  private async handlePing(peerId: string): Promise<void> {
+    // Peers we could not greet on connect (e.g. no transport session yet)
+    if (!this.greeted.has(peerId)) {
+      await this.greet(peerId);
+    }
+
+    const { filter, since } = this.buildRecentFilter();
+    await this.sendTo(peerId, {
+      type: 'pong',
+      filter: filter.toWire(since),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Peer answered with its filter: measure its lag and pull what we lack
+   */
+  private async handlePong(data: GossipMessage, peerId: string): Promise<void> {
+    const remote = this.parseFilter(data, peerId);
+    if (!remote) {
+      return;
+    }
+
+    // Nullifiers we have held long enough that an honest, connected peer
+    // should have them too
+    const settledAfter = remote.since + this.filterGrace;
+    const settledBefore = Date.now() - this.filterGrace;
+    let missing = 0;
+    let present = 0;
+    for (const [key, record] of this.store.since(remote.since)) {
+      if (!this.expectsToHold(peerId, key)) {
+        continue;
+      }
+      if (remote.filter.has(record.nullifier)) {
+        present++;
+      } else if (record.firstSeen >= settledAfter && record.firstSeen <= settledBefore) {
+        missing++;
+      }
+    }
+
+    const peerScore = this.getOrCreatePeerScore(peerId);
+    peerScore.filterChecks++;
+    peerScore.missingNullifiers = missing;
+
+    if (missing >= this.lagThreshold) {
+      peerScore.lagStreak++;
+      console.warn(`[Gossip] Peer ${peerId} is missing ${missing} recent nullifiers`);
+
+      // A one-off lag is usually a slow link; a persistent one is withholding
+      if (peerScore.lagStreak >= 2) {
+        this.penalizePeer(peerId, -2, 'withholding nullifiers');
+      }
+
+      // Help an honest laggard catch up
+      await this.reconcile(peerId);
+    } else {
+      peerScore.lagStreak = 0;
+    }
+
+    this.updateEclipseStatus();
+
+    // Peer advertises nullifiers beyond the ones we share: pull them
+    if (this.peerScores.has(this.scoreKey(peerId)) && !this.sharding?.light && remote.filter.count > present) {
+      const { filter, since } = this.buildRecentFilter();
+      await this.sendTo(peerId, {
+        type: 'nullifier-request',
+        filter: filter.toWire(since),
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  /**
+   * Peer wants our recent nullifiers that are absent from its filter
+   */
+  private async handleNullifierRequest(data: GossipMessage, peerId: string): Promise<void> {
+    const remote = this.parseFilter(data, peerId);
+    if (!remote) {
+      return;
+    }
+
+    const entries: SyncEntry[] = [];
+    for (const [key, record] of this.store.since(Math.max(remote.since, Date.now() - this.filterWindow))) {
+      if (this.expectsToHold(peerId, key) && !remote.filter.has(record.nullifier)) {
+        entries.push({
+          nullifier: record.nullifier,
+          proof: record.proof,
+          packageFields: record.packageFields,
+          ownershipProof: record.ownershipProof,
+          preimage: record.preimage
+        });
+      }
+    }
+
+    // Anything beyond one message is left to set reconciliation
+    await this.sendTo(peerId, {
+      type: 'nullifier-response',
+      entries: entries.slice(-this.maxSyncEntries),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Peer sent the nullifiers we were missing
+   */
+  private async handleNullifierResponse(data: GossipMessage, peerId: string): Promise<void> {
+    const accepted = await this.acceptEntries(data, peerId);
+    if (accepted >= this.lagThreshold) {
+      // Our other peers never relayed these: we may be the one being starved
+      console.warn(`[Gossip] Pulled ${accepted} unseen nullifiers from peer ${peerId}; other peers may be withholding`);
+    }
+  }
+
+  /**
+   * Decode a filter from a peer, penalizing malformed ones
+   */
+  private parseFilter(data: GossipMessage, peerId: string): { filter: BloomFilter; since: number } | null {
+    if (!data.filter || typeof data.filter.since !== 'number') {
+      this.penalizePeer(peerId, -2, 'malformed filter');
+      return null;
+    }
+    try {
+      return { filter: BloomFilter.fromWire(data.filter), since: data.filter.since };
+    } catch {
+      this.penalizePeer(peerId, -2, 'malformed filter');
+      return null;
+    }
+  }
+
+  /**
+   * Log transitions into and out of a suspected eclipse
+   */
+  private updateEclipseStatus(): void {
+    const status = this.getEclipseStatus();
+    if (status.suspected && !this.eclipseSuspected) {
+      console.warn(
+        `[Gossip] Possible eclipse: ${status.laggingPeers.length}/${status.reportingPeers} peers ` +
+        `are missing recent nullifiers. Consider connecting to additional peers.`
+      );
+    } else if (!status.suspected && this.eclipseSuspected) {
+      console.log('[Gossip] Eclipse warning cleared');
+    }
+    this.eclipseSuspected = status.suspected;
+  }
+
+  /**
+   * Ping all peers periodically for filter digests
+   */
+  private startPinging(): void {
+    if (this.pingInterval > 0) {
+      this.pingTimer = setInterval(() => {
+        this.ping().catch(error => {
+          console.warn('[Gossip] Periodic ping failed:', error);
+        });
+      }, this.pingInterval);
+    }
+  }
+
+  /**
+   * Prune old nullifiers to prevent unbounded growth
+   */
+  private startPruning(): void {
+    this.pruneTimer = setInterval(() => this.prune(), this.pruneInterval);
+  }
+
+  /**
+   * Run one pruning pass immediately
+   *
+   * Called periodically by the prune timer; exposed for maintenance tooling.
+   */
+  prune(): void {
+    const cutoff = Date.now() - this.maxNullifierAge;
+
+    // Remove nullifiers older than cutoff.
+    // We rely on 'firstSeen' as the approximation of the token's timestamp.
+    this.store.pruneOlderThan(cutoff);
+
+    // Safety Valve: If still over maxNullifiers limit (e.g. DDoS),
+    // we must enforce the hard cap to prevent crashing.
+    // NOTE: This creates a theoretical double-spend risk if the network is flooded,
+    // but preventing a crash is the priority.
+    const size = this.store.size();
+    if (size > this.maxNullifiers) {
+      console.warn(`[Gossip] Nullifier set size (${size}) exceeded limit. Forcing prune.`);
+      this.store.evictOldest(size - this.maxNullifiers);
+    }
+
+    // Evidence lives as long as the nullifier it concerns
+    for (const key of this.evidence.keys()) {
+      if (!this.store.has(key)) {
+        this.evidence.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get or create peer score record
+   */
+  private getOrCreatePeerScore(peerId: string): PeerScore {
+    const key = this.scoreKey(peerId);
+    let score = this.peerScores.get(key);
+    if (!score) {
+      score = {
+        score: this.reputation.getScore(key),
+        invalidProofs: 0,
+        duplicates: 0,
+        validMessages: 0,
+        lastSeen: Date.now(),
+        filterChecks: 0,
+        missingNullifiers: 0,
+        lagStreak: 0
+      };
+      this.peerScores.set(key, score);
+    }
+    return score;
+  }
+
+  /**
+   * Penalize a peer and potentially disconnect them
+   *
+   * The penalty lands on the peer's verified identity when it has one, and
+   * dropping below the threshold disconnects every connection bound to it.
+   */
+  private penalizePeer(peerId: string, penalty: number, reason: string): void {
+    const key = this.scoreKey(peerId);
+    const score = this.getOrCreatePeerScore(peerId);
+    score.score = this.reputation.adjust(key, penalty); // Penalty is negative
+
+    if (reason === 'invalid witness proof') {
+      score.invalidProofs++;
+    } else if (reason === 'duplicate nullifier') {
+      score.duplicates++;
+    }
+
+    console.log(`[Gossip] Peer ${peerId} penalized ${penalty} for ${reason} (score: ${score.score})`);
+
+    // Ban and disconnect if score falls below threshold
+    if (score.score < this.peerScoreThreshold) {
+      this.reputation.ban(key, { reason, subnet: this.subnetOf(peerId) });
+      const connections = this.peerConnections
+        .filter(peer => peer.id === peerId || this.peerIdentities.get(peer.id) === key)
+        .map(peer => peer.id);
+      for (const connection of connections) {
+        console.warn(`[Gossip] Disconnecting peer ${connection} due to low score (${score.score})`);
+        this.disconnectPeer(connection);
+      }
+    }
+  }
+
+  /**
+   * Disconnect a peer by ID
+   */
+  private disconnectPeer(peerId: string): void {
+    const peerIndex = this.peerConnections.findIndex(p => p.id === peerId);
+    if (peerIndex !== -1) {
+      const peer = this.peerConnections[peerIndex];
+
+      // If peer has disconnect method, call it
+      if ('disconnect' in peer && typeof (peer as any).disconnect === 'function') {
+        (peer as any).disconnect();
+      }
 
-    // IPv6 (simplified - use first 4 groups for /48)
-    if (ip.includes(':')) {
-      const groups = ip.split(':');
-      if (groups.length >= 3) {
-        return groups.slice(0, 3).join(':');
+      // Remove from connections. Session stats go with the last connection
+      // of an identity; its reputation lives on in the ledger.
+      const key = this.scoreKey(peerId);
+      this.peerConnections.splice(peerIndex, 1);
+      this.peerIdentities.delete(peerId);
+      if (!this.peerConnections.some(p => this.scoreKey(p.id) === key)) {
+        this.peerScores.delete(key);
       }
+      this.shardPeers.delete(peerId);
+      this.announcedTo.delete(peerId);
+      this.peerCapabilities.delete(peerId);
+      this.greeted.delete(peerId);
+
+      console.log(`[Gossip] Peer ${peerId} disconnected and removed`);
+    }
+  }
+
+  /**
+   * Get peer reputation statistics
+   *
+   * @param peerId - Transport peer ID or verified identity (hex public key)
+   */
+  getPeerStats(peerId: string): PeerScore | null {
+    const key = this.scoreKey(peerId);
+    const score = this.peerScores.get(key);
+    if (!score) {
+      return null;
+    }
+    score.score = this.reputation.getScore(key);
+    return score;
+  }
+
+  /**
+   * Get all peer scores, keyed by verified identity where known
+   */
+  getAllPeerScores(): Map<string, PeerScore> {
+    for (const [key, score] of this.peerScores) {
+      score.score = this.reputation.getScore(key);
     }
+    return new Map(this.peerScores);
+  }
 
-    // Unknown format, return as-is
-    return ip;
+  /**
+   * Reputation ledger, for inspecting and overriding scores and bans
+   */
+  getReputation(): ReputationLedger {
+    return this.reputation;
   }
 
   /**
@@ -507,7 +2120,7 @@ export class NullifierGossip {
 
     for (const peer of this.peerConnections) {
       if (peer.remoteAddress) {
-        const subnet = this.getSubnet(peer.remoteAddress);
+        const subnet = getSubnet(peer.remoteAddress);
         subnetCounts.set(subnet, (subnetCounts.get(subnet) || 0) + 1);
       }
     }
@@ -522,12 +2135,34 @@ export class NullifierGossip {
     if (this.pruneTimer) {
       clearInterval(this.pruneTimer);
     }
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+    }
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+    }
+    for (const queryId of Array.from(this.pendingQueries.keys())) {
+      this.settleQuery(queryId);
+    }
+    this.reputation.flush();
   }
 }
 
-interface NullifierRecord {
-  nullifier: Uint8Array;
-  proof: Attestation;
-  firstSeen: number;
-  peerCount: number;
+/**
+ * Whether an attestation is over the given package fields, and those fields
+ * spend the nullifier
+ */
+function attestsSpend(proof: Attestation, packageFields: Uint8Array, nullifier: Uint8Array): boolean {
+  return packageFields instanceof Uint8Array &&
+    Crypto.toHex(Crypto.hash(packageFields)) === proof.hash &&
+    hashInputSpends(packageFields, nullifier);
+}
+
+/**
+ * Whether the preimage opens the hashlock of the HTLC the package fields claim
+ */
+function opensLock(packageFields: Uint8Array, preimage: Uint8Array): boolean {
+  const hashlock = hashInputHashlock(packageFields);
+  return preimage instanceof Uint8Array && hashlock !== undefined &&
+    preimageMatches({ type: 'hash', hashlock }, preimage);
 }
@@ -0,0 +1,87 @@
+/**
+ * HTLC conditions
+ *
+ * An HTLC is locked by a hash, a time or both:
+ *
+ *   hash       claim with the preimage; never refundable
+ *   time       claim before the timelock; refund from the timelock on
+ *   hash-time  claim with the preimage before the timelock; refund from
+ *              the timelock on (the classic atomic-swap contract)
+ *
+ * Claim and refund windows never overlap, so exactly one settlement is
+ * possible at any moment. Timelocks are milliseconds since the epoch.
+ *
+ * Locking publishes the source token's nullifier; the claim or refund
+ * publishes the HTLC's settlement nullifier, so only one of them succeeds.
+ */
+
+import { Crypto } from './crypto.js';
+import { lockNullifier } from './codec/package-codec.js';
+import type { HTLCCondition, HTLCPackage } from './types.js';
+
+export type HTLCSettlement = 'claim' | 'refund';
+
+/**
+ * The hashlock for a preimage, as carried in HTLC conditions
+ */
+export function createHashlock(preimage: Uint8Array): string {
+  return Crypto.hashString(Crypto.toHex(preimage));
+}
+
+/**
+ * Whether claiming requires a preimage
+ */
+export function isHashLocked(condition: HTLCCondition): boolean {
+  return condition.type === 'hash' || condition.type === 'hash-time';
+}
+
+/**
+ * Whether the HTLC has a deadline, after which it can be refunded
+ */
+export function isTimeLocked(condition: HTLCCondition): boolean {
+  return condition.type === 'time' || condition.type === 'hash-time';
+}
+
+/**
+ * Whether a preimage opens the condition's hashlock
+ */
+export function preimageMatches(condition: HTLCCondition, preimage: Uint8Array): boolean {
+  return condition.hashlock !== undefined && createHashlock(preimage) === condition.hashlock;
+}
+
+/**
+ * What the condition is missing, or null if it is well-formed
+ */
+export function conditionProblem(condition: HTLCCondition): string | null {
+  if (condition.type !== 'hash' && condition.type !== 'time' && condition.type !== 'hash-time') {
+    return `Unknown HTLC condition type '${condition.type}'`;
+  }
+  if (isHashLocked(condition) && !condition.hashlock) {
+    return `${condition.type === 'hash' ? 'Hash' : 'Hash-time'} condition requires hashlock`;
+  }
+  if (isTimeLocked(condition) && !(typeof condition.timelock === 'number' && condition.timelock > 0)) {
+    return `${condition.type === 'time' ? 'Time' : 'Hash-time'} condition requires timelock`;
+  }
+  return null;
+}
+
+/**
+ * The nullifier a claim or refund of the HTLC publishes
+ *
+ * Locks proven before the canonical codec (over version-0 hashes) did not
+ * publish their source nullifier, so they still settle under it.
+ */
+export function htlcSettlementNullifier(pkg: HTLCPackage): Uint8Array {
+  const packageHash = Crypto.hashHTLCPackage(pkg);
+  return pkg.proof.hash === packageHash ? lockNullifier('htlc', packageHash) : pkg.nullifier;
+}
+
+/**
+ * Which settlement the condition allows at a moment
+ *
+ * @returns 'claim' before the timelock (or always, for hash locks),
+ *          'refund' from the timelock on
+ */
+export function settlementWindow(condition: HTLCCondition, now = Date.now()): HTLCSettlement {
+  return isTimeLocked(condition) && now >= (condition.timelock ?? 0) ? 'refund' : 'claim';
+}
@@ -11,8 +11,89 @@ export { ScarbuckToken } from './token.js';
 export { NullifierGossip } from './gossip.js';
 export { TransferValidator } from './validator.js';
 export { Crypto } from './crypto.js';
-export { FederationBridge } from './bridge.js';
+export { FederationBridge, BridgeError } from './bridge.js';
+export { InMemoryBridgeJournal, FileBridgeJournal, journaledPackage } from './bridge-journal.js';
 export { OwnershipProof } from './ownership.js';
+export { InMemoryNullifierStore, SqliteNullifierStore } from './nullifier-store.js';
+export { computeDigest, diffDigests, MAX_SYNC_ENTRIES } from './reconciliation.js';
+export { BloomFilter } from './bloom-filter.js';
+export { NodeIdentity, verifyGossipSignature } from './node-identity.js';
+export { ReputationLedger, getSubnet } from './reputation.js';
+export { WitnessBatcher } from './witness-batcher.js';
+export { PropagationTracker } from './propagation.js';
+export { assertValidPolicy, resolveTier } from './policy.js';
+export { isDenomination, assertDenominations, decompose, planDenominatedPayment } from './denominations.js';
+export {
+  createPaymentRequest,
+  signPaymentRequest,
+  verifyPaymentRequest,
+  hashPaymentRequest,
+  hashMemo,
+  requestCommitment
+} from './payment-request.js';
+export {
+  createHashlock,
+  isHashLocked,
+  isTimeLocked,
+  preimageMatches,
+  conditionProblem,
+  settlementWindow,
+  htlcSettlementNullifier
+} from './htlc.js';
+export {
+  MAX_MULTISIG_KEYS,
+  multiSigKey,
+  policyProblem,
+  multiSigPolicyHash,
+  multiSigBinding,
+  multiSigSpendNullifier,
+  approveMultiSig,
+  approvingKeys
+} from './multisig.js';
+export {
+  SwapCoordinator,
+  SwapError,
+  InMemorySwapStore,
+  FileSwapStore,
+  encodeSwapMessage,
+  decodeSwapMessage
+} from './swap.js';
+export { ValidationError } from './validation-error.js';
+export { buildMerkleTree, computeMerkleRoot, resolveMerkleAttestation } from './merkle.js';
+export {
+  GOSSIP_PROTOCOL_VERSION,
+  MIN_GOSSIP_PROTOCOL_VERSION,
+  GossipFeature,
+  GossipEnvelopeError,
+  encodeEnvelope,
+  decodeEnvelope,
+  negotiate
+} from './codec/gossip-envelope.js';
+export {
+  PACKAGE_CODEC_VERSION,
+  MIN_PACKAGE_CODEC_VERSION,
+  PackageCodecError,
+  encodePackage,
+  decodePackage,
+  decodePackageAs,
+  packageHashInput,
+  legacyHashedFields,
+  lockNullifier,
+  hashInputSpends,
+  hashInputHashlock
+} from './codec/package-codec.js';
+export {
+  BEARER_PREFIX,
+  BEARER_FORMAT_VERSION,
+  DEFAULT_QR_PART_CHARS,
+  MAX_QR_PARTS,
+  BearerStringError,
+  encodeBearerString,
+  decodeBearerString,
+  isBearerString,
+  splitForQR,
+  joinQRParts
+} from './codec/bearer-string.js';
 
 export { FreebirdAdapter } from './integrations/freebird.js';
 export { WitnessAdapter } from './integrations/witness.js';
@@ -23,27 +104,101 @@ export type {
   PrivateKey,
   KeyPair,
   Attestation,
+  MerkleStep,
+  MerkleInclusion,
   TransferPackage,
+  PaymentRequest,
   SplitPackage,
+  PaymentOutput,
+  PaymentPackage,
   MergePackage,
   MultiPartyTransfer,
   HTLCCondition,
   HTLCPackage,
+  MultiSigPolicy,
+  MultiSigPackage,
   BridgePackage,
   PeerConnection,
   GossipMessage,
+  GossipMessageType,
+  NullifierSetDigest,
+  BucketDigest,
+  SyncEntry,
+  NullifierFilter,
+  SpendClaim,
+  DoubleSpendEvidence,
+  ShardAnnouncement,
+  PeerCapabilities,
+  NegotiatedCapabilities,
+  ValidationCode,
+  ValidationDetails,
   ValidationResult,
+  ValidationStage,
+  ValidationUpdate,
   ConfidenceParams,
+  AcceptanceTier,
+  AcceptancePolicy,
+  PolicyRule,
+  PolicyRuleResult,
+  PolicyEvaluation,
   AdmissionClient,
   FreebirdClient,
   WitnessClient,
   GossipNetwork
 } from './types.js';
 
-export type { ScarbuckTokenConfig } from './token.js';
-export type { ValidatorConfig } from './validator.js';
-export type { GossipConfig } from './gossip.js';
-export type { BridgeConfig } from './bridge.js';
+export type { ScarbuckTokenConfig, MintOptions, DenominatedPayment } from './token.js';
+export type { DenominationPlan, DenominationSplit } from './denominations.js';
+export type { PaymentRequestParams } from './payment-request.js';
+export type { HTLCSettlement } from './htlc.js';
+export type {
+  SwapFederation,
+  SwapRole,
+  SwapState,
+  SwapAction,
+  SwapLeg,
+  SwapRecord,
+  SwapOffer,
+  SwapAcceptance,
+  SwapReveal,
+  SwapMessage,
+  SwapStore,
+  SwapCoordinatorConfig,
+  InitiateSwapParams,
+  AcceptSwapParams,
+  SwapErrorCategory
+} from './swap.js';
+export type { ValidatorConfig, BridgeValidationOptions } from './validator.js';
+export type { GossipConfig, EclipseStatus, ShardingConfig } from './gossip.js';
+export type { ReputationConfig, ReputationEntry, SubnetBan, BanOptions } from './reputation.js';
+export type { WitnessBatcherConfig } from './witness-batcher.js';
+export type {
+  PropagationTrace,
+  PropagationSource,
+  PropagationStats,
+  PropagationTrackerConfig,
+  Percentiles
+} from './propagation.js';
+export type { ResolvedTier, TierDefaults } from './policy.js';
+export type { EncodeEnvelopeOptions, DecodedEnvelope } from './codec/gossip-envelope.js';
+export type {
+  PackageTypes,
+  PackageKind,
+  DecodedPackage,
+  HashedPackageKind,
+  LegacyPackageKind,
+  LockKind
+} from './codec/package-codec.js';
+export type { BearerStringOptions, BearerStringErrorCategory } from './codec/bearer-string.js';
+export type { NullifierStore, NullifierRecord } from './nullifier-store.js';
+export type { BridgeConfig, BridgeErrorCategory } from './bridge.js';
+export type {
+  BridgeState,
+  BridgeLock,
+  BridgeJournalEntry,
+  BridgeJournal,
+  BridgeFailureHook
+} from './bridge-journal.js';
 export type { FreebirdAdapterConfig } from './integrations/freebird.js';
 export type { WitnessAdapterConfig } from './integrations/witness.js';
 export type { HyperTokenAdapterConfig } from './integrations/hypertoken.js';
@@ -12,8 +12,20 @@
 import { RoutedPeerManager, RoutingStrategy } from '../networking/RoutedPeerManager.js';
 import { E2EEncryption, EncryptedMessage, KeyExchangeMessage } from '../vendor/hypertoken/E2EEncryption.js';
 import { StateSyncManager, StateDelta, CatchupRequest, CatchupResponse } from '../networking/StateSyncManager.js';
-import type { PeerConnection, GossipMessage } from '../types.js';
+import type {
+  Attestation,
+  PeerConnection,
+  GossipMessage,
+  GossipMessageType,
+  NullifierSetDigest,
+  NullifierFilter,
+  SpendClaim,
+  PeerCapabilities,
+  NegotiatedCapabilities
+} from '../types.js';
 import { Crypto } from '../crypto.js';
+import { CborError } from '../codec/canonical-cbor.js';
+import { GossipFeature, MAX_ENVELOPE_BYTES, decodeEnvelope, encodeEnvelope } from '../codec/gossip-envelope.js';
 
 export interface HyperTokenAdapterConfig {
   readonly relayUrl?: string;
@@ -34,11 +46,76 @@ export interface HyperTokenAdapterConfig {
  * Serializable version of GossipMessage for JSON transmission
  */
 interface SerializedGossipMessage {
-  readonly type: 'nullifier' | 'ping' | 'pong';
+  readonly type: GossipMessageType;
   readonly nullifier?: string;
   readonly proof?: any;
   readonly timestamp: number;
   readonly ownershipProof?: string;
+  readonly packageFields?: string;
+  readonly preimage?: string;
+  readonly digest?: NullifierSetDigest;
+  readonly syncBuckets?: number[];
+  readonly syncBucketCount?: number;
+  readonly nullifierKeys?: string[];
+  readonly syncRound?: number;
+  readonly entries?: SerializedSyncEntry[];
+  readonly filter?: SerializedNullifierFilter;
+  readonly evidence?: SerializedEvidence;
+  readonly shard?: SerializedShardAnnouncement;
+  readonly queryId?: string;
+  readonly confidence?: number;
+  readonly hops?: number;
+  readonly capabilities?: PeerCapabilities;
+  readonly sender?: string;
+  readonly signature?: string;
+  readonly recipient?: string;
+}
+
+interface SerializedShardAnnouncement {
+  readonly nodeId: string;
+  readonly light: boolean;
+  readonly prefixes: string[];
+}
+
+interface SerializedSpendClaim {
+  readonly proof: Record<string, unknown>;
+  readonly packageFields?: string;
+  readonly ownershipProof?: string;
+}
+
+interface SerializedEvidence {
+  readonly nullifier: string;
+  readonly first: SerializedSpendClaim;
+  readonly second: SerializedSpendClaim;
+  readonly detectedAt: number;
+}
+
+function serializeClaim(claim: SpendClaim): SerializedSpendClaim {
+  return {
+    proof: { ...claim.proof },
+    packageFields: claim.packageFields ? Crypto.toHex(claim.packageFields) : undefined,
+    ownershipProof: claim.ownershipProof ? Crypto.toHex(claim.ownershipProof) : undefined
+  };
+}
+
+function deserializeClaim(claim: SerializedSpendClaim): SpendClaim {
+  return {
+    proof: claim?.proof as unknown as Attestation, // Checked by NullifierGossip before the claim is used
+    packageFields: claim?.packageFields ? Crypto.fromHex(claim.packageFields) : undefined,
+    ownershipProof: claim?.ownershipProof ? Crypto.fromHex(claim.ownershipProof) : undefined
+  };
+}
+
+interface SerializedNullifierFilter extends Omit<NullifierFilter, 'bits'> {
+  readonly bits: string;
+}
+
+interface SerializedSyncEntry {
+  readonly nullifier: string;
+  readonly proof: Record<string, unknown>;
+  readonly packageFields?: string;
+  readonly ownershipProof?: string;
+  readonly preimage?: string;
 }
 
 /**
@@ -57,7 +134,38 @@ function serializeGossipMessage(msg: GossipMessage): SerializedGossipMessage {
     nullifier: msg.nullifier ? Crypto.toHex(msg.nullifier) : undefined,
     proof: msg.proof,
     timestamp: msg.timestamp,
-    ownershipProof: msg.ownershipProof ? Crypto.toHex(msg.ownershipProof) : undefined
+    ownershipProof: msg.ownershipProof ? Crypto.toHex(msg.ownershipProof) : undefined,
+    packageFields: msg.packageFields ? Crypto.toHex(msg.packageFields) : undefined,
+    preimage: msg.preimage ? Crypto.toHex(msg.preimage) : undefined,
+    digest: msg.digest,
+    syncBuckets: msg.syncBuckets,
+    syncBucketCount: msg.syncBucketCount,
+    nullifierKeys: msg.nullifierKeys,
+    syncRound: msg.syncRound,
+    entries: msg.entries?.map(entry => ({
+      nullifier: Crypto.toHex(entry.nullifier),
+      proof: { ...entry.proof },
+      packageFields: entry.packageFields ? Crypto.toHex(entry.packageFields) : undefined,
+      ownershipProof: entry.ownershipProof ? Crypto.toHex(entry.ownershipProof) : undefined,
+      preimage: entry.preimage ? Crypto.toHex(entry.preimage) : undefined
+    })),
+    filter: msg.filter ? { ...msg.filter, bits: Crypto.toHex(msg.filter.bits) } : undefined,
+    evidence: msg.evidence
+      ? {
+          nullifier: Crypto.toHex(msg.evidence.nullifier),
+          first: serializeClaim(msg.evidence.first),
+          second: serializeClaim(msg.evidence.second),
+          detectedAt: msg.evidence.detectedAt
+        }
+      : undefined,
+    shard: msg.shard ? { ...msg.shard, nodeId: Crypto.toHex(msg.shard.nodeId) } : undefined,
+    queryId: msg.queryId,
+    confidence: msg.confidence,
+    hops: msg.hops,
+    capabilities: msg.capabilities,
+    sender: msg.sender ? Crypto.toHex(msg.sender) : undefined,
+    signature: msg.signature ? Crypto.toHex(msg.signature) : undefined,
+    recipient: msg.recipient ? Crypto.toHex(msg.recipient) : undefined
   };
 }
 
@@ -67,7 +175,44 @@ function deserializeGossipMessage(serialized: SerializedGossipMessage): GossipMe
     nullifier: serialized.nullifier ? Crypto.fromHex(serialized.nullifier) : undefined,
     proof: serialized.proof,
     timestamp: serialized.timestamp,
-    ownershipProof: serialized.ownershipProof ? Crypto.fromHex(serialized.ownershipProof) : undefined
+    ownershipProof: serialized.ownershipProof ? Crypto.fromHex(serialized.ownershipProof) : undefined,
+    packageFields: serialized.packageFields ? Crypto.fromHex(serialized.packageFields) : undefined,
+    preimage: serialized.preimage ? Crypto.fromHex(serialized.preimage) : undefined,
+    digest: serialized.digest,
+    syncBuckets: serialized.syncBuckets,
+    syncBucketCount: serialized.syncBucketCount,
+    nullifierKeys: serialized.nullifierKeys,
+    syncRound: serialized.syncRound,
+    entries: Array.isArray(serialized.entries)
+      ? serialized.entries.map(entry => ({
+          nullifier: Crypto.fromHex(entry.nullifier),
+          proof: entry.proof as unknown as Attestation, // Checked by NullifierGossip before the entry is stored
+          packageFields: entry.packageFields ? Crypto.fromHex(entry.packageFields) : undefined,
+          ownershipProof: entry.ownershipProof ? Crypto.fromHex(entry.ownershipProof) : undefined,
+          preimage: entry.preimage ? Crypto.fromHex(entry.preimage) : undefined
+        }))
+      : undefined,
+    filter: serialized.filter
+      ? { ...serialized.filter, bits: Crypto.fromHex(serialized.filter.bits) }
+      : undefined,
+    evidence: serialized.evidence
+      ? {
+          nullifier: Crypto.fromHex(serialized.evidence.nullifier),
+          first: deserializeClaim(serialized.evidence.first),
+          second: deserializeClaim(serialized.evidence.second),
+          detectedAt: serialized.evidence.detectedAt
+        }
+      : undefined,
+    shard: serialized.shard
+      ? { ...serialized.shard, nodeId: Crypto.fromHex(serialized.shard.nodeId) }
+      : undefined,
+    queryId: serialized.queryId,
+    confidence: serialized.confidence,
+    hops: serialized.hops,
+    capabilities: serialized.capabilities,
+    sender: serialized.sender ? Crypto.fromHex(serialized.sender) : undefined,
+    signature: serialized.signature ? Crypto.fromHex(serialized.signature) : undefined,
+    recipient: serialized.recipient ? Crypto.fromHex(serialized.recipient) : undefined
   };
 }
 
@@ -141,6 +286,10 @@ class HyperTokenPeerWrapper implements PeerConnection {
     this.messageHandler = handler;
   }
 
+  setCapabilities(capabilities: NegotiatedCapabilities): void {
+    this.adapter.setPeerCapabilities(this.id, capabilities);
+  }
+
   _handleIncomingMessage(data: GossipMessage): void {
     if (!this.rateLimiter.tryConsume()) {
       this.droppedMessages++;
@@ -187,6 +336,8 @@ export class HyperTokenAdapter {
   private config: HyperTokenAdapterConfig;
   private loggedFallbackNetworkWarning = false;
   private downgradedPeers = new Set<string>();
+  // Wire format agreed with each peer; peers without an entry get legacy JSON
+  private peerCapabilities = new Map<string, NegotiatedCapabilities>();
 
   constructor(config: HyperTokenAdapterConfig = {}) {
     this.config = config;
@@ -289,6 +440,7 @@ export class HyperTokenAdapter {
       console.log(`[HyperToken] Peer left: ${peerId}`);
       this.encryption.removeSession(peerId);
       this.peerWrappers.delete(peerId);
+      this.peerCapabilities.delete(peerId);
     });
 
     this.routedManager.on('net:message', async (evt: any) => {
@@ -371,6 +523,21 @@ export class HyperTokenAdapter {
       return;
     }
 
+    // CBOR envelopes are accepted from any peer; legacy JSON otherwise
+    if (message.format === 'cbor') {
+      const decrypted = await this.encryption.decrypt(fromPeerId, message.encrypted);
+      if (!decrypted) {
+        return;
+      }
+      const maxBytes = this.peerCapabilities.get(fromPeerId)?.maxMessageBytes ?? MAX_ENVELOPE_BYTES;
+      try {
+        wrapper._handleIncomingMessage(decodeEnvelope(decrypted, maxBytes).message);
+      } catch (error) {
+        console.warn(`[HyperToken] Dropping undecodable envelope from ${fromPeerId}:`, error);
+      }
+      return;
+    }
+
     const decrypted = await this.encryption.decryptJSON<SerializedGossipMessage>(fromPeerId, message.encrypted);
     if (decrypted) {
       wrapper._handleIncomingMessage(deserializeGossipMessage(decrypted));
@@ -428,6 +595,16 @@ export class HyperTokenAdapter {
       throw new Error(`No E2E session with ${peerId} - cannot send unencrypted`);
     }
 
+    const envelope = this.encodeForPeer(peerId, data);
+    if (envelope) {
+      const encrypted = await this.encryption.encrypt(peerId, envelope);
+      if (!encrypted) {
+        throw new Error(`Encryption failed for ${peerId}`);
+      }
+      this.routedManager?.sendToPeer(peerId, { encrypted, format: 'cbor' });
+      return;
+    }
+
     const serialized = serializeGossipMessage(data);
     const encrypted = await this.encryption.encryptJSON(peerId, serialized);
     if (!encrypted) {
@@ -437,6 +614,38 @@ export class HyperTokenAdapter {
     this.routedManager?.sendToPeer(peerId, { encrypted });
   }
 
+  /**
+   * Record the wire format agreed with a peer (called via the peer wrapper
+   * once NullifierGossip's handshake settles)
+   */
+  setPeerCapabilities(peerId: string, capabilities: NegotiatedCapabilities): void {
+    this.peerCapabilities.set(peerId, capabilities);
+  }
+
+  /**
+   * Encode a message as a CBOR envelope if the peer accepts them
+   *
+   * @returns The envelope, or null to fall back to legacy JSON
+   */
+  private encodeForPeer(peerId: string, data: GossipMessage): Uint8Array | null {
+    const agreed = this.peerCapabilities.get(peerId);
+    if (!agreed || !(agreed.features & GossipFeature.CborEnvelope)) {
+      return null;
+    }
+    try {
+      return encodeEnvelope(data, {
+        compress: (agreed.features & GossipFeature.Compression) !== 0,
+        maxBytes: agreed.maxMessageBytes
+      });
+    } catch (error) {
+      // Content CBOR cannot carry canonically still goes out as JSON
+      if (error instanceof CborError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Record a state delta for sync (called by NullifierGossip)
    */
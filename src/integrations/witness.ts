@@ -8,6 +8,7 @@
  */
 
 import { Crypto } from '../crypto.js';
+import { resolveMerkleAttestation } from '../merkle.js';
 import type {
   WitnessClient,
   Attestation,
@@ -502,11 +503,19 @@ export class WitnessAdapter implements WitnessClient {
    *
    * Validates threshold signatures from witness nodes.
    * Supports both Ed25519 multi-sig and BLS12-381 aggregated signatures.
+   * Batched attestations are accepted when their Merkle inclusion proof
+   * leads to the root the signatures cover.
    *
    * IMPORTANT: This method requires actual cryptographic verification.
    * It will throw if no gateway is available and local BLS verification fails.
    */
   async verify(attestation: Attestation): Promise<boolean> {
+    // Batched attestation: check inclusion, then verify the root Witness signed
+    if (attestation.merkle) {
+      const root = resolveMerkleAttestation(attestation);
+      return root ? this.verify(root) : false;
+    }
+
     await this.init();
 
     // Basic structural validation first
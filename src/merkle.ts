@@ -0,0 +1,123 @@
+/**
+ * Merkle trees for batched Witness attestations
+ *
+ * A batch of package hashes is committed to a single Merkle root, and only
+ * the root is timestamped by Witness. Each package then carries an inclusion
+ * proof from its own hash (the leaf) up to the attested root.
+ *
+ * Leaves and interior nodes are domain-separated (0x00 / 0x01 prefixes) so an
+ * interior node can never be passed off as a leaf. An odd node at the end of
+ * a level is promoted unchanged rather than duplicated.
+ */
+
+import { Crypto } from './crypto.js';
+import type { Attestation, MerkleInclusion, MerkleStep } from './types.js';
+
+/** Deepest accepted inclusion path (2^32 leaves) */
+export const MAX_MERKLE_DEPTH = 32;
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+function hashLeaf(leaf: string): string {
+  return Crypto.toHex(Crypto.hash(LEAF_PREFIX, Crypto.fromHex(leaf)));
+}
+
+function hashNode(left: string, right: string): string {
+  return Crypto.toHex(Crypto.hash(NODE_PREFIX, Crypto.fromHex(left), Crypto.fromHex(right)));
+}
+
+/**
+ * Build a tree over hex SHA-256 leaves
+ *
+ * @returns The root and one inclusion path per leaf, in input order
+ * @throws If there are no leaves or a leaf is not a hex SHA-256 digest
+ */
+export function buildMerkleTree(leaves: readonly string[]): { root: string; paths: MerkleStep[][] } {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+  for (const leaf of leaves) {
+    if (!SHA256_HEX.test(leaf)) {
+      throw new Error(`Merkle leaf must be a hex SHA-256 digest: ${leaf}`);
+    }
+  }
+
+  const paths: MerkleStep[][] = leaves.map(() => []);
+  // Leaf indexes under each node of the current level
+  let members: number[][] = leaves.map((_, index) => [index]);
+  let level = leaves.map(hashLeaf);
+
+  while (level.length > 1) {
+    const nextLevel: string[] = [];
+    const nextMembers: number[][] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        nextLevel.push(level[i]);
+        nextMembers.push(members[i]);
+        continue;
+      }
+      for (const index of members[i]) {
+        paths[index].push({ sibling: level[i + 1], left: false });
+      }
+      for (const index of members[i + 1]) {
+        paths[index].push({ sibling: level[i], left: true });
+      }
+      nextLevel.push(hashNode(level[i], level[i + 1]));
+      nextMembers.push([...members[i], ...members[i + 1]]);
+    }
+
+    level = nextLevel;
+    members = nextMembers;
+  }
+
+  return { root: level[0], paths };
+}
+
+/**
+ * Recompute the root an inclusion path leads to
+ *
+ * @returns The root, or null if the leaf or path is malformed
+ */
+export function computeMerkleRoot(leaf: string, path: readonly MerkleStep[]): string | null {
+  if (!SHA256_HEX.test(leaf) || !Array.isArray(path) || path.length > MAX_MERKLE_DEPTH) {
+    return null;
+  }
+
+  let node = hashLeaf(leaf);
+  for (const step of path) {
+    if (!step || typeof step.sibling !== 'string' || !SHA256_HEX.test(step.sibling) || typeof step.left !== 'boolean') {
+      return null;
+    }
+    node = step.left ? hashNode(step.sibling, node) : hashNode(node, step.sibling);
+  }
+  return node;
+}
+
+/**
+ * Resolve a batched attestation to the root attestation Witness signed
+ *
+ * Checks that the attestation's hash is included under its Merkle root and
+ * returns the attestation as Witness issued it (hash = root). Attestations
+ * without a Merkle proof are returned unchanged.
+ *
+ * @returns The root attestation, or null if the inclusion proof is invalid
+ */
+export function resolveMerkleAttestation(attestation: Attestation): Attestation | null {
+  const inclusion: MerkleInclusion | undefined = attestation.merkle;
+  if (!inclusion) {
+    return attestation;
+  }
+  if (typeof inclusion.root !== 'string' || computeMerkleRoot(attestation.hash, inclusion.path) !== inclusion.root) {
+    return null;
+  }
+  // The signed artifact, when present, must be over this root
+  if (attestation.canonical && attestation.canonical.attestation.hash !== inclusion.root) {
+    return null;
+  }
+
+  const { merkle: _merkle, ...root } = attestation;
+  return { ...root, hash: inclusion.root };
+}
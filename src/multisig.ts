@@ -0,0 +1,120 @@
+/**
+ * Multi-signature (m-of-n) locks
+ *
+ * A token locked to a policy can only be spent with approvals from
+ * `threshold` of the policy's keys. An approval is an ownership proof made
+ * with one key's secret over a binding of the lock's nullifier and the
+ * recipient, so approvals can be collected offline, one keyholder at a
+ * time, and cannot be redirected to another recipient.
+ *
+ * Policy keys are ownership keys (see multiSigKey), not wallet public
+ * keys: a wallet public key is a hash of the secret and cannot tell who
+ * made a proof.
+ */
+
+import { Crypto } from './crypto.js';
+import { OwnershipProof } from './ownership.js';
+import { lockNullifier } from './codec/package-codec.js';
+import type { MultiSigPolicy, MultiSigPackage, PublicKey } from './types.js';
+
+/** Most keys a policy may list */
+export const MAX_MULTISIG_KEYS = 16;
+
+/**
+ * The key a secret holder lists in, and approves, multisig policies with
+ */
+export function multiSigKey(secret: Uint8Array): Uint8Array {
+  return OwnershipProof.publicKey(secret);
+}
+
+/**
+ * What is wrong with a policy, or null if it is well-formed
+ */
+export function policyProblem(policy: MultiSigPolicy): string | null {
+  if (!policy || !Array.isArray(policy.keys)) {
+    return 'Multisig policy requires keys';
+  }
+  const n = policy.keys.length;
+  if (n === 0 || n > MAX_MULTISIG_KEYS) {
+    return `Multisig policy must list 1 to ${MAX_MULTISIG_KEYS} keys, got ${n}`;
+  }
+  if (!Number.isInteger(policy.threshold) || policy.threshold < 1 || policy.threshold > n) {
+    return `Multisig threshold must be between 1 and ${n}, got ${policy.threshold}`;
+  }
+  if (policy.keys.some(key => !(key instanceof Uint8Array) || key.length !== 33)) {
+    return 'Multisig keys must be 33-byte ownership keys';
+  }
+  if (new Set(policy.keys.map(key => Crypto.toHex(key))).size !== n) {
+    return 'Multisig policy lists a key twice';
+  }
+  return null;
+}
+
+/**
+ * The policy a lock commits to, as a stand-in for a recipient key
+ */
+export function multiSigPolicyHash(policy: MultiSigPolicy): Uint8Array {
+  return Crypto.hash('SCARCITY_MULTISIG_POLICY', policy.threshold, ...policy.keys);
+}
+
+/**
+ * The nullifier a spend of the lock publishes
+ */
+export function multiSigSpendNullifier(pkg: MultiSigPackage): Uint8Array {
+  return lockNullifier('multisig', Crypto.hashMultiSigPackage(pkg));
+}
+
+/**
+ * What approvals of a spend sign: the lock's nullifier and the recipient
+ */
+export function multiSigBinding(pkg: Pick<MultiSigPackage, 'nullifier'>, recipient: PublicKey): Uint8Array {
+  return Crypto.hash('SCARCITY_MULTISIG_SPEND', pkg.nullifier, recipient.bytes);
+}
+
+/**
+ * Approve spending a lock to a recipient
+ *
+ * @param secret - Secret of one of the policy's keys
+ * @throws Error if the secret's key is not in the policy
+ */
+export async function approveMultiSig(
+  pkg: MultiSigPackage,
+  recipient: PublicKey,
+  secret: Uint8Array
+): Promise<Uint8Array> {
+  const key = Crypto.toHex(multiSigKey(secret));
+  if (!pkg.policy.keys.some(listed => Crypto.toHex(listed) === key)) {
+    throw new Error('This key is not in the multisig policy');
+  }
+  return OwnershipProof.create(secret, multiSigBinding(pkg, recipient));
+}
+
+/**
+ * The policy keys that validly approved spending a lock to a recipient
+ *
+ * Each key counts once, however many approvals it made; approvals by
+ * unlisted keys or over another binding are ignored.
+ *
+ * @returns Hex ownership keys of the approvers
+ */
+export async function approvingKeys(
+  pkg: MultiSigPackage,
+  recipient: PublicKey,
+  approvals: readonly Uint8Array[]
+): Promise<string[]> {
+  const listed = new Set(pkg.policy.keys.map(key => Crypto.toHex(key)));
+  const binding = multiSigBinding(pkg, recipient);
+  const approvers = new Set<string>();
+
+  for (const approval of approvals) {
+    const signer = OwnershipProof.signer(approval);
+    if (!signer) {
+      continue;
+    }
+    const key = Crypto.toHex(signer);
+    if (listed.has(key) && !approvers.has(key) && await OwnershipProof.verify(approval, binding)) {
+      approvers.add(key);
+    }
+  }
+  return [...approvers];
+}
@@ -22,6 +22,7 @@ import {
   PeerId,
   ConnectionState,
   peerIdToString,
+  xorDistance,
   createMessageId,
   DEFAULT_ROUTING_CONFIG
 } from "./types.js";
@@ -170,14 +171,7 @@ export class KademliaRouter extends Router {
    * Calculate XOR distance between two peer IDs as bigint
    */
   distance(a: PeerId, b: PeerId): bigint {
-    let result = 0n;
-    const len = Math.min(a.length, b.length);
-
-    for (let i = 0; i < len; i++) {
-      result = (result << 8n) | BigInt(a[i] ^ b[i]);
-    }
-
-    return result;
+    return xorDistance(a, b);
   }
 
   /**
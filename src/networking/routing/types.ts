@@ -279,6 +279,20 @@ export function peerIdToString(id: PeerId): string {
     .join('');
 }
 
+/**
+ * Utility: XOR distance between two IDs as bigint
+ */
+export function xorDistance(a: PeerId, b: PeerId): bigint {
+  let result = 0n;
+  const len = Math.min(a.length, b.length);
+
+  for (let i = 0; i < len; i++) {
+    result = (result << 8n) | BigInt(a[i] ^ b[i]);
+  }
+
+  return result;
+}
+
 /**
  * Utility: Convert hex string to PeerId
  */
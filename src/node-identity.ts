@@ -0,0 +1,162 @@
+/**
+ * Node identity for gossip authentication
+ *
+ * Each node holds a long-lived Ed25519 key pair and signs every gossip
+ * envelope it sends. Receivers verify the signature and attribute the
+ * message (and any reputation change) to the signing key rather than the
+ * transport-level peer ID, which a relay can choose freely.
+ *
+ * Signatures are hop-by-hop: a relayed nullifier is re-signed by the relay,
+ * so the verified identity is always the direct sender. Envelopes are
+ * stamped when signed and name their recipient once it is known, so a
+ * captured envelope cannot be replayed later or to another node.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { Crypto } from './crypto.js';
+import { quantizeConfidence } from './codec/gossip-envelope.js';
+import type { GossipMessage } from './types.js';
+
+/** Domain separator for gossip envelope signatures */
+const SIGNING_DOMAIN = 'scarcity-gossip-envelope-v1';
+
+interface IdentityFile {
+  version: string;
+  publicKey: string;
+  secretKey: string;
+  created: number;
+}
+
+export class NodeIdentity {
+  readonly publicKey: Uint8Array;
+  private readonly secretKey: Uint8Array;
+
+  private constructor(secretKey: Uint8Array) {
+    if (secretKey.length !== 32) {
+      throw new Error('Node identity secret key must be 32 bytes');
+    }
+    this.secretKey = secretKey;
+    this.publicKey = ed25519.getPublicKey(secretKey);
+  }
+
+  /**
+   * Create a fresh random identity
+   */
+  static generate(): NodeIdentity {
+    return new NodeIdentity(ed25519.utils.randomSecretKey());
+  }
+
+  /**
+   * Restore an identity from its 32-byte Ed25519 secret key
+   */
+  static fromSecretKey(secretKey: Uint8Array): NodeIdentity {
+    return new NodeIdentity(new Uint8Array(secretKey));
+  }
+
+  /**
+   * Load the identity stored at `path`, creating and saving one if absent
+   *
+   * The file holds the secret key and is written with owner-only permissions.
+   *
+   * @throws If the file exists but does not hold a matching key pair
+   */
+  static loadOrCreate(path: string): NodeIdentity {
+    if (existsSync(path)) {
+      const data = JSON.parse(readFileSync(path, 'utf-8')) as IdentityFile;
+      const identity = NodeIdentity.fromSecretKey(Crypto.fromHex(data.secretKey));
+      if (identity.id !== data.publicKey) {
+        throw new Error(`Node identity file ${path} is corrupt: public key does not match secret key`);
+      }
+      return identity;
+    }
+
+    const identity = NodeIdentity.generate();
+    const data: IdentityFile = {
+      version: '1.0',
+      publicKey: identity.id,
+      secretKey: Crypto.toHex(identity.secretKey),
+      created: Date.now()
+    };
+    mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+    writeFileSync(path, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    return identity;
+  }
+
+  /**
+   * Hex-encoded public key; the key peer reputation is tracked under
+   */
+  get id(): string {
+    return Crypto.toHex(this.publicKey);
+  }
+
+  /**
+   * Return a copy of the message with this node's sender key and signature
+   */
+  sign(message: GossipMessage): GossipMessage {
+    const unsigned: GossipMessage = {
+      ...message,
+      // Sign the confidence the CBOR envelope carries, not the float
+      confidence: message.confidence === undefined ? undefined : quantizeConfidence(message.confidence),
+      sender: this.publicKey,
+      signature: undefined
+    };
+    return {
+      ...unsigned,
+      signature: ed25519.sign(signingDigest(unsigned), this.secretKey)
+    };
+  }
+}
+
+/**
+ * Verify a signed gossip envelope
+ *
+ * @returns Hex public key of the signer, or null if the message is unsigned
+ *          or the signature does not verify
+ */
+export function verifyGossipSignature(message: GossipMessage): string | null {
+  const { sender, signature } = message;
+  if (!(sender instanceof Uint8Array) || sender.length !== 32) {
+    return null;
+  }
+  if (!(signature instanceof Uint8Array) || signature.length !== 64) {
+    return null;
+  }
+  try {
+    const unsigned: GossipMessage = { ...message, signature: undefined };
+    return ed25519.verify(signature, signingDigest(unsigned), sender) ? Crypto.toHex(sender) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SHA-256 over a canonical JSON rendering of the message
+ *
+ * Keys are sorted, undefined fields dropped and byte arrays hex-encoded, so
+ * the digest survives the JSON/hex wire encoding used by transports.
+ */
+function signingDigest(message: GossipMessage): Uint8Array {
+  return Crypto.hash(SIGNING_DOMAIN, JSON.stringify(canonicalize(message)));
+}
+
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return Crypto.toHex(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const child = (value as Record<string, unknown>)[key];
+      if (child !== undefined) {
+        result[key] = canonicalize(child);
+      }
+    }
+    return result;
+  }
+  return value;
+}
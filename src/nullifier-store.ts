@@ -0,0 +1,395 @@
+/**
+ * Nullifier storage backends for NullifierGossip
+ *
+ * The gossip layer's double-spend memory lives behind the NullifierStore
+ * interface so a node can keep it across restarts. Two implementations ship:
+ *
+ * - InMemoryNullifierStore: the original Map-backed behavior (default)
+ * - SqliteNullifierStore: crash-safe persistence via better-sqlite3 (WAL,
+ *   synchronous=FULL), so a restarted node still rejects replays
+ *
+ * The interface is synchronous on purpose: NullifierGossip relies on the
+ * check-then-insert sequence not yielding to other coroutines.
+ */
+
+import Database from 'better-sqlite3';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { existsSync, mkdirSync } from 'fs';
+import { Crypto } from './crypto.js';
+import type { Attestation } from './types.js';
+
+export interface NullifierRecord {
+  readonly nullifier: Uint8Array;
+  readonly proof: Attestation;
+  readonly firstSeen: number;
+  readonly peerCount: number;
+  readonly ownershipProof?: Uint8Array;
+  readonly packageFields?: Uint8Array;
+  readonly preimage?: Uint8Array; // Preimage published with a hash-locked HTLC claim
+  readonly hashlock?: string; // Hashlock the preimage opens; getPreimage looks records up by it
+}
+
+export interface NullifierStore {
+  /** Look up a record by hex-encoded nullifier */
+  get(key: string): NullifierRecord | undefined;
+  has(key: string): boolean;
+  /** Insert or replace a record */
+  set(key: string, record: NullifierRecord): void;
+  /** Preimage of a stored claim by the hashlock it opens, without scanning every record */
+  getPreimage(hashlock: string): Uint8Array | undefined;
+  /** Increment the peer count of an existing record, returning the new count (0 if absent) */
+  incrementPeerCount(key: string): number;
+  delete(key: string): void;
+  size(): number;
+  /** Snapshot of all hex keys (cheaper than entries() for reconciliation digests) */
+  keys(): IterableIterator<string>;
+  /** Snapshot of all records, oldest first */
+  entries(): IterableIterator<[string, NullifierRecord]>;
+  /** Snapshot of records first seen at or after cutoff (ms epoch), oldest first */
+  since(cutoff: number): IterableIterator<[string, NullifierRecord]>;
+  /** Remove records first seen before cutoff (ms epoch); returns number removed */
+  pruneOlderThan(cutoff: number): number;
+  /** Remove the `count` oldest records; returns number removed */
+  evictOldest(count: number): number;
+  /** Release underlying resources */
+  close(): void;
+}
+
+/**
+ * Map-backed store. Contents are lost when the process exits.
+ *
+ * Records stay in insertion order, which is oldest first because gossip
+ * stamps firstSeen when it inserts; replacing a record keeps its place.
+ */
+export class InMemoryNullifierStore implements NullifierStore {
+  private readonly records = new Map<string, NullifierRecord>();
+  private readonly byHashlock = new Map<string, string>(); // hashlock -> key of the record holding its preimage
+
+  get(key: string): NullifierRecord | undefined {
+    return this.records.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.records.has(key);
+  }
+
+  set(key: string, record: NullifierRecord): void {
+    this.records.set(key, record);
+    if (record.hashlock && record.preimage) {
+      this.byHashlock.set(record.hashlock, key);
+    }
+  }
+
+  getPreimage(hashlock: string): Uint8Array | undefined {
+    const key = this.byHashlock.get(hashlock);
+    return key === undefined ? undefined : this.records.get(key)?.preimage;
+  }
+
+  incrementPeerCount(key: string): number {
+    const record = this.records.get(key);
+    if (!record) {
+      return 0;
+    }
+    const updated = { ...record, peerCount: record.peerCount + 1 };
+    this.records.set(key, updated);
+    return updated.peerCount;
+  }
+
+  delete(key: string): void {
+    this.remove(key);
+  }
+
+  size(): number {
+    return this.records.size;
+  }
+
+  *keys(): IterableIterator<string> {
+    yield* Array.from(this.records.keys());
+  }
+
+  *entries(): IterableIterator<[string, NullifierRecord]> {
+    yield* Array.from(this.records.entries());
+  }
+
+  *since(cutoff: number): IterableIterator<[string, NullifierRecord]> {
+    for (const entry of Array.from(this.records.entries())) {
+      if (entry[1].firstSeen >= cutoff) {
+        yield entry;
+      }
+    }
+  }
+
+  pruneOlderThan(cutoff: number): number {
+    let removed = 0;
+    for (const [key, record] of this.records) {
+      if (record.firstSeen < cutoff) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  evictOldest(count: number): number {
+    if (count <= 0) {
+      return 0;
+    }
+    let removed = 0;
+    for (const key of this.records.keys()) {
+      if (removed >= count) {
+        break;
+      }
+      this.remove(key);
+      removed++;
+    }
+    return removed;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+
+  private remove(key: string): void {
+    const hashlock = this.records.get(key)?.hashlock;
+    if (hashlock && this.byHashlock.get(hashlock) === key) {
+      this.byHashlock.delete(hashlock);
+    }
+    this.records.delete(key);
+  }
+}
+
+const RECORD_COLUMNS = 'key, proof, firstSeen, peerCount, ownershipProof, packageFields, preimage, hashlock';
+
+/**
+ * Schema migrations, applied in order inside one transaction. A database's
+ * user_version is the number applied so far; append, never edit.
+ */
+const MIGRATIONS: readonly string[] = [
+  `CREATE TABLE gossip_nullifiers (
+     key TEXT PRIMARY KEY NOT NULL,
+     proof TEXT NOT NULL,
+     firstSeen INTEGER NOT NULL,
+     peerCount INTEGER NOT NULL
+   );
+   CREATE INDEX idx_gossip_nullifiers_firstSeen ON gossip_nullifiers(firstSeen);`,
+  'ALTER TABLE gossip_nullifiers ADD COLUMN ownershipProof BLOB',
+  'ALTER TABLE gossip_nullifiers ADD COLUMN packageFields BLOB',
+  'ALTER TABLE gossip_nullifiers ADD COLUMN preimage BLOB',
+  `ALTER TABLE gossip_nullifiers ADD COLUMN hashlock TEXT;
+   CREATE INDEX idx_gossip_nullifiers_hashlock ON gossip_nullifiers(hashlock) WHERE hashlock IS NOT NULL;`
+];
+
+/** Columns added by MIGRATIONS[1..3], the ones databases from before user_version can have */
+const MIGRATED_COLUMNS = ['ownershipProof', 'packageFields', 'preimage'];
+
+interface NullifierRow {
+  key: string;
+  proof: string;
+  firstSeen: number;
+  peerCount: number;
+  ownershipProof: Buffer | null;
+  packageFields: Buffer | null;
+  preimage: Buffer | null;
+  hashlock: string | null;
+}
+
+/**
+ * SQLite-backed store.
+ *
+ * Every write is committed with synchronous=FULL under WAL journaling, so a
+ * nullifier acknowledged by publish()/onReceive() survives a crash or power
+ * loss. Opening a database migrates it to the current schema (MIGRATIONS,
+ * tracked in user_version) and refuses one written by a newer release.
+ */
+export class SqliteNullifierStore implements NullifierStore {
+  private readonly db: Database.Database;
+  private readonly stmts: {
+    get: Database.Statement;
+    preimage: Database.Statement;
+    upsert: Database.Statement;
+    increment: Database.Statement;
+    delete: Database.Statement;
+    count: Database.Statement;
+    keys: Database.Statement;
+    all: Database.Statement;
+    since: Database.Statement;
+    prune: Database.Statement;
+    evict: Database.Statement;
+  };
+
+  constructor(dbPath?: string) {
+    const path = dbPath || join(homedir(), '.scarcity', 'nullifiers.db');
+
+    if (path !== ':memory:') {
+      const dir = dirname(path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = FULL');
+
+    this.migrate();
+
+    this.stmts = {
+      get: this.db.prepare(`SELECT ${RECORD_COLUMNS} FROM gossip_nullifiers WHERE key = ?`),
+      preimage: this.db.prepare(
+        'SELECT preimage FROM gossip_nullifiers WHERE hashlock = ? AND preimage IS NOT NULL LIMIT 1'
+      ).pluck(),
+      upsert: this.db.prepare(`
+        INSERT INTO gossip_nullifiers (${RECORD_COLUMNS})
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET
+          proof = excluded.proof,
+          firstSeen = excluded.firstSeen,
+          peerCount = excluded.peerCount,
+          ownershipProof = excluded.ownershipProof,
+          packageFields = excluded.packageFields,
+          preimage = excluded.preimage,
+          hashlock = excluded.hashlock
+      `),
+      increment: this.db.prepare('UPDATE gossip_nullifiers SET peerCount = peerCount + 1 WHERE key = ? RETURNING peerCount'),
+      delete: this.db.prepare('DELETE FROM gossip_nullifiers WHERE key = ?'),
+      count: this.db.prepare('SELECT COUNT(*) AS count FROM gossip_nullifiers'),
+      keys: this.db.prepare('SELECT key FROM gossip_nullifiers').pluck(),
+      all: this.db.prepare(`SELECT ${RECORD_COLUMNS} FROM gossip_nullifiers ORDER BY firstSeen ASC`),
+      since: this.db.prepare(`SELECT ${RECORD_COLUMNS} FROM gossip_nullifiers WHERE firstSeen >= ? ORDER BY firstSeen ASC`),
+      prune: this.db.prepare('DELETE FROM gossip_nullifiers WHERE firstSeen < ?'),
+      evict: this.db.prepare(`
+        DELETE FROM gossip_nullifiers WHERE key IN (
+          SELECT key FROM gossip_nullifiers ORDER BY firstSeen ASC LIMIT ?
+        )
+      `)
+    };
+  }
+
+  get(key: string): NullifierRecord | undefined {
+    const row = this.stmts.get.get(key) as NullifierRow | undefined;
+    return row ? this.toRecord(row) : undefined;
+  }
+
+  has(key: string): boolean {
+    return this.stmts.get.get(key) !== undefined;
+  }
+
+  set(key: string, record: NullifierRecord): void {
+    this.stmts.upsert.run(
+      key,
+      JSON.stringify(record.proof),
+      record.firstSeen,
+      record.peerCount,
+      record.ownershipProof ? Buffer.from(record.ownershipProof) : null,
+      record.packageFields ? Buffer.from(record.packageFields) : null,
+      record.preimage ? Buffer.from(record.preimage) : null,
+      record.hashlock ?? null
+    );
+  }
+
+  getPreimage(hashlock: string): Uint8Array | undefined {
+    const preimage = this.stmts.preimage.get(hashlock) as Buffer | undefined;
+    return preimage ? new Uint8Array(preimage) : undefined;
+  }
+
+  incrementPeerCount(key: string): number {
+    const row = this.stmts.increment.get(key) as { peerCount: number } | undefined;
+    return row?.peerCount ?? 0;
+  }
+
+  delete(key: string): void {
+    this.stmts.delete.run(key);
+  }
+
+  size(): number {
+    return (this.stmts.count.get() as { count: number }).count;
+  }
+
+  *keys(): IterableIterator<string> {
+    yield* this.stmts.keys.all() as string[];
+  }
+
+  *entries(): IterableIterator<[string, NullifierRecord]> {
+    // Materialize before yielding: better-sqlite3 forbids writes on the
+    // connection while an iterator is open, and callers may delete as they go.
+    const rows = this.stmts.all.all() as NullifierRow[];
+    for (const row of rows) {
+      yield [row.key, this.toRecord(row)];
+    }
+  }
+
+  *since(cutoff: number): IterableIterator<[string, NullifierRecord]> {
+    const rows = this.stmts.since.all(cutoff) as NullifierRow[];
+    for (const row of rows) {
+      yield [row.key, this.toRecord(row)];
+    }
+  }
+
+  pruneOlderThan(cutoff: number): number {
+    return this.stmts.prune.run(cutoff).changes;
+  }
+
+  evictOldest(count: number): number {
+    if (count <= 0) {
+      return 0;
+    }
+    return this.stmts.evict.run(count).changes;
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Bring the schema up to date
+   *
+   * @throws Error if the database was written by a newer schema
+   */
+  private migrate(): void {
+    let version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > MIGRATIONS.length) {
+      throw new Error(
+        `Nullifier store schema version ${version} is newer than this release supports (${MIGRATIONS.length})`
+      );
+    }
+    if (version === 0) {
+      version = this.unversionedSchema();
+    }
+
+    this.db.transaction(() => {
+      for (const migration of MIGRATIONS.slice(version)) {
+        this.db.exec(migration);
+      }
+      this.db.pragma(`user_version = ${MIGRATIONS.length}`);
+    })();
+  }
+
+  /**
+   * Migrations already applied to a database from before user_version was
+   * set: its table, and the leading run of added columns it has
+   */
+  private unversionedSchema(): number {
+    const columns = this.db.prepare('PRAGMA table_info(gossip_nullifiers)').all() as Array<{ name: string }>;
+    if (columns.length === 0) {
+      return 0;
+    }
+    const added = MIGRATED_COLUMNS.findIndex(column => !columns.some(c => c.name === column));
+    return 1 + (added === -1 ? MIGRATED_COLUMNS.length : added);
+  }
+
+  private toRecord(row: NullifierRow): NullifierRecord {
+    return {
+      nullifier: Crypto.fromHex(row.key),
+      proof: JSON.parse(row.proof) as Attestation,
+      firstSeen: row.firstSeen,
+      peerCount: row.peerCount,
+      ownershipProof: row.ownershipProof ? new Uint8Array(row.ownershipProof) : undefined,
+      packageFields: row.packageFields ? new Uint8Array(row.packageFields) : undefined,
+      preimage: row.preimage ? new Uint8Array(row.preimage) : undefined,
+      hashlock: row.hashlock ?? undefined
+    };
+  }
+}
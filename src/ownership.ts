@@ -21,15 +21,7 @@ export class OwnershipProof {
     const N = p256.CURVE.n;
     const G = p256.ProjectivePoint.BASE;
 
-    const xHash = sha256(concatBytes(
-      textEncoder.encode('SCARCITY_OWNERSHIP_SCALAR'),
-      secret
-    ));
-    const x = BigInt('0x' + bytesToHex(xHash)) % N;
-    if (x === 0n) {
-      throw new Error('Derived secret scalar is zero');
-    }
-
+    const { x, xHash } = secretScalar(secret);
     const P = G.multiply(x);
 
     const kHash = sha256(concatBytes(
@@ -58,6 +50,24 @@ export class OwnershipProof {
     return concatBytes(PBytes, RBytes, bigintToBytes32(s));
   }
 
+  /**
+   * The ownership key of a secret: the point P its proofs carry.
+   *
+   * Unlike a wallet public key (a hash of the secret), it identifies who
+   * made a proof, so it is what m-of-n policies list.
+   */
+  static publicKey(secret: Uint8Array): Uint8Array {
+    return p256.ProjectivePoint.BASE.multiply(secretScalar(secret).x).toRawBytes(true);
+  }
+
+  /**
+   * The ownership key a proof was made with, or null if it is malformed.
+   * Only meaningful once the proof verifies.
+   */
+  static signer(proof: Uint8Array): Uint8Array | null {
+    return proof.length === 98 ? proof.slice(0, 33) : null;
+  }
+
   /**
    * Verify a Schnorr ownership proof against the same binding used at creation.
    */
@@ -96,6 +106,18 @@ export class OwnershipProof {
   }
 }
 
+function secretScalar(secret: Uint8Array): { x: bigint; xHash: Uint8Array } {
+  const xHash = sha256(concatBytes(
+    textEncoder.encode('SCARCITY_OWNERSHIP_SCALAR'),
+    secret
+  ));
+  const x = BigInt('0x' + bytesToHex(xHash)) % p256.CURVE.n;
+  if (x === 0n) {
+    throw new Error('Derived secret scalar is zero');
+  }
+  return { x, xHash };
+}
+
 function bigintToBytes32(n: bigint): Uint8Array {
   const hex = n.toString(16).padStart(64, '0');
   const bytes = new Uint8Array(32);
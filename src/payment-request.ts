@@ -0,0 +1,118 @@
+/**
+ * Payment requests (invoices)
+ *
+ * A recipient publishes a request naming their key, the amount, a hash of
+ * the memo and an expiry, optionally signed by a merchant key the payer
+ * already trusts. Paying a request binds its hash into the transfer
+ * package, so the Witness timestamp covers what the payment was for.
+ *
+ * A request-bound transfer commits to the recipient as
+ * H(recipient key || request hash) instead of with a random nonce, so
+ * anyone holding the request can check who a payment went to.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import { Crypto } from './crypto.js';
+import { encodeCanonical } from './codec/canonical-cbor.js';
+import type { PaymentRequest, PublicKey } from './types.js';
+
+/** Domain separator for merchant signatures over request hashes */
+const SIGNING_DOMAIN = 'scarcity-payment-request-v1';
+
+export interface PaymentRequestParams {
+  readonly recipient: PublicKey;
+  readonly amount: number;
+  readonly memo?: string; // Hashed into the request; only the hash travels (default: '')
+  readonly expiresAt?: number; // ms since epoch (default: one hour from now)
+  readonly merchantSecret?: Uint8Array; // Ed25519 secret key; signs the request when set
+}
+
+/**
+ * Create a payment request
+ */
+export function createPaymentRequest(params: PaymentRequestParams): PaymentRequest {
+  if (!Number.isSafeInteger(params.amount) || params.amount <= 0) {
+    throw new Error(`Payment request amount must be a positive integer, got ${params.amount}`);
+  }
+
+  const request: PaymentRequest = {
+    recipient: params.recipient,
+    amount: params.amount,
+    memoHash: hashMemo(params.memo ?? ''),
+    expiresAt: params.expiresAt ?? Date.now() + 60 * 60 * 1000,
+    nonce: Crypto.toHex(Crypto.randomBytes(16)),
+    merchantKey: params.merchantSecret && ed25519.getPublicKey(params.merchantSecret)
+  };
+
+  return params.merchantSecret ? signPaymentRequest(request, params.merchantSecret) : request;
+}
+
+/**
+ * Sign a payment request with a merchant key, replacing any signature
+ */
+export function signPaymentRequest(request: PaymentRequest, merchantSecret: Uint8Array): PaymentRequest {
+  const signed = { ...request, merchantKey: ed25519.getPublicKey(merchantSecret), signature: undefined };
+  return { ...signed, signature: ed25519.sign(signingDigest(signed), merchantSecret) };
+}
+
+/**
+ * Whether a request's merchant signature verifies
+ *
+ * Requests without a merchant key are unsigned and pass; pin
+ * `merchantKey` to require a particular merchant.
+ */
+export function verifyPaymentRequest(request: PaymentRequest, merchantKey?: Uint8Array): boolean {
+  if (merchantKey && !(request.merchantKey && Crypto.constantTimeEqual(request.merchantKey, merchantKey))) {
+    return false;
+  }
+  if (!request.merchantKey) {
+    return true;
+  }
+  if (!(request.signature instanceof Uint8Array) || request.signature.length !== 64) {
+    return false;
+  }
+  try {
+    return ed25519.verify(request.signature, signingDigest(request), request.merchantKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hash identifying a request: every field but the signature
+ */
+export function hashPaymentRequest(request: PaymentRequest): string {
+  const fields: Record<string, unknown> = {
+    recipient: request.recipient.bytes,
+    amount: request.amount,
+    memoHash: request.memoHash,
+    expiresAt: request.expiresAt,
+    nonce: request.nonce
+  };
+  if (request.merchantKey) {
+    fields.merchantKey = request.merchantKey;
+  }
+  return Crypto.toHex(Crypto.hash(encodeCanonical({ v: 1, k: 'payment-request', p: fields })));
+}
+
+/**
+ * Hex SHA-256 of a memo, as carried in requests
+ */
+export function hashMemo(memo: string): string {
+  return Crypto.toHex(Crypto.hash(memo));
+}
+
+/**
+ * The recipient commitment of a transfer paying the request
+ */
+export function requestCommitment(request: PaymentRequest): Uint8Array {
+  return Crypto.hash(request.recipient.bytes, Crypto.fromHex(hashPaymentRequest(request)));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function signingDigest(request: PaymentRequest): Uint8Array {
+  return Crypto.hash(SIGNING_DOMAIN, Crypto.fromHex(hashPaymentRequest(request)));
+}
@@ -0,0 +1,101 @@
+/**
+ * Acceptance policies for TransferValidator
+ *
+ * A policy is a list of amount tiers, each setting how much evidence a
+ * payment of that size needs: confidence, propagation wait, Witness depth,
+ * outbound peers and whether the sender must prove ownership. A coffee
+ * shop can accept small payments instantly while holding large ones to a
+ * full wait and a deep federation.
+ *
+ * Tiers are tried in order and the first whose maxAmount covers the
+ * amount applies, so list them from smallest to largest.
+ */
+
+import type { AcceptancePolicy, AcceptanceTier } from './types.js';
+
+/** A tier with every field filled in from the validator's defaults */
+export interface ResolvedTier {
+  readonly index: number; // -1 when no policy is set
+  readonly minConfidence: number;
+  readonly waitTime: number;
+  readonly minWitnessDepth: number;
+  readonly minOutboundPeers: number;
+  readonly requireOwnershipProof: boolean;
+  readonly doubleSpendThreshold: number;
+}
+
+export type TierDefaults = Omit<ResolvedTier, 'index'>;
+
+/**
+ * Reject policies that could never be evaluated sensibly
+ */
+export function assertValidPolicy(policy: AcceptancePolicy): void {
+  if (!Array.isArray(policy.tiers) || policy.tiers.length === 0) {
+    throw new Error('Acceptance policy requires at least one tier');
+  }
+
+  const fraction = (value: number | undefined) => value === undefined || (value >= 0 && value <= 1);
+  const count = (value: number | undefined) => value === undefined || (Number.isInteger(value) && value >= 0);
+
+  let previous = -Infinity;
+  policy.tiers.forEach((tier, i) => {
+    let problem: string | null = null;
+
+    if (tier.maxAmount === undefined) {
+      if (i !== policy.tiers.length - 1) {
+        problem = 'only the last tier may omit maxAmount';
+      }
+    } else if (!(tier.maxAmount > previous)) {
+      problem = 'maxAmount must increase from tier to tier';
+    } else {
+      previous = tier.maxAmount;
+    }
+
+    if (!fraction(tier.minConfidence)) {
+      problem = 'minConfidence must be between 0 and 1';
+    } else if (!fraction(tier.doubleSpendThreshold)) {
+      problem = 'doubleSpendThreshold must be between 0 and 1';
+    } else if (tier.waitTime !== undefined && !(tier.waitTime >= 0)) {
+      problem = 'waitTime must not be negative';
+    } else if (!count(tier.minWitnessDepth)) {
+      problem = 'minWitnessDepth must be a non-negative integer';
+    } else if (!count(tier.minOutboundPeers)) {
+      problem = 'minOutboundPeers must be a non-negative integer';
+    }
+
+    if (problem) {
+      throw new Error(`Acceptance tier ${i}: ${problem}`);
+    }
+  });
+}
+
+/**
+ * Rules that apply to an amount
+ *
+ * @returns The resolved tier, or null if the policy covers no such amount
+ */
+export function resolveTier(
+  policy: AcceptancePolicy | undefined,
+  amount: number,
+  defaults: TierDefaults
+): ResolvedTier | null {
+  if (!policy) {
+    return { index: -1, ...defaults };
+  }
+
+  const index = policy.tiers.findIndex(tier => tier.maxAmount === undefined || amount <= tier.maxAmount);
+  if (index === -1) {
+    return null;
+  }
+
+  const tier: AcceptanceTier = policy.tiers[index];
+  return {
+    index,
+    minConfidence: tier.minConfidence ?? defaults.minConfidence,
+    waitTime: tier.waitTime ?? defaults.waitTime,
+    minWitnessDepth: tier.minWitnessDepth ?? defaults.minWitnessDepth,
+    minOutboundPeers: tier.minOutboundPeers ?? defaults.minOutboundPeers,
+    requireOwnershipProof: tier.requireOwnershipProof ?? defaults.requireOwnershipProof,
+    doubleSpendThreshold: tier.doubleSpendThreshold ?? defaults.doubleSpendThreshold
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Propagation tracing for NullifierGossip
+ *
+ * Records, for each nullifier a node learns about, when it was first seen,
+ * how long after its Witness timestamp that was, how many gossip hops it
+ * travelled and which peer relayed it. Percentiles over a window of recent
+ * nullifiers tell how long a spend takes to reach this node, which is what
+ * TransferValidator's waitTime should be tuned from.
+ *
+ * Latency is measured from the attestation's Witness timestamp, so it
+ * includes any clock skew between this node and the Witness federation.
+ */
+
+import type { GossipMessage } from './types.js';
+
+/** Highest hop count carried on the wire; larger values are clamped */
+export const MAX_TRACE_HOPS = 255;
+
+/** How this node learned of a nullifier */
+export type PropagationSource = 'gossip' | 'sync';
+
+export interface PropagationTrace {
+  readonly nullifier: string; // Hex
+  readonly attestedAt: number; // Witness timestamp of the spend
+  readonly firstSeen: number;
+  readonly latency: number; // firstSeen - attestedAt in ms, floored at 0
+  readonly hops: number; // Gossip hops from the publisher (1 = received from it directly)
+  readonly relayPeer: string | null; // Peer we received it from, if known
+  readonly source: PropagationSource;
+}
+
+export interface Percentiles {
+  readonly p50: number;
+  readonly p90: number;
+  readonly p99: number;
+  readonly max: number;
+}
+
+export interface PropagationStats {
+  readonly traced: number; // Nullifiers in the window received by live gossip
+  readonly synced: number; // Nullifiers in the window caught up by reconciliation
+  readonly latency: Percentiles | null; // Over gossip-received nullifiers; null if none
+  readonly hops: Percentiles | null;
+}
+
+export interface PropagationTrackerConfig {
+  readonly window?: number; // Recent nullifiers kept for statistics (default: 1000)
+}
+
+export class PropagationTracker {
+  private readonly window: number;
+  // Insertion-ordered, so the oldest trace is evicted first
+  private readonly traces = new Map<string, PropagationTrace>();
+
+  constructor(config: PropagationTrackerConfig = {}) {
+    this.window = config.window ?? 1000;
+
+    if (!Number.isInteger(this.window) || this.window < 1) {
+      throw new Error('Propagation window must be a positive integer');
+    }
+  }
+
+  /**
+   * Record the first sighting of a nullifier
+   *
+   * @returns The trace, or null if the nullifier was already traced
+   */
+  record(
+    nullifier: string,
+    message: GossipMessage,
+    relayPeer: string | undefined,
+    source: PropagationSource,
+    now = Date.now()
+  ): PropagationTrace | null {
+    if (this.traces.has(nullifier)) {
+      return null;
+    }
+
+    const attestedAt = message.proof?.timestamp ?? now;
+    const trace: PropagationTrace = {
+      nullifier,
+      attestedAt,
+      firstSeen: now,
+      latency: Math.max(now - attestedAt, 0),
+      hops: nextHopCount(message),
+      relayPeer: relayPeer ?? null,
+      source
+    };
+
+    this.traces.set(nullifier, trace);
+    if (this.traces.size > this.window) {
+      this.traces.delete(this.traces.keys().next().value!);
+    }
+    return trace;
+  }
+
+  /**
+   * Trace of a recently seen nullifier
+   */
+  get(nullifier: string): PropagationTrace | null {
+    return this.traces.get(nullifier) ?? null;
+  }
+
+  getStats(): PropagationStats {
+    const gossiped = Array.from(this.traces.values()).filter(trace => trace.source === 'gossip');
+    return {
+      traced: gossiped.length,
+      synced: this.traces.size - gossiped.length,
+      latency: percentiles(gossiped.map(trace => trace.latency)),
+      hops: percentiles(gossiped.map(trace => trace.hops))
+    };
+  }
+}
+
+/**
+ * Hops a message has travelled on arrival: one more than the sender
+ * reports. Senders that do not report hops count as the publisher.
+ */
+export function nextHopCount(message: GossipMessage): number {
+  const hops = message.hops;
+  const previous = Number.isInteger(hops) && hops! >= 0 ? hops! : 0;
+  return Math.min(previous + 1, MAX_TRACE_HOPS);
+}
+
+/**
+ * Nearest-rank percentiles
+ */
+function percentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.max(Math.ceil(p * sorted.length) - 1, 0)];
+  return {
+    p50: rank(0.5),
+    p90: rank(0.9),
+    p99: rank(0.99),
+    max: sorted[sorted.length - 1]
+  };
+}
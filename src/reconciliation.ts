@@ -0,0 +1,156 @@
+/**
+ * Nullifier set reconciliation
+ *
+ * Bucketed hash-range digests let two peers find where their nullifier sets
+ * differ without exchanging the sets themselves:
+ *
+ * 1. A sends a digest: per-bucket (count, XOR of SHA-256(nullifier))
+ * 2. B compares against its own digest and requests the differing buckets,
+ *    listing the nullifiers it already holds there
+ * 3. A answers with only the entries B is missing (and counter-requests the
+ *    ones A is missing)
+ *
+ * Cost is O(buckets) for in-sync peers and O(keys in differing buckets)
+ * otherwise, instead of replaying full history.
+ */
+
+import { Crypto } from './crypto.js';
+import type { BucketDigest, NullifierSetDigest } from './types.js';
+
+/** Default number of hash-range buckets (one per leading byte) */
+export const DEFAULT_SYNC_BUCKETS = 256;
+
+/** Upper bound on bucket count: buckets are addressed by the first 16 bits */
+export const MAX_SYNC_BUCKETS = 65_536;
+
+/** Max nullifier keys listed in a single sync-request */
+export const MAX_SYNC_KEYS = 10_000;
+
+/**
+ * Max entries any node sends in a single sync or nullifier response.
+ * Nodes may take fewer (maxSyncEntries); only replies over this are malformed.
+ */
+export const MAX_SYNC_ENTRIES = 1024;
+
+const HEX_NULLIFIER = /^[0-9a-f]{64}$/;
+
+/**
+ * Check that a string is a lowercase hex-encoded 32-byte nullifier
+ */
+export function isNullifierKey(key: unknown): key is string {
+  return typeof key === 'string' && HEX_NULLIFIER.test(key);
+}
+
+/**
+ * Check that a bucket count is a power of two in [1, MAX_SYNC_BUCKETS]
+ */
+export function isBucketCount(bucketCount: unknown): bucketCount is number {
+  return (
+    typeof bucketCount === 'number' &&
+    Number.isInteger(bucketCount) &&
+    bucketCount >= 1 &&
+    bucketCount <= MAX_SYNC_BUCKETS &&
+    (bucketCount & (bucketCount - 1)) === 0
+  );
+}
+
+/**
+ * Validate a bucket count: a power of two in [1, MAX_SYNC_BUCKETS]
+ */
+export function assertBucketCount(bucketCount: number): void {
+  if (!isBucketCount(bucketCount)) {
+    throw new Error(`Sync bucket count must be a power of two between 1 and ${MAX_SYNC_BUCKETS}`);
+  }
+}
+
+/**
+ * Map a hex nullifier to its bucket using its leading 16 bits
+ */
+export function bucketOf(key: string, bucketCount: number): number {
+  const prefix = parseInt(key.slice(0, 4), 16);
+  return Math.floor(prefix * bucketCount / MAX_SYNC_BUCKETS);
+}
+
+/**
+ * Compute the bucketed digest of a nullifier set
+ */
+export function computeDigest(keys: Iterable<string>, bucketCount: number): NullifierSetDigest {
+  assertBucketCount(bucketCount);
+
+  const accumulators = new Map<number, { count: number; fingerprint: Uint8Array }>();
+
+  for (const key of keys) {
+    const bucket = bucketOf(key, bucketCount);
+    let acc = accumulators.get(bucket);
+    if (!acc) {
+      acc = { count: 0, fingerprint: new Uint8Array(32) };
+      accumulators.set(bucket, acc);
+    }
+    const hash = Crypto.hash(Crypto.fromHex(key));
+    for (let i = 0; i < hash.length; i++) {
+      acc.fingerprint[i] ^= hash[i];
+    }
+    acc.count++;
+  }
+
+  const buckets: BucketDigest[] = Array.from(accumulators.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([bucket, acc]) => ({
+      bucket,
+      count: acc.count,
+      fingerprint: Crypto.toHex(acc.fingerprint)
+    }));
+
+  return { bucketCount, buckets };
+}
+
+/**
+ * List the buckets whose contents differ between two digests
+ *
+ * Digests must use the same bucket count.
+ */
+export function diffDigests(local: NullifierSetDigest, remote: NullifierSetDigest): number[] {
+  if (local.bucketCount !== remote.bucketCount) {
+    throw new Error(`Bucket count mismatch (${local.bucketCount} vs ${remote.bucketCount})`);
+  }
+
+  const localBuckets = new Map(local.buckets.map(b => [b.bucket, b]));
+  const remoteBuckets = new Map(remote.buckets.map(b => [b.bucket, b]));
+  const differing = new Set<number>();
+
+  for (const [bucket, digest] of localBuckets) {
+    const other = remoteBuckets.get(bucket);
+    if (!other || other.count !== digest.count || other.fingerprint !== digest.fingerprint) {
+      differing.add(bucket);
+    }
+  }
+  for (const bucket of remoteBuckets.keys()) {
+    if (!localBuckets.has(bucket)) {
+      differing.add(bucket);
+    }
+  }
+
+  return Array.from(differing).sort((a, b) => a - b);
+}
+
+/**
+ * Structural validation of a digest received from a peer
+ */
+export function isValidDigest(digest: unknown, bucketCount: number): digest is NullifierSetDigest {
+  if (!digest || typeof digest !== 'object') {
+    return false;
+  }
+  const candidate = digest as NullifierSetDigest;
+  if (candidate.bucketCount !== bucketCount || !Array.isArray(candidate.buckets)) {
+    return false;
+  }
+  if (candidate.buckets.length > bucketCount) {
+    return false;
+  }
+  return candidate.buckets.every(b =>
+    b &&
+    Number.isInteger(b.bucket) && b.bucket >= 0 && b.bucket < bucketCount &&
+    Number.isInteger(b.count) && b.count > 0 &&
+    typeof b.fingerprint === 'string' && /^[0-9a-f]{64}$/.test(b.fingerprint)
+  );
+}
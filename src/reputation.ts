@@ -0,0 +1,366 @@
+/**
+ * Peer reputation ledger for NullifierGossip
+ *
+ * Tracks a score per peer key (verified identity, or transport peer ID for
+ * unsigned peers) that decays toward zero by one point per decayInterval, so
+ * old mistakes are forgiven while a burst of misbehavior still crosses the
+ * ban threshold.
+ *
+ * Bans escalate: each temporary ban lasts twice as long as the previous one,
+ * and a peer banned `permanentBanAfter` times is banned for good. When enough
+ * distinct peers from one subnet are banned, the whole subnet is banned too.
+ *
+ * With a `path` the ledger is persisted as JSON, so a restarted node still
+ * remembers who misbehaved. Ban changes are written immediately; score
+ * changes are written on flush() (NullifierGossip flushes on destroy).
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { dirname } from 'path';
+
+export interface ReputationConfig {
+  readonly path?: string; // JSON file to persist the ledger in (default: in-memory only)
+  readonly decayInterval?: number; // Time for a score to move one point toward zero in ms (default: 60s)
+  readonly maxScore?: number; // Upper bound on earned reputation (default: 100)
+  readonly banDuration?: number; // Length of the first temporary ban in ms, doubling per repeat (default: 1 hour)
+  readonly permanentBanAfter?: number; // Temporary bans before a permanent one (default: 3)
+  readonly subnetBanThreshold?: number; // Banned peers in one subnet before the subnet is banned (default: 3)
+}
+
+export interface ReputationEntry {
+  readonly score: number; // Decayed to the time of the query
+  readonly updatedAt: number;
+  readonly banCount: number;
+  readonly bannedUntil: number | null; // Expiry of a temporary ban (ms epoch)
+  readonly permanent: boolean;
+  readonly subnet?: string;
+  readonly reason?: string;
+}
+
+export interface SubnetBan {
+  readonly bannedUntil: number | null;
+  readonly permanent: boolean;
+  readonly reason?: string;
+}
+
+export interface BanOptions {
+  readonly duration?: number; // Temporary ban length in ms (default: escalating banDuration)
+  readonly permanent?: boolean;
+  readonly reason?: string;
+  readonly subnet?: string; // Subnet the peer connected from, for subnet-level bans
+}
+
+interface LedgerFile {
+  version: string;
+  peers: { [key: string]: ReputationEntry };
+  subnets: { [subnet: string]: SubnetBan };
+}
+
+export class ReputationLedger {
+  private readonly path?: string;
+  private readonly decayInterval: number;
+  private readonly maxScore: number;
+  private readonly banDuration: number;
+  private readonly permanentBanAfter: number;
+  private readonly subnetBanThreshold: number;
+  private readonly peers = new Map<string, ReputationEntry>();
+  private readonly subnets = new Map<string, SubnetBan>();
+  private dirty = false;
+
+  constructor(config: ReputationConfig = {}) {
+    this.path = config.path;
+    this.decayInterval = config.decayInterval ?? 60_000;
+    this.maxScore = config.maxScore ?? 100;
+    this.banDuration = config.banDuration ?? 3600_000; // 1 hour
+    this.permanentBanAfter = config.permanentBanAfter ?? 3;
+    this.subnetBanThreshold = config.subnetBanThreshold ?? 3;
+
+    if (!(this.decayInterval > 0)) {
+      throw new Error('Reputation decay interval must be positive');
+    }
+    if (this.path && existsSync(this.path)) {
+      this.load(this.path);
+    }
+  }
+
+  /**
+   * Current (decayed) score for a peer; 0 if unknown
+   */
+  getScore(key: string, now = Date.now()): number {
+    const entry = this.peers.get(key);
+    return entry ? this.decay(entry, now) : 0;
+  }
+
+  /**
+   * Add `delta` to a peer's decayed score
+   *
+   * @returns The new score
+   */
+  adjust(key: string, delta: number, now = Date.now()): number {
+    const entry = this.entryOrDefault(key);
+    const score = Math.min(this.decay(entry, now) + delta, this.maxScore);
+    this.peers.set(key, { ...entry, score, updatedAt: this.decayedAt(entry, now) });
+    this.dirty = true;
+    return score;
+  }
+
+  /**
+   * Ban a peer
+   *
+   * Without an explicit duration the ban escalates with each repeat and
+   * becomes permanent after permanentBanAfter bans. Banning enough peers
+   * from one subnet bans the subnet.
+   */
+  ban(key: string, options: BanOptions = {}, now = Date.now()): ReputationEntry {
+    const entry = this.entryOrDefault(key);
+    const banCount = entry.banCount + 1;
+    const permanent = entry.permanent || options.permanent === true ||
+      (options.duration === undefined && banCount >= this.permanentBanAfter);
+    const duration = options.duration ?? this.banDuration * 2 ** (banCount - 1);
+
+    const banned: ReputationEntry = {
+      ...entry,
+      score: this.decay(entry, now),
+      updatedAt: this.decayedAt(entry, now),
+      banCount,
+      bannedUntil: permanent ? null : now + duration,
+      permanent,
+      subnet: options.subnet ?? entry.subnet,
+      reason: options.reason
+    };
+    this.peers.set(key, banned);
+    console.warn(
+      `[Reputation] Banned ${key.slice(0, 16)} ${permanent ? 'permanently' : `for ${Math.round(duration / 1000)}s`}` +
+      (options.reason ? ` (${options.reason})` : '')
+    );
+
+    if (banned.subnet && !this.isSubnetBanned(banned.subnet, now)) {
+      const bannedInSubnet = Array.from(this.peers.values())
+        .filter(peer => peer.subnet === banned.subnet && this.isActiveBan(peer, now)).length;
+      if (bannedInSubnet >= this.subnetBanThreshold) {
+        this.banSubnet(banned.subnet, { reason: `${bannedInSubnet} banned peers` }, now);
+      }
+    }
+
+    this.persist();
+    return banned;
+  }
+
+  /**
+   * Lift a peer's ban and forgive any negative score, keeping its ban history
+   */
+  unban(key: string, now = Date.now()): void {
+    const entry = this.peers.get(key);
+    if (!entry) {
+      return;
+    }
+    this.peers.set(key, {
+      ...entry,
+      score: Math.max(this.decay(entry, now), 0),
+      updatedAt: this.decayedAt(entry, now),
+      bannedUntil: null,
+      permanent: false,
+      reason: undefined
+    });
+    this.persist();
+  }
+
+  /**
+   * Ban every peer connecting from a subnet
+   */
+  banSubnet(subnet: string, options: Omit<BanOptions, 'subnet'> = {}, now = Date.now()): void {
+    const permanent = options.permanent === true;
+    this.subnets.set(subnet, {
+      bannedUntil: permanent ? null : now + (options.duration ?? this.banDuration),
+      permanent,
+      reason: options.reason
+    });
+    console.warn(`[Reputation] Banned subnet ${subnet}` + (options.reason ? ` (${options.reason})` : ''));
+    this.persist();
+  }
+
+  unbanSubnet(subnet: string): void {
+    if (this.subnets.delete(subnet)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Whether a peer, or the subnet it connects from, is currently banned
+   */
+  isBanned(key: string, subnet?: string, now = Date.now()): boolean {
+    const entry = this.peers.get(key);
+    if (entry && this.isActiveBan(entry, now)) {
+      return true;
+    }
+    return subnet !== undefined && this.isSubnetBanned(subnet, now);
+  }
+
+  isSubnetBanned(subnet: string, now = Date.now()): boolean {
+    const ban = this.subnets.get(subnet);
+    return ban !== undefined && (ban.permanent || (ban.bannedUntil !== null && ban.bannedUntil > now));
+  }
+
+  // ==========================================================================
+  // ADMIN: INSPECT AND OVERRIDE
+  // ==========================================================================
+
+  /**
+   * Ledger entry for a peer with its score decayed to now
+   */
+  get(key: string, now = Date.now()): ReputationEntry | null {
+    const entry = this.peers.get(key);
+    return entry ? { ...entry, score: this.decay(entry, now) } : null;
+  }
+
+  /**
+   * All peer entries with scores decayed to now
+   */
+  list(now = Date.now()): Map<string, ReputationEntry> {
+    const result = new Map<string, ReputationEntry>();
+    for (const [key, entry] of this.peers) {
+      result.set(key, { ...entry, score: this.decay(entry, now) });
+    }
+    return result;
+  }
+
+  /**
+   * All subnet bans, including expired ones not yet cleared
+   */
+  listSubnetBans(): Map<string, SubnetBan> {
+    return new Map(this.subnets);
+  }
+
+  /**
+   * Overwrite a peer's score
+   */
+  setScore(key: string, score: number, now = Date.now()): void {
+    this.peers.set(key, { ...this.entryOrDefault(key), score, updatedAt: now });
+    this.persist();
+  }
+
+  /**
+   * Forget a peer entirely, including its ban history
+   */
+  remove(key: string): void {
+    if (this.peers.delete(key)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Write pending score changes to disk
+   */
+  flush(): void {
+    if (this.dirty) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Score after moving one point toward zero per elapsed decayInterval
+   */
+  private decay(entry: ReputationEntry, now: number): number {
+    const steps = Math.floor(Math.max(now - entry.updatedAt, 0) / this.decayInterval);
+    return entry.score < 0
+      ? Math.min(entry.score + steps, 0)
+      : Math.max(entry.score - steps, 0);
+  }
+
+  /**
+   * Timestamp to record alongside a freshly decayed score, keeping the
+   * progress toward the next decay step
+   */
+  private decayedAt(entry: ReputationEntry, now: number): number {
+    const elapsed = Math.max(now - entry.updatedAt, 0);
+    return now - (elapsed % this.decayInterval);
+  }
+
+  /**
+   * Drop peers whose score has decayed to zero and that were never banned;
+   * they are indistinguishable from peers never seen
+   */
+  private prune(now: number): void {
+    for (const [key, entry] of this.peers) {
+      if (entry.banCount === 0 && !this.isActiveBan(entry, now) && this.decay(entry, now) === 0) {
+        this.peers.delete(key);
+      }
+    }
+  }
+
+  private isActiveBan(entry: ReputationEntry, now: number): boolean {
+    return entry.permanent || (entry.bannedUntil !== null && entry.bannedUntil > now);
+  }
+
+  private entryOrDefault(key: string): ReputationEntry {
+    return this.peers.get(key) ?? {
+      score: 0,
+      updatedAt: Date.now(),
+      banCount: 0,
+      bannedUntil: null,
+      permanent: false
+    };
+  }
+
+  private load(path: string): void {
+    try {
+      const data = JSON.parse(readFileSync(path, 'utf-8')) as LedgerFile;
+      for (const [key, entry] of Object.entries(data.peers ?? {})) {
+        this.peers.set(key, entry);
+      }
+      for (const [subnet, ban] of Object.entries(data.subnets ?? {})) {
+        this.subnets.set(subnet, ban);
+      }
+    } catch (error) {
+      console.warn(`[Reputation] Failed to load ledger from ${path}, starting empty:`, error);
+    }
+  }
+
+  /**
+   * Write the ledger atomically (temp file + rename), pruning forgotten peers first
+   */
+  private persist(): void {
+    this.dirty = false;
+    this.prune(Date.now());
+    if (!this.path) {
+      return;
+    }
+    const data: LedgerFile = {
+      version: '1.0',
+      peers: Object.fromEntries(this.peers),
+      subnets: Object.fromEntries(this.subnets)
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.tmp`;
+    writeFileSync(temporary, JSON.stringify(data, null, 2), 'utf-8');
+    renameSync(temporary, this.path);
+  }
+}
+
+/**
+ * Extract /24 subnet from IP address
+ *
+ * Used for detecting Sybil attacks from the same network.
+ * IPv4: Returns first 3 octets (e.g., "192.168.1" from "192.168.1.100")
+ * IPv6: Returns first 48 bits (simplified implementation)
+ */
+export function getSubnet(ip: string): string {
+  // IPv4
+  if (ip.includes('.')) {
+    const octets = ip.split('.');
+    if (octets.length >= 3) {
+      return octets.slice(0, 3).join('.');
+    }
+  }
+
+  // IPv6 (simplified - use first 4 groups for /48)
+  if (ip.includes(':')) {
+    const groups = ip.split(':');
+    if (groups.length >= 3) {
+      return groups.slice(0, 3).join(':');
+    }
+  }
+
+  // Unknown format, return as-is
+  return ip;
+}
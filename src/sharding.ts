@@ -0,0 +1,80 @@
+/**
+ * Nullifier sharding
+ *
+ * In sharded mode each node places itself in the Kademlia keyspace with a
+ * 256-bit node ID. A nullifier (itself a 256-bit hash) is the responsibility
+ * of the `replication` full nodes closest to it by XOR distance, plus any node
+ * that explicitly subscribes to a matching hex prefix. Light nodes hold no
+ * shard and query responsible nodes instead.
+ */
+
+import { xorDistance } from './networking/routing/types.js';
+import type { ShardAnnouncement } from './types.js';
+
+/** Default number of nodes responsible for each nullifier */
+export const DEFAULT_REPLICATION = 3;
+
+/**
+ * Confidence reported when no responsible node answers a shard query: as
+ * suspicious as a split Witness vote, never the "unseen" of 0
+ */
+export const UNKNOWN_SHARD_CONFIDENCE = 0.5;
+
+/** Max prefix subscriptions a node may announce */
+export const MAX_SHARD_PREFIXES = 16;
+
+const HEX_PREFIX = /^[0-9a-f]{1,64}$/;
+
+/**
+ * Sort candidates by XOR distance to the target and keep the k closest
+ */
+export function closestNodes<T extends { readonly nodeId: Uint8Array }>(
+  target: Uint8Array,
+  candidates: readonly T[],
+  k: number
+): T[] {
+  return candidates
+    .map(candidate => ({ candidate, distance: xorDistance(candidate.nodeId, target) }))
+    .sort((a, b) => (a.distance < b.distance ? -1 : a.distance > b.distance ? 1 : 0))
+    .slice(0, k)
+    .map(entry => entry.candidate);
+}
+
+/**
+ * Check whether a hex nullifier falls under any subscribed prefix
+ */
+export function matchesPrefix(key: string, prefixes: readonly string[]): boolean {
+  return prefixes.some(prefix => key.startsWith(prefix));
+}
+
+/**
+ * Validate a list of hex prefix subscriptions
+ */
+export function assertPrefixes(prefixes: readonly string[]): void {
+  if (prefixes.length > MAX_SHARD_PREFIXES) {
+    throw new Error(`At most ${MAX_SHARD_PREFIXES} shard prefixes may be subscribed`);
+  }
+  for (const prefix of prefixes) {
+    if (!HEX_PREFIX.test(prefix)) {
+      throw new Error(`Invalid shard prefix "${prefix}": expected lowercase hex`);
+    }
+  }
+}
+
+/**
+ * Structural validation of a shard announcement received from a peer
+ */
+export function isValidShardAnnouncement(value: unknown): value is ShardAnnouncement {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as ShardAnnouncement;
+  return (
+    candidate.nodeId instanceof Uint8Array &&
+    candidate.nodeId.length === 32 &&
+    typeof candidate.light === 'boolean' &&
+    Array.isArray(candidate.prefixes) &&
+    candidate.prefixes.length <= MAX_SHARD_PREFIXES &&
+    candidate.prefixes.every(prefix => typeof prefix === 'string' && HEX_PREFIX.test(prefix))
+  );
+}
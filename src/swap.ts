@@ -0,0 +1,771 @@
+/**
+ * Cross-federation atomic swaps
+ *
+ * Two parties trade tokens that live in different federations using a
+ * pair of hash-time HTLCs (see htlc.ts) locked under the same hashlock:
+ *
+ *   1. The initiator picks a secret preimage and locks its token in its
+ *      federation to the responder, refundable after T_A. Locking
+ *      publishes the token's nullifier, so it cannot be spent elsewhere.
+ *   2. The responder checks that lock and locks its token in the other
+ *      federation to the initiator, refundable after T_B < T_A.
+ *   3. The initiator claims the responder's lock with the preimage before
+ *      T_B. The claim publishes the preimage with the lock's settlement
+ *      nullifier.
+ *   4. The responder reads the preimage from its federation's gossip and
+ *      claims the initiator's lock with it before T_A.
+ *
+ * If either party stops, each takes its own lock back once its timelock
+ * passes. The gap between T_B and T_A is the time the responder has to
+ * claim after the preimage is revealed, so responders refuse offers that
+ * leave less than the safety margin.
+ *
+ * The initiator also gets a SwapReveal to hand over, so a responder whose
+ * gossip has not seen the claim yet can claim without waiting for it. The
+ * swap does not depend on it: an initiator who withholds the reveal has
+ * still published the preimage by claiming.
+ *
+ * A SwapCoordinator runs one party's side. Every step is written to a
+ * SwapStore before and after it touches a federation, so a restarted
+ * wallet knows what it has locked, what it can claim and when it can
+ * refund. The preimage is stored before the initiator locks anything.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { Crypto } from './crypto.js';
+import { ScarbuckToken } from './token.js';
+import { TransferValidator } from './validator.js';
+import { createHashlock, preimageMatches } from './htlc.js';
+import { encodeBearerString, decodeBearerString } from './codec/bearer-string.js';
+import type {
+  PublicKey,
+  HTLCPackage,
+  AdmissionClient,
+  WitnessClient,
+  GossipNetwork
+} from './types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A federation one side of the swap lives in
+ */
+export interface SwapFederation {
+  readonly id: string;
+  readonly auth: AdmissionClient;
+  readonly witness: WitnessClient;
+  readonly gossip: GossipNetwork;
+  readonly validator?: TransferValidator; // Checks counterparty locks (default: one built from the services above)
+}
+
+export type SwapRole = 'initiator' | 'responder';
+
+/**
+ * Where a party stands
+ *
+ * - proposed: terms recorded, nothing of ours locked
+ * - locked: our HTLC is out; the counterparty's is not yet checked
+ * - ready: both HTLCs are locked and checked
+ * - claimed: we claimed the counterparty's HTLC (done)
+ * - refunded: we took our HTLC back after its timelock (done)
+ * - aborted: dropped before we locked anything (done)
+ */
+export type SwapState = 'proposed' | 'locked' | 'ready' | 'claimed' | 'refunded' | 'aborted';
+
+/**
+ * What a party should do next
+ */
+export type SwapAction =
+  | 'lock' // Lock our token
+  | 'await-lock' // Wait for the counterparty's lock
+  | 'await-preimage' // Wait for the initiator's claim or reveal
+  | 'claim' // Claim the counterparty's lock
+  | 'await-refund' // Nothing to claim; wait for our timelock
+  | 'refund' // Take our lock back
+  | 'none'; // Finished
+
+export interface SwapLeg {
+  readonly federation: string;
+  readonly amount: number;
+}
+
+export interface SwapRecord {
+  readonly id: string; // The hashlock both HTLCs share
+  readonly role: SwapRole;
+  readonly state: SwapState;
+  readonly preimage?: Uint8Array; // Always known to the initiator; to the responder once it claims
+  readonly give: SwapLeg; // What we lock
+  readonly want: SwapLeg; // What we claim
+  readonly ownTimelock: number; // When our lock becomes refundable (ms)
+  readonly counterTimelock: number; // When the counterparty's lock becomes refundable (ms)
+  readonly ownKey: PublicKey; // Receives our claim and our refund
+  readonly counterpartyKey: PublicKey; // Receives our lock
+  readonly ownLock?: HTLCPackage;
+  readonly counterLock?: HTLCPackage;
+  readonly claimedTokenId?: string;
+  readonly refundedTokenId?: string;
+  readonly createdAt: number;
+  readonly updatedAt: number;
+  readonly history: readonly { readonly state: SwapState; readonly at: number }[];
+}
+
+/** Sent by the initiator once its token is locked */
+export interface SwapOffer {
+  readonly type: 'offer';
+  readonly swapId: string;
+  readonly initiatorKey: PublicKey; // The responder locks to this key
+  readonly give: SwapLeg; // What the initiator locked
+  readonly want: SwapLeg; // What the responder must lock
+  readonly responderTimelock: number; // T_B: the responder's lock must be refundable from exactly then
+  readonly lock: HTLCPackage;
+}
+
+/** Sent by the responder once its token is locked */
+export interface SwapAcceptance {
+  readonly type: 'acceptance';
+  readonly swapId: string;
+  readonly lock: HTLCPackage;
+}
+
+/** Sent by the initiator when it claims, so the responder can claim before its gossip sees the claim */
+export interface SwapReveal {
+  readonly type: 'reveal';
+  readonly swapId: string;
+  readonly preimage: Uint8Array;
+}
+
+export type SwapMessage = SwapOffer | SwapAcceptance | SwapReveal;
+
+/**
+ * Where swap records live
+ *
+ * Synchronous like NullifierStore, so a record is on disk before the
+ * coordinator goes on to the next network call.
+ */
+export interface SwapStore {
+  get(id: string): SwapRecord | undefined;
+  /** Insert or replace a record */
+  put(record: SwapRecord): void;
+  /** All records, oldest first */
+  list(): SwapRecord[];
+}
+
+export interface SwapCoordinatorConfig {
+  readonly federations: readonly SwapFederation[]; // Every federation this party locks or claims in
+  readonly store?: SwapStore; // Swap records (default: InMemorySwapStore)
+  readonly lockWindowMs?: number; // Time the responder's lock stays claimable, and the gap after it (default: 12 hours)
+  readonly safetyMarginMs?: number; // Least time a responder accepts to lock before T_B and claim after it (default: 1 hour)
+  readonly maxLockWindowMs?: number; // Longest a responder accepts to wait for T_B (default: twice lockWindowMs)
+}
+
+export interface InitiateSwapParams {
+  readonly token: ScarbuckToken; // Token to lock, bound to the federation in give
+  readonly give: SwapLeg;
+  readonly want: SwapLeg;
+  readonly counterpartyKey: PublicKey; // The responder's key
+  readonly ownKey: PublicKey; // Receives the responder's token, and our refund
+}
+
+export interface AcceptSwapParams {
+  readonly token: ScarbuckToken; // Token to lock, bound to the federation the offer wants
+  readonly ownKey: PublicKey; // Receives the initiator's token, and our refund
+}
+
+export type SwapErrorCategory =
+  | 'unknown-swap' // No record with that id
+  | 'invalid-state' // The step does not apply in the swap's current state
+  | 'terms-mismatch' // A lock or message does not match the agreed terms
+  | 'lock-invalid' // A counterparty lock failed validation
+  | 'timelock' // Too early or too late for the step
+  | 'unknown-federation' // No SwapFederation with that id
+  | 'malformed-message'; // A swap message could not be decoded
+
+export class SwapError extends Error {
+  constructor(public readonly category: SwapErrorCategory, message: string) {
+    super(message);
+    this.name = 'SwapError';
+  }
+}
+
+/** States each state may move to */
+const TRANSITIONS: Record<SwapState, readonly SwapState[]> = {
+  proposed: ['locked', 'ready', 'aborted'],
+  locked: ['ready', 'refunded'],
+  ready: ['claimed', 'refunded'],
+  claimed: [],
+  refunded: [],
+  aborted: []
+};
+
+const HOUR_MS = 3600 * 1000;
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * Map-backed store. Records are lost when the process exits.
+ */
+export class InMemorySwapStore implements SwapStore {
+  private readonly records = new Map<string, SwapRecord>();
+
+  get(id: string): SwapRecord | undefined {
+    return this.records.get(id);
+  }
+
+  put(record: SwapRecord): void {
+    this.records.set(record.id, record);
+  }
+
+  list(): SwapRecord[] {
+    return [...this.records.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+/**
+ * JSON file store (default: ~/.scarcity/swaps.json)
+ *
+ * Each put rewrites the file through a temporary file and a rename, so a
+ * crash leaves either the old or the new contents.
+ */
+export class FileSwapStore implements SwapStore {
+  private readonly path: string;
+  private readonly records = new Map<string, SwapRecord>();
+
+  constructor(path?: string) {
+    this.path = path ?? join(homedir(), '.scarcity', 'swaps.json');
+    if (existsSync(this.path)) {
+      const data = JSON.parse(readFileSync(this.path, 'utf-8')) as { swaps: SwapRecordJson[] };
+      for (const json of data.swaps) {
+        const record = recordFromJson(json);
+        this.records.set(record.id, record);
+      }
+    }
+  }
+
+  get(id: string): SwapRecord | undefined {
+    return this.records.get(id);
+  }
+
+  put(record: SwapRecord): void {
+    this.records.set(record.id, record);
+
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const temp = `${this.path}.tmp`;
+    writeFileSync(temp, JSON.stringify({ version: 1, swaps: this.list().map(recordToJson) }, null, 2), 'utf-8');
+    renameSync(temp, this.path);
+  }
+
+  list(): SwapRecord[] {
+    return [...this.records.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+// ============================================================================
+// COORDINATOR
+// ============================================================================
+
+export class SwapCoordinator {
+  private readonly federations = new Map<string, SwapFederation>();
+  private readonly validators = new Map<string, TransferValidator>();
+  private readonly store: SwapStore;
+  private readonly lockWindowMs: number;
+  private readonly safetyMarginMs: number;
+  private readonly maxLockWindowMs: number;
+
+  constructor(config: SwapCoordinatorConfig) {
+    for (const federation of config.federations) {
+      this.federations.set(federation.id, federation);
+    }
+    this.store = config.store ?? new InMemorySwapStore();
+    this.lockWindowMs = config.lockWindowMs ?? 12 * HOUR_MS;
+    this.safetyMarginMs = config.safetyMarginMs ?? HOUR_MS;
+    if (this.lockWindowMs < 2 * this.safetyMarginMs) {
+      throw new Error('lockWindowMs must be at least twice safetyMarginMs');
+    }
+    this.maxLockWindowMs = config.maxLockWindowMs ?? 2 * this.lockWindowMs;
+    if (this.maxLockWindowMs < this.lockWindowMs) {
+      throw new Error('maxLockWindowMs must be at least lockWindowMs');
+    }
+  }
+
+  /**
+   * Start a swap: lock our token and produce the offer for the responder
+   *
+   * The responder's lock is refundable from T_B = now + lockWindowMs and
+   * ours from T_A = T_B + lockWindowMs.
+   */
+  async initiate(params: InitiateSwapParams): Promise<{ record: SwapRecord; offer: SwapOffer }> {
+    this.federation(params.give.federation);
+    this.federation(params.want.federation);
+    if (params.give.federation === params.want.federation) {
+      throw new SwapError('terms-mismatch', 'A swap needs two different federations');
+    }
+    const held = params.token.getMetadata().amount;
+    if (held !== params.give.amount) {
+      throw new SwapError('terms-mismatch', `Token holds ${held}, offer gives ${params.give.amount}`);
+    }
+
+    const preimage = Crypto.randomBytes(32);
+    const now = Date.now();
+    const counterTimelock = now + this.lockWindowMs;
+    const proposed = this.create({
+      id: createHashlock(preimage),
+      role: 'initiator',
+      preimage,
+      give: params.give,
+      want: params.want,
+      ownTimelock: counterTimelock + this.lockWindowMs,
+      counterTimelock,
+      ownKey: params.ownKey,
+      counterpartyKey: params.counterpartyKey
+    });
+
+    const lock = await this.lockToken(proposed, params.token);
+    const record = this.transition(proposed, 'locked', { ownLock: lock });
+
+    return {
+      record,
+      offer: {
+        type: 'offer',
+        swapId: record.id,
+        initiatorKey: record.ownKey,
+        give: record.give,
+        want: record.want,
+        responderTimelock: record.counterTimelock,
+        lock
+      }
+    };
+  }
+
+  /**
+   * Take an offer: check the initiator's lock, then lock our token
+   *
+   * @throws SwapError if the offer's lock does not match its terms, fails
+   *         validation, trades within one federation, leaves less than the
+   *         safety margin or holds our token past maxLockWindowMs
+   */
+  async accept(
+    offer: SwapOffer,
+    params: AcceptSwapParams
+  ): Promise<{ record: SwapRecord; acceptance: SwapAcceptance }> {
+    if (this.store.get(offer.swapId)) {
+      throw new SwapError('invalid-state', `Swap ${short(offer.swapId)} is already known`);
+    }
+    this.federation(offer.want.federation);
+    if (offer.give.federation === offer.want.federation) {
+      throw new SwapError('terms-mismatch', 'A swap needs two different federations');
+    }
+    const held = params.token.getMetadata().amount;
+    if (held !== offer.want.amount) {
+      throw new SwapError('terms-mismatch', `Token holds ${held}, offer wants ${offer.want.amount}`);
+    }
+
+    const now = Date.now();
+    const ownTimelock = offer.responderTimelock;
+    const counterTimelock = offer.lock.condition.timelock ?? 0;
+    if (!Number.isFinite(ownTimelock) || ownTimelock - now < this.safetyMarginMs) {
+      throw new SwapError('timelock', 'Offer leaves too little time to lock before T_B');
+    }
+    if (ownTimelock - now > this.maxLockWindowMs) {
+      throw new SwapError('timelock', 'Offer would keep our token locked for too long before T_B');
+    }
+    if (counterTimelock - ownTimelock < this.safetyMarginMs) {
+      throw new SwapError('timelock', 'Offer leaves too little time to claim after the preimage is revealed');
+    }
+    await this.checkLock(offer.lock, offer.swapId, offer.give, counterTimelock);
+
+    const proposed = this.create({
+      id: offer.swapId,
+      role: 'responder',
+      give: offer.want,
+      want: offer.give,
+      ownTimelock,
+      counterTimelock,
+      ownKey: params.ownKey,
+      counterpartyKey: offer.initiatorKey,
+      counterLock: offer.lock
+    });
+
+    const lock = await this.lockToken(proposed, params.token);
+    const record = this.transition(proposed, 'ready', { ownLock: lock });
+
+    return { record, acceptance: { type: 'acceptance', swapId: record.id, lock } };
+  }
+
+  /**
+   * Record the responder's lock (initiator)
+   *
+   * @throws SwapError if the lock does not match the offer or fails validation
+   */
+  async confirm(acceptance: SwapAcceptance): Promise<SwapRecord> {
+    const record = this.require(acceptance.swapId, 'initiator');
+    this.assertState(record, 'locked');
+    await this.checkLock(acceptance.lock, record.id, record.want, record.counterTimelock);
+    return this.transition(record, 'ready', { counterLock: acceptance.lock });
+  }
+
+  /**
+   * Record the initiator's preimage (responder)
+   */
+  reveal(message: SwapReveal): SwapRecord {
+    const record = this.require(message.swapId, 'responder');
+    if (!preimageMatches({ type: 'hash', hashlock: record.id }, message.preimage)) {
+      throw new SwapError('terms-mismatch', 'Revealed preimage does not open the swap hashlock');
+    }
+    return this.save({ ...record, preimage: message.preimage });
+  }
+
+  /**
+   * Claim the counterparty's lock with the preimage
+   *
+   * The initiator gets the reveal to hand to the responder.
+   *
+   * @param secret - Secret for the claimed token; ownKey's secret keeps
+   *                 everything under one key
+   */
+  async claim(
+    swapId: string,
+    secret: Uint8Array
+  ): Promise<{ record: SwapRecord; token: ScarbuckToken; reveal?: SwapReveal }> {
+    const stored = this.require(swapId);
+    this.assertState(stored, 'ready');
+    const preimage = this.preimageOf(stored);
+    if (!preimage) {
+      throw new SwapError('invalid-state', 'The preimage has not been revealed or published yet');
+    }
+    // Keep a preimage learned from the gossip, which may forget it
+    const record = stored.preimage ? stored : this.save({ ...stored, preimage });
+    if (Date.now() >= record.counterTimelock) {
+      throw new SwapError('timelock', 'The counterparty lock is past its timelock and can no longer be claimed');
+    }
+
+    const federation = this.federation(record.want.federation);
+    const token = await ScarbuckToken.receiveHTLC(
+      record.counterLock!,
+      secret,
+      preimage,
+      federation.auth,
+      federation.witness,
+      federation.gossip
+    );
+    const claimed = this.transition(record, 'claimed', { claimedTokenId: token.getMetadata().id });
+
+    return {
+      record: claimed,
+      token,
+      reveal: record.role === 'initiator' ? { type: 'reveal', swapId, preimage } : undefined
+    };
+  }
+
+  /**
+   * Take our lock back after its timelock
+   *
+   * Fails if the counterparty already claimed it: the claim published the
+   * lock's settlement nullifier.
+   *
+   * @param secret - Secret of ownKey, the lock's refund key
+   */
+  async refund(swapId: string, secret: Uint8Array): Promise<{ record: SwapRecord; token: ScarbuckToken }> {
+    const record = this.require(swapId);
+    if (record.state !== 'locked' && record.state !== 'ready') {
+      throw new SwapError('invalid-state', `Swap ${short(swapId)} is ${record.state}, nothing to refund`);
+    }
+    if (Date.now() < record.ownTimelock) {
+      throw new SwapError('timelock', `Our lock is refundable from ${new Date(record.ownTimelock).toISOString()}`);
+    }
+
+    const federation = this.federation(record.give.federation);
+    const token = await ScarbuckToken.refundHTLC(
+      record.ownLock!,
+      secret,
+      federation.auth,
+      federation.witness,
+      federation.gossip
+    );
+    return { record: this.transition(record, 'refunded', { refundedTokenId: token.getMetadata().id }), token };
+  }
+
+  /**
+   * Drop a swap before anything of ours is locked
+   */
+  abort(swapId: string): SwapRecord {
+    const record = this.require(swapId);
+    this.assertState(record, 'proposed');
+    return this.transition(record, 'aborted');
+  }
+
+  /**
+   * What to do next with a swap
+   */
+  nextAction(record: SwapRecord, now = Date.now()): SwapAction {
+    switch (record.state) {
+      case 'proposed':
+        return 'lock';
+      case 'locked':
+        return now >= record.ownTimelock ? 'refund' : 'await-lock';
+      case 'ready': {
+        const preimage = this.preimageOf(record);
+        if (preimage && now < record.counterTimelock) {
+          return 'claim';
+        }
+        if (now >= record.ownTimelock) {
+          return 'refund';
+        }
+        return preimage ? 'await-refund' : 'await-preimage';
+      }
+      default:
+        return 'none';
+    }
+  }
+
+  get(swapId: string): SwapRecord | undefined {
+    return this.store.get(swapId);
+  }
+
+  list(): SwapRecord[] {
+    return this.store.list();
+  }
+
+  private async lockToken(record: SwapRecord, token: ScarbuckToken): Promise<HTLCPackage> {
+    return token.transferHTLC(
+      record.counterpartyKey,
+      { type: 'hash-time', hashlock: record.id, timelock: record.ownTimelock },
+      record.ownKey
+    );
+  }
+
+  /**
+   * Check a counterparty lock against the terms and its federation
+   */
+  private async checkLock(lock: HTLCPackage, hashlock: string, leg: SwapLeg, timelock: number): Promise<void> {
+    const { condition } = lock;
+    if (condition.type !== 'hash-time' || condition.hashlock !== hashlock) {
+      throw new SwapError('terms-mismatch', 'Lock is not a hash-time HTLC under the swap hashlock');
+    }
+    if (condition.timelock !== timelock) {
+      throw new SwapError('terms-mismatch', `Lock is refundable from ${condition.timelock}, terms say ${timelock}`);
+    }
+    if (lock.amount !== leg.amount) {
+      throw new SwapError('terms-mismatch', `Lock holds ${lock.amount}, terms say ${leg.amount}`);
+    }
+
+    const result = await this.validator(leg.federation).validateHTLC(lock);
+    if (!result.valid) {
+      throw new SwapError('lock-invalid', `Lock rejected by ${leg.federation}: ${result.reason}`);
+    }
+  }
+
+  private create(fields: Omit<SwapRecord, 'state' | 'createdAt' | 'updatedAt' | 'history'>): SwapRecord {
+    const now = Date.now();
+    return this.save({
+      ...fields,
+      state: 'proposed',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ state: 'proposed', at: now }]
+    });
+  }
+
+  private transition(record: SwapRecord, state: SwapState, patch: Partial<SwapRecord> = {}): SwapRecord {
+    if (!TRANSITIONS[record.state].includes(state)) {
+      throw new SwapError('invalid-state', `Swap ${short(record.id)} cannot go from ${record.state} to ${state}`);
+    }
+    const now = Date.now();
+    return this.save({ ...record, ...patch, state, history: [...record.history, { state, at: now }] });
+  }
+
+  private save(record: SwapRecord): SwapRecord {
+    const saved = { ...record, updatedAt: Date.now() };
+    this.store.put(saved);
+    return saved;
+  }
+
+  /**
+   * The swap preimage: ours, revealed to us, or published by the
+   * initiator's claim of our lock
+   */
+  private preimageOf(record: SwapRecord): Uint8Array | undefined {
+    if (record.preimage || record.role !== 'responder') {
+      return record.preimage;
+    }
+    const published = this.federations.get(record.give.federation)?.gossip.getPreimage?.(record.id);
+    return published && preimageMatches({ type: 'hash', hashlock: record.id }, published) ? published : undefined;
+  }
+
+  private require(swapId: string, role?: SwapRole): SwapRecord {
+    const record = this.store.get(swapId);
+    if (!record) {
+      throw new SwapError('unknown-swap', `Unknown swap ${short(swapId)}`);
+    }
+    if (role && record.role !== role) {
+      throw new SwapError('invalid-state', `Only the ${role} takes this step`);
+    }
+    return record;
+  }
+
+  private assertState(record: SwapRecord, state: SwapState): void {
+    if (record.state !== state) {
+      throw new SwapError('invalid-state', `Swap ${short(record.id)} is ${record.state}, expected ${state}`);
+    }
+  }
+
+  private federation(id: string): SwapFederation {
+    const federation = this.federations.get(id);
+    if (!federation) {
+      throw new SwapError('unknown-federation', `No federation '${id}' configured`);
+    }
+    return federation;
+  }
+
+  private validator(id: string): TransferValidator {
+    const federation = this.federation(id);
+    let validator = federation.validator ?? this.validators.get(id);
+    if (!validator) {
+      const { auth, gossip, witness } = federation;
+      validator = new TransferValidator({ auth, gossip, witness });
+      this.validators.set(id, validator);
+    }
+    return validator;
+  }
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * Encode a swap message as JSON text; locks travel as bearer strings
+ */
+export function encodeSwapMessage(message: SwapMessage): string {
+  switch (message.type) {
+    case 'offer':
+      return JSON.stringify({
+        ...message,
+        initiatorKey: Crypto.toHex(message.initiatorKey.bytes),
+        lock: encodeBearerString('htlc', message.lock)
+      });
+    case 'acceptance':
+      return JSON.stringify({ ...message, lock: encodeBearerString('htlc', message.lock) });
+    case 'reveal':
+      return JSON.stringify({ ...message, preimage: Crypto.toHex(message.preimage) });
+  }
+}
+
+/**
+ * Decode a swap message from encodeSwapMessage
+ *
+ * @throws SwapError('malformed-message') if the text is not a swap message
+ */
+export function decodeSwapMessage(text: string): SwapMessage {
+  try {
+    const json: unknown = JSON.parse(text);
+    if (!isObject(json)) {
+      throw new Error('not an object');
+    }
+    const swapId = string(json.swapId, 'swapId');
+    switch (json.type) {
+      case 'offer':
+        return {
+          type: 'offer',
+          swapId,
+          initiatorKey: { bytes: Crypto.fromHex(string(json.initiatorKey, 'initiatorKey')) },
+          give: leg(json.give, 'give'),
+          want: leg(json.want, 'want'),
+          responderTimelock: number(json.responderTimelock, 'responderTimelock'),
+          lock: htlc(string(json.lock, 'lock'))
+        };
+      case 'acceptance':
+        return { type: 'acceptance', swapId, lock: htlc(string(json.lock, 'lock')) };
+      case 'reveal':
+        return { type: 'reveal', swapId, preimage: Crypto.fromHex(string(json.preimage, 'preimage')) };
+      default:
+        throw new Error(`unknown type ${String(json.type)}`);
+    }
+  } catch (error) {
+    throw new SwapError('malformed-message', `Malformed swap message: ${(error as Error).message}`);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type SwapRecordBytes = 'preimage' | 'ownKey' | 'counterpartyKey' | 'ownLock' | 'counterLock';
+
+interface SwapRecordJson extends Omit<SwapRecord, SwapRecordBytes> {
+  readonly preimage?: string;
+  readonly ownKey: string;
+  readonly counterpartyKey: string;
+  readonly ownLock?: string;
+  readonly counterLock?: string;
+}
+
+function recordToJson(record: SwapRecord): SwapRecordJson {
+  return {
+    ...record,
+    preimage: record.preimage && Crypto.toHex(record.preimage),
+    ownKey: Crypto.toHex(record.ownKey.bytes),
+    counterpartyKey: Crypto.toHex(record.counterpartyKey.bytes),
+    ownLock: record.ownLock && encodeBearerString('htlc', record.ownLock),
+    counterLock: record.counterLock && encodeBearerString('htlc', record.counterLock)
+  };
+}
+
+function recordFromJson(json: SwapRecordJson): SwapRecord {
+  return {
+    ...json,
+    preimage: json.preimage ? Crypto.fromHex(json.preimage) : undefined,
+    ownKey: { bytes: Crypto.fromHex(json.ownKey) },
+    counterpartyKey: { bytes: Crypto.fromHex(json.counterpartyKey) },
+    ownLock: json.ownLock ? htlc(json.ownLock) : undefined,
+    counterLock: json.counterLock ? htlc(json.counterLock) : undefined
+  };
+}
+
+function htlc(bearer: string): HTLCPackage {
+  const decoded = decodeBearerString(bearer);
+  if (decoded.kind !== 'htlc') {
+    throw new Error(`expected an HTLC package, got ${decoded.kind}`);
+  }
+  return decoded.pkg;
+}
+
+function leg(json: unknown, field: string): SwapLeg {
+  if (!isObject(json)) {
+    throw new Error(`${field} is not an object`);
+  }
+  return {
+    federation: string(json.federation, `${field}.federation`),
+    amount: number(json.amount, `${field}.amount`)
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function string(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  return value;
+}
+
+function number(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${field} must be a finite number, got ${String(value)}`);
+  }
+  return value;
+}
+
+function short(id: string): string {
+  return id.slice(0, 12);
+}
@@ -5,14 +5,31 @@
 import { Crypto } from './crypto.js';
 import { DEFAULT_TOKEN_VALIDITY_MS } from './constants.js';
 import { OwnershipProof } from './ownership.js';
+import { ValidationError } from './validation-error.js';
+import { isDenomination, assertDenominations, decompose, planDenominatedPayment } from './denominations.js';
+import { hashPaymentRequest, requestCommitment, verifyPaymentRequest } from './payment-request.js';
+import {
+  conditionProblem,
+  htlcSettlementNullifier,
+  isHashLocked,
+  isTimeLocked,
+  preimageMatches,
+  settlementWindow
+} from './htlc.js';
+import { policyProblem, approvingKeys, multiSigPolicyHash, multiSigSpendNullifier } from './multisig.js';
+import { packageHashInput } from './codec/package-codec.js';
 import type {
   PublicKey,
+  PaymentRequest,
   TransferPackage,
   SplitPackage,
+  PaymentPackage,
   MergePackage,
   MultiPartyTransfer,
   HTLCPackage,
   HTLCCondition,
+  MultiSigPolicy,
+  MultiSigPackage,
   AdmissionClient,
   WitnessClient,
   GossipNetwork
@@ -29,6 +46,8 @@ export interface ScarbuckTokenConfig {
   readonly gossip: GossipNetwork;
   readonly createdAt?: number;
   readonly maxTokenAge?: number;
+  /** Restrict split and merge outputs to power-of-two denominations */
+  readonly denominated?: boolean;
 }
 
 export interface ScarbuckTokenPersistentState {
@@ -37,6 +56,18 @@ export interface ScarbuckTokenPersistentState {
   readonly secret: Uint8Array;
   readonly spent: boolean;
   readonly createdAt?: number;
+  readonly denominated?: boolean;
+}
+
+export interface MintOptions {
+  readonly denominated?: boolean; // Mint in denominated mode; amount must be a power of two (default: false)
+}
+
+/** Packages produced by paying in denominations */
+export interface DenominatedPayment {
+  readonly transfers: TransferPackage[]; // Coins sent whole
+  readonly splits: SplitPackage[]; // Coins split between payee and change
+  readonly change: number[][]; // Per split, indices of the outputs that are change; the rest are the payee's
 }
 
 export class ScarbuckToken {
@@ -48,6 +79,7 @@ export class ScarbuckToken {
   private readonly gossip: GossipNetwork;
   private readonly createdAt: number;
   private readonly maxTokenAge: number;
+  private readonly denominated: boolean;
   private spent: boolean = false;
 
   constructor(config: ScarbuckTokenConfig) {
@@ -62,6 +94,10 @@ export class ScarbuckToken {
     this.gossip = config.gossip;
     this.createdAt = config.createdAt ?? Date.now();
     this.maxTokenAge = config.maxTokenAge ?? DEFAULT_TOKEN_VALIDITY_MS;
+    this.denominated = config.denominated ?? false;
+    if (this.denominated) {
+      assertDenominations([this.amount], 'Token amount');
+    }
   }
 
   private assertSpendable(): void {
@@ -83,68 +119,92 @@ export class ScarbuckToken {
 
   private static assertSourceWasSpendable(sourceCreatedAt: number, spendTimestamp: number): void {
     if (typeof sourceCreatedAt !== 'number' || !Number.isFinite(sourceCreatedAt)) {
-      throw new Error('Missing Scarcity source creation timestamp');
+      throw new ValidationError('source_timestamp_invalid', 'Missing Scarcity source creation timestamp');
     }
 
     const sourceAgeAtSpend = spendTimestamp - sourceCreatedAt;
     if (sourceAgeAtSpend < -300_000) {
-      throw new Error('Invalid Scarcity source creation timestamp');
+      throw new ValidationError('source_timestamp_invalid', 'Invalid Scarcity source creation timestamp', {
+        sourceCreatedAt,
+        spentAt: spendTimestamp
+      });
     }
 
     if (sourceAgeAtSpend > DEFAULT_TOKEN_VALIDITY_MS) {
-      throw new Error(
-        `Source token expired before spend. Age (${(sourceAgeAtSpend / 3600000).toFixed(1)}h) exceeds Scarcity validity window.`
+      throw new ValidationError(
+        'source_expired',
+        `Source token expired before spend. Age (${(sourceAgeAtSpend / 3600000).toFixed(1)}h) exceeds Scarcity validity window.`,
+        { ageMs: sourceAgeAtSpend, limitMs: DEFAULT_TOKEN_VALIDITY_MS }
       );
     }
   }
 
-  private static assertProofCoversHash(actualHash: string, expectedHash: string, label: string): void {
-    if (actualHash !== expectedHash) {
-      throw new Error(`${label} proof does not match package contents`);
+  /**
+   * Whether a received output is a denominated coin. Packages from
+   * denominated tokens may only carry standard denominations.
+   */
+  private static receivedDenomination(pkg: { denominated?: boolean }, amount: number): boolean {
+    if (pkg.denominated !== true) {
+      return false;
     }
+    if (!isDenomination(amount)) {
+      throw new ValidationError('malformed_package', `Denominated output ${amount} is not a power-of-two denomination`);
+    }
+    return true;
   }
 
-  private static hashSplitPackage(pkg: SplitPackage): string {
-    return Crypto.hashString(JSON.stringify({
-      sourceTokenId: pkg.sourceTokenId,
-      sourceAmount: pkg.sourceAmount,
-      sourceCreatedAt: pkg.sourceCreatedAt,
-      splits: pkg.splits,
-      nullifier: pkg.nullifier
-    }));
-  }
-
-  private static hashMergePackage(pkg: MergePackage): string {
-    return Crypto.hashString(JSON.stringify({
-      targetTokenId: pkg.targetTokenId,
-      targetAmount: pkg.targetAmount,
-      commitment: pkg.commitment,
-      authToken: pkg.authToken,
-      sources: pkg.sources
-    }));
+  private static assertPayable(request: PaymentRequest, amount: number): void {
+    if (request.amount !== amount) {
+      throw new Error(`Payment request is for ${request.amount}, but this token holds ${amount}; split it first`);
+    }
+    if (Date.now() > request.expiresAt) {
+      throw new Error(`Payment request expired at ${new Date(request.expiresAt).toISOString()}`);
+    }
+    if (!verifyPaymentRequest(request)) {
+      throw new Error('Payment request merchant signature is invalid');
+    }
   }
 
-  private static hashMultiPartyPackage(pkg: MultiPartyTransfer): string {
-    return Crypto.hashString(JSON.stringify({
-      sourceTokenId: pkg.sourceTokenId,
-      sourceAmount: pkg.sourceAmount,
-      sourceCreatedAt: pkg.sourceCreatedAt,
-      recipients: pkg.recipients,
-      nullifier: pkg.nullifier
-    }));
+  /**
+   * Check a proof covers the package hash, or the version-0 hash a
+   * package proven before the canonical codec was timestamped with
+   */
+  private static assertProofCoversHash(
+    actualHash: string,
+    expectedHash: string,
+    label: string,
+    legacyHash?: string
+  ): void {
+    if (actualHash !== expectedHash && actualHash !== legacyHash) {
+      throw new ValidationError('hash_mismatch', `${label} proof does not match package contents`, {
+        expected: expectedHash,
+        actual: actualHash
+      });
+    }
   }
 
-  private static hashHTLCPackage(pkg: HTLCPackage): string {
-    return Crypto.hashString(JSON.stringify({
-      tokenId: pkg.tokenId,
-      amount: pkg.amount,
-      sourceCreatedAt: pkg.sourceCreatedAt,
-      commitment: pkg.commitment,
-      authToken: pkg.authToken,
-      nullifier: pkg.nullifier,
-      condition: pkg.condition,
-      refundPublicKey: pkg.refundPublicKey
-    }));
+  /**
+   * Publish an HTLC's settlement nullifier with the settler's ownership
+   * proof over it. A lock proven before the canonical codec has a proof
+   * over its version-0 hash, which the package fields cannot be checked
+   * against, so its settlement goes without spend details.
+   */
+  private static async publishSettlement(
+    pkg: HTLCPackage,
+    secret: Uint8Array,
+    gossip: GossipNetwork,
+    preimage?: Uint8Array
+  ): Promise<void> {
+    const nullifier = htlcSettlementNullifier(pkg);
+    if (pkg.proof.hash !== Crypto.hashHTLCPackage(pkg)) {
+      await gossip.publish(nullifier, pkg.proof);
+      return;
+    }
+    await gossip.publish(nullifier, pkg.proof, {
+      packageFields: packageHashInput('htlc', pkg),
+      ownershipProof: await OwnershipProof.create(secret, nullifier),
+      preimage
+    });
   }
 
   /**
@@ -157,12 +217,23 @@ export class ScarbuckToken {
    * 4. Timestamp with Witness (proof of order)
    * 5. Broadcast nullifier to gossip network
    *
-   * @param to - Recipient's public key
+   * Paying a payment request binds the request hash into the package and
+   * commits to the request's recipient, so validators holding the request
+   * can check the payment against it. The token must hold exactly the
+   * requested amount and the request must be unexpired and, if signed,
+   * carry a valid merchant signature.
+   *
+   * @param to - Recipient's public key, or a payment request to pay
    * @returns Transfer package for recipient
    */
-  async transfer(to: PublicKey): Promise<TransferPackage> {
+  async transfer(to: PublicKey | PaymentRequest): Promise<TransferPackage> {
     this.assertSpendable();
 
+    const request = 'recipient' in to ? to : undefined;
+    if (request) {
+      ScarbuckToken.assertPayable(request, this.amount);
+    }
+
     // A. Create nullifier (unique spend identifier)
     const nullifier = Crypto.hash(
       this.secret,
@@ -170,7 +241,7 @@ export class ScarbuckToken {
     );
 
     // B. Create a Scarcity-owned recipient commitment.
-    const commitment = await this.createRecipientCommitment(to);
+    const commitment = request ? requestCommitment(request) : await this.createRecipientCommitment(to as PublicKey);
 
     // C. Issue an admission token via Freebird. This authorizes access only.
     const authToken = await this.auth.issueAdmissionToken();
@@ -185,7 +256,10 @@ export class ScarbuckToken {
       sourceCreatedAt: this.createdAt,
       commitment,
       authToken,
-      nullifier
+      nullifier,
+      paymentRequest: request && hashPaymentRequest(request),
+      // Absent for plain tokens, so their package hashes are unchanged
+      denominated: this.denominated || undefined
     };
 
     // F. Hash package for timestamping
@@ -195,7 +269,7 @@ export class ScarbuckToken {
     const proof = await this.witness.timestamp(pkgHash);
 
     // H. Broadcast nullifier to gossip network (fast propagation)
-    await this.gossip.publish(nullifier, proof);
+    await this.gossip.publish(nullifier, proof, { packageFields: packageHashInput('transfer', pkg), ownershipProof });
 
     // I. Mark as spent
     this.spent = true;
@@ -235,6 +309,9 @@ export class ScarbuckToken {
     if (amounts.some(amt => amt <= 0)) {
       throw new Error('All split amounts must be positive');
     }
+    if (this.denominated) {
+      assertDenominations(amounts, 'Split amount');
+    }
 
     // Generate nullifier for source token
     const nullifier = Crypto.hash(this.secret, this.id);
@@ -258,17 +335,104 @@ export class ScarbuckToken {
       sourceAmount: this.amount,
       sourceCreatedAt: this.createdAt,
       splits,
-      nullifier
+      nullifier,
+      denominated: this.denominated || undefined
+    };
+
+    // Hash package for timestamping
+    const pkgHash = Crypto.hashSplitPackage(pkg);
+
+    // Timestamp with Witness
+    const proof = await this.witness.timestamp(pkgHash);
+
+    // Broadcast nullifier
+    await this.gossip.publish(nullifier, proof, { packageFields: packageHashInput('split', pkg), ownershipProof });
+
+    // Mark as spent
+    this.spent = true;
+
+    return {
+      ...pkg,
+      proof,
+      ownershipProof
+    };
+  }
+
+  /**
+   * Pay part of this token and keep the rest as change
+   *
+   * Produces the recipient's output and the change output in one package,
+   * under one Witness timestamp and one spend, instead of a split followed
+   * by a transfer. Paying the whole token leaves no change output. A
+   * payment request sets the recipient and must ask for exactly `amount`.
+   *
+   * @param amount - Amount to pay
+   * @param to - Recipient's public key, or a payment request to pay
+   * @param changeTo - Public key to receive the change
+   * @returns Payment package for the recipient; the sender receives the
+   *          change from it with receivePayment(..., 'change')
+   */
+  async pay(amount: number, to: PublicKey | PaymentRequest, changeTo: PublicKey): Promise<PaymentPackage> {
+    this.assertSpendable();
+
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new Error(`Payment amount must be a positive integer, got ${amount}`);
+    }
+    if (amount > this.amount) {
+      throw new Error(`Payment amount (${amount}) exceeds token amount (${this.amount})`);
+    }
+    const changeAmount = this.amount - amount;
+    if (this.denominated) {
+      assertDenominations(changeAmount > 0 ? [amount, changeAmount] : [amount], 'Payment output');
+    }
+
+    const request = 'recipient' in to ? to : undefined;
+    if (request) {
+      ScarbuckToken.assertPayable(request, amount);
+    }
+
+    // Generate nullifier for source token
+    const nullifier = Crypto.hash(this.secret, this.id);
+
+    // Create the payee's output, committed to the request when paying one
+    const payment = {
+      tokenId: Crypto.toHex(Crypto.randomBytes(32)),
+      amount,
+      commitment: request ? requestCommitment(request) : await this.createRecipientCommitment(to as PublicKey),
+      authToken: await this.auth.issueAdmissionToken()
+    };
+
+    // Create the change output back to the sender
+    const change = changeAmount > 0 ? {
+      tokenId: Crypto.toHex(Crypto.randomBytes(32)),
+      amount: changeAmount,
+      commitment: await this.createRecipientCommitment(changeTo),
+      authToken: await this.auth.issueAdmissionToken()
+    } : undefined;
+
+    // Create Scarcity ownership proof bound to nullifier
+    const ownershipProof = await OwnershipProof.create(this.secret, nullifier);
+
+    // Package payment data
+    const pkg = {
+      sourceTokenId: this.id,
+      sourceAmount: this.amount,
+      sourceCreatedAt: this.createdAt,
+      payment,
+      change,
+      paymentRequest: request && hashPaymentRequest(request),
+      nullifier,
+      denominated: this.denominated || undefined
     };
 
     // Hash package for timestamping
-    const pkgHash = Crypto.hashString(JSON.stringify(pkg));
+    const pkgHash = Crypto.hashPaymentPackage(pkg);
 
     // Timestamp with Witness
     const proof = await this.witness.timestamp(pkgHash);
 
     // Broadcast nullifier
-    await this.gossip.publish(nullifier, proof);
+    await this.gossip.publish(nullifier, proof, { packageFields: packageHashInput('payment', pkg), ownershipProof });
 
     // Mark as spent
     this.spent = true;
@@ -314,6 +478,10 @@ export class ScarbuckToken {
 
     // Calculate total amount
     const targetAmount = tokenStates.reduce((sum, state) => sum + state.amount, 0);
+    const denominated = tokens.some(token => token.denominated);
+    if (denominated && !isDenomination(targetAmount)) {
+      throw new Error(`Merged amount ${targetAmount} is not a power-of-two denomination`);
+    }
 
     // Generate new token ID
     const targetTokenId = Crypto.toHex(Crypto.randomBytes(32));
@@ -348,18 +516,22 @@ export class ScarbuckToken {
       targetAmount,
       commitment,
       authToken,
-      sources
+      sources,
+      denominated: denominated || undefined
     };
 
     // Hash package for timestamping
-    const pkgHash = Crypto.hashString(JSON.stringify(pkg));
+    const pkgHash = Crypto.hashMergePackage(pkg);
 
     // Timestamp with Witness
     const proof = await witness.timestamp(pkgHash);
 
     // Broadcast all nullifiers
     await Promise.all(
-      sources.map(source => gossip.publish(source.nullifier, proof))
+      sources.map((source, i) => gossip.publish(source.nullifier, proof, {
+        packageFields: packageHashInput('merge', pkg),
+        ownershipProof: ownershipProofs[i]
+      }))
     );
 
     // Mark all tokens as spent
@@ -381,13 +553,15 @@ export class ScarbuckToken {
    * @param auth - Admission authorization client
    * @param witness - Witness client
    * @param gossip - Gossip network
+   * @param options - Minting options
    * @returns New ScarbuckToken instance
    */
   static mint(
     amount: number,
     auth: AdmissionClient,
     witness: WitnessClient,
-    gossip: GossipNetwork
+    gossip: GossipNetwork,
+    options: MintOptions = {}
   ): ScarbuckToken {
     const id = Crypto.toHex(Crypto.randomBytes(32));
     const secret = Crypto.randomBytes(32);
@@ -399,10 +573,78 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      denominated: options.denominated
     });
   }
 
+  /**
+   * Mint an amount as denominated coins, one per power of two it contains
+   *
+   * @param amount - Total amount to mint
+   * @param auth - Admission authorization client
+   * @param witness - Witness client
+   * @param gossip - Gossip network
+   * @returns Denominated tokens, largest first
+   */
+  static mintDenominated(
+    amount: number,
+    auth: AdmissionClient,
+    witness: WitnessClient,
+    gossip: GossipNetwork
+  ): ScarbuckToken[] {
+    return decompose(amount).map(part =>
+      ScarbuckToken.mint(part, auth, witness, gossip, { denominated: true })
+    );
+  }
+
+  /**
+   * Pay an amount from denominated coins
+   *
+   * Sends whole coins where they fit and splits others between the payee
+   * and change, following planDenominatedPayment. Every output is a
+   * standard denomination. Each coin is spent with its own package, so
+   * a failure part-way leaves the earlier packages already sent.
+   *
+   * @param tokens - Coins to pay from
+   * @param amount - Amount to pay
+   * @param to - Payee's public key
+   * @param changeTo - Public key to receive change
+   * @returns The transfer and split packages to deliver, and which split
+   *          outputs are change for the payer to receive
+   */
+  static async payDenominated(
+    tokens: ScarbuckToken[],
+    amount: number,
+    to: PublicKey,
+    changeTo: PublicKey
+  ): Promise<DenominatedPayment> {
+    tokens.forEach(token => token.assertSpendable());
+    const plan = planDenominatedPayment(tokens.map(token => token.amount), amount);
+
+    const transfers: TransferPackage[] = [];
+    for (const index of plan.transfers) {
+      transfers.push(await tokens[index].transfer(to));
+    }
+
+    const splits: SplitPackage[] = [];
+    const change: number[][] = [];
+    for (const split of plan.splits) {
+      // Order outputs by size so change cannot be told apart by position
+      const outputs = [
+        ...split.pay.map(part => ({ amount: part, recipient: to, change: false })),
+        ...split.change.map(part => ({ amount: part, recipient: changeTo, change: true }))
+      ].sort((a, b) => b.amount - a.amount);
+      splits.push(await tokens[split.coin].split(
+        outputs.map(output => output.amount),
+        outputs.map(output => output.recipient)
+      ));
+      change.push(outputs.flatMap((output, index) => output.change ? [index] : []));
+    }
+
+    return { transfers, splits, change };
+  }
+
   /**
    * Restore a token from previously persisted state.
    */
@@ -419,7 +661,8 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: state.createdAt
+      createdAt: state.createdAt,
+      denominated: state.denominated
     });
     if (state.spent) {
       token.markSpent();
@@ -447,27 +690,28 @@ export class ScarbuckToken {
     // Verify the transfer proof
     const valid = await witness.verify(pkg.proof);
     if (!valid) {
-      throw new Error('Invalid transfer proof');
+      throw new ValidationError('witness_invalid', 'Invalid transfer proof');
     }
     ScarbuckToken.assertProofCoversHash(
       pkg.proof.hash,
       Crypto.hashTransferPackage(pkg),
-      'Transfer'
+      'Transfer',
+      Crypto.legacyPackageHash('transfer', pkg)
     );
 
     // Verify Freebird admission token is present. Single-use verification
     // happens in TransferValidator, not here.
     if (!pkg.authToken || pkg.authToken.length === 0) {
-      throw new Error('Missing required Freebird authorization token');
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token');
     }
 
     // Verify ownership proof
     if (!pkg.ownershipProof) {
-      throw new Error('Missing required ownership proof');
+      throw new ValidationError('ownership_missing', 'Missing required ownership proof');
     }
     const ownershipValid = await OwnershipProof.verify(pkg.ownershipProof, pkg.nullifier);
     if (!ownershipValid) {
-      throw new Error('Invalid ownership proof');
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proof');
     }
 
     ScarbuckToken.assertSourceWasSpendable(pkg.sourceCreatedAt, pkg.proof.timestamp);
@@ -480,7 +724,8 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: pkg.proof.timestamp
+      createdAt: pkg.proof.timestamp,
+      denominated: ScarbuckToken.receivedDenomination(pkg, pkg.amount)
     });
   }
 
@@ -505,34 +750,35 @@ export class ScarbuckToken {
   ): Promise<ScarbuckToken> {
     // Verify split index is valid
     if (splitIndex < 0 || splitIndex >= pkg.splits.length) {
-      throw new Error(`Invalid split index: ${splitIndex}`);
+      throw new ValidationError('malformed_package', `Invalid split index: ${splitIndex}`);
     }
 
     // Verify the transfer proof
     const valid = await witness.verify(pkg.proof);
     if (!valid) {
-      throw new Error('Invalid split proof');
+      throw new ValidationError('witness_invalid', 'Invalid split proof');
     }
     ScarbuckToken.assertProofCoversHash(
       pkg.proof.hash,
-      ScarbuckToken.hashSplitPackage(pkg),
-      'Split'
+      Crypto.hashSplitPackage(pkg),
+      'Split',
+      Crypto.legacyPackageHash('split', pkg)
     );
 
     // Verify Freebird admission token is present. Single-use verification
     // happens at validation boundaries.
     const split = pkg.splits[splitIndex];
     if (!split.authToken || split.authToken.length === 0) {
-      throw new Error('Missing required Freebird authorization token for split');
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token for split');
     }
 
     // Verify ownership proof
     if (!pkg.ownershipProof) {
-      throw new Error('Missing required ownership proof');
+      throw new ValidationError('ownership_missing', 'Missing required ownership proof');
     }
     const ownershipValid = await OwnershipProof.verify(pkg.ownershipProof, pkg.nullifier);
     if (!ownershipValid) {
-      throw new Error('Invalid ownership proof');
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proof');
     }
 
     ScarbuckToken.assertSourceWasSpendable(pkg.sourceCreatedAt, pkg.proof.timestamp);
@@ -545,7 +791,79 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: pkg.proof.timestamp
+      createdAt: pkg.proof.timestamp,
+      denominated: ScarbuckToken.receivedDenomination(pkg, split.amount)
+    });
+  }
+
+  /**
+   * Receive an output of a payment package
+   *
+   * @param pkg - Payment package from sender
+   * @param recipientSecret - Recipient's secret key
+   * @param auth - Admission authorization client
+   * @param witness - Witness client
+   * @param gossip - Gossip network
+   * @param output - 'payment' for the payee, 'change' for the sender (default: 'payment')
+   * @returns New ScarbuckToken instance for recipient
+   */
+  static async receivePayment(
+    pkg: PaymentPackage,
+    recipientSecret: Uint8Array,
+    auth: AdmissionClient,
+    witness: WitnessClient,
+    gossip: GossipNetwork,
+    output: 'payment' | 'change' = 'payment'
+  ): Promise<ScarbuckToken> {
+    const received = output === 'change' ? pkg.change : pkg.payment;
+    if (!received) {
+      throw new ValidationError('malformed_package', `Payment package has no ${output} output`);
+    }
+
+    // Verify the payment proof
+    const valid = await witness.verify(pkg.proof);
+    if (!valid) {
+      throw new ValidationError('witness_invalid', 'Invalid payment proof');
+    }
+    ScarbuckToken.assertProofCoversHash(
+      pkg.proof.hash,
+      Crypto.hashPaymentPackage(pkg),
+      'Payment'
+    );
+
+    // Verify the outputs add up to the spent token
+    const total = pkg.payment.amount + (pkg.change?.amount ?? 0);
+    if (total !== pkg.sourceAmount) {
+      throw new ValidationError('malformed_package', `Payment outputs (${total}) do not add up to ${pkg.sourceAmount}`);
+    }
+
+    // Verify Freebird admission token is present. Single-use verification
+    // happens at validation boundaries.
+    if (!received.authToken || received.authToken.length === 0) {
+      throw new ValidationError('admission_missing', `Missing required Freebird authorization token for ${output}`);
+    }
+
+    // Verify ownership proof
+    if (!pkg.ownershipProof) {
+      throw new ValidationError('ownership_missing', 'Missing required ownership proof');
+    }
+    const ownershipValid = await OwnershipProof.verify(pkg.ownershipProof, pkg.nullifier);
+    if (!ownershipValid) {
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proof');
+    }
+
+    ScarbuckToken.assertSourceWasSpendable(pkg.sourceCreatedAt, pkg.proof.timestamp);
+
+    // Create new token for recipient
+    return new ScarbuckToken({
+      id: received.tokenId,
+      amount: received.amount,
+      secret: recipientSecret,
+      auth,
+      witness,
+      gossip,
+      createdAt: pkg.proof.timestamp,
+      denominated: ScarbuckToken.receivedDenomination(pkg, received.amount)
     });
   }
 
@@ -569,23 +887,24 @@ export class ScarbuckToken {
     // Verify the transfer proof
     const valid = await witness.verify(pkg.proof);
     if (!valid) {
-      throw new Error('Invalid merge proof');
+      throw new ValidationError('witness_invalid', 'Invalid merge proof');
     }
     ScarbuckToken.assertProofCoversHash(
       pkg.proof.hash,
-      ScarbuckToken.hashMergePackage(pkg),
-      'Merge'
+      Crypto.hashMergePackage(pkg),
+      'Merge',
+      Crypto.legacyPackageHash('merge', pkg)
     );
 
     // Verify Freebird admission token is present. Single-use verification
     // happens at validation boundaries.
     if (!pkg.authToken || pkg.authToken.length === 0) {
-      throw new Error('Missing required Freebird authorization token for merge');
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token for merge');
     }
 
     // Verify ownership proofs
     if (!pkg.ownershipProofs || pkg.ownershipProofs.length !== pkg.sources.length) {
-      throw new Error('Missing required ownership proofs for merge');
+      throw new ValidationError('ownership_missing', 'Missing required ownership proofs for merge');
     }
     const validations = await Promise.all(
       pkg.ownershipProofs.map((proof, i) =>
@@ -593,7 +912,7 @@ export class ScarbuckToken {
       )
     );
     if (validations.some(v => !v)) {
-      throw new Error('Invalid ownership proofs in merge');
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proofs in merge');
     }
 
     for (const source of pkg.sources) {
@@ -608,7 +927,8 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: pkg.proof.timestamp
+      createdAt: pkg.proof.timestamp,
+      denominated: ScarbuckToken.receivedDenomination(pkg, pkg.targetAmount)
     });
   }
 
@@ -637,6 +957,9 @@ export class ScarbuckToken {
     if (recipients.some(r => r.amount <= 0)) {
       throw new Error('All recipient amounts must be positive');
     }
+    if (this.denominated) {
+      assertDenominations(recipients.map(r => r.amount), 'Recipient amount');
+    }
 
     // Generate nullifier for source token
     const nullifier = Crypto.hash(this.secret, this.id);
@@ -666,17 +989,18 @@ export class ScarbuckToken {
       sourceAmount: this.amount,
       sourceCreatedAt: this.createdAt,
       recipients: recipientData,
-      nullifier
+      nullifier,
+      denominated: this.denominated || undefined
     };
 
     // Hash package for timestamping
-    const pkgHash = Crypto.hashString(JSON.stringify(pkg));
+    const pkgHash = Crypto.hashMultiPartyPackage(pkg);
 
     // Timestamp with Witness
     const proof = await this.witness.timestamp(pkgHash);
 
     // Broadcast nullifier
-    await this.gossip.publish(nullifier, proof);
+    await this.gossip.publish(nullifier, proof, { packageFields: packageHashInput('multiparty', pkg), ownershipProof });
 
     // Mark as spent
     this.spent = true;
@@ -709,34 +1033,35 @@ export class ScarbuckToken {
   ): Promise<ScarbuckToken> {
     // Verify recipient index is valid
     if (recipientIndex < 0 || recipientIndex >= pkg.recipients.length) {
-      throw new Error(`Invalid recipient index: ${recipientIndex}`);
+      throw new ValidationError('malformed_package', `Invalid recipient index: ${recipientIndex}`);
     }
 
     // Verify the transfer proof
     const valid = await witness.verify(pkg.proof);
     if (!valid) {
-      throw new Error('Invalid multi-party transfer proof');
+      throw new ValidationError('witness_invalid', 'Invalid multi-party transfer proof');
     }
     ScarbuckToken.assertProofCoversHash(
       pkg.proof.hash,
-      ScarbuckToken.hashMultiPartyPackage(pkg),
-      'Multi-party transfer'
+      Crypto.hashMultiPartyPackage(pkg),
+      'Multi-party transfer',
+      Crypto.legacyPackageHash('multiparty', pkg)
     );
 
     // Verify Freebird admission token is present. Single-use verification
     // happens at validation boundaries.
     const recipient = pkg.recipients[recipientIndex];
     if (!recipient.authToken || recipient.authToken.length === 0) {
-      throw new Error('Missing required Freebird authorization token for recipient');
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token for recipient');
     }
 
     // Verify ownership proof
     if (!pkg.ownershipProof) {
-      throw new Error('Missing required ownership proof');
+      throw new ValidationError('ownership_missing', 'Missing required ownership proof');
     }
     const ownershipValid = await OwnershipProof.verify(pkg.ownershipProof, pkg.nullifier);
     if (!ownershipValid) {
-      throw new Error('Invalid ownership proof');
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proof');
     }
 
     ScarbuckToken.assertSourceWasSpendable(pkg.sourceCreatedAt, pkg.proof.timestamp);
@@ -749,7 +1074,8 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: pkg.proof.timestamp
+      createdAt: pkg.proof.timestamp,
+      denominated: ScarbuckToken.receivedDenomination(pkg, recipient.amount)
     });
   }
 
@@ -762,7 +1088,8 @@ export class ScarbuckToken {
       amount: this.amount,
       spent: this.spent,
       createdAt: this.createdAt,
-      expiresAt: this.createdAt + this.maxTokenAge
+      expiresAt: this.createdAt + this.maxTokenAge,
+      denominated: this.denominated
     };
   }
 
@@ -776,7 +1103,8 @@ export class ScarbuckToken {
       amount: this.amount,
       secret: new Uint8Array(this.secret),
       spent: this.spent,
-      createdAt: this.createdAt
+      createdAt: this.createdAt,
+      denominated: this.denominated
     };
   }
 
@@ -799,11 +1127,16 @@ export class ScarbuckToken {
    * Create a Hash Time-Locked Contract (HTLC) transfer
    *
    * Conditional payment that can be unlocked with a hash preimage
-   * or refunded after a timeout.
+   * or refunded after a timeout. A 'hash-time' condition combines both:
+   * the recipient claims with the preimage before the timelock, and the
+   * refund key takes the funds back from the timelock on.
+   *
+   * The token's nullifier is published now, like any spend; the claim or
+   * refund publishes the lock's own settlement nullifier.
    *
    * @param to - Recipient's public key
-   * @param condition - HTLC condition (hash or time lock)
-   * @param refundKey - Public key for refund (if timelock expires)
+   * @param condition - HTLC condition (hash, time or hash-time lock)
+   * @param refundKey - Public key for refund (required with a timelock)
    * @returns HTLC package
    */
   async transferHTLC(
@@ -814,15 +1147,12 @@ export class ScarbuckToken {
     this.assertSpendable();
 
     // Validate condition
-    if (condition.type === 'hash') {
-      if (!condition.hashlock) {
-        throw new Error('Hash condition requires hashlock');
-      }
-    } else if (condition.type === 'time') {
-      if (!condition.timelock) {
-        throw new Error('Time condition requires timelock');
-      }
-      if (condition.timelock <= Date.now()) {
+    const problem = conditionProblem(condition);
+    if (problem) {
+      throw new Error(problem);
+    }
+    if (isTimeLocked(condition)) {
+      if (condition.timelock! <= Date.now()) {
         throw new Error('Timelock must be in the future');
       }
       if (!refundKey) {
@@ -849,22 +1179,19 @@ export class ScarbuckToken {
       authToken,
       nullifier,
       condition,
-      refundPublicKey: refundKey
+      refundPublicKey: refundKey,
+      denominated: this.denominated || undefined
     };
 
     // Hash package for timestamping
-    const pkgHash = Crypto.hashString(JSON.stringify(pkg));
+    const pkgHash = Crypto.hashHTLCPackage(pkg);
 
     // Timestamp with Witness
     const proof = await this.witness.timestamp(pkgHash);
 
-    // NOTE: Do NOT publish nullifier here. HTLC is a two-phase protocol:
-    //   Phase 1 (now): Lock funds — token is marked spent locally but nullifier
-    //     is NOT broadcast. This preserves the ability to refund.
-    //   Phase 2 (receiveHTLC or refundHTLC): The nullifier is published when
-    //     the HTLC is resolved, preventing double-spend at settlement time.
-    // Publishing at lock time would make refunds impossible since the gossip
-    // network would already consider the token spent.
+    // Publish the token's nullifier: once locked it can only be claimed or
+    // refunded, both under the lock's settlement nullifier
+    await this.gossip.publish(nullifier, proof, { packageFields: packageHashInput('htlc', pkg), ownershipProof });
 
     // Mark as spent locally (prevents sender from double-spending)
     this.spent = true;
@@ -881,7 +1208,7 @@ export class ScarbuckToken {
    *
    * @param pkg - HTLC package
    * @param recipientSecret - Recipient's secret key
-   * @param preimage - Hash preimage to unlock (for hash-locked HTLCs)
+   * @param preimage - Hash preimage to unlock (for hash and hash-time HTLCs)
    * @param auth - Admission authorization client
    * @param witness - Witness client
    * @param gossip - Gossip network
@@ -898,56 +1225,61 @@ export class ScarbuckToken {
     // Verify the transfer proof
     const valid = await witness.verify(pkg.proof);
     if (!valid) {
-      throw new Error('Invalid HTLC proof');
+      throw new ValidationError('witness_invalid', 'Invalid HTLC proof');
     }
     ScarbuckToken.assertProofCoversHash(
       pkg.proof.hash,
-      ScarbuckToken.hashHTLCPackage(pkg),
-      'HTLC'
+      Crypto.hashHTLCPackage(pkg),
+      'HTLC',
+      Crypto.legacyPackageHash('htlc', pkg)
     );
 
     // Verify Freebird admission token is present. Single-use verification
     // happens at validation boundaries.
     if (!pkg.authToken || pkg.authToken.length === 0) {
-      throw new Error('Missing required Freebird authorization token for HTLC');
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token for HTLC');
     }
 
     // Verify ownership proof
     if (!pkg.ownershipProof) {
-      throw new Error('Missing required ownership proof');
+      throw new ValidationError('ownership_missing', 'Missing required ownership proof');
     }
     const ownershipValid = await OwnershipProof.verify(pkg.ownershipProof, pkg.nullifier);
     if (!ownershipValid) {
-      throw new Error('Invalid ownership proof');
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proof');
     }
 
     ScarbuckToken.assertSourceWasSpendable(pkg.sourceCreatedAt, pkg.proof.timestamp);
 
-    // Check condition
-    if (pkg.condition.type === 'hash') {
-      // Hash-locked: verify preimage
+    // Check condition: the preimage must open any hashlock, and any
+    // timelock must still be running (from then on only a refund works)
+    const problem = conditionProblem(pkg.condition);
+    if (problem) {
+      throw new ValidationError('malformed_package', problem);
+    }
+    if (isHashLocked(pkg.condition)) {
       if (!preimage) {
-        throw new Error('Preimage required for hash-locked HTLC');
-      }
-
-      const hash = Crypto.hashString(Crypto.toHex(preimage));
-      if (hash !== pkg.condition.hashlock) {
-        throw new Error('Invalid preimage for hashlock');
+        throw new ValidationError('condition_failed', 'Preimage required for hash-locked HTLC');
       }
-    } else if (pkg.condition.type === 'time') {
-      // Time-locked: check if timelock has expired for recipient
-      // Recipient can claim before expiry, refunder can claim after expiry
-      if (pkg.condition.timelock && Date.now() < pkg.condition.timelock) {
-        // Timelock hasn't expired - recipient can claim
-        // This is the normal case
-      } else {
-        throw new Error('Timelock expired - use refundHTLC instead');
+      if (!preimageMatches(pkg.condition, preimage)) {
+        throw new ValidationError('condition_failed', 'Invalid preimage for hashlock');
       }
     }
+    if (settlementWindow(pkg.condition) === 'refund') {
+      throw new ValidationError('condition_failed', 'Timelock expired - use refundHTLC instead');
+    }
 
-    // Phase 2: Publish nullifier now that the HTLC is being claimed.
-    // This prevents the sender from also refunding the same HTLC.
-    await gossip.publish(pkg.nullifier, pkg.proof);
+    const denominated = ScarbuckToken.receivedDenomination(pkg, pkg.amount);
+
+    // Publish the settlement nullifier, which stops the sender from also
+    // refunding. The preimage goes with it, so the other side of a swap
+    // can claim too.
+    await ScarbuckToken.publishSettlement(
+      pkg,
+      recipientSecret,
+      gossip,
+      isHashLocked(pkg.condition) ? preimage : undefined
+    );
 
     // Create new token for recipient
     return new ScarbuckToken({
@@ -957,13 +1289,18 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: pkg.proof.timestamp
+      createdAt: pkg.proof.timestamp,
+      denominated
     });
   }
 
   /**
    * Refund an HTLC transfer after timelock expires
    *
+   * Works for 'time' and 'hash-time' HTLCs. Once refunded, the published
+   * settlement nullifier stops the recipient from also claiming, even with
+   * the preimage.
+   *
    * @param pkg - HTLC package
    * @param refundSecret - Refund key's secret
    * @param auth - Admission authorization client
@@ -981,45 +1318,48 @@ export class ScarbuckToken {
     // Verify the transfer proof
     const valid = await witness.verify(pkg.proof);
     if (!valid) {
-      throw new Error('Invalid HTLC proof');
+      throw new ValidationError('witness_invalid', 'Invalid HTLC proof');
     }
     ScarbuckToken.assertProofCoversHash(
       pkg.proof.hash,
-      ScarbuckToken.hashHTLCPackage(pkg),
-      'HTLC'
+      Crypto.hashHTLCPackage(pkg),
+      'HTLC',
+      Crypto.legacyPackageHash('htlc', pkg)
     );
 
     // Verify Freebird admission token is present. Single-use verification
     // happens in TransferValidator.
     if (!pkg.authToken || pkg.authToken.length === 0) {
-      throw new Error('Missing required Freebird authorization token for HTLC refund');
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token for HTLC refund');
     }
 
     ScarbuckToken.assertSourceWasSpendable(pkg.sourceCreatedAt, pkg.proof.timestamp);
 
     // Verify this is a time-locked HTLC
-    if (pkg.condition.type !== 'time') {
-      throw new Error('Only time-locked HTLCs can be refunded');
+    if (!isTimeLocked(pkg.condition)) {
+      throw new ValidationError('malformed_package', 'Only time-locked HTLCs can be refunded');
     }
 
     // Verify timelock has expired
-    if (!pkg.condition.timelock || Date.now() < pkg.condition.timelock) {
-      throw new Error('Timelock has not expired yet');
+    if (!pkg.condition.timelock || settlementWindow(pkg.condition) !== 'refund') {
+      throw new ValidationError('condition_failed', 'Timelock has not expired yet');
     }
 
     if (!pkg.refundPublicKey) {
-      throw new Error('No refund key specified in HTLC');
+      throw new ValidationError('malformed_package', 'No refund key specified in HTLC');
     }
 
     // Verify refundSecret corresponds to refundPublicKey
     const derivedPublicKey = Crypto.hash(refundSecret, 'PUBLIC_KEY');
     if (!Crypto.constantTimeEqual(derivedPublicKey, pkg.refundPublicKey.bytes)) {
-      throw new Error('Invalid refund key: secret does not match refundPublicKey');
+      throw new ValidationError('ownership_invalid', 'Invalid refund key: secret does not match refundPublicKey');
     }
 
-    // Phase 2: Publish nullifier now that the HTLC is being refunded.
-    // This prevents the recipient from also claiming the same HTLC.
-    await gossip.publish(pkg.nullifier, pkg.proof);
+    const denominated = ScarbuckToken.receivedDenomination(pkg, pkg.amount);
+
+    // Publish the settlement nullifier, which stops the recipient from
+    // also claiming, even with the preimage
+    await ScarbuckToken.publishSettlement(pkg, refundSecret, gossip);
 
     // Create new token for refund recipient
     return new ScarbuckToken({
@@ -1029,7 +1369,157 @@ export class ScarbuckToken {
       auth,
       witness,
       gossip,
-      createdAt: pkg.proof.timestamp
+      createdAt: pkg.proof.timestamp,
+      denominated
+    });
+  }
+
+  /**
+   * Lock the token to an m-of-n policy
+   *
+   * The locked value can only be spent with approvals from the policy's
+   * threshold of keys (see receiveMultiSig). Like an HTLC, the token's
+   * nullifier is published now; spending the lock publishes the lock's
+   * own spend nullifier.
+   *
+   * @param policy - Threshold and ownership keys (see multiSigKey)
+   * @returns Multisig package, held by the keyholders
+   */
+  async transferMultiSig(policy: MultiSigPolicy): Promise<MultiSigPackage> {
+    this.assertSpendable();
+
+    const problem = policyProblem(policy);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    // Generate nullifier
+    const nullifier = Crypto.hash(this.secret, this.id);
+
+    // Commit to the policy in place of a recipient key
+    const commitment = await this.createRecipientCommitment({ bytes: multiSigPolicyHash(policy) });
+    const authToken = await this.auth.issueAdmissionToken();
+
+    // Create Scarcity ownership proof bound to nullifier
+    const ownershipProof = await OwnershipProof.create(this.secret, nullifier);
+
+    const pkg = {
+      tokenId: this.id,
+      amount: this.amount,
+      sourceCreatedAt: this.createdAt,
+      commitment,
+      authToken,
+      nullifier,
+      policy,
+      denominated: this.denominated || undefined
+    };
+
+    // Timestamp with Witness
+    const proof = await this.witness.timestamp(Crypto.hashMultiSigPackage(pkg));
+
+    // Publish the token's nullifier: once locked it can only be spent
+    // under the lock's spend nullifier
+    await this.gossip.publish(nullifier, proof, { packageFields: packageHashInput('multisig', pkg), ownershipProof });
+
+    // Mark as spent locally (prevents sender from double-spending)
+    this.spent = true;
+
+    return {
+      ...pkg,
+      proof,
+      ownershipProof
+    };
+  }
+
+  /**
+   * Spend a multisig lock to a recipient
+   *
+   * @param pkg - Multisig package
+   * @param approvals - Approvals of this recipient from the policy's keys (see approveMultiSig)
+   * @param recipientSecret - Recipient's secret key; approvals name its public key
+   * @param auth - Admission authorization client
+   * @param witness - Witness client
+   * @param gossip - Gossip network
+   * @returns New ScarbuckToken instance for recipient
+   */
+  static async receiveMultiSig(
+    pkg: MultiSigPackage,
+    approvals: readonly Uint8Array[],
+    recipientSecret: Uint8Array,
+    auth: AdmissionClient,
+    witness: WitnessClient,
+    gossip: GossipNetwork
+  ): Promise<ScarbuckToken> {
+    // Verify the lock proof
+    const valid = await witness.verify(pkg.proof);
+    if (!valid) {
+      throw new ValidationError('witness_invalid', 'Invalid multisig proof');
+    }
+    ScarbuckToken.assertProofCoversHash(
+      pkg.proof.hash,
+      Crypto.hashMultiSigPackage(pkg),
+      'multisig'
+    );
+
+    // Verify Freebird admission token is present. Single-use verification
+    // happens at validation boundaries.
+    if (!pkg.authToken || pkg.authToken.length === 0) {
+      throw new ValidationError('admission_missing', 'Missing required Freebird authorization token for multisig');
+    }
+
+    // Verify ownership proof
+    if (!pkg.ownershipProof) {
+      throw new ValidationError('ownership_missing', 'Missing required ownership proof');
+    }
+    const ownershipValid = await OwnershipProof.verify(pkg.ownershipProof, pkg.nullifier);
+    if (!ownershipValid) {
+      throw new ValidationError('ownership_invalid', 'Invalid ownership proof');
+    }
+
+    ScarbuckToken.assertSourceWasSpendable(pkg.sourceCreatedAt, pkg.proof.timestamp);
+
+    const problem = policyProblem(pkg.policy);
+    if (problem) {
+      throw new ValidationError('malformed_package', problem);
+    }
+
+    // Enough keyholders must have approved this recipient
+    const recipient = { bytes: Crypto.hash(recipientSecret, 'PUBLIC_KEY') };
+    const approvers = await approvingKeys(pkg, recipient, approvals);
+    if (approvers.length < pkg.policy.threshold) {
+      throw new ValidationError(
+        'condition_failed',
+        `Multisig needs ${pkg.policy.threshold} approvals, got ${approvers.length}`,
+        { approvals: approvers.length, threshold: pkg.policy.threshold }
+      );
+    }
+
+    // A lock is spent only once, even if keyholders approved two recipients
+    const spendNullifier = multiSigSpendNullifier(pkg);
+    if (await gossip.checkNullifier(spendNullifier) > 0) {
+      throw new ValidationError('already_settled', 'Multisig lock was already spent', {
+        nullifier: Crypto.toHex(spendNullifier)
+      });
+    }
+
+    const denominated = ScarbuckToken.receivedDenomination(pkg, pkg.amount);
+
+    // Publish the spend nullifier, which stops the keyholders from also
+    // paying another recipient
+    await gossip.publish(spendNullifier, pkg.proof, {
+      packageFields: packageHashInput('multisig', pkg),
+      ownershipProof: await OwnershipProof.create(recipientSecret, spendNullifier)
+    });
+
+    return new ScarbuckToken({
+      id: pkg.tokenId,
+      amount: pkg.amount,
+      secret: recipientSecret,
+      auth,
+      witness,
+      gossip,
+      createdAt: pkg.proof.timestamp,
+      denominated
     });
   }
 }
@@ -41,6 +41,21 @@ export interface SophiaWitnessSignedAttestation {
   readonly signatures: SophiaWitnessSignatures;
 }
 
+/** One level of a Merkle inclusion path; `left` means the sibling sits on the left */
+export interface MerkleStep {
+  readonly sibling: string;
+  readonly left: boolean;
+}
+
+/**
+ * Inclusion of an attestation's hash in a batch whose Merkle root Witness
+ * timestamped. Signatures and timestamp are those of the root.
+ */
+export interface MerkleInclusion {
+  readonly root: string;
+  readonly path: MerkleStep[];
+}
+
 export interface Attestation {
   readonly hash: string;
   readonly timestamp: number;
@@ -49,6 +64,8 @@ export interface Attestation {
   readonly canonical?: SophiaWitnessSignedAttestation;
   /** Deprecated compatibility cache; prefer canonical. */
   readonly raw?: any;
+  /** Present when `hash` was timestamped as part of a batch */
+  readonly merkle?: MerkleInclusion;
 }
 
 export interface TransferPackage {
@@ -61,6 +78,22 @@ export interface TransferPackage {
   readonly nullifier: Uint8Array;
   readonly proof: Attestation;
   readonly ownershipProof?: Uint8Array;
+  readonly paymentRequest?: string; // Hex hash of the payment request this transfer pays
+  readonly denominated?: boolean; // Outputs are denominated coins (see denominations.ts)
+}
+
+/**
+ * A recipient's request for payment, handed to the payer in place of a
+ * bare public key
+ */
+export interface PaymentRequest {
+  readonly recipient: PublicKey;
+  readonly amount: number;
+  readonly memoHash: string; // Hex SHA-256 of the memo; the memo itself stays between the parties
+  readonly expiresAt: number; // ms since epoch; payments timestamped later do not satisfy the request
+  readonly nonce: string; // Hex; keeps otherwise identical requests apart
+  readonly merchantKey?: Uint8Array; // Ed25519 key of the merchant vouching for the request
+  readonly signature?: Uint8Array; // Merchant's signature over the request hash
 }
 
 export interface SplitPackage {
@@ -77,6 +110,35 @@ export interface SplitPackage {
   readonly nullifier: Uint8Array;
   readonly proof: Attestation;
   readonly ownershipProof?: Uint8Array;
+  readonly denominated?: boolean; // Outputs are denominated coins (see denominations.ts)
+}
+
+/**
+ * One output of a payment package
+ */
+export interface PaymentOutput {
+  readonly tokenId: string;
+  readonly amount: number;
+  readonly commitment: Uint8Array;
+  readonly authToken?: Uint8Array;
+}
+
+/**
+ * A payment with change: one spend pays the recipient and returns the
+ * rest to the sender under one Witness timestamp
+ */
+export interface PaymentPackage {
+  readonly sourceTokenId: string;
+  readonly sourceAmount: number;
+  /** Scarcity economic timestamp for the token being spent. */
+  readonly sourceCreatedAt: number;
+  readonly payment: PaymentOutput; // The recipient's output
+  readonly change?: PaymentOutput; // The sender's change; absent when the whole token is paid
+  readonly paymentRequest?: string; // Hex hash of the payment request this pays
+  readonly nullifier: Uint8Array;
+  readonly proof: Attestation;
+  readonly ownershipProof?: Uint8Array;
+  readonly denominated?: boolean; // Outputs are denominated coins (see denominations.ts)
 }
 
 export interface MergePackage {
@@ -93,6 +155,7 @@ export interface MergePackage {
   }>;
   readonly proof: Attestation;
   readonly ownershipProofs?: Uint8Array[];
+  readonly denominated?: boolean; // Outputs are denominated coins (see denominations.ts)
 }
 
 export interface MultiPartyTransfer {
@@ -110,12 +173,13 @@ export interface MultiPartyTransfer {
   readonly nullifier: Uint8Array;
   readonly proof: Attestation;
   readonly ownershipProof?: Uint8Array;
+  readonly denominated?: boolean; // Outputs are denominated coins (see denominations.ts)
 }
 
 export interface HTLCCondition {
-  readonly type: 'hash' | 'time';
+  readonly type: 'hash' | 'time' | 'hash-time';  // hash-time: claim with preimage before timelock, else refund
   readonly hashlock?: string;  // SHA-256 hash for hash-locked
-  readonly timelock?: number;  // Unix timestamp for time-locked
+  readonly timelock?: number;  // Unix timestamp in ms for time-locked
   readonly preimage?: Uint8Array;  // Secret preimage for unlocking
 }
 
@@ -131,6 +195,30 @@ export interface HTLCPackage {
   readonly proof: Attestation;
   readonly ownershipProof?: Uint8Array;
   readonly refundPublicKey?: PublicKey;  // For refunds after timelock
+  readonly denominated?: boolean; // Outputs are denominated coins (see denominations.ts)
+}
+
+/**
+ * An m-of-n spending policy. The keys are ownership keys
+ * (OwnershipProof.publicKey), which identify who made a proof.
+ */
+export interface MultiSigPolicy {
+  readonly threshold: number;  // Approvals needed to spend (m)
+  readonly keys: readonly Uint8Array[];  // Ownership keys that may approve (n)
+}
+
+export interface MultiSigPackage {
+  readonly tokenId: string;
+  readonly amount: number;
+  /** Scarcity economic timestamp for the token being locked. */
+  readonly sourceCreatedAt: number;
+  readonly commitment: Uint8Array;
+  readonly authToken?: Uint8Array;
+  readonly nullifier: Uint8Array;
+  readonly policy: MultiSigPolicy;
+  readonly proof: Attestation;
+  readonly ownershipProof?: Uint8Array;
+  readonly denominated?: boolean; // Outputs are denominated coins (see denominations.ts)
 }
 
 export interface BridgePackage {
@@ -156,20 +244,246 @@ export interface PeerConnection {
   isConnected(): boolean;
   setMessageHandler?(handler: (data: GossipMessage) => void): void;
   disconnect?(): void;
+  // Called once the hello handshake settles, so the transport can switch wire format
+  setCapabilities?(capabilities: NegotiatedCapabilities): void;
+}
+
+export type GossipMessageType =
+  | 'nullifier'
+  | 'ping'
+  | 'pong'
+  | 'sync-digest'
+  | 'sync-request'
+  | 'sync-response'
+  | 'nullifier-request'
+  | 'nullifier-response'
+  | 'double-spend-evidence'
+  | 'shard-announce'
+  | 'shard-query'
+  | 'shard-answer'
+  | 'hello';
+
+/**
+ * Fingerprint of one hash-range bucket of a nullifier set.
+ * `fingerprint` is the XOR of SHA-256(nullifier) over the bucket, hex-encoded.
+ */
+export interface BucketDigest {
+  readonly bucket: number;
+  readonly count: number;
+  readonly fingerprint: string;
+}
+
+/**
+ * Compact summary of a nullifier set used for anti-entropy reconciliation.
+ * Only non-empty buckets are listed.
+ */
+export interface NullifierSetDigest {
+  readonly bucketCount: number;
+  readonly buckets: BucketDigest[];
+}
+
+/**
+ * Bloom filter over a peer's recently seen nullifiers (advertised in pongs).
+ * Covers nullifiers first seen at or after `since`.
+ */
+export interface NullifierFilter {
+  readonly bits: Uint8Array;
+  readonly hashCount: number;
+  readonly tweak: number;
+  readonly count: number;
+  readonly since: number;
+}
+
+/**
+ * A node's position in the sharded nullifier keyspace.
+ * Light nodes hold no shard of their own; prefixes are extra subscriptions.
+ */
+export interface ShardAnnouncement {
+  readonly nodeId: Uint8Array;
+  readonly light: boolean;
+  readonly prefixes: string[];
+}
+
+/**
+ * Wire protocol versions and features a node supports, advertised in 'hello'.
+ * `features` is a bit set of GossipFeature flags.
+ */
+export interface PeerCapabilities {
+  readonly version: number;
+  readonly minVersion: number;
+  readonly features: number;
+  readonly maxMessageBytes: number;
+}
+
+/** What two peers agreed to use with each other after exchanging 'hello' */
+export interface NegotiatedCapabilities {
+  readonly version: number;
+  readonly features: number; // Supported by both sides
+  readonly remoteFeatures: number; // As advertised by the peer (e.g. its ownership-proof requirement)
+  readonly maxMessageBytes: number;
+}
+
+/**
+ * What the publisher of a nullifier knows about its spend, gossiped with it
+ * so that a conflicting spend can later be proven
+ */
+export interface SpendDetails {
+  readonly packageFields: Uint8Array; // Hashed fields of the spent package (packageHashInput); hash to proof.hash
+  readonly ownershipProof?: Uint8Array;
+  readonly preimage?: Uint8Array; // Opens the hashlock of a claimed HTLC, so a swap counterparty can claim too
+}
+
+/**
+ * One spend of a nullifier as observed on the gossip network. Evidence only
+ * counts a claim whose package fields and ownership proof are present and
+ * valid; the optional fields describe what arrives on the wire.
+ */
+export interface SpendClaim {
+  readonly proof: Attestation;
+  readonly packageFields?: Uint8Array;
+  readonly ownershipProof?: Uint8Array;
+}
+
+/**
+ * Two valid Witness attestations over different packages that spend the
+ * same nullifier. Either claim alone is a normal spend; the pair proves the
+ * token was spent twice.
+ */
+export interface DoubleSpendEvidence {
+  readonly nullifier: Uint8Array;
+  readonly first: SpendClaim;
+  readonly second: SpendClaim;
+  readonly detectedAt: number;
+}
+
+/** A nullifier and its proofs, as transferred during reconciliation */
+export interface SyncEntry {
+  readonly nullifier: Uint8Array;
+  readonly proof: Attestation;
+  readonly packageFields?: Uint8Array;
+  readonly ownershipProof?: Uint8Array;
+  readonly preimage?: Uint8Array;
 }
 
 export interface GossipMessage {
-  readonly type: 'nullifier' | 'ping' | 'pong';
+  readonly type: GossipMessageType;
   readonly nullifier?: Uint8Array;
   readonly proof?: Attestation;
   readonly timestamp: number;
   readonly ownershipProof?: Uint8Array;  // Optional Scarcity ownership proof for spam resistance
+  readonly packageFields?: Uint8Array;   // Hashed fields of the package `proof` attests (see SpendDetails)
+  readonly preimage?: Uint8Array;        // Preimage of a hash-locked HTLC claim; packageFields bind it to the nullifier
+  // Set reconciliation (sync-digest / sync-request / sync-response)
+  readonly digest?: NullifierSetDigest;
+  readonly syncBuckets?: number[];
+  readonly syncBucketCount?: number;  // Bucket count syncBuckets index into (default: the receiver's own)
+  readonly nullifierKeys?: string[];  // Hex nullifiers the requester already holds in syncBuckets
+  readonly syncRound?: number;        // 0 = initial request, 1 = counter-request
+  readonly entries?: SyncEntry[];
+  // Filter digests (pong / nullifier-request)
+  readonly filter?: NullifierFilter;
+  readonly evidence?: DoubleSpendEvidence;
+  // Sharding (shard-announce / shard-query / shard-answer)
+  readonly shard?: ShardAnnouncement;
+  readonly queryId?: string;
+  readonly confidence?: number;
+  // Propagation tracing: gossip hops travelled so far (absent from the publisher)
+  readonly hops?: number;
+  // Capability handshake (hello)
+  readonly capabilities?: PeerCapabilities;
+  // Envelope authentication: Ed25519 key of the direct sender and its signature
+  readonly sender?: Uint8Array;
+  readonly signature?: Uint8Array;
+  readonly recipient?: Uint8Array;  // Identity key the envelope was signed for (absent until the sender knows it)
 }
 
+/**
+ * Why a package was accepted or rejected, for callers that branch on it
+ * rather than on the human-readable reason
+ */
+export type ValidationCode =
+  | 'ok'
+  | 'expired' // Proof older than the validity window
+  | 'source_expired' // Source token had expired when it was spent
+  | 'source_timestamp_invalid' // Source creation timestamp missing or in the future
+  | 'hash_mismatch' // Witness proof does not cover the package contents
+  | 'witness_invalid' // Witness attestation failed verification
+  | 'gossip_double_spend' // Nullifier seen more than once, or conflicting attestations
+  | 'witness_double_spend' // Witness federation already holds the nullifier
+  | 'admission_missing'
+  | 'admission_invalid'
+  | 'ownership_missing'
+  | 'ownership_invalid'
+  | 'malformed_package' // Bad index, amounts that do not add up, missing fields
+  | 'condition_failed' // HTLC preimage or timelock not satisfied, too few multisig approvals
+  | 'already_settled' // HTLC claimed or refunded, multisig lock spent, bridge already minted
+  | 'federation_mismatch'
+  | 'not_locked' // Bridge source lock not found in the source federation
+  | 'policy_violation' // An acceptance policy rule other than confidence failed
+  | 'request_mismatch' // Package does not pay the payment request: recipient, amount or request hash
+  | 'request_expired' // Payment timestamped after the payment request expired
+  | 'request_invalid' // Payment request merchant signature missing or invalid
+  | 'low_confidence';
+
+export type ValidationDetails = Readonly<Record<string, string | number | boolean>>;
+
 export interface ValidationResult {
   readonly valid: boolean;
   readonly confidence: number;
+  readonly code: ValidationCode;
   readonly reason?: string;
+  readonly details?: ValidationDetails; // Values behind the reason, e.g. ages and thresholds
+  readonly policy?: PolicyEvaluation; // Set when the validator has an acceptance policy
+}
+
+/**
+ * How far a progressive validation has got
+ */
+export type ValidationStage =
+  | 'verified' // Package, proof and ownership checks passed
+  | 'witness' // Gossip and Witness federation hold no conflicting spend
+  | 'admitted' // Admission token accepted
+  | 'settling' // Waiting for the spend to propagate
+  | 'double-spend' // Final: a second spend was found
+  | 'done'; // Final: accepted or rejected for another reason
+
+export interface ValidationUpdate {
+  readonly stage: ValidationStage;
+  readonly confidence: number; // Confidence so far; the result's on the last update
+  readonly elapsed: number; // ms since validation started
+  readonly result?: ValidationResult; // Set on the last update only
+}
+
+/**
+ * Acceptance rules for one range of amounts. Unset fields fall back to
+ * the validator's own configuration.
+ */
+export interface AcceptanceTier {
+  readonly maxAmount?: number; // Covers amounts up to and including this; omit for no upper bound
+  readonly minConfidence?: number; // 0-1
+  readonly waitTime?: number; // milliseconds
+  readonly minWitnessDepth?: number;
+  readonly minOutboundPeers?: number;
+  readonly requireOwnershipProof?: boolean;
+  readonly doubleSpendThreshold?: number; // Gossip confidence treated as a double-spend (default: 0.5)
+}
+
+export interface AcceptancePolicy {
+  readonly tiers: readonly AcceptanceTier[]; // The first tier covering an amount applies
+}
+
+export type PolicyRule = 'minWitnessDepth' | 'minOutboundPeers' | 'requireOwnershipProof' | 'minConfidence';
+
+export interface PolicyRuleResult {
+  readonly rule: PolicyRule;
+  readonly passed: boolean;
+  readonly required: number | boolean;
+  readonly actual: number | boolean;
+}
+
+export interface PolicyEvaluation {
+  readonly tier: number; // Index into AcceptancePolicy.tiers, or -1 if none covers the amount
+  readonly rules: readonly PolicyRuleResult[]; // Rules evaluated, in order
 }
 
 export interface ConfidenceParams {
@@ -201,8 +515,14 @@ export interface WitnessClient {
 }
 
 export interface GossipNetwork {
-  publish(nullifier: Uint8Array, proof: Attestation): Promise<void>;
+  publish(nullifier: Uint8Array, proof: Attestation, spend?: SpendDetails): Promise<void>;
   checkNullifier(nullifier: Uint8Array): Promise<number>;
   setReceiveHandler(handler: (data: GossipMessage) => Promise<void>): void;
   readonly peers: PeerConnection[];
+  /** Proof that the nullifier was spent twice, if any has been observed */
+  getDoubleSpendEvidence?(nullifier: Uint8Array): DoubleSpendEvidence | null;
+  /** Call listener whenever the nullifier is seen or proven double-spent; returns an unsubscribe function */
+  watchNullifier?(nullifier: Uint8Array, listener: () => void): () => void;
+  /** Preimage a hash-locked HTLC claim published for the hashlock, if one has been seen */
+  getPreimage?(hashlock: string): Uint8Array | undefined;
 }
@@ -0,0 +1,41 @@
+/**
+ * ValidationError: a rejected package, thrown by the receive methods
+ *
+ * Carries the same code and details a TransferValidator result would, so
+ * callers can branch on `code` whichever API they used.
+ */
+
+import type { ValidationCode, ValidationDetails, ValidationResult } from './types.js';
+
+export class ValidationError extends Error {
+  readonly code: ValidationCode;
+  readonly details?: ValidationDetails;
+
+  constructor(code: ValidationCode, message: string, details?: ValidationDetails) {
+    super(message);
+    this.name = 'ValidationError';
+    this.code = code;
+    this.details = details;
+  }
+
+  /**
+   * The rejection as a validation result
+   */
+  toResult(): ValidationResult {
+    return rejection(this.code, this.message, this.details);
+  }
+}
+
+/**
+ * Build a failed validation result
+ */
+export function rejection(
+  code: ValidationCode,
+  reason: string,
+  details?: ValidationDetails,
+  confidence = 0
+): ValidationResult {
+  return details
+    ? { valid: false, confidence, code, reason, details }
+    : { valid: false, confidence, code, reason };
+}
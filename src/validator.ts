@@ -6,14 +6,37 @@
  * 2. Witness federation check (deterministic)
  * 3. Tunable wait period for propagation
  * 4. Confidence scoring
+ *
+ * Split, payment, merge, multi-party, HTLC and bridge packages run through
+ * the same pipeline, so one acceptance policy covers every package kind.
  */
 
 import { DEFAULT_TOKEN_VALIDITY_MS } from './constants.js';
 import { Crypto } from './crypto.js';
+import { OwnershipProof } from './ownership.js';
+import { assertValidPolicy, resolveTier } from './policy.js';
+import { rejection } from './validation-error.js';
+import { hashPaymentRequest, requestCommitment, verifyPaymentRequest } from './payment-request.js';
+import { conditionProblem, htlcSettlementNullifier, isTimeLocked, preimageMatches, settlementWindow } from './htlc.js';
+import { policyProblem, approvingKeys, multiSigSpendNullifier } from './multisig.js';
+import type { ResolvedTier } from './policy.js';
 import type {
+  Attestation,
   TransferPackage,
+  PaymentRequest,
+  SplitPackage,
+  PaymentPackage,
+  MergePackage,
+  MultiPartyTransfer,
+  HTLCPackage,
+  MultiSigPackage,
+  BridgePackage,
+  PublicKey,
   ValidationResult,
+  ValidationUpdate,
   ConfidenceParams,
+  AcceptancePolicy,
+  PolicyRuleResult,
   AdmissionClient,
   WitnessClient,
   GossipNetwork
@@ -25,11 +48,51 @@ export interface ValidatorConfig {
   readonly freebird?: AdmissionClient;
   readonly gossip: GossipNetwork;
   readonly witness: WitnessClient;
-  readonly waitTime?: number; // milliseconds
+  readonly waitTime?: number; // milliseconds; tune from NullifierGossip.getStats().propagation.latency
   readonly minConfidence?: number; // 0-1
   readonly maxTokenAge?: number; // Maximum allowed age of a transfer proof
+  readonly policy?: AcceptancePolicy; // Per-amount rules; unset tier fields fall back to the above
+  readonly progressInterval?: number; // ms between progress updates while waiting (default: 500)
+}
+
+export interface BridgeValidationOptions {
+  readonly sourceWitness?: WitnessClient; // Verifies the source lock proof (default: the validator's witness)
+  readonly federation?: string; // Reject packages bound for another federation
+}
+
+/**
+ * What a package claims, reduced to the checks every package kind shares
+ */
+interface SpendClaims {
+  readonly kind: string; // 'transfer', 'split', ... used in reasons
+  readonly amount: number; // Value the receiver gets; selects the policy tier
+  readonly proof: Attestation;
+  readonly expectedHash: string;
+  readonly legacyHash?: string; // Version-0 hash older proofs cover (see Crypto.legacyPackageHash)
+  readonly nullifiers: Uint8Array[];
+  readonly sourceCreatedAt: number[];
+  readonly authToken?: Uint8Array; // The receiver's admission token
+  readonly ownershipProofs?: readonly Uint8Array[]; // One per nullifier
+  readonly ownershipRequired?: boolean; // Required by the package kind, regardless of policy
+  // Set for packages whose nullifiers are published only on settlement
+  // (bridge mint): any sighting means it already settled
+  readonly settledReason?: string;
+  // For locks, which publish their nullifiers when made: the nullifier
+  // their settlement publishes (HTLC claim or refund, multisig spend). With settledReason,
+  // any sighting of it means the lock already settled.
+  readonly settlementNullifier?: Uint8Array;
+  readonly verifyProof?: (proof: Attestation) => Promise<boolean>;
+  // Kind-specific checks: amounts, conditions
+  readonly check?: () => Promise<ValidationResult | null>;
 }
 
+/**
+ * Gossip confidence above which a nullifier counts as seen more than once.
+ * For a legitimate transfer, the nullifier will be seen once (confidence ~0.1-0.4).
+ * For a double-spend, it will be seen multiple times (confidence > 0.5).
+ */
+const DOUBLE_SPEND_THRESHOLD = 0.5;
+
 export class TransferValidator {
   private readonly auth: AdmissionClient;
   private readonly gossip: GossipNetwork;
@@ -37,6 +100,8 @@ export class TransferValidator {
   private readonly waitTime: number;
   private readonly minConfidence: number;
   private readonly maxTokenAge: number;
+  private readonly progressInterval: number;
+  private policy?: AcceptancePolicy;
 
   constructor(config: ValidatorConfig) {
     this.auth = config.auth ?? config.freebird!;
@@ -50,45 +115,93 @@ export class TransferValidator {
     // Default to ~576 days (~1.58 years). See constants.ts for details.
     // Must match or be shorter than NullifierGossip's maxNullifierAge.
     this.maxTokenAge = config.maxTokenAge ?? DEFAULT_TOKEN_VALIDITY_MS;
+    this.progressInterval = config.progressInterval ?? 500;
+    if (config.policy) {
+      assertValidPolicy(config.policy);
+      this.policy = config.policy;
+    }
   }
 
-  private checkSourceAge(pkg: TransferPackage): ValidationResult | null {
-    if (typeof pkg.sourceCreatedAt !== 'number' || !Number.isFinite(pkg.sourceCreatedAt)) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Missing Scarcity source creation timestamp'
-      };
+  private checkSourceAge(sourceCreatedAt: number, spentAt: number): ValidationResult | null {
+    if (typeof sourceCreatedAt !== 'number' || !Number.isFinite(sourceCreatedAt)) {
+      return rejection('source_timestamp_invalid', 'Missing Scarcity source creation timestamp');
     }
 
-    const sourceAgeAtSpend = pkg.proof.timestamp - pkg.sourceCreatedAt;
+    const sourceAgeAtSpend = spentAt - sourceCreatedAt;
     if (sourceAgeAtSpend < -300_000) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Invalid Scarcity source creation timestamp'
-      };
+      return rejection('source_timestamp_invalid', 'Invalid Scarcity source creation timestamp', {
+        sourceCreatedAt,
+        spentAt
+      });
     }
 
     if (sourceAgeAtSpend > this.maxTokenAge) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: `Source token expired before spend. Age (${(sourceAgeAtSpend / 3600000).toFixed(1)}h) exceeds limit.`
-      };
+      return rejection(
+        'source_expired',
+        `Source token expired before spend. Age (${(sourceAgeAtSpend / 3600000).toFixed(1)}h) exceeds limit.`,
+        { ageMs: sourceAgeAtSpend, limitMs: this.maxTokenAge }
+      );
     }
 
     return null;
   }
 
-  private checkPackageHash(pkg: TransferPackage): ValidationResult | null {
-    const expectedHash = Crypto.hashTransferPackage(pkg);
-    if (pkg.proof.hash !== expectedHash) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Witness proof hash does not match transfer package'
-      };
+  /**
+   * Reject deterministically if the gossip layer holds proof of a second spend
+   */
+  private checkDoubleSpendEvidence(nullifier: Uint8Array): ValidationResult | null {
+    const evidence = this.gossip.getDoubleSpendEvidence?.(nullifier);
+    if (evidence) {
+      return rejection('gossip_double_spend', 'Double-spend proven by conflicting attestations', {
+        nullifier: Crypto.toHex(nullifier),
+        evidence: true
+      });
+    }
+    return null;
+  }
+
+  private checkPackageHash(
+    proof: Attestation,
+    expectedHash: string,
+    kind: string,
+    legacyHash?: string
+  ): ValidationResult | null {
+    if (proof.hash !== expectedHash && proof.hash !== legacyHash) {
+      return rejection('hash_mismatch', `Witness proof hash does not match ${kind} package`, {
+        expected: expectedHash,
+        actual: proof.hash
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Verify ownership proofs, each bound to the nullifier it spends
+   */
+  private async checkOwnership(
+    proofs: readonly Uint8Array[] | undefined,
+    nullifiers: Uint8Array[]
+  ): Promise<ValidationResult | null> {
+    if (!proofs || proofs.length !== nullifiers.length) {
+      return rejection('ownership_missing', 'Missing required ownership proof');
+    }
+    const results = await Promise.all(proofs.map((proof, i) => OwnershipProof.verify(proof, nullifiers[i])));
+    if (results.some(valid => !valid)) {
+      return rejection('ownership_invalid', 'Invalid ownership proof', { index: results.indexOf(false) });
+    }
+    return null;
+  }
+
+  /**
+   * Reject amounts that are not positive integers or do not add up
+   */
+  private checkAmounts(total: number, parts: number[], kind: string): ValidationResult | null {
+    if (parts.length === 0 || parts.some(amount => !Number.isSafeInteger(amount) || amount <= 0)) {
+      return rejection('malformed_package', `Invalid ${kind} amounts`);
+    }
+    const sum = parts.reduce((a, b) => a + b, 0);
+    if (sum !== total) {
+      return rejection('malformed_package', `Amounts (${sum}) do not add up to ${total}`, { sum, total });
     }
     return null;
   }
@@ -99,124 +212,662 @@ export class TransferValidator {
    * Returns validation result with confidence score.
    * Higher confidence = lower risk of double-spend.
    *
+   * Given a payment request, the package must also pay it: carry its
+   * hash, commit to its recipient, match its amount and be timestamped
+   * before it expired.
+   *
    * @param pkg - Transfer package to validate
+   * @param request - Payment request the transfer should pay
    * @returns Validation result with confidence score
    */
-  async validateTransfer(pkg: TransferPackage): Promise<ValidationResult> {
+  async validateTransfer(pkg: TransferPackage, request?: PaymentRequest): Promise<ValidationResult> {
+    return this.validateClaims(this.transferClaims(pkg, request));
+  }
+
+  /**
+   * Validate a transfer package, reporting progress as it settles
+   *
+   * Runs the same checks as validateTransfer. Yields an update after the
+   * package checks, after the gossip and Witness nullifier checks, after
+   * admission, and then every progressInterval ms during the propagation
+   * wait, or sooner when gossip sees the nullifier again. A double-spend
+   * that arrives during the wait ends the stream at once. The last update
+   * carries the result.
+   *
+   * @param pkg - Transfer package to validate
+   * @param request - Payment request the transfer should pay
+   * @returns Updates with confidence so far, ending with the result
+   */
+  async *validateTransferProgressive(pkg: TransferPackage, request?: PaymentRequest): AsyncGenerator<ValidationUpdate> {
+    const started = Date.now();
+    const run = this.runClaims(this.transferClaims(pkg, request), started);
+
+    let step = await run.next();
+    for (; !step.done; step = await run.next()) {
+      yield step.value;
+    }
+
+    const result = step.value;
+    const doubleSpent = result.code === 'gossip_double_spend' || result.code === 'witness_double_spend';
+    yield {
+      stage: doubleSpent ? 'double-spend' : 'done',
+      confidence: result.confidence,
+      elapsed: Date.now() - started,
+      result
+    };
+  }
+
+  private transferClaims(pkg: TransferPackage, request?: PaymentRequest): SpendClaims {
+    return {
+      kind: 'transfer',
+      amount: pkg.amount,
+      proof: pkg.proof,
+      expectedHash: Crypto.hashTransferPackage(pkg),
+      legacyHash: Crypto.legacyPackageHash('transfer', pkg),
+      nullifiers: [pkg.nullifier],
+      sourceCreatedAt: [pkg.sourceCreatedAt],
+      authToken: pkg.authToken,
+      ownershipProofs: pkg.ownershipProof && [pkg.ownershipProof],
+      check: request && (async () => this.checkPaymentRequest(pkg, pkg, 'Transfer', request))
+    };
+  }
+
+  /**
+   * Reject a package that does not pay the given request
+   *
+   * @param pkg - The package: its request hash and proof
+   * @param paid - The output paying the request
+   */
+  private checkPaymentRequest(
+    pkg: { readonly paymentRequest?: string; readonly proof: Attestation },
+    paid: { readonly amount: number; readonly commitment: Uint8Array },
+    kind: string,
+    request: PaymentRequest
+  ): ValidationResult | null {
+    if (!verifyPaymentRequest(request)) {
+      return rejection('request_invalid', 'Payment request merchant signature is invalid');
+    }
+
+    const requestHash = hashPaymentRequest(request);
+    if (pkg.paymentRequest !== requestHash) {
+      return rejection('request_mismatch', `${kind} is not bound to this payment request`, {
+        expected: requestHash,
+        actual: pkg.paymentRequest ?? 'none'
+      });
+    }
+    if (paid.amount !== request.amount) {
+      return rejection('request_mismatch', `${kind} amount ${paid.amount} does not match requested ${request.amount}`, {
+        amount: paid.amount,
+        requested: request.amount
+      });
+    }
+    if (!Crypto.constantTimeEqual(paid.commitment, requestCommitment(request))) {
+      return rejection('request_mismatch', `${kind} does not commit to the requested recipient`);
+    }
+    if (pkg.proof.timestamp > request.expiresAt) {
+      return rejection('request_expired', `${kind} was timestamped after the payment request expired`, {
+        timestamp: pkg.proof.timestamp,
+        expiresAt: request.expiresAt
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Validate one output of a split package
+   *
+   * @param pkg - Split package to validate
+   * @param splitIndex - Index of the split being received (0-based)
+   * @returns Validation result with confidence score
+   */
+  async validateSplit(pkg: SplitPackage, splitIndex: number): Promise<ValidationResult> {
+    const split = pkg.splits[splitIndex];
+    if (!Number.isInteger(splitIndex) || !split) {
+      return rejection('malformed_package', `Invalid split index: ${splitIndex}`, { splitIndex });
+    }
+
+    return this.validateClaims({
+      kind: 'split',
+      amount: split.amount,
+      proof: pkg.proof,
+      expectedHash: Crypto.hashSplitPackage(pkg),
+      legacyHash: Crypto.legacyPackageHash('split', pkg),
+      nullifiers: [pkg.nullifier],
+      sourceCreatedAt: [pkg.sourceCreatedAt],
+      authToken: split.authToken,
+      ownershipProofs: pkg.ownershipProof && [pkg.ownershipProof],
+      ownershipRequired: true,
+      check: async () => this.checkAmounts(pkg.sourceAmount, pkg.splits.map(s => s.amount), 'split')
+    });
+  }
+
+  /**
+   * Validate the payee's output of a payment package
+   *
+   * @param pkg - Payment package to validate
+   * @param request - Payment request the payment should pay
+   * @returns Validation result with confidence score
+   */
+  async validatePayment(pkg: PaymentPackage, request?: PaymentRequest): Promise<ValidationResult> {
+    if (!pkg.payment) {
+      return rejection('malformed_package', 'Payment package has no payment output');
+    }
+
+    const outputs = pkg.change ? [pkg.payment, pkg.change] : [pkg.payment];
+    return this.validateClaims({
+      kind: 'payment',
+      amount: pkg.payment.amount,
+      proof: pkg.proof,
+      expectedHash: Crypto.hashPaymentPackage(pkg),
+      nullifiers: [pkg.nullifier],
+      sourceCreatedAt: [pkg.sourceCreatedAt],
+      authToken: pkg.payment.authToken,
+      ownershipProofs: pkg.ownershipProof && [pkg.ownershipProof],
+      ownershipRequired: true,
+      check: async () =>
+        this.checkAmounts(pkg.sourceAmount, outputs.map(output => output.amount), 'payment') ??
+        (request ? this.checkPaymentRequest(pkg, pkg.payment, 'Payment', request) : null)
+    });
+  }
+
+  /**
+   * Validate a merge package
+   *
+   * Every source nullifier must pass the double-spend checks.
+   *
+   * @param pkg - Merge package to validate
+   * @returns Validation result with confidence score
+   */
+  async validateMerge(pkg: MergePackage): Promise<ValidationResult> {
+    return this.validateClaims({
+      kind: 'merge',
+      amount: pkg.targetAmount,
+      proof: pkg.proof,
+      expectedHash: Crypto.hashMergePackage(pkg),
+      legacyHash: Crypto.legacyPackageHash('merge', pkg),
+      nullifiers: pkg.sources.map(source => source.nullifier),
+      sourceCreatedAt: pkg.sources.map(source => source.createdAt),
+      authToken: pkg.authToken,
+      ownershipProofs: pkg.ownershipProofs,
+      ownershipRequired: true,
+      check: async () => this.checkAmounts(pkg.targetAmount, pkg.sources.map(s => s.amount), 'merge')
+    });
+  }
+
+  /**
+   * Validate one recipient's share of a multi-party transfer
+   *
+   * @param pkg - Multi-party transfer package to validate
+   * @param recipientIndex - Index of the recipient (0-based)
+   * @returns Validation result with confidence score
+   */
+  async validateMultiParty(pkg: MultiPartyTransfer, recipientIndex: number): Promise<ValidationResult> {
+    const recipient = pkg.recipients[recipientIndex];
+    if (!Number.isInteger(recipientIndex) || !recipient) {
+      return rejection('malformed_package', `Invalid recipient index: ${recipientIndex}`, { recipientIndex });
+    }
+
+    return this.validateClaims({
+      kind: 'multi-party transfer',
+      amount: recipient.amount,
+      proof: pkg.proof,
+      expectedHash: Crypto.hashMultiPartyPackage(pkg),
+      legacyHash: Crypto.legacyPackageHash('multiparty', pkg),
+      nullifiers: [pkg.nullifier],
+      sourceCreatedAt: [pkg.sourceCreatedAt],
+      authToken: recipient.authToken,
+      ownershipProofs: pkg.ownershipProof && [pkg.ownershipProof],
+      ownershipRequired: true,
+      check: async () => this.checkAmounts(pkg.sourceAmount, pkg.recipients.map(r => r.amount), 'multi-party transfer')
+    });
+  }
+
+  /**
+   * Validate an HTLC lock before relying on it
+   *
+   * The lock's nullifier is checked for double spends like a transfer's.
+   * Its settlement nullifier is published only when the HTLC is claimed
+   * or refunded, so any sighting means it has already settled. Locks
+   * proven over version-0 hashes settle under their own nullifier, so any
+   * sighting of that does. Time-locked and hash-time HTLCs whose timelock
+   * has passed are refundable and rejected, as are those without a refund
+   * key. The preimage of a hash-locked or hash-time HTLC is checked when
+   * given.
+   *
+   * @param pkg - HTLC package to validate
+   * @param preimage - Hash preimage, if the caller holds it
+   * @returns Validation result with confidence score
+   */
+  async validateHTLC(pkg: HTLCPackage, preimage?: Uint8Array): Promise<ValidationResult> {
+    const settlement = htlcSettlementNullifier(pkg);
+    return this.validateClaims({
+      kind: 'HTLC',
+      amount: pkg.amount,
+      proof: pkg.proof,
+      expectedHash: Crypto.hashHTLCPackage(pkg),
+      legacyHash: Crypto.legacyPackageHash('htlc', pkg),
+      nullifiers: [pkg.nullifier],
+      sourceCreatedAt: [pkg.sourceCreatedAt],
+      authToken: pkg.authToken,
+      ownershipProofs: pkg.ownershipProof && [pkg.ownershipProof],
+      ownershipRequired: true,
+      settledReason: 'HTLC already claimed or refunded',
+      settlementNullifier: Crypto.constantTimeEqual(settlement, pkg.nullifier) ? undefined : settlement,
+      check: async () => {
+        const { condition } = pkg;
+        const problem = conditionProblem(condition);
+        if (problem) {
+          return rejection('malformed_package', problem);
+        }
+        if (isTimeLocked(condition) && !pkg.refundPublicKey) {
+          return rejection('malformed_package', 'Time-locked HTLC has no refund key');
+        }
+        if (preimage && !preimageMatches(condition, preimage)) {
+          return rejection('condition_failed', 'Invalid preimage for hashlock');
+        }
+        if (settlementWindow(condition) === 'refund') {
+          return rejection('condition_failed', 'HTLC timelock has expired', { timelock: condition.timelock! });
+        }
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Validate a multisig lock, or a spend of it
+   *
+   * The lock's nullifier is checked for double spends like a transfer's.
+   * Its spend nullifier is published only when the lock is spent, so any
+   * sighting means it has already been spent. With a spend, the approvals
+   * must come from the policy's threshold of distinct keys and name the
+   * recipient.
+   *
+   * @param pkg - Multisig package to validate
+   * @param spend - Recipient and approvals, when validating a spend
+   * @returns Validation result with confidence score
+   */
+  async validateMultiSig(
+    pkg: MultiSigPackage,
+    spend?: { recipient: PublicKey; approvals: readonly Uint8Array[] }
+  ): Promise<ValidationResult> {
+    return this.validateClaims({
+      kind: 'multisig',
+      amount: pkg.amount,
+      proof: pkg.proof,
+      expectedHash: Crypto.hashMultiSigPackage(pkg),
+      nullifiers: [pkg.nullifier],
+      sourceCreatedAt: [pkg.sourceCreatedAt],
+      authToken: pkg.authToken,
+      ownershipProofs: pkg.ownershipProof && [pkg.ownershipProof],
+      ownershipRequired: true,
+      settledReason: 'Multisig lock already spent',
+      settlementNullifier: multiSigSpendNullifier(pkg),
+      check: async () => {
+        const problem = policyProblem(pkg.policy);
+        if (problem) {
+          return rejection('malformed_package', problem);
+        }
+        if (spend) {
+          const approvers = await approvingKeys(pkg, spend.recipient, spend.approvals);
+          if (approvers.length < pkg.policy.threshold) {
+            return rejection(
+              'condition_failed',
+              `Multisig needs ${pkg.policy.threshold} approvals, got ${approvers.length}`,
+              { approvals: approvers.length, threshold: pkg.policy.threshold }
+            );
+          }
+        }
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Validate a bridge package arriving in this validator's federation
+   *
+   * The source lock is verified against the source federation's Witness;
+   * the mint proof, when present, against this validator's. The nullifier
+   * is published here only when the bridged token is received, so any
+   * sighting is a replay.
+   *
+   * @param pkg - Bridge package to validate
+   * @param options - Source Witness and expected target federation
+   * @returns Validation result with confidence score
+   */
+  async validateBridge(pkg: BridgePackage, options: BridgeValidationOptions = {}): Promise<ValidationResult> {
+    const sourceWitness = options.sourceWitness ?? this.witness;
+
+    return this.validateClaims({
+      kind: 'bridge',
+      amount: pkg.amount,
+      proof: pkg.sourceProof,
+      expectedHash: Crypto.hashBridgeLockPackage(pkg),
+      legacyHash: Crypto.legacyPackageHash('bridge-lock', pkg),
+      nullifiers: [pkg.nullifier],
+      sourceCreatedAt: [pkg.sourceCreatedAt],
+      authToken: pkg.authToken,
+      ownershipProofs: pkg.ownershipProof && [pkg.ownershipProof],
+      ownershipRequired: true,
+      settledReason: 'Bridge replay detected',
+      verifyProof: proof => sourceWitness.verify(proof),
+      check: async () => {
+        if (options.federation !== undefined && pkg.targetFederation !== options.federation) {
+          return rejection(
+            'federation_mismatch',
+            `Bridge package is for federation ${pkg.targetFederation}, not ${options.federation}`,
+            { expected: options.federation, actual: pkg.targetFederation }
+          );
+        }
+        if (pkg.targetProof) {
+          const mintFailure = this.checkPackageHash(
+            pkg.targetProof,
+            Crypto.hashBridgeMintPackage(pkg),
+            'bridge mint',
+            Crypto.legacyPackageHash('bridge-mint', pkg)
+          );
+          if (mintFailure) {
+            return mintFailure;
+          }
+          if (!(await this.witness.verify(pkg.targetProof))) {
+            return rejection('witness_invalid', 'Invalid target federation proof');
+          }
+        }
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Reject a package whose settlement nullifier has been seen
+   */
+  private async checkSettled(claims: SpendClaims): Promise<ValidationResult | null> {
+    const nullifier = claims.settlementNullifier;
+    if (claims.settledReason && nullifier && await this.gossip.checkNullifier(nullifier) > 0) {
+      return rejection('already_settled', claims.settledReason, { nullifier: Crypto.toHex(nullifier) });
+    }
+    return null;
+  }
+
+  /**
+   * Check a package's nullifiers against gossip and the Witness federation
+   */
+  private async checkNullifiers(claims: SpendClaims, threshold: number): Promise<ValidationResult | null> {
+    const settled = await this.checkSettled(claims);
+    if (settled) {
+      return settled;
+    }
+
+    for (const nullifier of claims.nullifiers) {
+      // Fast gossip check (instant). Evidence of a conflicting spend is
+      // conclusive; otherwise fall back to the probabilistic sighting count.
+      // (Checked after checkNullifier, which may fetch evidence from a shard.)
+      const gossipConfidence = await this.gossip.checkNullifier(nullifier);
+
+      const evidenceFailure = this.checkDoubleSpendEvidence(nullifier);
+      if (evidenceFailure) {
+        return evidenceFailure;
+      }
+
+      if (claims.settledReason && !claims.settlementNullifier && gossipConfidence > 0) {
+        return rejection('already_settled', claims.settledReason, { nullifier: Crypto.toHex(nullifier) });
+      }
+
+      if (gossipConfidence > threshold) {
+        // Nullifier seen multiple times = likely double-spend
+        return rejection(
+          'gossip_double_spend',
+          `Double-spend detected in gossip network (confidence: ${gossipConfidence.toFixed(2)})`,
+          { nullifier: Crypto.toHex(nullifier), confidence: gossipConfidence, threshold }
+        );
+      }
+
+      // Witness federation check (slower, deterministic)
+      const witnessConfidence = await this.witness.checkNullifier(nullifier);
+
+      if (witnessConfidence >= 1) {
+        // Nullifier in Witness = proven double-spend
+        return rejection('witness_double_spend', 'Double-spend proven by Witness federation', {
+          nullifier: Crypto.toHex(nullifier)
+        });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Re-check gossip after the propagation wait
+   */
+  private async recheckNullifiers(claims: SpendClaims, threshold: number): Promise<ValidationResult | null> {
+    const settled = await this.checkSettled(claims);
+    if (settled) {
+      return settled;
+    }
+
+    for (const nullifier of claims.nullifiers) {
+      // Check again after waiting - use same threshold as initial check.
+      // Evidence is checked after it, as in checkNullifiers.
+      const finalCheck = await this.gossip.checkNullifier(nullifier);
+
+      const finalEvidenceFailure = this.checkDoubleSpendEvidence(nullifier);
+      if (finalEvidenceFailure) {
+        return finalEvidenceFailure;
+      }
+
+      if (claims.settledReason && !claims.settlementNullifier && finalCheck > 0) {
+        return rejection('already_settled', claims.settledReason, { nullifier: Crypto.toHex(nullifier) });
+      }
+
+      if (finalCheck > threshold) {
+        return rejection(
+          'gossip_double_spend',
+          `Double-spend detected during propagation wait (confidence: ${finalCheck.toFixed(2)})`,
+          { nullifier: Crypto.toHex(nullifier), confidence: finalCheck, threshold }
+        );
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Validation pipeline shared by every package kind
+   *
+   * @param claims - What the package claims
+   * @param waitTime - Overrides the policy's wait time (deepValidate)
+   */
+  private async validateClaims(claims: SpendClaims, waitTime?: number): Promise<ValidationResult> {
+    const run = this.runClaims(claims, Date.now(), waitTime);
+    let step = await run.next();
+    while (!step.done) {
+      step = await run.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * The validation pipeline, yielding progress along the way
+   *
+   * @param claims - What the package claims
+   * @param started - When validation started, for elapsed times
+   * @param waitTime - Overrides the policy's wait time (deepValidate)
+   * @returns The validation result
+   */
+  private async *runClaims(
+    claims: SpendClaims,
+    started: number,
+    waitTime?: number
+  ): AsyncGenerator<ValidationUpdate, ValidationResult> {
     // Step 1: Enforce Rolling Validity Window
-    const age = Date.now() - pkg.proof.timestamp;
+    const age = Date.now() - claims.proof.timestamp;
     if (age > this.maxTokenAge) {
+      return rejection('expired', `Token expired. Proof age (${(age/3600000).toFixed(1)}h) exceeds limit.`, {
+        ageMs: age,
+        limitMs: this.maxTokenAge
+      });
+    }
+
+    const tier = this.resolveTier(claims.amount);
+    if (!tier) {
       return {
-        valid: false,
-        confidence: 0,
-        reason: `Token expired. Proof age (${(age/3600000).toFixed(1)}h) exceeds limit.`
+        ...rejection('policy_violation', `No acceptance tier covers amount ${claims.amount}`, { amount: claims.amount }),
+        policy: { tier: -1, rules: [] }
       };
     }
 
-    const hashFailure = this.checkPackageHash(pkg);
+    // Rule outcomes so far, reported with every result once a policy is set
+    const rules: PolicyRuleResult[] = [];
+    const report = (result: ValidationResult): ValidationResult =>
+      this.policy ? { ...result, policy: { tier: tier.index, rules } } : result;
+
+    const witnessDepth = this.getWitnessFederationDepth();
+    const progress = (stage: ValidationUpdate['stage'], waited = 0): ValidationUpdate => ({
+      stage,
+      confidence: this.computeConfidence({ gossipPeers: this.gossip.peers.length, witnessDepth, waitTime: waited }),
+      elapsed: Date.now() - started
+    });
+
+    const hashFailure = this.checkPackageHash(claims.proof, claims.expectedHash, claims.kind, claims.legacyHash);
     if (hashFailure) {
-      return hashFailure;
+      return report(hashFailure);
     }
 
-    const sourceAgeFailure = this.checkSourceAge(pkg);
-    if (sourceAgeFailure) {
-      return sourceAgeFailure;
+    if (claims.nullifiers.length === 0) {
+      return report(rejection('malformed_package', `No nullifiers in ${claims.kind} package`));
+    }
+
+    for (const sourceCreatedAt of claims.sourceCreatedAt) {
+      const sourceAgeFailure = this.checkSourceAge(sourceCreatedAt, claims.proof.timestamp);
+      if (sourceAgeFailure) {
+        return report(sourceAgeFailure);
+      }
     }
 
     // Step 2: Verify the Witness attestation itself before consuming admission.
-    const proofValid = await this.witness.verify(pkg.proof);
+    const proofValid = await (claims.verifyProof ?? (proof => this.witness.verify(proof)))(claims.proof);
     if (!proofValid) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Invalid Witness attestation'
-      };
+      return report(rejection('witness_invalid', 'Invalid Witness attestation'));
     }
 
-    // Step 3: Fast gossip check (instant, probabilistic)
-    const gossipConfidence = await this.gossip.checkNullifier(pkg.nullifier);
-
-    // For a legitimate transfer, the nullifier will be seen once (confidence ~0.1-0.4).
-    // For a double-spend, it will be seen multiple times (confidence > 0.5).
-    // We use a threshold of 0.5 to distinguish between the two cases.
-    const DOUBLE_SPEND_THRESHOLD = 0.5;
+    const checkFailure = await claims.check?.();
+    if (checkFailure) {
+      return report(checkFailure);
+    }
 
-    if (gossipConfidence > DOUBLE_SPEND_THRESHOLD) {
-      // Nullifier seen multiple times = likely double-spend
-      return {
-        valid: false,
-        confidence: 0,
-        reason: `Double-spend detected in gossip network (confidence: ${gossipConfidence.toFixed(2)})`
-      };
+    if (claims.ownershipRequired || tier.requireOwnershipProof) {
+      const ownershipFailure = await this.checkOwnership(claims.ownershipProofs, claims.nullifiers);
+      if (tier.requireOwnershipProof) {
+        rules.push({ rule: 'requireOwnershipProof', passed: !ownershipFailure, required: true, actual: !ownershipFailure });
+      }
+      if (ownershipFailure) {
+        return report(ownershipFailure);
+      }
     }
+    yield progress('verified');
 
-    // Step 4: Witness federation check (slower, deterministic)
-    const witnessConfidence = await this.witness.checkNullifier(pkg.nullifier);
+    // Steps 3-4: Gossip and Witness federation double-spend checks
+    const nullifierFailure = await this.checkNullifiers(claims, tier.doubleSpendThreshold);
+    if (nullifierFailure) {
+      return report(nullifierFailure);
+    }
+    yield progress('witness');
 
-    if (witnessConfidence >= 1) {
-      // Nullifier in Witness = proven double-spend
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Double-spend proven by Witness federation'
-      };
+    // Network requirements are checked before admission, which may be single-use
+    const outboundPeers = this.gossip.peers.filter(p => p.direction === 'outbound').length;
+    if (tier.minWitnessDepth > 0) {
+      const passed = witnessDepth >= tier.minWitnessDepth;
+      rules.push({ rule: 'minWitnessDepth', passed, required: tier.minWitnessDepth, actual: witnessDepth });
+      if (!passed) {
+        return report(rejection(
+          'policy_violation',
+          `Witness federation depth ${witnessDepth} below required ${tier.minWitnessDepth}`,
+          { rule: 'minWitnessDepth', required: tier.minWitnessDepth, actual: witnessDepth }
+        ));
+      }
+    }
+    if (tier.minOutboundPeers > 0) {
+      const passed = outboundPeers >= tier.minOutboundPeers;
+      rules.push({ rule: 'minOutboundPeers', passed, required: tier.minOutboundPeers, actual: outboundPeers });
+      if (!passed) {
+        return report(rejection(
+          'policy_violation',
+          `Outbound peers ${outboundPeers} below required ${tier.minOutboundPeers}`,
+          { rule: 'minOutboundPeers', required: tier.minOutboundPeers, actual: outboundPeers }
+        ));
+      }
     }
 
     // Step 5: Verify Freebird admission token. This can consume a single-use
     // credential, so it happens only after Scarcity economic checks pass.
-    if (!pkg.authToken) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Missing required Freebird authorization token'
-      };
+    if (!claims.authToken) {
+      return report(rejection('admission_missing', 'Missing required Freebird authorization token'));
     }
-    const authValid = await this.auth.verifyAdmissionToken(pkg.authToken);
+    const authValid = await this.auth.verifyAdmissionToken(claims.authToken);
     if (!authValid) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Invalid Freebird authorization token'
-      };
+      return report(rejection('admission_invalid', 'Invalid Freebird authorization token'));
     }
+    yield progress('admitted');
 
-    // Step 6: Wait for gossip propagation (tunable delay)
-    if (this.waitTime > 0) {
-      await this.sleep(this.waitTime);
+    // Step 6: Wait for gossip propagation (tunable delay), re-checking
+    // whenever gossip sees the nullifier and at every progress interval
+    const wait = waitTime ?? tier.waitTime;
+    if (wait > 0) {
+      const watch = this.watchNullifiers(claims.nullifiers);
+      const waitStarted = Date.now();
+      try {
+        for (let waited = 0; waited < wait; waited = Date.now() - waitStarted) {
+          await watch.next(Math.min(this.progressInterval, wait - waited));
 
-      // Check again after waiting - use same threshold as initial check
-      const finalCheck = await this.gossip.checkNullifier(pkg.nullifier);
-
-      if (finalCheck > DOUBLE_SPEND_THRESHOLD) {
-        return {
-          valid: false,
-          confidence: 0,
-          reason: `Double-spend detected during propagation wait (confidence: ${finalCheck.toFixed(2)})`
-        };
+          const finalFailure = await this.recheckNullifiers(claims, tier.doubleSpendThreshold);
+          if (finalFailure) {
+            return report(finalFailure);
+          }
+          yield progress('settling', Math.min(Date.now() - waitStarted, wait));
+        }
+      } finally {
+        watch.close();
       }
     }
 
     // Step 7: Compute confidence score
     const confidence = this.computeConfidence({
       gossipPeers: this.gossip.peers.length,
-      witnessDepth: this.getWitnessFederationDepth(),
-      waitTime: this.waitTime
+      witnessDepth,
+      waitTime: wait
     });
 
     // Step 8: Accept or reject based on confidence threshold
-    if (confidence < this.minConfidence) {
-      return {
-        valid: false,
-        confidence,
-        reason: `Confidence ${confidence.toFixed(2)} below threshold ${this.minConfidence}`
-      };
+    const confident = confidence >= tier.minConfidence;
+    rules.push({ rule: 'minConfidence', passed: confident, required: tier.minConfidence, actual: confidence });
+    if (!confident) {
+      return report(rejection(
+        'low_confidence',
+        `Confidence ${confidence.toFixed(2)} below threshold ${tier.minConfidence}`,
+        { confidence, required: tier.minConfidence },
+        confidence
+      ));
     }
 
-    return {
+    const kind = claims.kind[0].toUpperCase() + claims.kind.slice(1);
+    return report({
       valid: true,
       confidence,
-      reason: 'Transfer validated successfully'
-    };
+      code: 'ok',
+      reason: `${kind} validated successfully`
+    });
+  }
+
+  /**
+   * Rules for an amount: the covering policy tier, filled in from the
+   * validator's configuration, or null if no tier covers it
+   */
+  private resolveTier(amount: number): ResolvedTier | null {
+    return resolveTier(this.policy, amount, {
+      minConfidence: this.minConfidence,
+      waitTime: this.waitTime,
+      minWitnessDepth: 0,
+      minOutboundPeers: 0,
+      requireOwnershipProof: false,
+      doubleSpendThreshold: DOUBLE_SPEND_THRESHOLD
+    });
   }
 
   /**
@@ -266,34 +917,39 @@ export class TransferValidator {
    * @returns Validation result
    */
   async fastValidate(pkg: TransferPackage): Promise<ValidationResult> {
-    const hashFailure = this.checkPackageHash(pkg);
+    const hashFailure = this.checkPackageHash(
+      pkg.proof,
+      Crypto.hashTransferPackage(pkg),
+      'transfer',
+      Crypto.legacyPackageHash('transfer', pkg)
+    );
     if (hashFailure) {
       return hashFailure;
     }
 
-    const sourceAgeFailure = this.checkSourceAge(pkg);
+    const sourceAgeFailure = this.checkSourceAge(pkg.sourceCreatedAt, pkg.proof.timestamp);
     if (sourceAgeFailure) {
       return sourceAgeFailure;
     }
 
     const gossipConfidence = await this.gossip.checkNullifier(pkg.nullifier);
-    const DOUBLE_SPEND_THRESHOLD = 0.5;
+
+    const evidenceFailure = this.checkDoubleSpendEvidence(pkg.nullifier);
+    if (evidenceFailure) {
+      return evidenceFailure;
+    }
 
     if (gossipConfidence > DOUBLE_SPEND_THRESHOLD) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Double-spend detected in gossip'
-      };
+      return rejection('gossip_double_spend', 'Double-spend detected in gossip', {
+        nullifier: Crypto.toHex(pkg.nullifier),
+        confidence: gossipConfidence,
+        threshold: DOUBLE_SPEND_THRESHOLD
+      });
     }
 
     const proofValid = await this.witness.verify(pkg.proof);
     if (!proofValid) {
-      return {
-        valid: false,
-        confidence: 0,
-        reason: 'Invalid Witness attestation'
-      };
+      return rejection('witness_invalid', 'Invalid Witness attestation');
     }
 
     const confidence = this.computeConfidence({
@@ -302,12 +958,20 @@ export class TransferValidator {
       waitTime: 0
     });
 
+    if (confidence < this.minConfidence) {
+      return rejection(
+        'low_confidence',
+        'Insufficient confidence without wait period',
+        { confidence, required: this.minConfidence },
+        confidence
+      );
+    }
+
     return {
-      valid: confidence >= this.minConfidence,
+      valid: true,
       confidence,
-      reason: confidence >= this.minConfidence
-        ? 'Fast validation passed'
-        : 'Insufficient confidence without wait period'
+      code: 'ok',
+      reason: 'Fast validation passed'
     };
   }
 
@@ -324,17 +988,7 @@ export class TransferValidator {
     pkg: TransferPackage,
     extendedWaitTime = 30_000
   ): Promise<ValidationResult> {
-    const originalWaitTime = this.waitTime;
-
-    try {
-      // Temporarily extend wait time
-      (this as any).waitTime = extendedWaitTime;
-
-      return await this.validateTransfer(pkg);
-    } finally {
-      // Restore original wait time
-      (this as any).waitTime = originalWaitTime;
-    }
+    return this.validateClaims(this.transferClaims(pkg), extendedWaitTime);
   }
 
   /**
@@ -360,10 +1014,41 @@ export class TransferValidator {
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Wake-ups for a propagation wait: next() resolves after `timeout` ms,
+   * or earlier if gossip has news of any of the nullifiers
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private watchNullifiers(nullifiers: Uint8Array[]): { next(timeout: number): Promise<void>; close(): void } {
+    let pending = false;
+    let wake: (() => void) | null = null;
+    const listener = () => {
+      pending = true;
+      wake?.();
+    };
+    const unsubscribe = nullifiers.map(nullifier => this.gossip.watchNullifier?.(nullifier, listener));
+
+    return {
+      next: (timeout: number) => new Promise<void>(resolve => {
+        if (pending) {
+          pending = false;
+          resolve();
+          return;
+        }
+        const timer = setTimeout(() => {
+          wake = null;
+          resolve();
+        }, timeout);
+        wake = () => {
+          clearTimeout(timer);
+          wake = null;
+          pending = false;
+          resolve();
+        };
+      }),
+      close: () => {
+        unsubscribe.forEach(stop => stop?.());
+        wake?.();
+      }
+    };
   }
 
   /**
@@ -376,6 +1061,16 @@ export class TransferValidator {
     (this as any).minConfidence = confidence;
   }
 
+  /**
+   * Replace the acceptance policy, or clear it with undefined
+   */
+  setPolicy(policy?: AcceptancePolicy): void {
+    if (policy) {
+      assertValidPolicy(policy);
+    }
+    this.policy = policy;
+  }
+
   /**
    * Get current configuration
    */
@@ -383,7 +1078,8 @@ export class TransferValidator {
     return {
       waitTime: this.waitTime,
       minConfidence: this.minConfidence,
-      gossipPeers: this.gossip.peers.length
+      gossipPeers: this.gossip.peers.length,
+      policy: this.policy
     };
   }
 }
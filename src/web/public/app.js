@@ -9,6 +9,10 @@ let initialized = false;
 const TOKEN_VALIDITY_MS = 24 * 24 * 24 * 3600 * 1000;
 const EXPIRY_WARNING_DAYS = 90; // Show warning when less than this many days remain
 
+// HTLC watchtower notifications
+const NOTIFICATION_POLL_MS = 30 * 1000;
+let lastNotificationAt = Date.now();
+
 // PIN Protection
 const PIN_HASH_KEY = 'scarcity_pin_hash';
 const PIN_MIN_LENGTH = 4;
@@ -83,6 +87,54 @@ function updateExpiryBanner(expiringCount, soonestExpiry) {
   `;
 }
 
+/**
+ * Show watchtower events as toasts and refresh the pending HTLC banner
+ */
+async function pollNotifications() {
+  try {
+    const data = await apiCall(`/notifications?since=${lastNotificationAt}`);
+    for (const event of data.notifications) {
+      lastNotificationAt = Math.max(lastNotificationAt, event.at);
+      const text = `HTLC ${event.htlc.slice(0, 8)}… (${event.wallet}): ${event.message}`;
+      if (event.type === 'failed' || event.type === 'expiring' || event.type === 'expired') {
+        showError(text);
+      } else {
+        showSuccess(text);
+      }
+    }
+    if (data.notifications.some(event => event.tokenId)) {
+      loadTokens();
+    }
+
+    const pending = await apiCall('/htlcs?status=pending');
+    updateHTLCBanner(pending.htlcs);
+  } catch (error) {
+    console.error('Failed to poll notifications:', error);
+  }
+}
+
+/**
+ * Update the pending HTLC banner
+ * @param {Array} htlcs - Pending HTLCs tracked by the watchtower
+ */
+function updateHTLCBanner(htlcs) {
+  const banner = $('htlc-banner');
+  if (!banner) return;
+
+  if (htlcs.length === 0) {
+    banner.style.display = 'none';
+    return;
+  }
+
+  const waiting = htlcs.filter(h => h.role === 'recipient' && !h.preimageKnown).length;
+  const total = htlcs.reduce((sum, h) => sum + h.amount, 0);
+  banner.style.display = 'block';
+  banner.innerHTML = `
+    <strong>${htlcs.length} pending HTLC${htlcs.length === 1 ? '' : 's'}</strong> (${total} total).
+    The watchtower claims and refunds them automatically${waiting > 0 ? `; ${waiting} still need a preimage` : ''}.
+  `;
+}
+
 // PIN Protection Functions
 
 /**
@@ -416,6 +468,8 @@ async function initializeNetwork() {
 
     showSuccess('Connected to Scarcity network');
     loadWallets();
+    pollNotifications();
+    setInterval(pollNotifications, NOTIFICATION_POLL_MS);
   } catch (error) {
     showError('Failed to initialize: ' + error.message);
   } finally {
@@ -771,13 +825,13 @@ async function sendToken() {
     // Wait for the actual transfer to complete
     const data = await transferPromise;
 
-    const transferJson = JSON.stringify(data.transfer, null, 2);
+    // Bearer strings are base64url behind a fixed prefix, so safe to inline
     $('send-result').style.display = 'block';
     $('send-result').innerHTML = `
       <h4>Transfer Created Successfully</h4>
-      <p>Share this transfer data with the recipient:</p>
-      <pre>${transferJson}</pre>
-      <button class="btn btn-small" onclick="copyTransfer(${JSON.stringify(transferJson).replace(/"/g, '&quot;')})">Copy Transfer Data</button>
+      <p>Share this payment string with the recipient. Anyone holding it can claim the payment, so send it privately:</p>
+      <pre class="bearer-string">${data.bearer}</pre>
+      <button class="btn btn-small" onclick="copyTransfer('${data.bearer}')">Copy Payment String</button>
       <div class="transfer-details">
         <p><strong>Nullifier:</strong> <code>${data.transfer.nullifier.substring(0, 32)}...</code></p>
         <p><strong>Timestamp:</strong> ${new Date(data.transfer.proof.timestamp).toLocaleString()}</p>
@@ -811,10 +865,13 @@ async function receiveToken() {
   }
 
   try {
-    const transfer = JSON.parse(transferText);
+    // Accept a scar1... payment string or the legacy JSON transfer data
+    const body = transferText.startsWith('scar1')
+      ? { bearer: transferText, wallet }
+      : { transfer: JSON.parse(transferText), wallet };
 
     showLoading('Receiving token...');
-    const data = await apiCall('/tokens/receive', 'POST', { transfer, wallet });
+    const data = await apiCall('/tokens/receive', 'POST', body);
 
     $('receive-result').style.display = 'block';
     $('receive-result').innerHTML = `
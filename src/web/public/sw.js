@@ -1,5 +1,5 @@
 // Scarcity Web Wallet - Service Worker
-const CACHE_NAME = 'scarcity-wallet-v2';
+const CACHE_NAME = 'scarcity-wallet-v3';
 const STATIC_ASSETS = [
   '/',
   '/index.html',
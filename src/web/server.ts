@@ -11,15 +11,22 @@ import { join } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { WalletManager } from '../cli/wallet.js';
-import { TokenStorage } from '../cli/token-store.js';
+import { TokenStorage, HTLC_STATUSES, type HTLCStatus } from '../cli/token-store.js';
 import { InfrastructureManager } from '../cli/infrastructure.js';
+import { HTLCWatchtower, swapPreimages, type HTLCWatchEvent } from '../cli/htlc-watchtower.js';
+import { FileSwapStore } from '../swap.js';
 import { ScarbuckToken } from '../token.js';
 import { Crypto } from '../crypto.js';
+import { ValidationError } from '../validation-error.js';
+import { encodePackage, decodePackageAs, PackageCodecError } from '../codec/package-codec.js';
+import { encodeBearerString, decodeBearerString, BearerStringError } from '../codec/bearer-string.js';
 import type { PublicKey, TransferPackage } from '../types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const MAX_NOTIFICATIONS = 50;
+
 interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -31,6 +38,8 @@ export class WebWalletServer {
   private walletManager: WalletManager;
   private tokenStorage: TokenStorage;
   private infraManager: InfrastructureManager;
+  private watchtower?: HTLCWatchtower;
+  private notifications: HTLCWatchEvent[] = []; // Latest watchtower events, oldest first
   private initialized = false;
   private httpServer?: HttpServer;
 
@@ -92,6 +101,7 @@ export class WebWalletServer {
       try {
         await this.infraManager.initialize();
         this.initialized = true;
+        this.startWatchtower();
         res.json({ success: true });
       } catch (error: any) {
         res.status(500).json({
@@ -226,6 +236,41 @@ export class WebWalletServer {
       }
     });
 
+    // HTLC ROUTES
+    this.app.get('/api/htlcs', (req, res) => {
+      try {
+        const { wallet, status } = req.query;
+        if (status !== undefined && !HTLC_STATUSES.includes(status as HTLCStatus)) {
+          return res.status(400).json({
+            success: false,
+            error: `Unknown status; expected one of ${HTLC_STATUSES.join(', ')}`
+          });
+        }
+        const htlcs = this.tokenStorage.listHTLCs({
+          wallet: wallet as string | undefined,
+          status: status as HTLCStatus | undefined
+        });
+        res.json({
+          success: true,
+          data: { htlcs: htlcs.map(({ preimage, ...htlc }) => ({ ...htlc, preimageKnown: !!preimage })) }
+        });
+      } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+      }
+    });
+
+    // Watchtower events after a timestamp, for polling clients
+    this.app.get('/api/notifications', (req, res) => {
+      const since = parseInt(req.query.since as string, 10) || 0;
+      res.json({
+        success: true,
+        data: {
+          watching: this.watchtower?.isRunning() ?? false,
+          notifications: this.notifications.filter(event => event.at > since)
+        }
+      });
+    });
+
     this.app.get('/api/wallets/:name/balance', (req, res) => {
       try {
         const balance = this.tokenStorage.getBalance(req.params.name);
@@ -340,7 +385,11 @@ export class WebWalletServer {
                 witnessIds: transfer.proof.witnessIds
               },
               ownershipProof: transfer.ownershipProof ? Crypto.toHex(transfer.ownershipProof) : undefined
-            }
+            },
+            // The same package in canonical CBOR, hex-encoded
+            encoded: Crypto.toHex(encodePackage('transfer', transfer)),
+            // ...and as a bearer string for copy-paste and QR codes
+            bearer: encodeBearerString('transfer', transfer)
           }
         });
       } catch (error: any) {
@@ -354,13 +403,24 @@ export class WebWalletServer {
           return res.status(400).json({ success: false, error: 'Infrastructure not initialized' });
         }
 
-        const { transfer, wallet } = req.body;
-        if (!transfer || !wallet) {
-          return res.status(400).json({ success: false, error: 'transfer and wallet required' });
+        const { transfer, encoded, bearer, wallet } = req.body;
+        if ((!transfer && !encoded && !bearer) || !wallet) {
+          return res.status(400).json({ success: false, error: 'transfer (or encoded or bearer) and wallet required' });
+        }
+        if (encoded !== undefined && (typeof encoded !== 'string' || !/^([0-9a-fA-F]{2})+$/.test(encoded))) {
+          return res.status(400).json({ success: false, error: 'encoded must be a valid hex string' });
+        }
+        if (bearer !== undefined && typeof bearer !== 'string') {
+          return res.status(400).json({ success: false, error: 'bearer must be a string' });
         }
 
         // Parse transfer
-        const tokenTransfer: TransferPackage = {
+        const decoded = bearer ? decodeBearerString(bearer) : undefined;
+        if (decoded && decoded.kind !== 'transfer') {
+          return res.status(400).json({ success: false, error: `Expected a transfer package, got ${decoded.kind}` });
+        }
+        const tokenTransfer: TransferPackage = decoded ? decoded.pkg as TransferPackage
+          : encoded ? decodePackageAs(Crypto.fromHex(encoded), 'transfer') : {
           tokenId: transfer.tokenId,
           amount: transfer.amount,
           sourceCreatedAt: transfer.sourceCreatedAt,
@@ -404,6 +464,12 @@ export class WebWalletServer {
           }
         });
       } catch (error: any) {
+        if (error instanceof ValidationError) {
+          return res.status(422).json({ success: false, error: error.message, code: error.code, details: error.details });
+        }
+        if (error instanceof PackageCodecError || error instanceof BearerStringError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
         res.status(500).json({ success: false, error: error.message });
       }
     });
@@ -550,6 +616,28 @@ export class WebWalletServer {
     });
   }
 
+  /**
+   * Claim and refund tracked HTLCs in the background, keeping the latest
+   * events for /api/notifications
+   */
+  private startWatchtower(): void {
+    if (this.watchtower) {
+      return;
+    }
+    const { witness, gossip, freebird } = this.infraManager.get();
+    this.watchtower = new HTLCWatchtower(
+      this.tokenStorage,
+      this.walletManager,
+      { auth: freebird, witness, gossip },
+      { sources: [swapPreimages(new FileSwapStore())] }
+    );
+    this.watchtower.onEvent(event => {
+      this.notifications.push(event);
+      this.notifications.splice(0, this.notifications.length - MAX_NOTIFICATIONS);
+    });
+    this.watchtower.start();
+  }
+
   /**
    * Start the server
    */
@@ -564,6 +652,7 @@ export class WebWalletServer {
         console.log(`  Init:    POST /api/init`);
         console.log(`  Wallets: GET  /api/wallets`);
         console.log(`  Tokens:  GET  /api/tokens`);
+        console.log(`  HTLCs:   GET  /api/htlcs`);
         console.log(`\nOpen http://localhost:${port} in your browser`);
         console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
         resolve();
@@ -575,6 +664,7 @@ export class WebWalletServer {
    * Stop the server and cleanup infrastructure resources.
    */
   async stop(): Promise<void> {
+    this.watchtower?.stop();
     await this.infraManager.cleanup();
     if (!this.httpServer) return;
     await new Promise<void>((resolve, reject) => {
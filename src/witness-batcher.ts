@@ -0,0 +1,134 @@
+/**
+ * WitnessBatcher: aggregate Witness timestamping
+ *
+ * Wraps a WitnessClient and collects the package hashes passed to
+ * timestamp() over a short window. The batch is committed to a Merkle root,
+ * the root is timestamped once, and each caller receives the root's
+ * attestation with its own hash and inclusion proof. A busy merchant
+ * spending many tokens at once makes one Witness round-trip instead of one
+ * per package.
+ *
+ * Drop-in: pass a WitnessBatcher wherever a WitnessClient is expected. The
+ * returned attestations keep `hash` equal to the package hash, so package
+ * checks are unchanged, and WitnessClient.verify (hence gossip and
+ * TransferValidator) accepts them via the inclusion proof.
+ */
+
+import { buildMerkleTree } from './merkle.js';
+import type { Attestation, WitnessClient } from './types.js';
+
+export interface WitnessBatcherConfig {
+  readonly witness: WitnessClient;
+  readonly window?: number; // Time to collect hashes before timestamping in ms (default: 50)
+  readonly maxBatchSize?: number; // Timestamp early once this many hashes are queued (default: 256)
+}
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+interface PendingTimestamp {
+  readonly hash: string;
+  readonly resolve: (attestation: Attestation) => void;
+  readonly reject: (error: unknown) => void;
+}
+
+export class WitnessBatcher implements WitnessClient {
+  private readonly witness: WitnessClient;
+  private readonly window: number;
+  private readonly maxBatchSize: number;
+  private pending: PendingTimestamp[] = [];
+  private timer?: NodeJS.Timeout;
+  private batches = 0;
+  private hashes = 0;
+
+  constructor(config: WitnessBatcherConfig) {
+    this.witness = config.witness;
+    this.window = config.window ?? 50;
+    this.maxBatchSize = config.maxBatchSize ?? 256;
+
+    if (!Number.isInteger(this.maxBatchSize) || this.maxBatchSize < 1) {
+      throw new Error('Witness batch size must be a positive integer');
+    }
+  }
+
+  /**
+   * Queue a hash for the next batch
+   *
+   * @returns The attestation for this hash once its batch is timestamped
+   */
+  timestamp(hash: string): Promise<Attestation> {
+    // One malformed hash must not sink the rest of its batch
+    if (!SHA256_HEX.test(hash)) {
+      return Promise.reject(new Error(`Cannot batch hash: expected hex SHA-256 digest, got ${hash}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ hash, resolve, reject });
+
+      if (this.pending.length >= this.maxBatchSize) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.window);
+      }
+    });
+  }
+
+  /**
+   * Timestamp everything queued so far without waiting for the window
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) {
+      return;
+    }
+
+    this.batches++;
+    this.hashes += batch.length;
+
+    try {
+      // A batch of one gains nothing from a tree
+      if (batch.length === 1) {
+        batch[0].resolve(await this.witness.timestamp(batch[0].hash));
+        return;
+      }
+
+      const { root, paths } = buildMerkleTree(batch.map(entry => entry.hash));
+      const attestation = await this.witness.timestamp(root);
+
+      batch.forEach((entry, index) => {
+        entry.resolve({
+          ...attestation,
+          hash: entry.hash,
+          merkle: { root, path: paths[index] }
+        });
+      });
+    } catch (error) {
+      for (const entry of batch) {
+        entry.reject(error);
+      }
+    }
+  }
+
+  async verify(attestation: Attestation): Promise<boolean> {
+    return this.witness.verify(attestation);
+  }
+
+  async checkNullifier(nullifier: Uint8Array): Promise<number> {
+    return this.witness.checkNullifier(nullifier);
+  }
+
+  /**
+   * Witness round-trips made versus hashes timestamped
+   */
+  getStats() {
+    return {
+      batches: this.batches,
+      hashes: this.hashes,
+      pending: this.pending.length
+    };
+  }
+}
@@ -3,7 +3,13 @@
  */
 
 import { Crypto } from '../../src/crypto.js';
-import type { PublicKey } from '../../src/types.js';
+import { NullifierGossip, type GossipConfig } from '../../src/gossip.js';
+import { ScarbuckToken } from '../../src/token.js';
+import { TransferValidator } from '../../src/validator.js';
+import { ValidationError } from '../../src/validation-error.js';
+import { FreebirdAdapter } from '../../src/integrations/freebird.js';
+import { WitnessAdapter, type WitnessAdapterConfig } from '../../src/integrations/witness.js';
+import type { Attestation, GossipMessage, PeerConnection, PublicKey, WitnessClient } from '../../src/types.js';
 
 // Integration tests intentionally exercise fallback paths when services are unavailable.
 if (!Object.prototype.hasOwnProperty.call(process.env, 'SCARCITY_ALLOW_INSECURE_FALLBACK')) {
@@ -156,6 +162,131 @@ export function createTestKeyPair(): { publicKey: PublicKey; secret: Uint8Array
   return { publicKey, secret };
 }
 
+/**
+ * Create a gossip node with background sync and pings off
+ */
+export function createTestGossip(witness: WitnessClient, config: Partial<GossipConfig> = {}): NullifierGossip {
+  return new NullifierGossip({ witness, syncOnConnect: false, syncInterval: 0, pingInterval: 0, ...config });
+}
+
+/**
+ * Create a Witness client for the test gateway
+ */
+export function createTestWitness(config: Partial<WitnessAdapterConfig> = {}): WitnessAdapter {
+  return new WitnessAdapter({ gatewayUrl: TestConfig.witness.gateway, ...config });
+}
+
+/**
+ * Create a Freebird client for the test issuer and verifier
+ */
+export function createTestFreebird(): FreebirdAdapter {
+  return new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+}
+
+/**
+ * Services for package tests
+ *
+ * Tokens are minted on the sender's node and validated on the receiver's:
+ * a node without peers reads every nullifier published to it as seen
+ * everywhere.
+ */
+export interface TestServices {
+  readonly witness: WitnessAdapter;
+  readonly freebird: FreebirdAdapter;
+  readonly sender: NullifierGossip;
+  readonly receiver: NullifierGossip;
+  readonly validator: TransferValidator;
+  mint(amount: number): ScarbuckToken;
+}
+
+/**
+ * Create the services for a package test
+ */
+export function createTestServices(): TestServices {
+  const witness = createTestWitness();
+  const freebird = createTestFreebird();
+  const sender = createTestGossip(witness);
+  const receiver = createTestGossip(witness);
+  return {
+    witness,
+    freebird,
+    sender,
+    receiver,
+    validator: new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0, minConfidence: 0.1 }),
+    mint: amount => ScarbuckToken.mint(amount, freebird, witness, sender)
+  };
+}
+
+/**
+ * Why an operation was refused: a validation code, an error message, or
+ * '' if it succeeded
+ */
+export async function refusal(run: () => Promise<unknown>): Promise<string> {
+  try {
+    await run();
+    return '';
+  } catch (error) {
+    return error instanceof ValidationError ? error.code : (error as Error).message;
+  }
+}
+
+/**
+ * Create an attestation over `hashed` that fallback verification accepts
+ */
+export function createTestProof(hashed: Uint8Array, timestamp = Date.now()): Attestation {
+  return {
+    hash: Crypto.toHex(Crypto.hash(hashed)),
+    timestamp,
+    signatures: ['sig1', 'sig2'],
+    witnessIds: ['w1', 'w2']
+  };
+}
+
+/**
+ * Peer that records what the node sends it
+ */
+export function recordingPeer(id: string, sent: GossipMessage[]): PeerConnection {
+  return {
+    id,
+    async send(data: GossipMessage) {
+      sent.push(data);
+    },
+    isConnected: () => true
+  };
+}
+
+/**
+ * Peer `id` that delivers what the node sends it into `to`, as coming from `fromId`
+ */
+export function deliveringPeer(
+  id: string,
+  to: NullifierGossip,
+  fromId: string,
+  sent?: GossipMessage[]
+): PeerConnection {
+  return {
+    id,
+    async send(data: GossipMessage) {
+      sent?.push(data);
+      await to.onReceive(data, fromId);
+    },
+    isConnected: () => true
+  };
+}
+
+/**
+ * Wire two nodes together in-process, recording every message sent
+ */
+export function linkNodes(a: NullifierGossip, aId: string, b: NullifierGossip, bId: string): GossipMessage[] {
+  const sent: GossipMessage[] = [];
+  a.addPeer(deliveringPeer(bId, b, aId, sent));
+  b.addPeer(deliveringPeer(aId, a, bId, sent));
+  return sent;
+}
+
 /**
  * Wait for specified milliseconds
  */
@@ -153,6 +153,22 @@ export async function runWebLifecycleApiTest(): Promise<void> {
       const tokens = await api<any>(baseUrl, '/api/tokens?wallet=alice');
       const merged = tokens.data.tokens.find((t: any) => t.id === mergedTokenId);
       runner.assert(merged?.spent === true, 'Transferred token should be marked spent');
+
+      runner.assert(typeof transfer.data.encoded === 'string', 'Transfer should include the encoded package');
+      runner.assert(transfer.data.bearer?.startsWith('scar1'), 'Transfer should include a payment string');
+      const received = await api<any>(baseUrl, '/api/tokens/receive', {
+        method: 'POST',
+        body: JSON.stringify({ encoded: transfer.data.encoded, wallet: 'bob' })
+      });
+      runner.assert(received.data.amount === 100, 'Encoded package should be receivable');
+    });
+
+    await runner.run('HTLC listing validates its status filter', async () => {
+      const pending = await api<any>(baseUrl, '/api/htlcs?status=pending');
+      runner.assert(Array.isArray(pending.data.htlcs), 'A known status should list HTLCs');
+
+      const response = await fetch(`${baseUrl}/api/htlcs?status=bogus`);
+      runner.assertEquals(response.status, 400, 'An unknown status should be refused');
     });
 
     runner.printSummary();
@@ -0,0 +1,233 @@
+/**
+ * Integration Test: Persistent nullifier store
+ *
+ * Tests:
+ * - NullifierGossip keeps working on the default in-memory store
+ * - SQLite store survives a simulated node restart
+ * - SQLite databases from older schemas are migrated; newer ones are refused
+ * - Both stores look preimages up by hashlock and forget them with their record
+ * - Prune-by-age and the hard size cap go through the store
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import {
+  NullifierGossip,
+  WitnessAdapter,
+  InMemoryNullifierStore,
+  SqliteNullifierStore,
+  Crypto
+} from '../../src/index.js';
+import type { GossipMessage } from '../../src/types.js';
+import { TestRunner, TestConfig } from '../helpers/test-utils.js';
+
+export async function runNullifierStoreTest(): Promise<void> {
+  const runner = new TestRunner();
+  const tempDir = await mkdtemp(join(tmpdir(), 'scarcity-store-test-'));
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Persistent Nullifier Store');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makeMessage = (timestamp = Date.now()): GossipMessage => {
+    const nullifier = Crypto.randomBytes(32);
+    return {
+      type: 'nullifier',
+      nullifier,
+      proof: {
+        hash: Crypto.toHex(Crypto.hash(nullifier)),
+        timestamp,
+        signatures: ['sig1', 'sig2'],
+        witnessIds: ['w1', 'w2']
+      },
+      timestamp
+    };
+  };
+
+  try {
+    await runner.run('In-memory store tracks peer counts', async () => {
+      const store = new InMemoryNullifierStore();
+      const gossip = new NullifierGossip({ witness, store });
+      const message = makeMessage();
+
+      await gossip.onReceive(message, 'peer-a');
+      await gossip.onReceive(message, 'peer-b');
+
+      const record = store.get(Crypto.toHex(message.nullifier!));
+      runner.assert(record !== undefined, 'Record should be stored');
+      runner.assertEquals(record!.peerCount, 2, 'Duplicate should increment peer count');
+      runner.assertEquals(gossip.getStats().nullifierCount, 1, 'Stats should read from the store');
+      gossip.destroy();
+    });
+
+    await runner.run('SQLite store survives a node restart', async () => {
+      const dbPath = join(tempDir, 'restart.db');
+      const message = makeMessage();
+
+      const firstStore = new SqliteNullifierStore(dbPath);
+      const firstNode = new NullifierGossip({ witness, store: firstStore });
+      await firstNode.publish(message.nullifier!, message.proof!);
+      firstNode.destroy();
+      firstStore.close();
+
+      const secondStore = new SqliteNullifierStore(dbPath);
+      const secondNode = new NullifierGossip({ witness, store: secondStore });
+
+      const confidence = await secondNode.checkNullifier(message.nullifier!);
+      runner.assertGreaterThan(confidence, 0, 'Restarted node should remember the nullifier');
+
+      let rejected = false;
+      try {
+        await secondNode.publish(message.nullifier!, message.proof!);
+      } catch (error: any) {
+        rejected = error.message.includes('Double-spend');
+      }
+      runner.assert(rejected, 'Replay after restart should be rejected');
+
+      const restored = secondStore.get(Crypto.toHex(message.nullifier!));
+      runner.assertEquals(restored?.proof.hash, message.proof!.hash, 'Proof should round-trip');
+
+      secondNode.destroy();
+      secondStore.close();
+    });
+
+    await runner.run('SQLite store migrates older schemas', async () => {
+      // The table as the first release created it, before user_version was set
+      const dbPath = join(tempDir, 'legacy.db');
+      const message = makeMessage();
+      const legacy = new Database(dbPath);
+      legacy.exec(`
+        CREATE TABLE gossip_nullifiers (
+          key TEXT PRIMARY KEY NOT NULL,
+          proof TEXT NOT NULL,
+          firstSeen INTEGER NOT NULL,
+          peerCount INTEGER NOT NULL
+        );
+        CREATE INDEX idx_gossip_nullifiers_firstSeen ON gossip_nullifiers(firstSeen);
+      `);
+      legacy.prepare('INSERT INTO gossip_nullifiers VALUES (?, ?, ?, ?)')
+        .run(Crypto.toHex(message.nullifier!), JSON.stringify(message.proof), Date.now(), 1);
+      legacy.close();
+
+      const store = new SqliteNullifierStore(dbPath);
+      const key = Crypto.toHex(message.nullifier!);
+      runner.assertEquals(store.get(key)?.proof.hash, message.proof!.hash, 'Old records should be kept');
+      const packageFields = Crypto.randomBytes(16);
+      store.set(key, { ...store.get(key)!, packageFields });
+      runner.assert(
+        Crypto.constantTimeEqual(store.get(key)!.packageFields!, packageFields),
+        'Added columns should be writable'
+      );
+      store.close();
+
+      const migrated = new Database(dbPath);
+      const version = migrated.pragma('user_version', { simple: true }) as number;
+      migrated.pragma(`user_version = ${version + 1}`);
+      migrated.close();
+      runner.assertGreaterThan(version, 0, 'The schema version should be recorded');
+
+      let refused = '';
+      try {
+        new SqliteNullifierStore(dbPath).close();
+      } catch (error) {
+        refused = (error as Error).message;
+      }
+      runner.assert(refused.includes('newer than this release'), 'A newer schema should be refused');
+    });
+
+    await runner.run('Stores look preimages up by hashlock', async () => {
+      const dbPath = join(tempDir, 'preimages.db');
+      for (const open of [() => new InMemoryNullifierStore(), () => new SqliteNullifierStore(dbPath)]) {
+        const store = open();
+        const message = makeMessage();
+        const key = Crypto.toHex(message.nullifier!);
+        const preimage = Crypto.randomBytes(32);
+        const hashlock = Crypto.toHex(Crypto.hash(preimage));
+        store.set(key, {
+          nullifier: message.nullifier!,
+          proof: message.proof!,
+          firstSeen: 1,
+          peerCount: 1,
+          preimage,
+          hashlock
+        });
+
+        runner.assert(Crypto.constantTimeEqual(store.getPreimage(hashlock)!, preimage), 'The preimage should be found');
+        runner.assertEquals(store.getPreimage('00'.repeat(32)), undefined, 'Unknown hashlocks should miss');
+        store.pruneOlderThan(2);
+        runner.assertEquals(store.getPreimage(hashlock), undefined, 'A pruned record should take its preimage along');
+        store.close();
+      }
+    });
+
+    await runner.run('Prune removes nullifiers older than maxNullifierAge', async () => {
+      const store = new SqliteNullifierStore(join(tempDir, 'prune.db'));
+      const gossip = new NullifierGossip({ witness, store, maxNullifierAge: 60_000 });
+
+      const stale = makeMessage();
+      store.set(Crypto.toHex(stale.nullifier!), {
+        nullifier: stale.nullifier!,
+        proof: stale.proof!,
+        firstSeen: Date.now() - 120_000,
+        peerCount: 1
+      });
+      const fresh = makeMessage();
+      await gossip.onReceive(fresh, 'peer-a');
+
+      gossip.prune();
+
+      runner.assert(!store.has(Crypto.toHex(stale.nullifier!)), 'Stale nullifier should be pruned');
+      runner.assert(store.has(Crypto.toHex(fresh.nullifier!)), 'Fresh nullifier should be kept');
+      gossip.destroy();
+      store.close();
+    });
+
+    await runner.run('Prune enforces maxNullifiers by evicting oldest', async () => {
+      const store = new InMemoryNullifierStore();
+      const gossip = new NullifierGossip({ witness, store, maxNullifiers: 2 });
+
+      const keys: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        const message = makeMessage();
+        keys.push(Crypto.toHex(message.nullifier!));
+        store.set(keys[i], {
+          nullifier: message.nullifier!,
+          proof: message.proof!,
+          firstSeen: Date.now() - (4 - i) * 1000,
+          peerCount: 1
+        });
+      }
+
+      gossip.prune();
+
+      runner.assertEquals(store.size(), 2, 'Store should be capped at maxNullifiers');
+      runner.assert(!store.has(keys[0]) && !store.has(keys[1]), 'Oldest entries should be evicted');
+      gossip.destroy();
+    });
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runNullifierStoreTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
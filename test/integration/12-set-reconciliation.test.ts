@@ -0,0 +1,223 @@
+/**
+ * Integration Test: Nullifier set reconciliation
+ *
+ * Tests:
+ * - Digests agree for equal sets and pinpoint differing buckets
+ * - Two partitioned peers converge in both directions after reconnecting
+ * - Only missing nullifiers are transferred
+ * - Peers with different bucket counts still converge, unpenalized
+ * - Peers with different entry limits still converge, unpenalized
+ * - Invalid entries in a sync response are rejected and penalized
+ */
+
+import {
+  WitnessAdapter,
+  Crypto,
+  computeDigest,
+  diffDigests,
+  MAX_SYNC_ENTRIES
+} from '../../src/index.js';
+import type { GossipMessage } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestGossip, createTestProof, linkNodes } from '../helpers/test-utils.js';
+
+export async function runSetReconciliationTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Set Reconciliation');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makeMessage = (): GossipMessage => {
+    const nullifier = Crypto.randomBytes(32);
+    const timestamp = Date.now();
+    return {
+      type: 'nullifier',
+      nullifier,
+      proof: createTestProof(nullifier, timestamp),
+      timestamp
+    };
+  };
+
+  await runner.run('Digests match for equal sets and differ per bucket', async () => {
+    const keys = Array.from({ length: 50 }, () => Crypto.toHex(Crypto.randomBytes(32)));
+    const shuffled = [...keys].reverse();
+
+    const a = computeDigest(keys, 16);
+    const b = computeDigest(shuffled, 16);
+    runner.assertEquals(diffDigests(a, b).length, 0, 'Order should not affect the digest');
+
+    const c = computeDigest(keys.slice(1), 16);
+    const diff = diffDigests(a, c);
+    runner.assertEquals(diff.length, 1, 'Exactly one bucket should differ');
+    runner.assertEquals(diff[0], parseInt(keys[0].slice(0, 4), 16) >> 12, 'Differing bucket should hold the missing key');
+  });
+
+  await runner.run('Partitioned peers converge in both directions', async () => {
+    const alice = createTestGossip(witness);
+    const bob = createTestGossip(witness);
+
+    const shared = Array.from({ length: 5 }, makeMessage);
+    const aliceOnly = Array.from({ length: 7 }, makeMessage);
+    const bobOnly = Array.from({ length: 4 }, makeMessage);
+
+    for (const message of [...shared, ...aliceOnly]) {
+      await alice.publish(message.nullifier!, message.proof!);
+    }
+    for (const message of [...shared, ...bobOnly]) {
+      await bob.publish(message.nullifier!, message.proof!);
+    }
+
+    const sent = linkNodes(alice, 'alice', bob, 'bob');
+    await alice.reconcile('bob');
+
+    runner.assertEquals(alice.getStats().nullifierCount, 16, 'Alice should hold the union');
+    runner.assertEquals(bob.getStats().nullifierCount, 16, 'Bob should hold the union');
+
+    for (const message of bobOnly) {
+      const confidence = await alice.checkNullifier(message.nullifier!);
+      runner.assertGreaterThan(confidence, 0, 'Alice should know Bob\'s nullifiers');
+    }
+
+    const transferred = sent
+      .filter(m => m.type === 'sync-response')
+      .reduce((count, m) => count + (m.entries?.length ?? 0), 0);
+    runner.assertEquals(transferred, aliceOnly.length + bobOnly.length, 'Only missing nullifiers should be transferred');
+
+    // A second round is a no-op: digests now match
+    sent.length = 0;
+    await bob.reconcile('alice');
+    runner.assertEquals(sent.length, 1, 'In-sync peers should exchange only a digest');
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  await runner.run('Peers with different bucket counts converge unpenalized', async () => {
+    const alice = createTestGossip(witness, { syncBuckets: 16 });
+    const bob = createTestGossip(witness, { syncBuckets: 64 });
+    for (const message of Array.from({ length: 6 }, makeMessage)) {
+      await alice.publish(message.nullifier!, message.proof!);
+    }
+    for (const message of Array.from({ length: 3 }, makeMessage)) {
+      await bob.publish(message.nullifier!, message.proof!);
+    }
+    linkNodes(alice, 'alice', bob, 'bob');
+
+    await alice.reconcile('bob');
+    await bob.reconcile('alice');
+
+    runner.assertEquals(alice.getStats().nullifierCount, 9, 'Alice should hold the union');
+    runner.assertEquals(bob.getStats().nullifierCount, 9, 'Bob should hold the union');
+    for (const [node, peer] of [[alice, 'bob'], [bob, 'alice']] as const) {
+      const stats = node.getPeerStats(peer);
+      runner.assert(stats === null || stats.score >= 0, `${peer} should not be penalized for its bucket count`);
+    }
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  await runner.run('Peers with different entry limits converge unpenalized', async () => {
+    const alice = createTestGossip(witness, { maxSyncEntries: 64 });
+    const bob = createTestGossip(witness, { maxSyncEntries: 4 });
+    for (const message of Array.from({ length: 10 }, makeMessage)) {
+      await alice.publish(message.nullifier!, message.proof!);
+    }
+    linkNodes(alice, 'alice', bob, 'bob');
+
+    await bob.reconcile('alice');
+    runner.assertEquals(bob.getStats().nullifierCount, 4, 'Bob should take only his limit per reply');
+    await bob.reconcile('alice');
+    await bob.reconcile('alice');
+    runner.assertEquals(bob.getStats().nullifierCount, 10, 'Later rounds should pull the rest');
+    const stats = bob.getPeerStats('alice');
+    runner.assert(stats === null || stats.score >= 0, 'Alice should not be penalized for her entry limit');
+
+    // Beyond the protocol limit a reply is malformed, whatever the sender's setting
+    await bob.onReceive({
+      type: 'sync-response',
+      entries: Array.from({ length: MAX_SYNC_ENTRIES + 1 }, () => makeMessage()).map(message => ({
+        nullifier: message.nullifier!,
+        proof: message.proof!
+      })),
+      timestamp: Date.now()
+    }, 'mallory');
+    runner.assert((bob.getPeerStats('mallory')?.score ?? 0) < 0, 'An oversized reply should be penalized');
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  await runner.run('Sync does not count as a duplicate sighting', async () => {
+    const alice = createTestGossip(witness);
+    const bob = createTestGossip(witness);
+    const message = makeMessage();
+    await alice.publish(message.nullifier!, message.proof!);
+    await bob.publish(message.nullifier!, message.proof!);
+    linkNodes(alice, 'alice', bob, 'bob');
+
+    await bob.onReceive({
+      type: 'sync-response',
+      entries: [{ nullifier: message.nullifier!, proof: message.proof! }],
+      timestamp: Date.now()
+    }, 'alice');
+
+    const stats = bob.getPeerStats('alice');
+    runner.assert(stats === null || stats.duplicates === 0, 'Known sync entries should not be penalized');
+    runner.assertEquals(await bob.checkNullifier(message.nullifier!), 1, 'Peer count should be unchanged');
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  await runner.run('Invalid sync entries are rejected and penalized', async () => {
+    const bob = createTestGossip(witness);
+    const nullifier = Crypto.randomBytes(32);
+
+    await bob.onReceive({
+      type: 'sync-response',
+      entries: [{
+        nullifier,
+        proof: { hash: 'bad', timestamp: Date.now(), signatures: [], witnessIds: [] }
+      }],
+      timestamp: Date.now()
+    }, 'mallory');
+
+    runner.assertEquals(await bob.checkNullifier(nullifier), 0, 'Invalid entry should not be stored');
+    const stats = bob.getPeerStats('mallory');
+    runner.assert(stats !== null && stats.score < 0, 'Sender should be penalized');
+
+    const scoreBefore = stats!.score;
+    await bob.onReceive({
+      type: 'sync-request',
+      syncBuckets: [999_999],
+      nullifierKeys: [],
+      syncRound: 0,
+      timestamp: Date.now()
+    }, 'mallory');
+    runner.assert(bob.getPeerStats('mallory')!.score < scoreBefore, 'Malformed request should also be penalized');
+
+    bob.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runSetReconciliationTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,147 @@
+/**
+ * Integration Test: Filter digests in ping/pong
+ *
+ * Tests:
+ * - Bloom filter has no false negatives and survives the wire format
+ * - Pongs reveal a lagging peer and feed eclipse detection
+ * - Persistent withholding is penalized
+ * - Missing nullifiers are pulled via nullifier-request/response
+ */
+
+import {
+  WitnessAdapter,
+  BloomFilter,
+  Crypto
+} from '../../src/index.js';
+import type { GossipMessage } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestGossip, createTestProof, linkNodes } from '../helpers/test-utils.js';
+
+export async function runFilterDigestTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Filter Digests & Eclipse Detection');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makeMessage = (): GossipMessage => {
+    const nullifier = Crypto.randomBytes(32);
+    const timestamp = Date.now();
+    return {
+      type: 'nullifier',
+      nullifier,
+      proof: createTestProof(nullifier, timestamp),
+      timestamp
+    };
+  };
+
+  const makeNode = () => createTestGossip(witness, { filterGrace: 0 });
+
+  await runner.run('Bloom filter has no false negatives', async () => {
+    const items = Array.from({ length: 500 }, () => Crypto.randomBytes(32));
+    const filter = BloomFilter.create(items.length);
+    items.forEach(item => filter.add(item));
+
+    const restored = BloomFilter.fromWire(filter.toWire(0));
+    runner.assert(items.every(item => restored.has(item)), 'Every added item should be present');
+    runner.assertEquals(restored.count, 500, 'Count should survive the wire format');
+
+    const falsePositives = Array.from({ length: 1000 }, () => Crypto.randomBytes(32))
+      .filter(item => restored.has(item)).length;
+    runner.assert(falsePositives < 50, `False positive rate should be near 1% (got ${falsePositives}/1000)`);
+  });
+
+  await runner.run('Pong exposes a lagging peer', async () => {
+    const alice = makeNode();
+    const bob = makeNode();
+    for (let i = 0; i < 5; i++) {
+      const message = makeMessage();
+      await alice.publish(message.nullifier!, message.proof!);
+    }
+    const sent = linkNodes(alice, 'alice', bob, 'bob');
+
+    await alice.ping('bob');
+
+    const stats = alice.getPeerStats('bob');
+    runner.assertEquals(stats?.missingNullifiers, 5, 'Bob should be missing all of Alice\'s nullifiers');
+    runner.assert(alice.getEclipseStatus().suspected, 'All reporting peers lagging should flag an eclipse');
+    runner.assert(sent.some(m => m.type === 'sync-digest'), 'Alice should start reconciliation with Bob');
+    runner.assertEquals(bob.getStats().nullifierCount, 5, 'Bob should have caught up');
+
+    await alice.ping('bob');
+    runner.assertEquals(alice.getPeerStats('bob')?.missingNullifiers, 0, 'Bob should no longer lag');
+    runner.assert(!alice.getEclipseStatus().suspected, 'Eclipse warning should clear');
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  await runner.run('Persistent withholding is penalized', async () => {
+    const alice = makeNode();
+    for (let i = 0; i < 5; i++) {
+      const message = makeMessage();
+      await alice.publish(message.nullifier!, message.proof!);
+    }
+
+    const emptyPong: GossipMessage = {
+      type: 'pong',
+      filter: BloomFilter.create(0).toWire(Date.now() - 60_000),
+      timestamp: Date.now()
+    };
+
+    await alice.onReceive(emptyPong, 'mallory');
+    runner.assertEquals(alice.getPeerStats('mallory')?.score, 0, 'A single lagging pong should not be penalized');
+
+    await alice.onReceive(emptyPong, 'mallory');
+    runner.assert(alice.getPeerStats('mallory')!.score < 0, 'Repeated lag should be penalized');
+
+    await alice.onReceive({ type: 'pong', timestamp: Date.now() }, 'mallory');
+    runner.assert(alice.getPeerStats('mallory')!.score < -2, 'Pong without a filter should be penalized');
+
+    alice.destroy();
+  });
+
+  await runner.run('Missing nullifiers are pulled from a peer', async () => {
+    const alice = makeNode();
+    const bob = makeNode();
+    const bobOnly = Array.from({ length: 4 }, makeMessage);
+    for (const message of bobOnly) {
+      await bob.publish(message.nullifier!, message.proof!);
+    }
+    const sent = linkNodes(alice, 'alice', bob, 'bob');
+
+    await alice.ping('bob');
+
+    runner.assert(sent.some(m => m.type === 'nullifier-request'), 'Alice should request missing nullifiers');
+    runner.assert(!sent.some(m => m.type.startsWith('sync-')), 'Bob is not lagging, so no reconciliation is needed');
+    for (const message of bobOnly) {
+      runner.assertGreaterThan(
+        await alice.checkNullifier(message.nullifier!), 0,
+        'Alice should hold the pulled nullifier'
+      );
+    }
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runFilterDigestTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,279 @@
+/**
+ * Integration Test: Double-spend evidence
+ *
+ * Tests:
+ * - A known nullifier with a different attestation produces evidence
+ * - Evidence is gossiped and verified by other nodes
+ * - Forged evidence is rejected and penalized
+ * - Attestations over unrelated packages never become evidence
+ * - TransferValidator rejects deterministically when evidence exists
+ * - Evidence fetched while rechecking after the wait also rejects
+ */
+
+import {
+  ScarbuckToken,
+  TransferValidator,
+  FreebirdAdapter,
+  WitnessAdapter,
+  OwnershipProof,
+  packageHashInput,
+  Crypto
+} from '../../src/index.js';
+import type { GossipMessage } from '../../src/types.js';
+import {
+  TestRunner,
+  TestConfig,
+  createTestKeyPair,
+  createTestGossip,
+  createTestProof,
+  recordingPeer
+} from '../helpers/test-utils.js';
+
+export async function runDoubleSpendEvidenceTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Double-Spend Evidence');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  /**
+   * A transfer of the token (secret, tokenId) to `recipient`, as its
+   * publisher gossips it
+   */
+  const makeSpend = async (secret: Uint8Array, tokenId: string, recipient: string): Promise<GossipMessage> => {
+    const nullifier = Crypto.hash(secret, tokenId);
+    const packageFields = packageHashInput('transfer', {
+      tokenId,
+      amount: 10,
+      sourceCreatedAt: 1_700_000_000_000,
+      commitment: Crypto.hash(recipient),
+      nullifier
+    });
+    return {
+      type: 'nullifier',
+      nullifier,
+      proof: createTestProof(packageFields),
+      packageFields,
+      ownershipProof: await OwnershipProof.create(secret, nullifier),
+      timestamp: Date.now()
+    };
+  };
+
+  /**
+   * Two transfers of one token to different recipients
+   */
+  const makeDoubleSpend = async (): Promise<[GossipMessage, GossipMessage]> => {
+    const secret = Crypto.randomBytes(32);
+    const tokenId = Crypto.toHex(Crypto.randomBytes(32));
+    return [await makeSpend(secret, tokenId, 'alice'), await makeSpend(secret, tokenId, 'bob')];
+  };
+
+  await runner.run('Conflicting attestation produces evidence', async () => {
+    const gossip = createTestGossip(witness);
+    const sent: GossipMessage[] = [];
+    gossip.addPeer(recordingPeer('observer', sent));
+
+    const [first, second] = await makeDoubleSpend();
+    const nullifier = first.nullifier!;
+
+    await gossip.onReceive(first, 'peer-a');
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'One spend is not evidence');
+
+    await gossip.onReceive(second, 'peer-b');
+
+    const evidence = gossip.getDoubleSpendEvidence(nullifier);
+    runner.assert(evidence !== null, 'Evidence should be recorded');
+    runner.assertEquals(evidence!.first.proof.hash, first.proof!.hash, 'First claim should be kept');
+    runner.assertEquals(evidence!.second.proof.hash, second.proof!.hash, 'Second claim should be kept');
+    runner.assert(evidence!.second.packageFields !== undefined, 'Claims should carry their package fields');
+    runner.assertEquals(gossip.getStats().evidenceCount, 1, 'Stats should count evidence');
+    runner.assert(sent.some(m => m.type === 'double-spend-evidence'), 'Evidence should be gossiped');
+    runner.assertEquals(gossip.getPeerStats('peer-b')?.duplicates, 0, 'Reporting a conflict is not duplicate spam');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Gossiped evidence is verified and adopted', async () => {
+    const source = createTestGossip(witness);
+    const sent: GossipMessage[] = [];
+    source.addPeer(recordingPeer('target', sent));
+
+    const [first, second] = await makeDoubleSpend();
+    await source.onReceive(first, 'peer-a');
+    await source.onReceive(second, 'peer-b');
+
+    const target = createTestGossip(witness);
+    const message = sent.find(m => m.type === 'double-spend-evidence')!;
+    await target.onReceive(message, 'source');
+
+    runner.assert(target.getDoubleSpendEvidence(first.nullifier!) !== null, 'Target should adopt verified evidence');
+    runner.assertGreaterThan(await target.checkNullifier(first.nullifier!), 0, 'Target should now know the nullifier');
+
+    source.destroy();
+    target.destroy();
+  });
+
+  await runner.run('Forged evidence is rejected', async () => {
+    const gossip = createTestGossip(witness);
+    const [first, second] = await makeDoubleSpend();
+    const nullifier = first.nullifier!;
+    const claim = (message: GossipMessage) => ({
+      proof: message.proof!,
+      packageFields: message.packageFields,
+      ownershipProof: message.ownershipProof
+    });
+    const forge = (evidence: Record<string, unknown>) => gossip.onReceive({
+      type: 'double-spend-evidence',
+      evidence: { nullifier, first: claim(first), second: claim(second), detectedAt: Date.now(), ...evidence },
+      timestamp: Date.now()
+    }, 'mallory');
+
+    await forge({ second: claim(first) });
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'Identical claims are not a conflict');
+
+    await forge({ second: { ...claim(second), proof: { ...second.proof!, signatures: [] } } });
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'Invalid attestations are not evidence');
+
+    const unrelated = await makeSpend(Crypto.randomBytes(32), 'other-token', 'carol');
+    await forge({ second: { ...claim(unrelated), ownershipProof: second.ownershipProof } });
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'An unrelated package is not evidence');
+
+    await forge({ second: { proof: createTestProof(Crypto.randomBytes(32)), ownershipProof: second.ownershipProof } });
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'A bare attestation is not evidence');
+
+    await forge({ second: { ...claim(second), ownershipProof: undefined } });
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'A claim without ownership proof is not evidence');
+
+    runner.assert(gossip.getPeerStats('mallory')!.score <= -40, 'Forger should be penalized');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Unrelated attestations never become evidence', async () => {
+    const gossip = createTestGossip(witness);
+    const [spend] = await makeDoubleSpend();
+    const nullifier = spend.nullifier!;
+    await gossip.onReceive(spend, 'peer-a');
+
+    // Attested fields of some other token, presented as a spend of this one
+    const other = await makeSpend(Crypto.randomBytes(32), 'other-token', 'mallory');
+    await gossip.onReceive({ ...other, nullifier }, 'mallory');
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'An unrelated package is not a second spend');
+    runner.assert(gossip.getPeerStats('mallory')!.score < 0, 'Its sender should be penalized');
+
+    // Without package fields a different attestation is only another sighting
+    const bare = createTestProof(Crypto.randomBytes(32));
+    await gossip.onReceive({ type: 'nullifier', nullifier, proof: bare, timestamp: Date.now() }, 'peer-b');
+    runner.assert(gossip.getDoubleSpendEvidence(nullifier) === null, 'A bare attestation is not a second spend');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Validator rejects deterministically on evidence', async () => {
+    const freebird = new FreebirdAdapter({
+      issuerEndpoints: [TestConfig.freebird.issuer],
+      verifierUrl: TestConfig.freebird.verifier
+    });
+    const gossip = createTestGossip(witness);
+    for (let i = 0; i < 10; i++) {
+      gossip.addPeer(recordingPeer(`peer-${i}`, []));
+    }
+    const validator = new TransferValidator({ freebird, gossip, witness, waitTime: 0, minConfidence: 0.1 });
+
+    const token = ScarbuckToken.mint(10, freebird, witness, gossip);
+    const state = token.getPersistentState();
+    const pkg = await token.transfer(createTestKeyPair().publicKey);
+
+    // An attestation over an unrelated package is refused outright
+    const unrelated = await makeSpend(Crypto.randomBytes(32), 'other-token', 'mallory');
+    await gossip.onReceive({ ...unrelated, nullifier: pkg.nullifier }, 'peer-0');
+    runner.assert(gossip.getDoubleSpendEvidence(pkg.nullifier) === null, 'An unrelated attestation is not evidence');
+    const unaffected = await validator.validateTransfer(pkg);
+    runner.assert(!unaffected.reason?.includes('conflicting attestations'),
+      `An unrelated attestation should not reject the transfer (got: ${unaffected.reason})`);
+
+    // The same token genuinely spent again, seen through another node
+    const elsewhere = createTestGossip(witness);
+    const sent: GossipMessage[] = [];
+    elsewhere.addPeer(recordingPeer('relay', sent));
+    const copy = ScarbuckToken.fromPersistentState({ ...state, spent: false }, freebird, witness, elsewhere);
+    await copy.transfer(createTestKeyPair().publicKey);
+
+    // With ten peers a single conflicting sighting stays well under the
+    // 0.5 confidence threshold; only the evidence can reject it
+    await gossip.onReceive(sent.find(m => m.type === 'nullifier')!, 'peer-1');
+    runner.assert(await gossip.checkNullifier(pkg.nullifier) <= 0.5, 'Sighting count alone should not reject');
+
+    const result = await validator.validateTransfer(pkg);
+    runner.assert(!result.valid, 'Transfer should be rejected');
+    runner.assert(result.reason?.includes('conflicting attestations') === true, `Reason should cite evidence (got: ${result.reason})`);
+
+    const fast = await validator.fastValidate(pkg);
+    runner.assert(!fast.valid && fast.reason?.includes('conflicting attestations') === true, 'Fast validation should also reject');
+
+    gossip.destroy();
+    elsewhere.destroy();
+  });
+
+  await runner.run('Evidence fetched by the final recheck rejects', async () => {
+    const freebird = new FreebirdAdapter({
+      issuerEndpoints: [TestConfig.freebird.issuer],
+      verifierUrl: TestConfig.freebird.verifier
+    });
+    const gossip = createTestGossip(witness);
+    for (let i = 0; i < 10; i++) {
+      gossip.addPeer(recordingPeer(`peer-${i}`, []));
+    }
+    const validator = new TransferValidator({ freebird, gossip, witness, waitTime: 20, minConfidence: 0.1 });
+
+    const token = ScarbuckToken.mint(10, freebird, witness, gossip);
+    const state = token.getPersistentState();
+    const pkg = await token.transfer(createTestKeyPair().publicKey);
+
+    const elsewhere = createTestGossip(witness);
+    const sent: GossipMessage[] = [];
+    elsewhere.addPeer(recordingPeer('relay', sent));
+    await ScarbuckToken.fromPersistentState({ ...state, spent: false }, freebird, witness, elsewhere)
+      .transfer(createTestKeyPair().publicKey);
+
+    // The conflicting spend only arrives with the recheck's query, as a
+    // shard answer would bring it
+    const checkNullifier = gossip.checkNullifier.bind(gossip);
+    let checks = 0;
+    gossip.checkNullifier = async (nullifier: Uint8Array) => {
+      if (++checks === 2) {
+        await gossip.onReceive(sent.find(m => m.type === 'nullifier')!, 'peer-1');
+      }
+      return checkNullifier(nullifier);
+    };
+
+    const result = await validator.validateTransfer(pkg);
+    runner.assert(checks >= 2, 'The nullifier should be rechecked after the wait');
+    runner.assert(result.reason?.includes('conflicting attestations') === true,
+      `The recheck should reject on the fetched evidence (got: ${result.reason})`);
+
+    gossip.destroy();
+    elsewhere.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runDoubleSpendEvidenceTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,184 @@
+/**
+ * Integration Test: Sharded nullifier gossip
+ *
+ * Tests:
+ * - XOR distance helper matches KademliaRouter ordering
+ * - Nullifiers are stored only by the k closest full nodes
+ * - Light nodes hold nothing and query the responsible shard
+ * - Double-spends are still caught across shards
+ * - Prefix subscriptions store matching nullifiers regardless of distance
+ * - A shard that never answers is reported unknown, not unseen
+ */
+
+import {
+  NullifierGossip,
+  WitnessAdapter,
+  Crypto
+} from '../../src/index.js';
+import { UNKNOWN_SHARD_CONFIDENCE, closestNodes } from '../../src/sharding.js';
+import { xorDistance } from '../../src/networking/routing/types.js';
+import type { ShardingConfig } from '../../src/gossip.js';
+import {
+  TestRunner,
+  TestConfig,
+  createTestGossip,
+  createTestProof,
+  deliveringPeer,
+  linkNodes
+} from '../helpers/test-utils.js';
+
+interface Node {
+  readonly name: string;
+  readonly nodeId: Uint8Array;
+  readonly gossip: NullifierGossip;
+}
+
+export async function runShardingTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Sharded Nullifier Gossip');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makeNode = (name: string, sharding: Partial<ShardingConfig> = {}): Node => {
+    const nodeId = sharding.nodeId ?? Crypto.randomBytes(32);
+    return {
+      name,
+      nodeId,
+      gossip: createTestGossip(witness, { sharding: { replication: 2, ...sharding, nodeId } })
+    };
+  };
+
+  const connect = (a: Node, b: Node) => linkNodes(a.gossip, a.name, b.gossip, b.name);
+
+  // Let fire-and-forget shard announcements settle
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  await runner.run('XOR distance matches KademliaRouter', async () => {
+    const a = new Uint8Array(32);
+    const b = new Uint8Array(32);
+    b[31] = 0b101;
+    runner.assertEquals(xorDistance(a, b), 5n, 'Distance should be the XOR as an integer');
+
+    const target = new Uint8Array(32);
+    const near = { nodeId: new Uint8Array(32) };
+    near.nodeId[31] = 1;
+    const far = { nodeId: new Uint8Array(32) };
+    far.nodeId[0] = 0x80;
+    runner.assertEquals(closestNodes(target, [far, near], 1)[0], near, 'Closest node should sort first');
+  });
+
+  const full = Array.from({ length: 6 }, (_, i) => makeNode(`full-${i}`));
+  const light = makeNode('light', { light: true });
+  const all = [...full, light];
+  for (let i = 0; i < all.length; i++) {
+    for (let j = i + 1; j < all.length; j++) {
+      connect(all[i], all[j]);
+    }
+  }
+  await settle();
+
+  await runner.run('Nullifier is stored only by the responsible shard', async () => {
+    const nullifier = Crypto.randomBytes(32);
+    await light.gossip.publish(nullifier, createTestProof(nullifier));
+
+    const expected = closestNodes(nullifier, full, 2).map(node => node.name).sort();
+    const stored = full
+      .filter(node => node.gossip.getStats().nullifierCount === 1)
+      .map(node => node.name)
+      .sort();
+    runner.assertEquals(stored.join(','), expected.join(','), 'Exactly the 2 closest full nodes should store it');
+    runner.assertEquals(light.gossip.getStats().nullifierCount, 0, 'Light node should store nothing');
+  });
+
+  await runner.run('Light node queries the responsible shard', async () => {
+    const nullifier = Crypto.randomBytes(32);
+    await full[0].gossip.publish(nullifier, createTestProof(nullifier));
+
+    runner.assertGreaterThan(await light.gossip.checkNullifier(nullifier), 0, 'Light node should learn it was spent');
+    runner.assertEquals(await light.gossip.checkNullifier(Crypto.randomBytes(32)), 0, 'Unknown nullifier should be unseen');
+    runner.assertEquals(light.gossip.getStats().nullifierCount, 0, 'Queries should not fill the light store');
+  });
+
+  await runner.run('Double-spend is caught across shards', async () => {
+    const nullifier = Crypto.randomBytes(32);
+    await full[1].gossip.publish(nullifier, createTestProof(nullifier));
+
+    let rejected = false;
+    try {
+      await light.gossip.publish(nullifier, createTestProof(nullifier));
+    } catch (error: any) {
+      rejected = error.message.includes('Double-spend');
+    }
+    runner.assert(rejected, 'Second publish from another shard should be rejected');
+  });
+
+  await runner.run('Prefix subscribers store matching nullifiers', async () => {
+    const nullifier = Crypto.randomBytes(32);
+    const prefix = Crypto.toHex(nullifier).slice(0, 2);
+    const watcher = makeNode('watcher', { prefixes: [prefix], nodeId: farthestFrom(nullifier) });
+    all.forEach(node => connect(node, watcher));
+    await settle();
+
+    await light.gossip.publish(nullifier, createTestProof(nullifier));
+    runner.assertEquals(watcher.gossip.getStats().nullifierCount, 1, 'Subscribed node should store it despite distance');
+    watcher.gossip.destroy();
+  });
+
+  await runner.run('A shard that never answers is unknown, not unseen', async () => {
+    const lonely = makeNode('lonely', { light: true, queryTimeout: 50 });
+    for (const node of full) {
+      // Shard announcements reach the light node; its queries are dropped
+      node.gossip.addPeer(deliveringPeer('lonely', lonely.gossip, node.name));
+      lonely.gossip.addPeer({ id: node.name, send: async () => {}, isConnected: () => true });
+    }
+    await settle();
+
+    const nullifier = Crypto.randomBytes(32);
+    runner.assertEquals(
+      await lonely.gossip.checkNullifier(nullifier), UNKNOWN_SHARD_CONFIDENCE,
+      'A silent shard should not read as unseen'
+    );
+
+    let error = '';
+    try {
+      await lonely.gossip.publish(nullifier, createTestProof(nullifier));
+    } catch (caught: any) {
+      error = caught.message;
+    }
+    runner.assert(error.includes('no responsible shard node answered'), 'Publishing blind should be refused');
+    lonely.gossip.destroy();
+  });
+
+  for (const node of all) {
+    node.gossip.destroy();
+  }
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+/**
+ * Node ID as far as possible from the target (bitwise complement)
+ */
+function farthestFrom(target: Uint8Array): Uint8Array {
+  return target.map(byte => byte ^ 0xff);
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runShardingTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,238 @@
+/**
+ * Integration Test: Node identity and signed gossip envelopes
+ *
+ * Tests:
+ * - Envelope signatures verify and detect tampering
+ * - Identities persist across restarts
+ * - Peer scores are keyed by the verified identity
+ * - Messages signed by another key over a bound connection are dropped
+ * - Unsigned and forged messages are rejected when signatures are required
+ * - Replayed, stale and misaddressed envelopes cannot frame their signer
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  NodeIdentity,
+  WitnessAdapter,
+  verifyGossipSignature,
+  Crypto
+} from '../../src/index.js';
+import type { GossipMessage } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runNodeIdentityTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Node Identity & Signed Gossip');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makeMessage = (signatures = ['sig1', 'sig2']): GossipMessage => {
+    const nullifier = Crypto.randomBytes(32);
+    return {
+      type: 'nullifier',
+      nullifier,
+      proof: {
+        hash: Crypto.toHex(Crypto.hash(nullifier)),
+        timestamp: Date.now(),
+        signatures,
+        witnessIds: ['w1', 'w2']
+      },
+      timestamp: Date.now()
+    };
+  };
+
+  const makeNode = (requireSignatures = false, identity = NodeIdentity.generate()) =>
+    createTestGossip(witness, { identity, requireSignatures });
+
+  await runner.run('Envelope signatures verify and detect tampering', async () => {
+    const identity = NodeIdentity.generate();
+    const signed = identity.sign(makeMessage());
+
+    runner.assertEquals(verifyGossipSignature(signed), identity.id, 'Signature should verify to the signer');
+    runner.assertEquals(verifyGossipSignature(makeMessage()), null, 'Unsigned message has no signer');
+    runner.assertEquals(
+      verifyGossipSignature({ ...signed, timestamp: signed.timestamp + 1 }), null,
+      'Modified message should not verify'
+    );
+    runner.assertEquals(
+      verifyGossipSignature({ ...signed, sender: NodeIdentity.generate().publicKey }), null,
+      'Swapped sender key should not verify'
+    );
+  });
+
+  await runner.run('Identity persists across restarts', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scarcity-identity-'));
+    try {
+      const path = join(dir, 'node-identity.json');
+      const first = NodeIdentity.loadOrCreate(path);
+      const second = NodeIdentity.loadOrCreate(path);
+      runner.assertEquals(second.id, first.id, 'Reloaded identity should match');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  await runner.run('Peer scores are keyed by verified identity', async () => {
+    const gossip = makeNode();
+    const remote = NodeIdentity.generate();
+
+    await gossip.onReceive(remote.sign(makeMessage()), 'conn-1');
+    runner.assertEquals(gossip.getPeerIdentity('conn-1'), remote.id, 'Connection should bind to the signer');
+
+    await gossip.onReceive(remote.sign(makeMessage([])), 'conn-1');
+    const stats = gossip.getPeerStats(remote.id);
+    runner.assert(stats !== null && stats.score < 0, 'Penalty should land on the identity');
+    runner.assertEquals(gossip.getPeerStats('conn-1'), stats, 'Transport ID should resolve to the same record');
+    runner.assert(!gossip.getAllPeerScores().has('conn-1'), 'No record should be kept under the transport ID');
+
+    // The same identity over a new connection keeps its reputation
+    await gossip.onReceive(remote.sign(makeMessage()), 'conn-2');
+    runner.assertEquals(gossip.getPeerStats('conn-2'), stats, 'Reputation should follow the identity');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Other signers over a bound connection are dropped', async () => {
+    const gossip = makeNode();
+    const remote = NodeIdentity.generate();
+    const impostor = NodeIdentity.generate();
+
+    await gossip.onReceive(remote.sign(makeMessage()), 'conn-1');
+    const before = gossip.getPeerStats(remote.id)!.score;
+
+    const spoofed = makeMessage();
+    await gossip.onReceive(impostor.sign(spoofed), 'conn-1');
+    runner.assertEquals(await gossip.checkNullifier(spoofed.nullifier!), 0, 'Impostor message should be dropped');
+
+    const unsigned = makeMessage();
+    await gossip.onReceive(unsigned, 'conn-1');
+    runner.assertEquals(await gossip.checkNullifier(unsigned.nullifier!), 0, 'Unsigned message should be dropped');
+
+    runner.assertEquals(gossip.getPeerStats(remote.id)?.score, before, 'The bound identity should not be framed');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Required signatures reject unsigned and forged messages', async () => {
+    const gossip = makeNode(true);
+
+    const unsigned = makeMessage();
+    await gossip.onReceive(unsigned, 'conn-1');
+    runner.assertEquals(await gossip.checkNullifier(unsigned.nullifier!), 0, 'Unsigned message should be dropped');
+
+    const forged = { ...NodeIdentity.generate().sign(makeMessage()), signature: Crypto.randomBytes(64) };
+    await gossip.onReceive(forged, 'conn-2');
+    runner.assertEquals(await gossip.checkNullifier(forged.nullifier!), 0, 'Forged message should be dropped');
+    runner.assert(gossip.getPeerStats('conn-2')!.score < 0, 'Forger should be penalized');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Replayed envelopes cannot frame their signer', async () => {
+    const gossip = makeNode();
+    const remote = NodeIdentity.generate();
+
+    const signed = remote.sign(makeMessage());
+    await gossip.onReceive(signed, 'conn-1');
+    const before = gossip.getPeerStats(remote.id)!.score;
+
+    for (let i = 0; i < 60; i++) {
+      await gossip.onReceive(signed, 'conn-1');
+      await gossip.onReceive(signed, `relay-${i}`);
+    }
+    runner.assertEquals(gossip.getPeerStats(remote.id)?.score, before, 'Replays should not be scored');
+    runner.assertEquals(gossip.getPeerIdentity('relay-0'), null, 'A replay should not bind a connection');
+
+    // Freshly signed duplicates are counted but not charged to the signer
+    for (let i = 1; i <= 60; i++) {
+      await gossip.onReceive(remote.sign({ ...signed, timestamp: signed.timestamp + i }), 'conn-1');
+    }
+    const stats = gossip.getPeerStats(remote.id)!;
+    runner.assertEquals(stats.duplicates, 60, 'Duplicates should still be counted');
+    runner.assertEquals(stats.score, before, 'Duplicates should not be charged to the signer');
+
+    const elsewhere = remote.sign({ ...makeMessage(), recipient: NodeIdentity.generate().publicKey });
+    await gossip.onReceive(elsewhere, 'conn-2');
+    runner.assertEquals(await gossip.checkNullifier(elsewhere.nullifier!), 0, 'Envelopes for another node are dropped');
+
+    const stale = remote.sign({ ...makeMessage(), timestamp: Date.now() - 600_000 });
+    await gossip.onReceive(stale, 'conn-3');
+    runner.assertEquals(await gossip.checkNullifier(stale.nullifier!), 0, 'Stale envelopes are dropped');
+    runner.assertEquals(gossip.getPeerIdentity('conn-3'), null, 'A stale envelope should not bind a connection');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Outgoing messages are signed for their recipient', async () => {
+    const identity = NodeIdentity.generate();
+    const a = makeNode();
+    const b = makeNode(false, identity);
+    const sent: GossipMessage[] = [];
+    a.addPeer({
+      id: 'b',
+      async send(data: GossipMessage) {
+        sent.push(data);
+        await b.onReceive(data, 'a');
+      },
+      isConnected: () => true
+    });
+    b.addPeer({ id: 'a', send: (data: GossipMessage) => a.onReceive(data, 'b'), isConnected: () => true });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const message = makeMessage();
+    await a.publish(message.nullifier!, message.proof!);
+    const broadcast = sent.find(m => m.type === 'nullifier')!;
+    runner.assertEquals(Crypto.toHex(broadcast.recipient!), identity.id, 'The broadcast should name its recipient');
+    runner.assertGreaterThan(await b.checkNullifier(message.nullifier!), 0, 'The recipient should accept it');
+
+    await b.onReceive(broadcast, 'c');
+    runner.assertEquals(b.getPeerIdentity('c'), null, 'Replaying it over another connection should not bind');
+
+    a.destroy();
+    b.destroy();
+  });
+
+  await runner.run('Outgoing messages are signed', async () => {
+    const gossip = makeNode();
+    const sent: GossipMessage[] = [];
+    gossip.addPeer({
+      id: 'observer',
+      async send(data: GossipMessage) {
+        sent.push(data);
+      },
+      isConnected: () => true
+    });
+
+    const message = makeMessage();
+    await gossip.publish(message.nullifier!, message.proof!);
+    const broadcast = sent.filter(m => m.type === 'nullifier');
+    runner.assertEquals(broadcast.length, 1, 'Nullifier should be broadcast');
+    runner.assert(verifyGossipSignature(broadcast[0]) !== null, 'Broadcast should carry a valid signature');
+
+    gossip.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runNodeIdentityTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,179 @@
+/**
+ * Integration Test: Peer reputation ledger
+ *
+ * Tests:
+ * - Scores decay toward zero over time
+ * - Temporary bans escalate and become permanent
+ * - Enough banned peers from one subnet ban the subnet
+ * - The ledger persists across restarts, without peers decayed to zero
+ * - NullifierGossip refuses banned peers until an admin lifts the ban
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  NullifierGossip,
+  ReputationLedger,
+  WitnessAdapter,
+  Crypto
+} from '../../src/index.js';
+import type { GossipMessage, PeerConnection } from '../../src/types.js';
+import { TestRunner, TestConfig } from '../helpers/test-utils.js';
+
+export async function runReputationTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Peer Reputation Ledger');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makePeer = (id: string, remoteAddress?: string): PeerConnection => ({
+    id,
+    remoteAddress,
+    async send(_data: GossipMessage) {},
+    isConnected: () => true
+  });
+
+  const invalidMessage = (): GossipMessage => ({
+    type: 'nullifier',
+    nullifier: Crypto.randomBytes(32),
+    proof: {
+      hash: 'invalid',
+      timestamp: Date.now(),
+      signatures: [],
+      witnessIds: []
+    },
+    timestamp: Date.now()
+  });
+
+  await runner.run('Scores decay toward zero', async () => {
+    const ledger = new ReputationLedger({ decayInterval: 1000 });
+    const t0 = Date.now();
+
+    ledger.adjust('bad', -10, t0);
+    ledger.adjust('good', 10, t0);
+    runner.assertEquals(ledger.getScore('bad', t0 + 4500), -6, 'Penalty should decay one point per interval');
+    runner.assertEquals(ledger.getScore('good', t0 + 4500), 6, 'Reward should decay too');
+    runner.assertEquals(ledger.getScore('bad', t0 + 60_000), 0, 'Decay should stop at zero');
+
+    // Partial progress toward the next step survives an adjustment
+    ledger.adjust('bad', -1, t0 + 4500);
+    runner.assertEquals(ledger.getScore('bad', t0 + 5000), -6, 'Decay clock should not restart on adjust');
+  });
+
+  await runner.run('Bans escalate to permanent', async () => {
+    const ledger = new ReputationLedger({ banDuration: 1000, permanentBanAfter: 3 });
+    const t0 = Date.now();
+
+    const first = ledger.ban('peer', { reason: 'spam' }, t0);
+    runner.assertEquals(first.bannedUntil, t0 + 1000, 'First ban should last banDuration');
+    runner.assert(ledger.isBanned('peer', undefined, t0 + 999), 'Peer should be banned during the ban');
+    runner.assert(!ledger.isBanned('peer', undefined, t0 + 1000), 'Ban should expire');
+
+    const second = ledger.ban('peer', {}, t0 + 2000);
+    runner.assertEquals(second.bannedUntil, t0 + 4000, 'Second ban should last twice as long');
+
+    const third = ledger.ban('peer', {}, t0 + 5000);
+    runner.assert(third.permanent, 'Third ban should be permanent');
+    runner.assert(ledger.isBanned('peer', undefined, t0 + 1e12), 'Permanent ban should never expire');
+
+    ledger.unban('peer');
+    runner.assert(!ledger.isBanned('peer'), 'Admin unban should lift a permanent ban');
+    runner.assertEquals(ledger.get('peer')?.banCount, 3, 'Ban history should be kept');
+  });
+
+  await runner.run('Banned peers ban their subnet', async () => {
+    const ledger = new ReputationLedger({ subnetBanThreshold: 3 });
+
+    ledger.ban('a', { subnet: '10.0.0' });
+    ledger.ban('b', { subnet: '10.0.0' });
+    runner.assert(!ledger.isSubnetBanned('10.0.0'), 'Two bans should not ban the subnet');
+
+    ledger.ban('c', { subnet: '10.0.0' });
+    runner.assert(ledger.isSubnetBanned('10.0.0'), 'Third ban should ban the subnet');
+    runner.assert(ledger.isBanned('fresh-peer', '10.0.0'), 'New peers from the subnet should be banned');
+    runner.assert(!ledger.isBanned('fresh-peer', '10.0.1'), 'Other subnets should be unaffected');
+
+    const gossip = new NullifierGossip({ witness, reputation: ledger, syncOnConnect: false, syncInterval: 0, pingInterval: 0 });
+    gossip.addPeer(makePeer('fresh-peer', '10.0.0.42'));
+    runner.assertEquals(gossip.peers.length, 0, 'Gossip should refuse a peer from a banned subnet');
+    gossip.destroy();
+  });
+
+  await runner.run('Ledger persists across restarts', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'scarcity-reputation-'));
+    try {
+      const path = join(dir, 'reputation.json');
+      const t0 = Date.now();
+
+      const ledger = new ReputationLedger({ path });
+      ledger.adjust('noisy', -7, t0);
+      ledger.adjust('quiet', 2, t0 - 600_000); // Decayed to 0 by now
+      ledger.ban('mallory', { permanent: true, reason: 'forged evidence' }, t0);
+      ledger.banSubnet('192.168.5', { permanent: true });
+      ledger.flush();
+
+      const restored = new ReputationLedger({ path });
+      runner.assertEquals(restored.getScore('noisy', t0), -7, 'Score should survive a restart');
+      runner.assert(restored.isBanned('mallory'), 'Ban should survive a restart');
+      runner.assertEquals(restored.get('mallory')?.reason, 'forged evidence', 'Ban reason should be kept');
+      runner.assert(restored.isSubnetBanned('192.168.5'), 'Subnet ban should survive a restart');
+      runner.assertEquals(restored.get('quiet'), null, 'Peers decayed to zero with no bans should be pruned');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  await runner.run('Gossip refuses banned peers until unbanned', async () => {
+    const gossip = new NullifierGossip({
+      witness,
+      peerScoreThreshold: -10,
+      syncOnConnect: false,
+      syncInterval: 0,
+      pingInterval: 0
+    });
+    const ledger = gossip.getReputation();
+
+    gossip.addPeer(makePeer('bad-peer'));
+    await gossip.onReceive(invalidMessage(), 'bad-peer');
+    await gossip.onReceive(invalidMessage(), 'bad-peer');
+    runner.assert(!gossip.peers.some(p => p.id === 'bad-peer'), 'Peer should be disconnected');
+    runner.assert(ledger.isBanned('bad-peer'), 'Peer should be banned');
+    runner.assertEquals(ledger.get('bad-peer')?.reason, 'invalid witness proof', 'Ban should record its cause');
+
+    gossip.addPeer(makePeer('bad-peer'));
+    runner.assert(!gossip.peers.some(p => p.id === 'bad-peer'), 'Banned peer should not reconnect with a fresh score');
+
+    ledger.unban('bad-peer');
+    gossip.addPeer(makePeer('bad-peer'));
+    runner.assert(gossip.peers.some(p => p.id === 'bad-peer'), 'Unbanned peer should reconnect');
+    runner.assertEquals(ledger.getScore('bad-peer'), 0, 'Unban should forgive the negative score');
+
+    ledger.setScore('bad-peer', 42);
+    runner.assertEquals(ledger.list().get('bad-peer')?.score, 42, 'Admin override should be visible');
+
+    gossip.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runReputationTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
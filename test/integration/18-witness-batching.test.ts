@@ -0,0 +1,173 @@
+/**
+ * Integration Test: Batched Witness attestations
+ *
+ * Tests:
+ * - Merkle inclusion paths lead to the root for every batch size
+ * - Concurrent transfers share one Witness timestamp
+ * - Batched packages validate and can be received
+ * - Gossip accepts valid inclusion proofs and rejects forged ones
+ */
+
+import {
+  ScarbuckToken,
+  TransferValidator,
+  FreebirdAdapter,
+  WitnessAdapter,
+  WitnessBatcher,
+  buildMerkleTree,
+  computeMerkleRoot,
+  resolveMerkleAttestation,
+  Crypto
+} from '../../src/index.js';
+import type { Attestation, GossipMessage, WitnessClient } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestKeyPair, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runWitnessBatchingTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Batched Witness Attestations');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+  const freebird = new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+
+  /**
+   * Witness that counts timestamp round-trips
+   */
+  const countingWitness = () => {
+    const calls: string[] = [];
+    const client: WitnessClient = {
+      timestamp: async (hash: string) => {
+        calls.push(hash);
+        return witness.timestamp(hash);
+      },
+      verify: (attestation: Attestation) => witness.verify(attestation),
+      checkNullifier: (nullifier: Uint8Array) => witness.checkNullifier(nullifier)
+    };
+    return { client, calls };
+  };
+
+  await runner.run('Inclusion paths lead to the root', async () => {
+    for (let size = 1; size <= 9; size++) {
+      const leaves = Array.from({ length: size }, () => Crypto.toHex(Crypto.randomBytes(32)));
+      const { root, paths } = buildMerkleTree(leaves);
+      runner.assert(
+        leaves.every((leaf, i) => computeMerkleRoot(leaf, paths[i]) === root),
+        `Every leaf of a ${size}-leaf tree should reach the root`
+      );
+    }
+
+    const leaves = Array.from({ length: 4 }, () => Crypto.toHex(Crypto.randomBytes(32)));
+    const { root, paths } = buildMerkleTree(leaves);
+    runner.assert(computeMerkleRoot(leaves[1], paths[0]) !== root, 'A path should not fit another leaf');
+
+    const tampered = paths[0].map((step, i) => (i === 0 ? { ...step, left: !step.left } : step));
+    runner.assert(computeMerkleRoot(leaves[0], tampered) !== root, 'A flipped step should not reach the root');
+
+    const attestation: Attestation = {
+      hash: leaves[2],
+      timestamp: Date.now(),
+      signatures: ['sig1', 'sig2'],
+      witnessIds: ['w1', 'w2'],
+      merkle: { root, path: paths[2] }
+    };
+    runner.assertEquals(resolveMerkleAttestation(attestation)?.hash, root, 'Resolved attestation should cover the root');
+    runner.assertEquals(
+      resolveMerkleAttestation({ ...attestation, hash: leaves[3] }), null,
+      'Inclusion proof for another hash should be rejected'
+    );
+  });
+
+  await runner.run('Concurrent transfers share one timestamp', async () => {
+    const { client, calls } = countingWitness();
+    const batcher = new WitnessBatcher({ witness: client, window: 10_000, maxBatchSize: 5 });
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0, minConfidence: 0.1 });
+
+    const tokens = Array.from({ length: 5 }, () => ScarbuckToken.mint(10, freebird, batcher, sender));
+    const recipients = tokens.map(() => createTestKeyPair());
+    const packages = await Promise.all(tokens.map((token, i) => token.transfer(recipients[i].publicKey)));
+
+    runner.assertEquals(calls.length, 1, 'Five transfers should need one Witness timestamp');
+    runner.assertEquals(batcher.getStats().hashes, 5, 'Batcher should have timestamped five hashes');
+    runner.assert(packages.every(pkg => pkg.proof.merkle?.root === calls[0]), 'Every proof should include the root');
+    runner.assertEquals(sender.getStats().nullifierCount, 5, 'Every nullifier should still be published');
+
+    const result = await validator.validateTransfer(packages[0]);
+    runner.assert(result.valid, `Batched transfer should validate (got: ${result.reason})`);
+
+    const received = await ScarbuckToken.receive(packages[1], recipients[1].secret, freebird, witness, receiver);
+    runner.assertEquals(received.getMetadata().amount, 10, 'Batched transfer should be receivable');
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('Window flushes a partial batch', async () => {
+    const { client, calls } = countingWitness();
+    const batcher = new WitnessBatcher({ witness: client, window: 20 });
+
+    const leaves = Array.from({ length: 3 }, () => Crypto.toHex(Crypto.hash(Crypto.randomBytes(32))));
+    const attestations = await Promise.all(leaves.map(leaf => batcher.timestamp(leaf)));
+    runner.assertEquals(calls.length, 1, 'Partial batch should be timestamped once after the window');
+    runner.assert(await witness.verify(attestations[2]), 'Batched attestation should verify');
+
+    let rejected = false;
+    try {
+      await batcher.timestamp('not-a-hash');
+    } catch {
+      rejected = true;
+    }
+    runner.assert(rejected, 'Malformed hashes should be rejected up front');
+  });
+
+  await runner.run('Gossip checks inclusion proofs', async () => {
+    const batcher = new WitnessBatcher({ witness, maxBatchSize: 2 });
+    const gossip = createTestGossip(witness);
+
+    const leaves = Array.from({ length: 2 }, () => Crypto.toHex(Crypto.randomBytes(32)));
+    const [valid, other] = await Promise.all(leaves.map(leaf => batcher.timestamp(leaf)));
+
+    const message = (proof: Attestation): GossipMessage => ({
+      type: 'nullifier',
+      nullifier: Crypto.randomBytes(32),
+      proof,
+      timestamp: Date.now()
+    });
+
+    const accepted = message(valid);
+    await gossip.onReceive(accepted, 'peer-a');
+    runner.assertGreaterThan(await gossip.checkNullifier(accepted.nullifier!), 0, 'Valid inclusion proof should be accepted');
+
+    const forged = message({ ...valid, hash: other.hash });
+    await gossip.onReceive(forged, 'peer-b');
+    runner.assertEquals(await gossip.checkNullifier(forged.nullifier!), 0, 'Forged inclusion proof should be rejected');
+    runner.assert(gossip.getPeerStats('peer-b')!.score < 0, 'Forger should be penalized');
+
+    gossip.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runWitnessBatchingTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,271 @@
+/**
+ * Integration Test: Gossip wire format and capability handshake
+ *
+ * Tests:
+ * - Messages round-trip through the CBOR envelope
+ * - Signatures still verify after a round-trip
+ * - Large bodies are compressed
+ * - Unknown versions, flags and oversized envelopes are rejected
+ * - Peers negotiate a shared version and features over 'hello'
+ * - Older peers that never say hello keep working
+ * - Nullifiers without ownership proofs skip peers that require them
+ */
+
+import {
+  NullifierGossip,
+  WitnessAdapter,
+  GOSSIP_PROTOCOL_VERSION,
+  GossipFeature,
+  GossipEnvelopeError,
+  encodeEnvelope,
+  decodeEnvelope,
+  negotiate,
+  NodeIdentity,
+  verifyGossipSignature,
+  Crypto
+} from '../../src/index.js';
+import { encodeCanonical } from '../../src/codec/canonical-cbor.js';
+import type { GossipMessage, NegotiatedCapabilities, PeerConnection } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runWireFormatTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Gossip Wire Format & Handshake');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makeProof = () => ({
+    hash: Crypto.toHex(Crypto.randomBytes(32)),
+    timestamp: Date.now(),
+    signatures: ['sig1', 'sig2'],
+    witnessIds: ['w1', 'w2'],
+    raw: { note: 'gateway payload', score: 0.75, missing: null }
+  });
+
+  const rejection = (run: () => unknown): string | null => {
+    try {
+      run();
+      return null;
+    } catch (error) {
+      return error instanceof GossipEnvelopeError ? error.category : 'other';
+    }
+  };
+
+  /**
+   * Wire two nodes together in-process; `agreed` records what each
+   * connection was told by setCapabilities
+   */
+  const connect = (a: NullifierGossip, aId: string, b: NullifierGossip, bId: string) => {
+    const agreed = new Map<string, NegotiatedCapabilities>();
+    const link = (from: NullifierGossip, fromId: string, to: NullifierGossip, toId: string): PeerConnection => ({
+      id: toId,
+      async send(data: GossipMessage) {
+        await to.onReceive(data, fromId);
+      },
+      isConnected: () => true,
+      setCapabilities(capabilities) {
+        agreed.set(`${fromId}->${toId}`, capabilities);
+      }
+    });
+    a.addPeer(link(a, aId, b, bId));
+    b.addPeer(link(b, bId, a, aId));
+    return agreed;
+  };
+
+  await runner.run('Messages round-trip through the envelope', async () => {
+    const message: GossipMessage = {
+      type: 'sync-response',
+      timestamp: Date.now(),
+      entries: [
+        { nullifier: Crypto.randomBytes(32), proof: makeProof(), ownershipProof: Crypto.randomBytes(98) },
+        { nullifier: Crypto.randomBytes(32), proof: makeProof() }
+      ],
+      nullifierKeys: Array.from({ length: 1000 }, () => Crypto.toHex(Crypto.randomBytes(32))),
+      confidence: 0.5,
+      sender: Crypto.randomBytes(32)
+    };
+
+    const { version, message: decoded } = decodeEnvelope(encodeEnvelope(message));
+    runner.assertEquals(version, GOSSIP_PROTOCOL_VERSION, 'Envelope should carry the protocol version');
+    runner.assertEquals(decoded.type, 'sync-response', 'Type should survive');
+    runner.assertEquals(decoded.confidence, 0.5, 'Confidence should survive');
+    runner.assertEquals(decoded.nullifierKeys?.length, 1000, 'Large key lists should fit');
+    runner.assertEquals(Crypto.toHex(decoded.sender!), Crypto.toHex(message.sender!), 'Bytes should survive');
+    runner.assertEquals(
+      Crypto.toHex(decoded.entries![0].ownershipProof!), Crypto.toHex(message.entries![0].ownershipProof!),
+      'Nested bytes should survive'
+    );
+    runner.assertEquals(decoded.entries![1].ownershipProof, undefined, 'Absent fields should stay absent');
+    runner.assertEquals(decoded.entries![0].proof.raw.score, 0.75, 'Raw Witness payload should survive');
+  });
+
+  await runner.run('Signatures still verify after a round-trip', async () => {
+    const identity = NodeIdentity.generate();
+    const signed = identity.sign({
+      type: 'shard-answer',
+      nullifier: Crypto.randomBytes(32),
+      queryId: 'q1',
+      confidence: 1 / 3,
+      timestamp: Date.now()
+    });
+
+    const { message: decoded } = decodeEnvelope(encodeEnvelope(signed));
+    runner.assertEquals(decoded.confidence, signed.confidence, 'Signed confidence should survive exactly');
+    runner.assertEquals(verifyGossipSignature(decoded), identity.id, 'The signature should still verify');
+  });
+
+  await runner.run('Large bodies are compressed', async () => {
+    const message: GossipMessage = {
+      type: 'sync-request',
+      timestamp: Date.now(),
+      syncBuckets: Array.from({ length: 4096 }, (_, i) => i)
+    };
+
+    const plain = encodeEnvelope(message);
+    const compressed = encodeEnvelope(message, { compress: true });
+    runner.assert(compressed.length < plain.length, `Compression should shrink the body (${compressed.length} vs ${plain.length})`);
+
+    const { flags, message: decoded } = decodeEnvelope(compressed);
+    runner.assert((flags & GossipFeature.Compression) !== 0, 'Envelope should be flagged as compressed');
+    runner.assertEquals(decoded.syncBuckets?.[4095], 4095, 'Compressed body should decode');
+
+    const ping = encodeEnvelope({ type: 'ping', timestamp: Date.now() }, { compress: true });
+    runner.assertEquals(decodeEnvelope(ping).flags, 0, 'Small bodies should not be compressed');
+  });
+
+  await runner.run('Invalid envelopes are rejected', async () => {
+    const body = encodeCanonical({ type: 'ping', timestamp: Date.now() });
+    const future = encodeCanonical({ v: GOSSIP_PROTOCOL_VERSION + 1, f: 0, b: body });
+    runner.assertEquals(rejection(() => decodeEnvelope(future)), 'unsupported-version', 'Newer versions should be rejected');
+
+    const flagged = encodeCanonical({ v: GOSSIP_PROTOCOL_VERSION, f: 1 << 7, b: body });
+    runner.assertEquals(rejection(() => decodeEnvelope(flagged)), 'unsupported-flags', 'Unknown flags should be rejected');
+
+    const large = encodeEnvelope({ type: 'sync-request', timestamp: Date.now(), syncBuckets: Array.from({ length: 2000 }, (_, i) => i) });
+    runner.assertEquals(rejection(() => decodeEnvelope(large, 1024)), 'too-large', 'Oversized envelopes should be rejected');
+    runner.assertEquals(
+      rejection(() => encodeEnvelope({ type: 'sync-request', timestamp: Date.now(), syncBuckets: Array.from({ length: 2000 }, (_, i) => i) }, { maxBytes: 1024 })),
+      'too-large',
+      'Oversized messages should not be encoded'
+    );
+
+    // An inflate bomb: tiny when compressed, far over the limit when inflated
+    const bomb = encodeEnvelope({ type: 'sync-request', timestamp: Date.now(), syncBuckets: new Array(60_000).fill(0) }, { compress: true });
+    runner.assert(bomb.length < 1024, 'Bomb should be small on the wire');
+    runner.assertEquals(rejection(() => decodeEnvelope(bomb, 4096)), 'too-large', 'Inflated size should be capped');
+
+    runner.assertEquals(rejection(() => decodeEnvelope(new Uint8Array([0xff, 0x00]))), 'malformed', 'Garbage should be rejected');
+    const notMessage = encodeCanonical({ v: GOSSIP_PROTOCOL_VERSION, f: 0, b: encodeCanonical([1, 2, 3]) });
+    runner.assertEquals(rejection(() => decodeEnvelope(notMessage)), 'malformed', 'Bodies must be messages');
+  });
+
+  await runner.run('Peers negotiate over hello', async () => {
+    const local = { version: 2, minVersion: 1, features: 0b0111, maxMessageBytes: 1 << 20 };
+    const agreed = negotiate(local, { version: 3, minVersion: 2, features: 0b1101, maxMessageBytes: 1 << 16 });
+    runner.assertEquals(agreed?.version, 2, 'Peers should speak the highest shared version');
+    runner.assertEquals(agreed?.features, 0b0101, 'Only shared features should be used');
+    runner.assertEquals(agreed?.maxMessageBytes, 1 << 16, 'The smaller size limit should win');
+    runner.assertEquals(
+      negotiate(local, { version: 4, minVersion: 3, features: 0, maxMessageBytes: 1 << 20 }), null,
+      'Disjoint versions should not negotiate'
+    );
+
+    const alice = createTestGossip(witness);
+    const bob = new NullifierGossip({ witness, compression: false, syncOnConnect: false, syncInterval: 0, pingInterval: 0 });
+    const links = connect(alice, 'alice', bob, 'bob');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const aliceView = alice.getPeerCapabilities('bob');
+    runner.assertEquals(aliceView?.version, GOSSIP_PROTOCOL_VERSION, 'Alice should agree a version with Bob');
+    runner.assert((aliceView!.features & GossipFeature.CborEnvelope) !== 0, 'Both should accept CBOR envelopes');
+    runner.assertEquals(aliceView!.features & GossipFeature.Compression, 0, 'Bob opted out of compression');
+    runner.assert(bob.getPeerCapabilities('alice') !== null, 'Bob should agree too');
+    runner.assert(links.has('alice->bob') && links.has('bob->alice'), 'Transports should be told the agreement');
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  await runner.run('Incompatible peers are dropped', async () => {
+    const gossip = createTestGossip(witness);
+    gossip.addPeer({ id: 'future', async send() {}, isConnected: () => true });
+
+    await gossip.onReceive({
+      type: 'hello',
+      capabilities: { version: 9, minVersion: 9, features: 0, maxMessageBytes: 1024 },
+      timestamp: Date.now()
+    }, 'future');
+    runner.assert(!gossip.peers.some(p => p.id === 'future'), 'Peer without a shared version should be dropped');
+    runner.assertEquals(gossip.getReputation().getScore('future'), 0, 'Incompatibility is not misbehavior');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Older peers keep working without hello', async () => {
+    const gossip = createTestGossip(witness);
+    const sent: GossipMessage[] = [];
+    gossip.addPeer({
+      id: 'legacy',
+      async send(data: GossipMessage) {
+        sent.push(data);
+      },
+      isConnected: () => true
+    });
+
+    runner.assertEquals(sent[0]?.type, 'hello', 'New peers should be greeted');
+    runner.assertEquals(gossip.getPeerCapabilities('legacy'), null, 'Legacy peer never answers');
+
+    const proof = makeProof();
+    await gossip.publish(Crypto.randomBytes(32), proof);
+    runner.assert(sent.some(m => m.type === 'nullifier'), 'Legacy peer should still receive nullifiers');
+
+    const nullifier = Crypto.randomBytes(32);
+    await gossip.onReceive({ type: 'nullifier', nullifier, proof: makeProof(), timestamp: Date.now() }, 'legacy');
+    runner.assertGreaterThan(await gossip.checkNullifier(nullifier), 0, 'Nullifiers from a legacy peer should be accepted');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Proof-less nullifiers skip peers that require proofs', async () => {
+    const gossip = createTestGossip(witness);
+    const strict = createTestGossip(witness, { requireOwnershipProof: true });
+    const received: GossipMessage[] = [];
+    strict.setReceiveHandler(async (data) => {
+      received.push(data);
+    });
+    connect(gossip, 'relaxed', strict, 'strict');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const remote = gossip.getPeerCapabilities('strict')!.remoteFeatures;
+    runner.assert((remote & GossipFeature.OwnershipProofRequired) !== 0, 'Strict peer should advertise its requirement');
+
+    await gossip.publish(Crypto.randomBytes(32), makeProof());
+    runner.assertEquals(received.length, 0, 'Proof-less nullifier should not be sent to the strict peer');
+    runner.assertEquals(strict.getPeerStats('relaxed')?.score ?? 0, 0, 'Relaxed peer should not be penalized');
+
+    gossip.destroy();
+    strict.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runWireFormatTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,151 @@
+/**
+ * Integration Test: Gossip propagation tracing
+ *
+ * Tests:
+ * - Percentiles over recorded latencies and hop counts
+ * - Hop counts and relaying peers along a chain of nodes
+ * - Trace mode emits one event per first sighting
+ * - Reconciled nullifiers are traced apart from live gossip
+ */
+
+import {
+  PropagationTracker,
+  WitnessAdapter,
+  Crypto
+} from '../../src/index.js';
+import type { GossipMessage } from '../../src/types.js';
+import type { PropagationTrace } from '../../src/propagation.js';
+import { TestRunner, TestConfig, createTestGossip, createTestProof, deliveringPeer } from '../helpers/test-utils.js';
+
+export async function runPropagationTracingTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Propagation Tracing');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+
+  const makeMessage = (attestedAt = Date.now()): GossipMessage => ({
+    type: 'nullifier',
+    nullifier: Crypto.randomBytes(32),
+    proof: createTestProof(Crypto.randomBytes(32), attestedAt),
+    timestamp: attestedAt
+  });
+
+  await runner.run('Percentiles over the trace window', async () => {
+    const tracker = new PropagationTracker({ window: 100 });
+    const now = Date.now();
+
+    for (let i = 1; i <= 100; i++) {
+      const message = { ...makeMessage(now - i * 10), hops: i % 5 };
+      tracker.record(Crypto.toHex(message.nullifier!), message, 'peer', 'gossip', now);
+    }
+
+    const stats = tracker.getStats();
+    runner.assertEquals(stats.traced, 100, 'Every sighting should be traced');
+    runner.assertEquals(stats.latency?.p50, 500, 'Median latency should be the 50th sample');
+    runner.assertEquals(stats.latency?.p90, 900, 'p90 latency should be the 90th sample');
+    runner.assertEquals(stats.latency?.max, 1000, 'Max latency should be the oldest sample');
+    runner.assertEquals(stats.hops?.max, 5, 'Hops should count the arriving hop');
+
+    // The window evicts the oldest traces
+    const late = makeMessage(now);
+    tracker.record(Crypto.toHex(late.nullifier!), late, 'peer', 'gossip', now);
+    runner.assertEquals(tracker.getStats().traced, 100, 'Window should stay bounded');
+
+    runner.assertEquals(new PropagationTracker().getStats().latency, null, 'No samples means no percentiles');
+  });
+
+  await runner.run('Hops and relay peers along a chain', async () => {
+    // alice -> bob -> carol
+    const alice = createTestGossip(witness);
+    const bob = createTestGossip(witness);
+    const carol = createTestGossip(witness);
+    alice.addPeer(deliveringPeer('bob', bob, 'alice'));
+    bob.addPeer(deliveringPeer('carol', carol, 'bob'));
+
+    const message = makeMessage(Date.now() - 250);
+    await alice.publish(message.nullifier!, message.proof!);
+
+    const atBob = bob.getPropagation(message.nullifier!);
+    const atCarol = carol.getPropagation(message.nullifier!);
+    runner.assertEquals(atBob?.hops, 1, 'Bob should hear it directly from the publisher');
+    runner.assertEquals(atBob?.relayPeer, 'alice', 'Bob should record Alice as the relay');
+    runner.assertEquals(atCarol?.hops, 2, 'Carol should be two hops away');
+    runner.assertEquals(atCarol?.relayPeer, 'bob', 'Carol should record Bob as the relay');
+    runner.assert(atCarol!.latency >= 250, 'Latency should count from the Witness timestamp');
+    runner.assert(atCarol!.firstSeen >= atBob!.firstSeen, 'Carol should see it no earlier than Bob');
+
+    runner.assertEquals(carol.getStats().propagation.traced, 1, 'getStats should include propagation');
+    runner.assert(carol.getStats().propagation.latency!.p50 >= 250, 'getStats should report latency percentiles');
+    runner.assertEquals(alice.getPropagation(message.nullifier!), null, 'The publisher does not trace its own spends');
+
+    alice.destroy();
+    bob.destroy();
+    carol.destroy();
+  });
+
+  await runner.run('Trace mode emits first sightings', async () => {
+    const gossip = createTestGossip(witness);
+    const traces: PropagationTrace[] = [];
+    gossip.setTraceHandler(trace => traces.push(trace));
+
+    const message = makeMessage();
+    await gossip.onReceive(message, 'peer-a');
+    await gossip.onReceive({ ...message, hops: 3 }, 'peer-b');
+    runner.assertEquals(traces.length, 1, 'Duplicates should not be traced again');
+    runner.assertEquals(traces[0].relayPeer, 'peer-a', 'Trace should name the first relay');
+    runner.assertEquals(traces[0].source, 'gossip', 'Trace should come from live gossip');
+
+    await gossip.onReceive({ ...makeMessage(), hops: -4 }, 'peer-a');
+    runner.assertEquals(traces[1].hops, 1, 'Bogus hop counts should be ignored');
+
+    gossip.setTraceHandler(undefined);
+    await gossip.onReceive(makeMessage(), 'peer-a');
+    runner.assertEquals(traces.length, 2, 'Clearing the handler should stop events');
+    runner.assertEquals(gossip.getStats().propagation.traced, 3, 'Statistics are kept without trace mode');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Reconciled nullifiers are traced as sync', async () => {
+    const alice = createTestGossip(witness);
+    const bob = createTestGossip(witness);
+
+    // Bob learns of a nullifier before Alice connects
+    const message = makeMessage();
+    await bob.onReceive(message);
+
+    alice.addPeer(deliveringPeer('bob', bob, 'alice'));
+    bob.addPeer(deliveringPeer('alice', alice, 'bob'));
+    await alice.reconcile('bob');
+
+    const trace = alice.getPropagation(message.nullifier!);
+    runner.assertEquals(trace?.source, 'sync', 'Caught-up nullifier should be marked as sync');
+    runner.assertEquals(alice.getStats().propagation.synced, 1, 'Synced nullifiers should be counted');
+    runner.assertEquals(alice.getStats().propagation.latency, null, 'Sync should not skew gossip latency');
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPropagationTracingTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
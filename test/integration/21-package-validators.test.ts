@@ -0,0 +1,226 @@
+/**
+ * Integration Test: Validators for every package kind
+ *
+ * Tests:
+ * - Split, merge and multi-party packages validate like transfers
+ * - Double-spent and tampered packages are rejected
+ * - HTLC locks are checked for settlement, timelock and preimage
+ * - Bridge packages are checked against both federations and for replay
+ */
+
+import {
+  ScarbuckToken,
+  NullifierGossip,
+  TransferValidator,
+  FederationBridge,
+  FreebirdAdapter,
+  WitnessAdapter,
+  Crypto
+} from '../../src/index.js';
+import { TestRunner, TestConfig, createTestKeyPair, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runPackageValidatorsTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Package Validators');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+  const freebird = new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+
+  const makeValidator = (gossip: NullifierGossip) =>
+    new TransferValidator({ freebird, gossip, witness, waitTime: 0, minConfidence: 0.1 });
+
+  await runner.run('Split outputs validate', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = makeValidator(receiver);
+    const token = ScarbuckToken.mint(100, freebird, witness, sender);
+    const recipients = [createTestKeyPair(), createTestKeyPair()];
+
+    const pkg = await token.split([60, 40], recipients.map(r => r.publicKey));
+    const result = await validator.validateSplit(pkg, 1);
+    runner.assert(result.valid, `Split should validate (got: ${result.reason})`);
+    runner.assertEquals(result.reason, 'Split validated successfully', 'Reason should name the package kind');
+
+    const outOfRange = await validator.validateSplit(pkg, 2);
+    runner.assert(!outOfRange.valid, 'Unknown split index should be rejected');
+
+    const tampered = { ...pkg, splits: pkg.splits.map((s, i) => (i === 0 ? { ...s, amount: 70 } : s)) };
+    const tamperedResult = await validator.validateSplit(tampered, 0);
+    runner.assert(!tamperedResult.valid, 'Tampered split should be rejected');
+    runner.assert(tamperedResult.reason!.includes('does not match split package'), 'Hash mismatch should be reported');
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('Merges check every source nullifier', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = makeValidator(receiver);
+    const tokens = [
+      ScarbuckToken.mint(10, freebird, witness, sender),
+      ScarbuckToken.mint(20, freebird, witness, sender)
+    ];
+
+    const pkg = await ScarbuckToken.merge(tokens, createTestKeyPair().publicKey);
+    const result = await validator.validateMerge(pkg);
+    runner.assert(result.valid, `Merge should validate (got: ${result.reason})`);
+
+    // A second spend of the second source makes the merge a double-spend
+    const nullifier = pkg.sources[1].nullifier;
+    await receiver.onReceive({ type: 'nullifier', nullifier, proof: pkg.proof, timestamp: Date.now() }, 'peer-a');
+    await receiver.onReceive({
+      type: 'nullifier',
+      nullifier,
+      proof: await witness.timestamp(Crypto.toHex(Crypto.randomBytes(32))),
+      timestamp: Date.now()
+    }, 'peer-b');
+    const doubleSpent = await validator.validateMerge(pkg);
+    runner.assert(!doubleSpent.valid, 'Merge with a double-spent source should be rejected');
+
+    const missingProofs = await validator.validateMerge({ ...pkg, ownershipProofs: pkg.ownershipProofs!.slice(1) });
+    runner.assert(!missingProofs.valid, 'Merge without every ownership proof should be rejected');
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('Multi-party shares validate', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = makeValidator(receiver);
+    const token = ScarbuckToken.mint(50, freebird, witness, sender);
+
+    const pkg = await token.transferMultiParty([
+      { publicKey: createTestKeyPair().publicKey, amount: 20 },
+      { publicKey: createTestKeyPair().publicKey, amount: 30 }
+    ]);
+    const result = await validator.validateMultiParty(pkg, 0);
+    runner.assert(result.valid, `Multi-party share should validate (got: ${result.reason})`);
+
+    const noAuth = {
+      ...pkg,
+      recipients: pkg.recipients.map(r => ({ ...r, authToken: undefined }))
+    };
+    const noAuthResult = await validator.validateMultiParty(
+      { ...noAuth, proof: await witness.timestamp(Crypto.hashMultiPartyPackage(noAuth)) },
+      0
+    );
+    runner.assertEquals(
+      noAuthResult.reason, 'Missing required Freebird authorization token',
+      'Shares without admission tokens should be rejected'
+    );
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('HTLC locks are checked before settlement', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = makeValidator(receiver);
+    const preimage = Crypto.randomBytes(32);
+    const hashlock = Crypto.hashString(Crypto.toHex(preimage));
+    const recipient = createTestKeyPair();
+
+    const token = ScarbuckToken.mint(25, freebird, witness, sender);
+    const pkg = await token.transferHTLC(recipient.publicKey, { type: 'hash', hashlock });
+
+    const locked = await validator.validateHTLC(pkg);
+    runner.assert(locked.valid, `Unsettled HTLC should validate (got: ${locked.reason})`);
+
+    const wrongPreimage = await validator.validateHTLC(pkg, Crypto.randomBytes(32));
+    runner.assertEquals(wrongPreimage.reason, 'Invalid preimage for hashlock', 'Wrong preimage should be rejected');
+
+    const rightPreimage = await validator.validateHTLC(pkg, preimage);
+    runner.assert(rightPreimage.valid, 'Correct preimage should validate');
+
+    await ScarbuckToken.receiveHTLC(pkg, recipient.secret, preimage, freebird, witness, receiver);
+    const settled = await validator.validateHTLC(pkg, preimage);
+    runner.assertEquals(settled.reason, 'HTLC already claimed or refunded', 'Claimed HTLC should be rejected');
+
+    // A time lock that has already run out is refundable, not payable
+    const timed = ScarbuckToken.mint(25, freebird, witness, sender);
+    const timedPkg = await timed.transferHTLC(
+      recipient.publicKey,
+      { type: 'time', timelock: Date.now() + 50 },
+      createTestKeyPair().publicKey
+    );
+    await new Promise(resolve => setTimeout(resolve, 60));
+    const expired = await validator.validateHTLC(timedPkg);
+    runner.assertEquals(expired.reason, 'HTLC timelock has expired', 'Expired timelock should be rejected');
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('Bridge packages are checked in the target federation', async () => {
+    const sourceWitness = new WitnessAdapter({ gatewayUrl: TestConfig.witness.gateway, networkId: 'federation-a' });
+    const targetWitness = new WitnessAdapter({ gatewayUrl: TestConfig.witness.gateway2, networkId: 'federation-b' });
+    const sourceGossip = createTestGossip(sourceWitness);
+    const targetGossip = createTestGossip(targetWitness);
+    const bridge = new FederationBridge({
+      sourceFederation: 'federation-a',
+      targetFederation: 'federation-b',
+      sourceWitness,
+      targetWitness,
+      sourceGossip,
+      targetGossip,
+      freebird
+    });
+    const validator = new TransferValidator({
+      freebird,
+      gossip: targetGossip,
+      witness: targetWitness,
+      waitTime: 0,
+      minConfidence: 0.1
+    });
+
+    const recipient = createTestKeyPair();
+    const pkg = await bridge.bridgeToken(ScarbuckToken.mint(40, freebird, sourceWitness, sourceGossip), recipient.publicKey);
+
+    const result = await validator.validateBridge(pkg, { sourceWitness, federation: 'federation-b' });
+    runner.assert(result.valid, `Bridge should validate (got: ${result.reason})`);
+
+    const elsewhere = await validator.validateBridge(pkg, { sourceWitness, federation: 'federation-c' });
+    runner.assert(!elsewhere.valid, 'Bridge bound for another federation should be rejected');
+
+    const forgedMint = await validator.validateBridge(
+      { ...pkg, targetProof: { ...pkg.targetProof!, hash: Crypto.toHex(Crypto.randomBytes(32)) } },
+      { sourceWitness }
+    );
+    runner.assert(!forgedMint.valid, 'Mint proof for other contents should be rejected');
+
+    await bridge.receiveBridged(pkg, recipient.secret);
+    const replay = await validator.validateBridge(pkg, { sourceWitness });
+    runner.assertEquals(replay.reason, 'Bridge replay detected', 'Received bridge should not validate again');
+
+    sourceGossip.destroy();
+    targetGossip.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPackageValidatorsTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
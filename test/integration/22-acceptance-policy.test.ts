@@ -0,0 +1,181 @@
+/**
+ * Integration Test: Acceptance policies
+ *
+ * Tests:
+ * - Malformed policies are rejected up front
+ * - Amount tiers select their own rules
+ * - Failed rules are reported by name with required and actual values
+ * - Ownership proofs can be required per tier
+ * - One policy covers every package kind
+ */
+
+import {
+  ScarbuckToken,
+  TransferValidator,
+  FreebirdAdapter,
+  WitnessAdapter,
+  assertValidPolicy
+} from '../../src/index.js';
+import type { AcceptancePolicy, PeerConnection } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestKeyPair, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runAcceptancePolicyTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Acceptance Policies');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+  const freebird = new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+
+  const outboundPeer = (id: string): PeerConnection => ({
+    id,
+    direction: 'outbound',
+    async send() {},
+    isConnected: () => true
+  });
+
+  // Coffee payments clear instantly; large payments need outbound peers
+  const policy: AcceptancePolicy = {
+    tiers: [
+      { maxAmount: 10, minConfidence: 0.1, waitTime: 0 },
+      { maxAmount: 1000, minConfidence: 0.3, waitTime: 0, minOutboundPeers: 2 },
+      { maxAmount: 10_000, minConfidence: 0.3, waitTime: 0, minWitnessDepth: 5, requireOwnershipProof: true }
+    ]
+  };
+
+  const rejects = (candidate: AcceptancePolicy): boolean => {
+    try {
+      assertValidPolicy(candidate);
+      return false;
+    } catch {
+      return true;
+    }
+  };
+
+  await runner.run('Malformed policies are rejected', async () => {
+    runner.assert(!rejects(policy), 'Well-formed policy should be accepted');
+    runner.assert(rejects({ tiers: [] }), 'Empty policy should be rejected');
+    runner.assert(
+      rejects({ tiers: [{ maxAmount: 100 }, { maxAmount: 10 }] }),
+      'Tiers out of order should be rejected'
+    );
+    runner.assert(rejects({ tiers: [{}, { maxAmount: 10 }] }), 'Only the last tier may be unbounded');
+    runner.assert(rejects({ tiers: [{ minConfidence: 1.5 }] }), 'Confidence above 1 should be rejected');
+    runner.assert(rejects({ tiers: [{ minOutboundPeers: -1 }] }), 'Negative peer counts should be rejected');
+
+    const gossip = createTestGossip(witness);
+    let threw = false;
+    try {
+      new TransferValidator({ freebird, gossip, witness, policy: { tiers: [] } });
+    } catch {
+      threw = true;
+    }
+    runner.assert(threw, 'Validator should refuse a malformed policy');
+    gossip.destroy();
+  });
+
+  await runner.run('Amount tiers select their own rules', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = new TransferValidator({ freebird, gossip: receiver, witness, policy });
+
+    const coffee = await ScarbuckToken.mint(5, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+    const small = await validator.validateTransfer(coffee);
+    runner.assert(small.valid, `Small payment should clear the first tier (got: ${small.reason})`);
+    runner.assertEquals(small.policy?.tier, 0, 'Small payment should use the first tier');
+    runner.assertEquals(small.policy?.rules.map(r => r.rule).join(), 'minConfidence', 'Only confidence should be required');
+
+    const large = await ScarbuckToken.mint(500, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+    const rejected = await validator.validateTransfer(large);
+    runner.assert(!rejected.valid, 'Large payment without outbound peers should be rejected');
+    runner.assertEquals(rejected.policy?.tier, 1, 'Large payment should use the second tier');
+    const failed = rejected.policy!.rules.find(r => !r.passed);
+    runner.assertEquals(failed?.rule, 'minOutboundPeers', 'Failed rule should be named');
+    runner.assertEquals(failed?.required, 2, 'Failed rule should report what was required');
+    runner.assertEquals(failed?.actual, 0, 'Failed rule should report what was found');
+
+    receiver.addPeer(outboundPeer('out-1'));
+    receiver.addPeer(outboundPeer('out-2'));
+    const retry = await ScarbuckToken.mint(500, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+    const accepted = await validator.validateTransfer(retry);
+    runner.assert(accepted.valid, `Large payment should clear with outbound peers (got: ${accepted.reason})`);
+    runner.assert(accepted.policy!.rules.every(r => r.passed), 'Every rule should pass');
+
+    const huge = await ScarbuckToken.mint(50_000, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+    const uncovered = await validator.validateTransfer(huge);
+    runner.assert(!uncovered.valid, 'Amounts above every tier should be rejected');
+    runner.assertEquals(uncovered.policy?.tier, -1, 'No tier should apply');
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('Tiers can require ownership proofs and Witness depth', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0, minConfidence: 0.1, policy });
+
+    const pkg = await ScarbuckToken.mint(5000, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+    const withoutProof = await validator.validateTransfer({ ...pkg, ownershipProof: undefined });
+    runner.assert(!withoutProof.valid, 'Missing ownership proof should be rejected');
+    runner.assertEquals(withoutProof.policy?.rules[0]?.rule, 'requireOwnershipProof', 'Ownership rule should be reported');
+
+    const shallow = await validator.validateTransfer(pkg);
+    const depth = shallow.policy!.rules.find(r => r.rule === 'minWitnessDepth');
+    runner.assert(depth !== undefined && !depth.passed, 'Shallow federation should fail the depth rule');
+    runner.assert(shallow.policy!.rules[0].passed, 'Valid ownership proof should pass');
+
+    // Without a policy, packages fall back to the plain configuration
+    validator.setPolicy(undefined);
+    const plain = await ScarbuckToken.mint(5000, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+    const fallback = await validator.validateTransfer(plain);
+    runner.assert(fallback.valid, `Package should validate without a policy (got: ${fallback.reason})`);
+    runner.assertEquals(fallback.policy, undefined, 'No policy means no evaluation');
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('One policy covers every package kind', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = new TransferValidator({ freebird, gossip: receiver, witness, policy });
+
+    const pkg = await ScarbuckToken.mint(505, freebird, witness, sender)
+      .split([5, 500], [createTestKeyPair().publicKey, createTestKeyPair().publicKey]);
+
+    const coffee = await validator.validateSplit(pkg, 0);
+    runner.assert(coffee.valid, `Small split output should clear the first tier (got: ${coffee.reason})`);
+
+    const large = await validator.validateSplit(pkg, 1);
+    runner.assertEquals(large.policy?.tier, 1, 'Large split output should use the second tier');
+    runner.assert(!large.valid, 'Large split output should need outbound peers');
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runAcceptancePolicyTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
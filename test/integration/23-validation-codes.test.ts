@@ -0,0 +1,198 @@
+/**
+ * Integration Test: Machine-readable validation codes
+ *
+ * Tests:
+ * - Validator results carry a code and structured details
+ * - Receive methods throw ValidationError with the same codes
+ * - Bridge verification reports why it failed
+ */
+
+import {
+  ScarbuckToken,
+  TransferValidator,
+  FederationBridge,
+  FreebirdAdapter,
+  WitnessAdapter,
+  ValidationError,
+  Crypto
+} from '../../src/index.js';
+import type { TransferPackage, WitnessClient } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestKeyPair, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runValidationCodesTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Validation Codes');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+  const freebird = new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+
+  const sender = createTestGossip(witness);
+  const receiver = createTestGossip(witness);
+  const validator = new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0, minConfidence: 0.1 });
+  const makeTransfer = () => ScarbuckToken.mint(10, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+
+  /**
+   * Re-timestamp a modified package so only the intended check fails
+   */
+  const reattest = async (pkg: TransferPackage): Promise<TransferPackage> => ({
+    ...pkg,
+    proof: await witness.timestamp(Crypto.hashTransferPackage(pkg))
+  });
+
+  const thrownCode = async (run: () => Promise<unknown>): Promise<string | null> => {
+    try {
+      await run();
+      return null;
+    } catch (error) {
+      return error instanceof ValidationError ? error.code : 'other';
+    }
+  };
+
+  await runner.run('Validator results carry codes', async () => {
+    const pkg = await makeTransfer();
+    const ok = await validator.validateTransfer(pkg);
+    runner.assertEquals(ok.code, 'ok', 'Valid transfers should be coded ok');
+
+    const tampered = await validator.validateTransfer({ ...pkg, amount: 11 });
+    runner.assertEquals(tampered.code, 'hash_mismatch', 'Tampered packages should be coded hash_mismatch');
+    runner.assertEquals(tampered.details?.actual, pkg.proof.hash, 'Details should carry the proof hash');
+
+    const unsigned = await validator.validateTransfer({ ...pkg, proof: { ...pkg.proof, signatures: [] } });
+    runner.assertEquals(unsigned.code, 'witness_invalid', 'Unsigned proofs should be coded witness_invalid');
+
+    const noAuth = await validator.validateTransfer(await reattest({ ...(await makeTransfer()), authToken: undefined }));
+    runner.assertEquals(noAuth.code, 'admission_missing', 'Missing admission tokens should be coded admission_missing');
+
+    const strict = new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0, minConfidence: 0.99 });
+    const unsure = await strict.validateTransfer(await makeTransfer());
+    runner.assertEquals(unsure.code, 'low_confidence', 'Low confidence should be coded low_confidence');
+    runner.assertEquals(unsure.details?.required, 0.99, 'Details should carry the threshold');
+
+    const shortLived = new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0, maxTokenAge: 1 });
+    const stale = await makeTransfer();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const expired = await shortLived.validateTransfer(stale);
+    runner.assertEquals(expired.code, 'expired', 'Old proofs should be coded expired');
+    runner.assertEquals(expired.details?.limitMs, 1, 'Details should carry the validity window');
+  });
+
+  await runner.run('Double-spends are coded by who caught them', async () => {
+    const pkg = await makeTransfer();
+    await receiver.onReceive({ type: 'nullifier', nullifier: pkg.nullifier, proof: pkg.proof, timestamp: Date.now() }, 'peer-a');
+    await receiver.onReceive({
+      type: 'nullifier',
+      nullifier: pkg.nullifier,
+      proof: await witness.timestamp(Crypto.toHex(Crypto.randomBytes(32))),
+      timestamp: Date.now()
+    }, 'peer-b');
+    const gossiped = await validator.validateTransfer(pkg);
+    runner.assertEquals(gossiped.code, 'gossip_double_spend', 'Conflicting gossip should be coded gossip_double_spend');
+    runner.assertEquals(gossiped.details?.nullifier, Crypto.toHex(pkg.nullifier), 'Details should name the nullifier');
+
+    const federation: WitnessClient = {
+      timestamp: hash => witness.timestamp(hash),
+      verify: attestation => witness.verify(attestation),
+      checkNullifier: async () => 1
+    };
+    const bystander = createTestGossip(witness);
+    const witnessed = await new TransferValidator({ freebird, gossip: bystander, witness: federation, waitTime: 0 })
+      .validateTransfer(await makeTransfer());
+    runner.assertEquals(witnessed.code, 'witness_double_spend', 'Witness sightings should be coded witness_double_spend');
+    bystander.destroy();
+  });
+
+  await runner.run('Receive methods throw coded errors', async () => {
+    const recipient = createTestKeyPair();
+    const pkg = await ScarbuckToken.mint(10, freebird, witness, sender).transfer(recipient.publicKey);
+
+    runner.assertEquals(
+      await thrownCode(() => ScarbuckToken.receive({ ...pkg, amount: 99 }, recipient.secret, freebird, witness, receiver)),
+      'hash_mismatch',
+      'Tampered transfer should throw hash_mismatch'
+    );
+    runner.assertEquals(
+      await thrownCode(() => ScarbuckToken.receive({ ...pkg, ownershipProof: undefined }, recipient.secret, freebird, witness, receiver)),
+      'ownership_missing',
+      'Missing ownership proof should throw ownership_missing'
+    );
+
+    const split = await ScarbuckToken.mint(10, freebird, witness, sender).split([4, 6], [recipient.publicKey, recipient.publicKey]);
+    runner.assertEquals(
+      await thrownCode(() => ScarbuckToken.receiveSplit(split, recipient.secret, 5, freebird, witness, receiver)),
+      'malformed_package',
+      'Bad split index should throw malformed_package'
+    );
+
+    const preimage = Crypto.randomBytes(32);
+    const htlc = await ScarbuckToken.mint(10, freebird, witness, sender)
+      .transferHTLC(recipient.publicKey, { type: 'hash', hashlock: Crypto.hashString(Crypto.toHex(preimage)) });
+    const wrong = await thrownCode(() =>
+      ScarbuckToken.receiveHTLC(htlc, recipient.secret, Crypto.randomBytes(32), freebird, witness, receiver)
+    );
+    runner.assertEquals(wrong, 'condition_failed', 'Wrong preimage should throw condition_failed');
+
+    const error = new ValidationError('expired', 'Too old', { ageMs: 5 });
+    runner.assertEquals(error.message, 'Too old', 'Messages should be kept for display');
+    runner.assertEquals(error.toResult().code, 'expired', 'Errors should convert to results');
+  });
+
+  await runner.run('Bridge verification reports failures', async () => {
+    const targetGossip = createTestGossip(witness);
+    const bridge = new FederationBridge({
+      sourceFederation: 'federation-a',
+      targetFederation: 'federation-b',
+      sourceWitness: witness,
+      targetWitness: witness,
+      sourceGossip: sender,
+      targetGossip,
+      freebird
+    });
+    const recipient = createTestKeyPair();
+    const pkg = await bridge.bridgeToken(ScarbuckToken.mint(10, freebird, witness, sender), recipient.publicKey);
+
+    const ok = await bridge.checkBridge(pkg);
+    runner.assertEquals(ok.code, 'ok', 'Bridge should verify');
+    runner.assert(await bridge.verifyBridge(pkg), 'verifyBridge should still return true');
+
+    const tampered = await bridge.checkBridge({ ...pkg, amount: 1000 });
+    runner.assertEquals(tampered.code, 'hash_mismatch', 'Tampered bridge should be coded hash_mismatch');
+    runner.assert(!(await bridge.verifyBridge({ ...pkg, amount: 1000 })), 'verifyBridge should still return false');
+
+    await bridge.receiveBridged(pkg, recipient.secret);
+    runner.assertEquals(
+      await thrownCode(() => bridge.receiveBridged(pkg, recipient.secret)),
+      'already_settled',
+      'Replayed bridge should throw already_settled'
+    );
+
+    targetGossip.destroy();
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runValidationCodesTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,129 @@
+/**
+ * Integration Test: Progressive validation
+ *
+ * Tests:
+ * - Updates arrive stage by stage with confidence rising during the wait
+ * - A conflicting spend during the wait ends validation at once
+ * - validateTransfer returns early on the same alert
+ */
+
+import {
+  ScarbuckToken,
+  TransferValidator,
+  FreebirdAdapter,
+  WitnessAdapter,
+  Crypto
+} from '../../src/index.js';
+import type { TransferPackage, ValidationUpdate } from '../../src/types.js';
+import { TestRunner, TestConfig, createTestKeyPair, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runProgressiveValidationTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Progressive Validation');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+  const freebird = new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+
+  const sender = createTestGossip(witness);
+  const receiver = createTestGossip(witness);
+  const makeTransfer = () => ScarbuckToken.mint(10, freebird, witness, sender).transfer(createTestKeyPair().publicKey);
+
+  /**
+   * Have two peers gossip conflicting spends of the package's nullifier
+   */
+  const doubleSpend = async (pkg: TransferPackage): Promise<void> => {
+    await receiver.onReceive({ type: 'nullifier', nullifier: pkg.nullifier, proof: pkg.proof, timestamp: Date.now() }, 'peer-a');
+    await receiver.onReceive({
+      type: 'nullifier',
+      nullifier: pkg.nullifier,
+      proof: await witness.timestamp(Crypto.toHex(Crypto.randomBytes(32))),
+      timestamp: Date.now()
+    }, 'peer-b');
+  };
+
+  await runner.run('Updates report rising confidence', async () => {
+    const validator = new TransferValidator({
+      freebird, gossip: receiver, witness, waitTime: 300, progressInterval: 50, minConfidence: 0.1
+    });
+
+    const updates: ValidationUpdate[] = [];
+    for await (const update of validator.validateTransferProgressive(await makeTransfer())) {
+      updates.push(update);
+    }
+
+    const stages = updates.map(u => u.stage);
+    runner.assertEquals(stages.slice(0, 3).join(), 'verified,witness,admitted', 'Checks should be reported in order');
+    runner.assertGreaterThan(stages.filter(s => s === 'settling').length, 1, 'Wait should be reported as it passes');
+
+    const last = updates[updates.length - 1];
+    runner.assertEquals(last.stage, 'done', 'Stream should end with done');
+    runner.assert(last.result?.valid === true, `Transfer should validate (got: ${last.result?.reason})`);
+    runner.assert(updates.slice(0, -1).every(u => u.result === undefined), 'Only the last update should carry a result');
+    runner.assert(
+      updates.every((u, i) => i === 0 || u.confidence >= updates[i - 1].confidence),
+      'Confidence should never fall'
+    );
+    runner.assertGreaterThan(last.confidence, updates[0].confidence, 'Confidence should rise with the wait');
+  });
+
+  await runner.run('Conflicts during the wait alert at once', async () => {
+    const validator = new TransferValidator({
+      freebird, gossip: receiver, witness, waitTime: 5000, progressInterval: 1000, minConfidence: 0.1
+    });
+    const pkg = await makeTransfer();
+
+    let last: ValidationUpdate | undefined;
+    for await (const update of validator.validateTransferProgressive(pkg)) {
+      if (update.stage === 'admitted') {
+        setTimeout(() => void doubleSpend(pkg), 50);
+      }
+      last = update;
+    }
+
+    runner.assertEquals(last?.stage, 'double-spend', 'Stream should end with a double-spend alert');
+    runner.assertEquals(last?.result?.code, 'gossip_double_spend', 'Result should say gossip caught it');
+    runner.assert(last!.elapsed < 1000, `Alert should not wait out the delay (took ${last!.elapsed}ms)`);
+  });
+
+  await runner.run('validateTransfer returns early on conflict', async () => {
+    const validator = new TransferValidator({
+      freebird, gossip: receiver, witness, waitTime: 5000, minConfidence: 0.1
+    });
+    const pkg = await makeTransfer();
+
+    const started = Date.now();
+    setTimeout(() => void doubleSpend(pkg), 100);
+    const result = await validator.validateTransfer(pkg);
+
+    runner.assertEquals(result.code, 'gossip_double_spend', 'Conflict should be reported');
+    runner.assert(Date.now() - started < 1000, 'Validation should stop as soon as the conflict arrives');
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runProgressiveValidationTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,201 @@
+/**
+ * Integration Test: Power-of-two denominations
+ *
+ * Tests:
+ * - Amounts decompose into standard denominations
+ * - Payment plans send whole coins, split larger ones and return change
+ * - Denominated tokens refuse non-standard mint, split and merge amounts
+ * - Paying in denominations produces packages that validate
+ * - Received coins stay denominated, and the flag is covered by the proof
+ */
+
+import {
+  ScarbuckToken,
+  TransferValidator,
+  FreebirdAdapter,
+  WitnessAdapter,
+  isDenomination,
+  decompose,
+  planDenominatedPayment
+} from '../../src/index.js';
+import { TestRunner, TestConfig, createTestKeyPair, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runDenominationsTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Denominations');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+  const freebird = new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+
+  const throws = async (run: () => unknown): Promise<boolean> => {
+    try {
+      await run();
+      return false;
+    } catch {
+      return true;
+    }
+  };
+
+  await runner.run('Amounts decompose into denominations', async () => {
+    runner.assertEquals(decompose(1337).join(), '1024,256,32,16,8,1', '1337 should decompose by its binary digits');
+    runner.assertEquals(decompose(64).join(), '64', 'A denomination should decompose to itself');
+    runner.assert(isDenomination(1) && isDenomination(2 ** 40), 'Powers of two should be denominations');
+    runner.assert(!isDenomination(0) && !isDenomination(12) && !isDenomination(2.5), 'Other amounts should not');
+    runner.assert(await throws(() => decompose(0)), 'Zero should not decompose');
+  });
+
+  await runner.run('Payment plans use whole coins and split for change', async () => {
+    const exact = planDenominatedPayment([1, 4, 2], 6);
+    runner.assertEquals(exact.transfers.map(i => [1, 4, 2][i]).sort().join(), '2,4', 'Exact coins should be sent whole');
+    runner.assertEquals(exact.splits.length, 0, 'Exact payments need no split');
+
+    const change = planDenominatedPayment([8], 3);
+    runner.assertEquals(change.splits.length, 1, 'One coin should be split');
+    runner.assertEquals(change.splits[0].pay.join(), '2,1', 'Payee should get standard denominations');
+    runner.assertEquals(change.splits[0].change.join(), '4,1', 'Change should be standard denominations');
+
+    const small = planDenominatedPayment([1, 1, 1, 1], 4);
+    runner.assertEquals(small.transfers.length, 4, 'Smaller coins should add up to a missing denomination');
+
+    const larger = planDenominatedPayment([16, 4], 8);
+    runner.assertEquals(larger.splits[0]?.coin, 0, 'Smallest larger coin should be split');
+    runner.assertEquals(larger.splits[0].change.join(), '8', 'Remainder should come back as change');
+
+    runner.assert(await throws(() => planDenominatedPayment([4, 2], 7)), 'Insufficient funds should be rejected');
+    runner.assert(await throws(() => planDenominatedPayment([3], 1)), 'Non-standard coins should be rejected');
+  });
+
+  await runner.run('Denominated tokens keep amounts standard', async () => {
+    const gossip = createTestGossip(witness);
+    const recipient = createTestKeyPair().publicKey;
+
+    runner.assert(
+      await throws(() => ScarbuckToken.mint(3, freebird, witness, gossip, { denominated: true })),
+      'Denominated mint should refuse 3'
+    );
+
+    const coins = ScarbuckToken.mintDenominated(13, freebird, witness, gossip);
+    runner.assertEquals(coins.map(c => c.getMetadata().amount).join(), '8,4,1', '13 should mint as 8, 4 and 1');
+    runner.assert(coins.every(c => c.getMetadata().denominated), 'Minted coins should be denominated');
+
+    runner.assert(
+      await throws(() => coins[0].split([3, 5], [recipient, recipient])),
+      'Denominated split should refuse 3 and 5'
+    );
+    const split = await coins[0].split([4, 4], [recipient, recipient]);
+    runner.assertEquals(split.splits.length, 2, 'Denominated split into 4 and 4 should work');
+
+    runner.assert(
+      await throws(() => ScarbuckToken.merge([coins[1], coins[2]], recipient)),
+      'Denominated merge should refuse a total of 5'
+    );
+    const pair = ScarbuckToken.mintDenominated(8, freebird, witness, gossip)
+      .concat(ScarbuckToken.mintDenominated(8, freebird, witness, gossip));
+    const merged = await ScarbuckToken.merge(pair, recipient);
+    runner.assertEquals(merged.targetAmount, 16, 'Two 8s should merge into 16');
+
+    // Plain tokens are unaffected
+    const plain = await ScarbuckToken.mint(10, freebird, witness, gossip).split([3, 7], [recipient, recipient]);
+    runner.assertEquals(plain.splits.length, 2, 'Plain tokens should split freely');
+
+    const restored = ScarbuckToken.fromPersistentState(coins[1].getPersistentState(), freebird, witness, gossip);
+    runner.assert(restored.getMetadata().denominated, 'Denominated mode should survive persistence');
+
+    gossip.destroy();
+  });
+
+  await runner.run('Paying in denominations', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const validator = new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0, minConfidence: 0.1 });
+    const payee = createTestKeyPair().publicKey;
+    const wallet = createTestKeyPair().publicKey;
+
+    const coins = ScarbuckToken.mintDenominated(13, freebird, witness, sender);
+    const payment = await ScarbuckToken.payDenominated(coins, 6, payee, wallet);
+
+    const outputs = [
+      ...payment.transfers.map(t => t.amount),
+      ...payment.splits.flatMap(s => s.splits.map(o => o.amount))
+    ];
+    runner.assert(outputs.every(isDenomination), 'Every output should be a denomination');
+    runner.assertEquals(payment.transfers.map(t => t.amount).join(), '4', 'The 4 coin should be sent whole');
+    runner.assertEquals(
+      payment.splits[0].splits.map(o => o.amount).join(), '4,2,2',
+      'The 8 coin should split into 2 for the payee and 4 + 2 change, ordered by size'
+    );
+    runner.assert(coins[0].isSpent() && coins[1].isSpent() && !coins[2].isSpent(), 'Only the planned coins should be spent');
+
+    const transfer = await validator.validateTransfer(payment.transfers[0]);
+    runner.assert(transfer.valid, `Whole coin transfer should validate (got: ${transfer.reason})`);
+    const output = await validator.validateSplit(payment.splits[0], 1);
+    runner.assert(output.valid, `Split output should validate (got: ${output.reason})`);
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  await runner.run('Received coins stay denominated', async () => {
+    const sender = createTestGossip(witness);
+    const receiver = createTestGossip(witness);
+    const payee = createTestKeyPair();
+    const wallet = createTestKeyPair();
+
+    const coins = ScarbuckToken.mintDenominated(13, freebird, witness, sender);
+    const payment = await ScarbuckToken.payDenominated(coins, 6, payee.publicKey, wallet.publicKey);
+    runner.assertEquals(payment.change[0].join(), '0,2', 'The 4 and 2 change outputs should be listed as change');
+
+    const whole = await ScarbuckToken.receive(payment.transfers[0], payee.secret, freebird, witness, receiver);
+    const part = await ScarbuckToken.receiveSplit(payment.splits[0], payee.secret, 1, freebird, witness, receiver);
+    const change = await ScarbuckToken.receiveSplit(payment.splits[0], wallet.secret, 2, freebird, witness, receiver);
+    runner.assert(
+      [whole, part, change].every(token => token.getMetadata().denominated),
+      'Transferred, paid and change coins should all be denominated'
+    );
+
+    const merged = await ScarbuckToken.merge([part, change], wallet.publicKey);
+    const coin = await ScarbuckToken.receiveMerge(merged, wallet.secret, freebird, witness, receiver);
+    runner.assert(coin.getMetadata().denominated, 'A merged coin should be denominated');
+    runner.assert(await throws(() => coin.split([3, 1], [payee.publicKey, payee.publicKey])),
+      'A received coin should keep refusing non-standard splits');
+
+    const plain = await ScarbuckToken.mint(6, freebird, witness, sender).transfer(payee.publicKey);
+    runner.assertEquals(plain.denominated, undefined, 'Plain packages should not carry the flag');
+    const received = await ScarbuckToken.receive(plain, payee.secret, freebird, witness, receiver);
+    runner.assert(!received.getMetadata().denominated, 'A plain transfer should stay plain');
+
+    const stripped = { ...payment.splits[0], denominated: undefined };
+    runner.assert(
+      await throws(() => ScarbuckToken.receiveSplit(stripped, payee.secret, 1, freebird, witness, receiver)),
+      'Dropping the flag should break the proof'
+    );
+
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runDenominationsTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
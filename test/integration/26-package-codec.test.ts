@@ -0,0 +1,243 @@
+/**
+ * Integration Test: Canonical package codec
+ *
+ * Tests:
+ * - Every package kind round-trips through the codec byte for byte
+ * - Decoded packages still match their Witness proofs and can be received
+ * - Package hashes are pinned to the canonical encoding
+ * - Packages proven over version-0 field-list hashes still verify
+ * - Unsupported versions, unknown kinds and malformed fields are rejected
+ */
+
+import {
+  ScarbuckToken,
+  FederationBridge,
+  FreebirdAdapter,
+  WitnessAdapter,
+  TransferValidator,
+  OwnershipProof,
+  Crypto,
+  createHashlock,
+  encodePackage,
+  decodePackage,
+  decodePackageAs,
+  PackageCodecError
+} from '../../src/index.js';
+import type { PackageKind, PackageTypes } from '../../src/index.js';
+import { encodeCanonical } from '../../src/codec/canonical-cbor.js';
+import { TestRunner, TestConfig, createTestKeyPair, createTestGossip } from '../helpers/test-utils.js';
+
+export async function runPackageCodecTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Package Codec');
+  console.log('='.repeat(60) + '\n');
+
+  const witness = new WitnessAdapter({
+    gatewayUrl: TestConfig.witness.gateway
+  });
+  const freebird = new FreebirdAdapter({
+    issuerEndpoints: [TestConfig.freebird.issuer],
+    verifierUrl: TestConfig.freebird.verifier
+  });
+
+  const sender = createTestGossip(witness);
+  const receiver = createTestGossip(witness);
+  const mint = (amount: number) => ScarbuckToken.mint(amount, freebird, witness, sender);
+  const key = () => createTestKeyPair().publicKey;
+
+  const roundTrip = <K extends PackageKind>(kind: K, pkg: PackageTypes[K]): PackageTypes[K] => {
+    const bytes = encodePackage(kind, pkg);
+    const decoded = decodePackageAs(bytes, kind);
+    runner.assertEquals(
+      Crypto.toHex(encodePackage(kind, decoded)),
+      Crypto.toHex(bytes),
+      `${kind} package should re-encode to the same bytes`
+    );
+    return decoded;
+  };
+
+  const rejection = (bytes: Uint8Array): string | null => {
+    try {
+      decodePackage(bytes);
+      return null;
+    } catch (error) {
+      return error instanceof PackageCodecError ? error.category : 'other';
+    }
+  };
+
+  await runner.run('Every package kind round-trips', async () => {
+    const transfer = await mint(10).transfer(key());
+    const decodedTransfer = roundTrip('transfer', transfer);
+    runner.assertEquals(Crypto.hashTransferPackage(decodedTransfer), transfer.proof.hash, 'Transfer hash should survive');
+    runner.assert(decodedTransfer.nullifier instanceof Uint8Array, 'Byte fields should decode as bytes');
+
+    const split = await mint(10).split([4, 6], [key(), key()]);
+    runner.assertEquals(Crypto.hashSplitPackage(roundTrip('split', split)), split.proof.hash, 'Split hash should survive');
+
+    const merge = await ScarbuckToken.merge([mint(1), mint(2)], key());
+    runner.assertEquals(Crypto.hashMergePackage(roundTrip('merge', merge)), merge.proof.hash, 'Merge hash should survive');
+
+    const multi = await mint(10).transferMultiParty([{ publicKey: key(), amount: 3 }, { publicKey: key(), amount: 7 }]);
+    runner.assertEquals(
+      Crypto.hashMultiPartyPackage(roundTrip('multiparty', multi)), multi.proof.hash,
+      'Multi-party hash should survive'
+    );
+
+    const htlc = await mint(10).transferHTLC(key(), { type: 'time', timelock: Date.now() + 60_000 }, key());
+    runner.assertEquals(Crypto.hashHTLCPackage(roundTrip('htlc', htlc)), htlc.proof.hash, 'HTLC hash should survive');
+
+    const targetGossip = createTestGossip(witness);
+    const bridge = new FederationBridge({
+      sourceFederation: 'federation-a',
+      targetFederation: 'federation-b',
+      sourceWitness: witness,
+      targetWitness: witness,
+      sourceGossip: sender,
+      targetGossip,
+      freebird
+    });
+    const bridged = roundTrip('bridge', await bridge.bridgeToken(mint(10), key()));
+    runner.assert((await bridge.checkBridge(bridged)).valid, 'Decoded bridge package should verify');
+    targetGossip.destroy();
+  });
+
+  await runner.run('Decoded packages can be received', async () => {
+    const recipient = createTestKeyPair();
+    const transfer = await mint(25).transfer(recipient.publicKey);
+    const decoded = decodePackageAs(encodePackage('transfer', transfer), 'transfer');
+    const token = await ScarbuckToken.receive(decoded, recipient.secret, freebird, witness, receiver);
+    runner.assertEquals(token.getMetadata().amount, 25, 'Received amount should match');
+  });
+
+  await runner.run('Package hashes are pinned to the canonical encoding', async () => {
+    const pkg = {
+      tokenId: 'vector-token',
+      amount: 42,
+      sourceCreatedAt: 1_700_000_000_000,
+      commitment: new Uint8Array(32).fill(1),
+      nullifier: new Uint8Array(32).fill(2)
+    };
+    runner.assertEquals(
+      Crypto.hashTransferPackage(pkg),
+      '554729415fd3bb1402023ff06b1ac0ef6832f39698f5b15226580d605733090a',
+      'Transfer hash should match the reference vector'
+    );
+    runner.assertEquals(
+      Crypto.hashTransferPackage({ ...pkg, authToken: undefined }),
+      Crypto.hashTransferPackage(pkg),
+      'Absent and undefined fields should hash alike'
+    );
+    runner.assert(
+      Crypto.hashTransferPackage({ ...pkg, authToken: new Uint8Array([1]) }) !== Crypto.hashTransferPackage(pkg),
+      'Admission tokens should be covered'
+    );
+  });
+
+  await runner.run('Packages hashed the version-0 way still verify', async () => {
+    // Transfers hashed their fields concatenated, in this order
+    const recipient = createTestKeyPair();
+    const transfer = await mint(12).transfer(recipient.publicKey);
+    const transferHash = Crypto.toHex(Crypto.hash(
+      transfer.tokenId, transfer.amount, transfer.commitment, transfer.nullifier,
+      transfer.sourceCreatedAt, transfer.authToken!
+    ));
+    const legacyTransfer = { ...transfer, proof: await witness.timestamp(transferHash) };
+
+    const validator = new TransferValidator({ freebird, gossip: receiver, witness, waitTime: 0 });
+    const fast = await validator.fastValidate(legacyTransfer);
+    runner.assert(fast.code !== 'hash_mismatch', 'A version-0 transfer proof should cover its package');
+    const token = await ScarbuckToken.receive(legacyTransfer, recipient.secret, freebird, witness, receiver);
+    runner.assertEquals(token.getMetadata().amount, 12, 'A version-0 transfer should be received');
+
+    let denominated: string | undefined;
+    try {
+      await ScarbuckToken.receive({ ...legacyTransfer, denominated: true }, recipient.secret, freebird, witness, receiver);
+    } catch (error) {
+      denominated = (error as { code?: string }).code;
+    }
+    runner.assertEquals(denominated, 'hash_mismatch', 'Fields added since version 0 should need a current proof');
+
+    // HTLC locks hashed the JSON of the package, and published their
+    // nullifier only when claimed or refunded
+    const secret = Crypto.randomBytes(32);
+    const preimage = Crypto.randomBytes(32);
+    const tokenId = Crypto.toHex(Crypto.randomBytes(32));
+    const nullifier = Crypto.hash(secret, tokenId);
+    const lock = {
+      tokenId,
+      amount: 7,
+      sourceCreatedAt: Date.now(),
+      commitment: Crypto.randomBytes(32),
+      authToken: await freebird.issueAdmissionToken(),
+      nullifier,
+      condition: { type: 'hash' as const, hashlock: createHashlock(preimage) }
+    };
+    const htlc = {
+      ...lock,
+      proof: await witness.timestamp(Crypto.hashString(JSON.stringify(lock))),
+      ownershipProof: await OwnershipProof.create(secret, nullifier)
+    };
+
+    const claimer = createTestKeyPair();
+    const claimed = await ScarbuckToken.receiveHTLC(htlc, claimer.secret, preimage, freebird, witness, receiver);
+    runner.assertEquals(claimed.getMetadata().amount, 7, 'A version-0 HTLC should be claimed');
+    runner.assertGreaterThan(await receiver.checkNullifier(nullifier), 0, 'Claiming should publish the lock nullifier');
+  });
+
+  await runner.run('Malformed encodings are rejected', async () => {
+    const transfer = await mint(10).transfer(key());
+    const envelope = (fields: Record<string, unknown>) => encodeCanonical(fields);
+    runner.assertEquals(decodePackage(encodePackage('transfer', transfer)).kind, 'transfer', 'Kind should be reported');
+
+    runner.assertEquals(
+      rejection(envelope({ v: 99, k: 'transfer', p: {} })),
+      'unsupported-version',
+      'Future versions should be rejected'
+    );
+    runner.assertEquals(rejection(envelope({ v: 1, k: 'cheque', p: {} })), 'unknown-kind', 'Unknown kinds should be rejected');
+    runner.assertEquals(
+      rejection(envelope({ v: 1, k: 'transfer', p: { tokenId: 'x', amount: 1 } })),
+      'malformed',
+      'Missing fields should be rejected'
+    );
+    runner.assertEquals(rejection(new Uint8Array([0xff, 0x00])), 'malformed', 'Garbage should be rejected');
+
+    let wrongKind: string | null = null;
+    try {
+      decodePackageAs(encodePackage('transfer', transfer), 'split');
+    } catch (error) {
+      wrongKind = error instanceof PackageCodecError ? error.category : 'other';
+    }
+    runner.assertEquals(wrongKind, 'wrong-kind', 'Decoding as another kind should be rejected');
+
+    let fractional = false;
+    try {
+      encodePackage('transfer', { ...transfer, amount: 1.5 });
+    } catch {
+      fractional = true;
+    }
+    runner.assert(fractional, 'Fractional amounts should not encode');
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPackageCodecTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
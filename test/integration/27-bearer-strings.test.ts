@@ -0,0 +1,149 @@
+/**
+ * Integration Test: Bearer strings and QR payloads
+ *
+ * Tests:
+ * - Packages round-trip through bearer strings, shorter than their JSON
+ * - Typos, truncation and foreign prefixes are caught
+ * - Long strings split into QR parts that rejoin in any order
+ * - Missing or mixed-up QR parts are reported
+ */
+
+import {
+  ScarbuckToken,
+  Crypto,
+  encodeBearerString,
+  decodeBearerString,
+  isBearerString,
+  splitForQR,
+  joinQRParts,
+  BearerStringError
+} from '../../src/index.js';
+import { TestRunner, createTestKeyPair, createTestServices } from '../helpers/test-utils.js';
+
+export async function runBearerStringsTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Bearer Strings');
+  console.log('='.repeat(60) + '\n');
+
+  const { witness, freebird, sender, receiver, mint } = createTestServices();
+
+  const failure = (run: () => unknown): string | null => {
+    try {
+      run();
+      return null;
+    } catch (error) {
+      return error instanceof BearerStringError ? error.category : 'other';
+    }
+  };
+
+  await runner.run('Packages round-trip through bearer strings', async () => {
+    const recipient = createTestKeyPair();
+    const pkg = await mint(40).transfer(recipient.publicKey);
+
+    const bearer = encodeBearerString('transfer', pkg);
+    runner.assert(bearer.startsWith('scar1'), 'Bearer strings should carry the scar prefix');
+    runner.assert(/^scar1[A-Za-z0-9_-]+$/.test(bearer), 'Bearer strings should be URL and QR safe');
+    runner.assert(isBearerString(bearer), 'Bearer strings should be recognised');
+
+    const json = JSON.stringify({
+      ...pkg,
+      commitment: Crypto.toHex(pkg.commitment),
+      authToken: pkg.authToken && Crypto.toHex(pkg.authToken),
+      nullifier: Crypto.toHex(pkg.nullifier),
+      ownershipProof: pkg.ownershipProof && Crypto.toHex(pkg.ownershipProof)
+    });
+    runner.assert(bearer.length < json.length, `Bearer string (${bearer.length}) should beat hex JSON (${json.length})`);
+
+    // Line breaks from pasting are ignored
+    const decoded = decodeBearerString(bearer.replace(/(.{60})/g, '$1\n'));
+    runner.assertEquals(decoded.kind, 'transfer', 'Kind should survive');
+    if (decoded.kind !== 'transfer') {
+      throw new Error('Expected a transfer package');
+    }
+    const token = await ScarbuckToken.receive(decoded.pkg, recipient.secret, freebird, witness, receiver);
+    runner.assertEquals(token.getMetadata().amount, 40, 'Decoded payment should be receivable');
+
+    const split = await mint(10)
+      .split([4, 6], [createTestKeyPair().publicKey, createTestKeyPair().publicKey]);
+    runner.assertEquals(decodeBearerString(encodeBearerString('split', split)).kind, 'split', 'Any package kind should encode');
+  });
+
+  await runner.run('Damaged strings are caught', async () => {
+    const pkg = await mint(5).transfer(createTestKeyPair().publicKey);
+    const bearer = encodeBearerString('transfer', pkg);
+
+    const at = Math.floor(bearer.length / 2);
+    const typo = bearer.slice(0, at) + (bearer[at] === 'A' ? 'B' : 'A') + bearer.slice(at + 1);
+    runner.assertEquals(failure(() => decodeBearerString(typo)), 'bad-checksum', 'A typo should fail the checksum');
+    runner.assertEquals(failure(() => decodeBearerString(bearer.slice(0, -3))), 'bad-checksum', 'Truncation should be caught');
+    runner.assertEquals(failure(() => decodeBearerString('btc1' + bearer.slice(5))), 'bad-prefix', 'Foreign prefixes should be rejected');
+
+    const testnet = encodeBearerString('transfer', pkg, { prefix: 'tscar' });
+    runner.assertEquals(decodeBearerString(testnet, { prefix: 'tscar' }).kind, 'transfer', 'Custom prefixes should round-trip');
+    runner.assertEquals(
+      failure(() => decodeBearerString('scar1' + testnet.slice(6))),
+      'bad-checksum',
+      'The checksum should cover the prefix'
+    );
+  });
+
+  await runner.run('Long strings split into QR parts', async () => {
+    const pkg = await mint(5).transfer(createTestKeyPair().publicKey);
+    const bearer = encodeBearerString('transfer', pkg);
+
+    runner.assertEquals(splitForQR(bearer).join(), bearer, 'Short strings should fit one code unchanged');
+    runner.assertEquals(joinQRParts([bearer]), bearer, 'A plain string should join to itself');
+
+    const parts = splitForQR(bearer, 120);
+    runner.assertGreaterThan(parts.length, 1, 'Small codes should need several parts');
+    runner.assert(parts.every(part => part.length <= 120), 'Every part should fit the limit');
+    runner.assert(parts[0].startsWith(`scar:1/${parts.length}:`), 'Parts should be numbered');
+
+    const scanned = [...parts].reverse().concat(parts[0]);
+    runner.assertEquals(joinQRParts(scanned), bearer, 'Parts should rejoin in any order, with repeats');
+
+    const incomplete = (() => {
+      try {
+        joinQRParts(parts.slice(1));
+        return '';
+      } catch (error) {
+        return error instanceof BearerStringError ? `${error.category}: ${error.message}` : 'other';
+      }
+    })();
+    runner.assert(incomplete.startsWith('incomplete') && incomplete.includes('1 of'), `Missing parts should be named (got: ${incomplete})`);
+
+    const other = splitForQR(encodeBearerString('transfer', pkg, { compress: false }), 120);
+    runner.assertEquals(
+      failure(() => joinQRParts([parts[0], ...other.slice(1)])),
+      'malformed',
+      'Parts of different payments should not mix'
+    );
+    runner.assertEquals(
+      failure(() => joinQRParts(['scar:1/999999999:0badf00d:abc'])),
+      'malformed',
+      'Absurd part counts should be refused'
+    );
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runBearerStringsTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,133 @@
+/**
+ * Integration Test: Payment requests
+ *
+ * Tests:
+ * - Paying a request binds its hash into the timestamped package
+ * - The validator checks recipient, amount, request hash and expiry
+ * - Merchant signatures are checked by payer and validator
+ * - Transfers refuse expired or mismatched requests
+ */
+
+import {
+  ScarbuckToken,
+  Crypto,
+  createPaymentRequest,
+  verifyPaymentRequest,
+  hashPaymentRequest,
+  hashMemo
+} from '../../src/index.js';
+import type { WitnessClient } from '../../src/types.js';
+import { TestRunner, createTestKeyPair, createTestServices, refusal, sleep } from '../helpers/test-utils.js';
+
+export async function runPaymentRequestsTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Payment Requests');
+  console.log('='.repeat(60) + '\n');
+
+  const { witness, freebird, sender, receiver, validator, mint } = createTestServices();
+
+  await runner.run('Paying a request binds it into the package', async () => {
+    const recipient = createTestKeyPair();
+    const request = createPaymentRequest({ recipient: recipient.publicKey, amount: 30, memo: 'Order #1042' });
+    runner.assertEquals(request.memoHash, hashMemo('Order #1042'), 'Only the memo hash should travel');
+
+    const pkg = await mint(30).transfer(request);
+    runner.assertEquals(pkg.paymentRequest, hashPaymentRequest(request), 'Package should carry the request hash');
+    runner.assertEquals(pkg.proof.hash, Crypto.hashTransferPackage(pkg), 'Witness proof should cover the request hash');
+
+    const tampered = await validator.validateTransfer({ ...pkg, paymentRequest: undefined }, request);
+    runner.assertEquals(tampered.code, 'hash_mismatch', 'Stripping the request hash should break the proof');
+
+    const result = await validator.validateTransfer(pkg, request);
+    runner.assert(result.valid, `Payment should satisfy its request (got: ${result.reason})`);
+
+    const token = await ScarbuckToken.receive(pkg, recipient.secret, freebird, witness, receiver);
+    runner.assertEquals(token.getMetadata().amount, 30, 'Request-bound payments should be receivable');
+  });
+
+  await runner.run('Payments for other requests are rejected', async () => {
+    const recipient = createTestKeyPair().publicKey;
+    const request = createPaymentRequest({ recipient, amount: 30 });
+    const twin = createPaymentRequest({ recipient, amount: 30 });
+    runner.assert(hashPaymentRequest(twin) !== hashPaymentRequest(request), 'Identical requests should hash apart');
+
+    const pkg = await mint(30).transfer(twin);
+    const other = await validator.validateTransfer(pkg, request);
+    runner.assertEquals(other.code, 'request_mismatch', 'Another request should not be satisfied');
+
+    const plain = await mint(30).transfer(recipient);
+    const unbound = await validator.validateTransfer(plain, request);
+    runner.assertEquals(unbound.code, 'request_mismatch', 'A bare transfer should not satisfy a request');
+
+    const elsewhere = await validator.validateTransfer(pkg, { ...twin, recipient: createTestKeyPair().publicKey });
+    runner.assertEquals(elsewhere.code, 'request_mismatch', 'A request for another recipient should not be satisfied');
+
+    const wrongAmount = await refusal(() => mint(40).transfer(request));
+    runner.assert(wrongAmount.includes('split it first'), `Paying the wrong amount should be refused (got: ${wrongAmount})`);
+  });
+
+  await runner.run('Expired requests are refused', async () => {
+    const recipient = createTestKeyPair().publicKey;
+    const stale = createPaymentRequest({ recipient, amount: 5, expiresAt: Date.now() - 1 });
+    const expired = await refusal(() => mint(5).transfer(stale));
+    runner.assert(expired.includes('expired'), `Paying an expired request should be refused (got: ${expired})`);
+
+    // A slow Witness timestamps the payment after the request lapses
+    const slowWitness: WitnessClient = {
+      timestamp: async (hash: string) => {
+        await sleep(100);
+        return witness.timestamp(hash);
+      },
+      verify: attestation => witness.verify(attestation),
+      checkNullifier: nullifier => witness.checkNullifier(nullifier)
+    };
+    const request = createPaymentRequest({ recipient, amount: 5, expiresAt: Date.now() + 50 });
+    const late = await ScarbuckToken.mint(5, freebird, slowWitness, sender).transfer(request);
+    const result = await validator.validateTransfer(late, request);
+    runner.assertEquals(result.code, 'request_expired', 'Payments timestamped after expiry should be rejected');
+    runner.assertEquals(result.details?.expiresAt, request.expiresAt, 'The expiry should be reported');
+  });
+
+  await runner.run('Merchant signatures are checked', async () => {
+    const merchantSecret = Crypto.randomBytes(32);
+    const request = createPaymentRequest({ recipient: createTestKeyPair().publicKey, amount: 12, merchantSecret });
+    runner.assert(verifyPaymentRequest(request), 'Signed requests should verify');
+    runner.assert(
+      verifyPaymentRequest(request, request.merchantKey),
+      'Signed requests should verify against the pinned merchant key'
+    );
+    runner.assert(!verifyPaymentRequest(request, Crypto.randomBytes(32)), 'Another merchant key should not verify');
+
+    const forged = { ...request, signature: undefined };
+    runner.assert(!verifyPaymentRequest(forged), 'A stripped signature should not verify');
+    const refused = await refusal(() => mint(12).transfer(forged));
+    runner.assert(refused.includes('signature'), `Payers should refuse forged requests (got: ${refused})`);
+
+    const pkg = await mint(12).transfer(request);
+    const result = await validator.validateTransfer(pkg, forged);
+    runner.assertEquals(result.code, 'request_invalid', 'Validators should reject forged requests');
+    runner.assert((await validator.validateTransfer(pkg, request)).valid, 'The signed request should be satisfied');
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPaymentRequestsTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
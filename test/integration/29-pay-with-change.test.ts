@@ -0,0 +1,129 @@
+/**
+ * Integration Test: Paying with change
+ *
+ * Tests:
+ * - pay() produces the payee output and change in one timestamped package
+ * - Payee and change outputs validate and can be received
+ * - Paying the whole token leaves no change output
+ * - Tampered outputs, overpayment and non-denomination change are rejected
+ * - Payment requests and bearer strings work with payment packages
+ */
+
+import {
+  ScarbuckToken,
+  createPaymentRequest,
+  encodeBearerString,
+  decodeBearerString
+} from '../../src/index.js';
+import type { Attestation, WitnessClient } from '../../src/types.js';
+import { TestRunner, createTestKeyPair, createTestServices, refusal } from '../helpers/test-utils.js';
+
+export async function runPayWithChangeTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Pay With Change');
+  console.log('='.repeat(60) + '\n');
+
+  const { witness, freebird, sender, receiver, validator, mint } = createTestServices();
+
+  await runner.run('Payment and change share one package', async () => {
+    let timestamps = 0;
+    const countingWitness: WitnessClient = {
+      timestamp: async (hash: string) => {
+        timestamps++;
+        return witness.timestamp(hash);
+      },
+      verify: (attestation: Attestation) => witness.verify(attestation),
+      checkNullifier: (nullifier: Uint8Array) => witness.checkNullifier(nullifier)
+    };
+
+    const payee = createTestKeyPair();
+    const me = createTestKeyPair();
+    const token = ScarbuckToken.mint(100, freebird, countingWitness, sender);
+    const pkg = await token.pay(30, payee.publicKey, me.publicKey);
+
+    runner.assertEquals(timestamps, 1, 'Paying with change should take one Witness timestamp');
+    runner.assertEquals(pkg.payment.amount, 30, 'Payee output should hold the amount paid');
+    runner.assertEquals(pkg.change?.amount, 70, 'Change output should hold the rest');
+    runner.assert(token.getMetadata().spent, 'Source token should be spent');
+
+    const result = await validator.validatePayment(pkg);
+    runner.assert(result.valid, `Payment should validate (got: ${result.reason})`);
+
+    const paid = await ScarbuckToken.receivePayment(pkg, payee.secret, freebird, witness, receiver);
+    runner.assertEquals(paid.getMetadata().amount, 30, 'Payee should receive the payment');
+    const change = await ScarbuckToken.receivePayment(pkg, me.secret, freebird, witness, receiver, 'change');
+    runner.assertEquals(change.getMetadata().amount, 70, 'Sender should receive the change');
+    runner.assert(paid.getMetadata().id !== change.getMetadata().id, 'Outputs should be distinct tokens');
+  });
+
+  await runner.run('Paying the whole token leaves no change', async () => {
+    const pkg = await mint(25).pay(25, createTestKeyPair().publicKey, createTestKeyPair().publicKey);
+    runner.assertEquals(pkg.change, undefined, 'No change output should be created');
+    runner.assert((await validator.validatePayment(pkg)).valid, 'Whole payments should validate');
+
+    const noChange = await refusal(() =>
+      ScarbuckToken.receivePayment(pkg, createTestKeyPair().secret, freebird, witness, receiver, 'change')
+    );
+    runner.assertEquals(noChange, 'malformed_package', 'Receiving absent change should fail');
+  });
+
+  await runner.run('Bad payments are rejected', async () => {
+    const key = () => createTestKeyPair().publicKey;
+    const pkg = await mint(100).pay(30, key(), key());
+
+    const inflated = { ...pkg, change: { ...pkg.change!, amount: 80 } };
+    runner.assertEquals((await validator.validatePayment(inflated)).code, 'hash_mismatch', 'Inflated change should break the proof');
+    runner.assertEquals(
+      await refusal(() => ScarbuckToken.receivePayment(inflated, createTestKeyPair().secret, freebird, witness, receiver)),
+      'hash_mismatch',
+      'Receiving tampered payments should fail'
+    );
+
+    const over = await refusal(() => mint(10).pay(11, key(), key()));
+    runner.assert(over.includes('exceeds'), `Overpaying should be refused (got: ${over})`);
+
+    const coin = ScarbuckToken.mint(8, freebird, witness, sender, { denominated: true });
+    const uneven = await refusal(() => coin.pay(3, key(), key()));
+    runner.assert(uneven.includes('denomination'), `Denominated coins should refuse odd change (got: ${uneven})`);
+    runner.assertEquals((await coin.pay(4, key(), key())).change?.amount, 4, 'Denominated change should be allowed');
+  });
+
+  await runner.run('Payments carry requests and bearer strings', async () => {
+    const payee = createTestKeyPair();
+    const request = createPaymentRequest({ recipient: payee.publicKey, amount: 30, memo: 'Coffee beans' });
+    const pkg = await mint(100).pay(30, request, createTestKeyPair().publicKey);
+
+    const other = createPaymentRequest({ recipient: payee.publicKey, amount: 30 });
+    runner.assertEquals((await validator.validatePayment(pkg, other)).code, 'request_mismatch', 'Other requests should not match');
+
+    const decoded = decodeBearerString(encodeBearerString('payment', pkg));
+    runner.assertEquals(decoded.kind, 'payment', 'Payment packages should travel as bearer strings');
+    if (decoded.kind !== 'payment') {
+      throw new Error('Expected a payment package');
+    }
+    const result = await validator.validatePayment(decoded.pkg, request);
+    runner.assert(result.valid, `Decoded payment should satisfy its request (got: ${result.reason})`);
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runPayWithChangeTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,232 @@
+/**
+ * Integration Test: Coin selection
+ *
+ * Tests:
+ * - Each strategy picks the inputs it promises
+ * - Plans report change, steps and expiry impact without spending
+ * - Expired and spent tokens are never selected
+ * - Executing a multi-input plan merges, pays and keeps the change
+ * - Denominated coins are only paid in denominations, keeping denominated change
+ */
+
+import {
+  ScarbuckToken,
+  Crypto
+} from '../../src/index.js';
+import { DEFAULT_TOKEN_VALIDITY_MS } from '../../src/constants.js';
+import { TokenStorage } from '../../src/cli/token-store.js';
+import { WalletManager } from '../../src/cli/wallet.js';
+import { CoinSelector } from '../../src/cli/coin-selector.js';
+import { TestRunner, createTestKeyPair, createTestServices } from '../helpers/test-utils.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export async function runCoinSelectionTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Coin Selection');
+  console.log('='.repeat(60) + '\n');
+
+  const testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scarcity-coins-'));
+  const tokenStorage = new TokenStorage(path.join(testDir, 'tokens.json'));
+  const walletManager = new WalletManager(path.join(testDir, 'wallets.json'));
+  walletManager.createWallet('alice', true);
+
+  const { witness, freebird, sender, receiver, validator, mint } = createTestServices();
+
+  const DAY = 24 * 3600 * 1000;
+  const selector = new CoinSelector(tokenStorage);
+
+  /**
+   * Store a real token of the given amount and age in a wallet
+   */
+  const addCoin = (wallet: string, amount: number, ageDays: number, spent = false): string => {
+    const state = mint(amount).getPersistentState();
+    tokenStorage.addToken({
+      id: state.id,
+      amount,
+      secretKey: Crypto.toHex(state.secret),
+      wallet,
+      created: Date.now() - ageDays * DAY,
+      spent,
+      metadata: { type: 'minted' }
+    });
+    return state.id;
+  };
+  const ids = (inputs: readonly { id: string }[]) => inputs.map(input => input.id).sort().join();
+
+  try {
+    const c50 = addCoin('picks', 50, 10);
+    const c30 = addCoin('picks', 30, 500);
+    const c20 = addCoin('picks', 20, 100);
+    const c15 = addCoin('picks', 15, 200);
+    addCoin('picks', 1000, 600); // Expired
+    addCoin('picks', 500, 1, true); // Spent
+
+    await runner.run('Strategies pick their inputs', async () => {
+      runner.assertEquals(ids(selector.plan('picks', 25).inputs), c30, 'Fewest inputs should use the smallest covering token');
+      runner.assertEquals(
+        ids(selector.plan('picks', 70).inputs), [c50, c30].sort().join(),
+        'Fewest inputs should otherwise take the largest tokens'
+      );
+      runner.assertEquals(
+        ids(selector.plan('picks', 40, 'oldest-first').inputs), [c30, c15].sort().join(),
+        'Oldest first should take the oldest tokens'
+      );
+      runner.assertEquals(
+        ids(selector.plan('picks', 35, 'privacy').inputs), [c20, c15].sort().join(),
+        'Privacy should prefer an exact set over change'
+      );
+      runner.assertEquals(ids(selector.plan('picks', 20, 'privacy').inputs), c20, 'Privacy should prefer an exact token');
+      runner.assertEquals(
+        ids(selector.plan('picks', 28, 'privacy').inputs), c30,
+        'Privacy should fall back to one covering token'
+      );
+    });
+
+    await runner.run('Plans report change and expiry impact', async () => {
+      const plan = selector.plan('picks', 40, 'oldest-first');
+      runner.assertEquals(plan.total, 45, 'Total should cover both inputs');
+      runner.assertEquals(plan.change, 5, 'Change should be the excess');
+      runner.assert(plan.merge, 'Several inputs should be merged first');
+      runner.assertEquals(plan.timestamps, 2, 'Merge and pay should take two timestamps');
+      runner.assertEquals(
+        plan.expiry.soonestInputExpiry, plan.inputs.find(input => input.id === c30)!.expiresAt,
+        'Soonest expiry should be reported'
+      );
+      runner.assertEquals(plan.expiry.expiringSoonAmount, 30, 'The nearly expired token should count as expiring soon');
+      runner.assertGreaterThan(plan.expiry.changeExpiresAt!, Date.now() + DEFAULT_TOKEN_VALIDITY_MS - DAY, 'Change should be fresh');
+
+      const exact = selector.plan('picks', 30);
+      runner.assertEquals(exact.change, 0, 'Exact payments should have no change');
+      runner.assertEquals(exact.expiry.changeExpiresAt, undefined, 'No change means no change expiry');
+      runner.assertEquals(tokenStorage.getBalance('picks'), 1115, 'Planning should spend nothing');
+
+      let insufficient = '';
+      try {
+        selector.plan('picks', 200);
+      } catch (error) {
+        insufficient = (error as Error).message;
+      }
+      runner.assert(insufficient.includes('115 spendable'), `Expired and spent tokens should not count (got: ${insufficient})`);
+    });
+
+    await runner.run('Executing a plan merges, pays and keeps change', async () => {
+      const a = addCoin('alice', 40, 300);
+      const b = addCoin('alice', 35, 30);
+      const recipient = createTestKeyPair();
+
+      const plan = selector.plan('alice', 60);
+      runner.assertEquals(ids(plan.inputs), [a, b].sort().join(), 'Both coins should be needed');
+
+      const { merge, payment } = await selector.execute(plan, recipient.publicKey, walletManager, {
+        auth: freebird,
+        witness,
+        gossip: sender
+      });
+      runner.assertEquals(merge?.targetAmount, 75, 'Inputs should be merged first');
+      runner.assertEquals(payment.payment.amount, 60, 'Recipient output should hold the amount');
+      runner.assertEquals(payment.change?.amount, 15, 'Change should hold the rest');
+
+      runner.assert(tokenStorage.getToken(a)!.spent && tokenStorage.getToken(b)!.spent, 'Inputs should be spent');
+      runner.assert(tokenStorage.getToken(merge!.targetTokenId)!.spent, 'Merged token should be spent');
+      const change = tokenStorage.getToken(payment.change!.tokenId);
+      runner.assertEquals(change?.amount, 15, 'Change should be stored in the wallet');
+      runner.assertEquals(change?.metadata?.type, 'change', 'Change should be labelled');
+      runner.assertEquals(tokenStorage.getBalance('alice'), 15, 'Only the change should remain');
+
+      runner.assert((await validator.validatePayment(payment)).valid, 'Payment should validate');
+      const received = await ScarbuckToken.receivePayment(payment, recipient.secret, freebird, witness, receiver);
+      runner.assertEquals(received.getMetadata().amount, 60, 'Recipient should receive the payment');
+
+      // The change is spendable with the wallet-derived secret
+      const next = selector.plan('alice', 15);
+      runner.assertEquals(ids(next.inputs), payment.change!.tokenId, 'Change should be selectable');
+      const again = await selector.execute(next, createTestKeyPair().publicKey, walletManager, {
+        auth: freebird,
+        witness,
+        gossip: sender
+      });
+      runner.assertEquals(again.merge, undefined, 'A single input should pay directly');
+      runner.assertEquals(again.payment.change, undefined, 'An exact payment should leave no change');
+    });
+
+    await runner.run('Denominated coins pay in denominations', async () => {
+      walletManager.createWallet('dana');
+      for (const coin of ScarbuckToken.mintDenominated(13, freebird, witness, sender)) {
+        const state = coin.getPersistentState();
+        tokenStorage.addToken({
+          id: state.id,
+          amount: state.amount,
+          secretKey: Crypto.toHex(state.secret),
+          wallet: 'dana',
+          created: Date.now(),
+          spent: false,
+          denominated: true,
+          metadata: { type: 'minted' }
+        });
+      }
+      const plain = addCoin('dana', 20, 1);
+      const recipient = createTestKeyPair();
+
+      runner.assertEquals(ids(selector.plan('dana', 20).inputs), plain, 'Other strategies should leave coins alone');
+      const plan = selector.plan('dana', 6, 'denominated');
+      runner.assertEquals(plan.inputs.map(input => input.amount).sort().join(), '4,8', 'The 4 and the 8 should pay 6');
+      runner.assert(plan.denominated && !plan.merge, 'Coins should be spent on their own, not merged');
+      runner.assertEquals(plan.timestamps, 2, 'Each coin should take a timestamp');
+
+      let refused = false;
+      try {
+        await selector.execute(plan, recipient.publicKey, walletManager, { auth: freebird, witness, gossip: sender });
+      } catch {
+        refused = true;
+      }
+      runner.assert(refused, 'A denominated plan should not be paid as one payment');
+
+      const payment = await selector.executeDenominated(plan, recipient.publicKey, walletManager, {
+        auth: freebird,
+        witness,
+        gossip: sender
+      });
+      runner.assert(plan.inputs.every(input => tokenStorage.getToken(input.id)!.spent), 'Inputs should be spent');
+      const change = payment.change[0].map(index => tokenStorage.getToken(payment.splits[0].splits[index].tokenId));
+      runner.assertEquals(change.map(token => token?.amount).join(), '4,2', 'Change coins should be stored');
+      runner.assert(change.every(token => token?.denominated), 'Change coins should stay denominated');
+      runner.assertEquals(tokenStorage.getBalance('dana'), 27, 'The 1, the change and the plain token should remain');
+
+      // The stored change restores as denominated coins
+      const next = selector.plan('dana', 3, 'denominated');
+      const again = await selector.executeDenominated(next, recipient.publicKey, walletManager, {
+        auth: freebird,
+        witness,
+        gossip: sender
+      });
+      runner.assertEquals(again.transfers.map(pkg => pkg.amount).sort().join(), '1,2', 'The 2 and 1 coins should pay 3 whole');
+      runner.assertEquals(again.splits.length, 0, 'An exact payment needs no split');
+      runner.assert(again.transfers.every(pkg => pkg.denominated), 'Packages should carry the flag');
+    });
+  } finally {
+    sender.destroy();
+    receiver.destroy();
+    await fs.rm(testDir, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCoinSelectionTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,170 @@
+/**
+ * Integration Test: Hash-and-time HTLCs
+ *
+ * Tests:
+ * - Recipients claim with the preimage before the timelock
+ * - Claims fail without the preimage or after the timelock
+ * - Refunds fail before the timelock and succeed after it
+ * - Claim and refund exclude each other through the settlement nullifier
+ * - Locking publishes the token's nullifier, so the token cannot be spent again
+ * - The validator checks the compound condition
+ */
+
+import {
+  ScarbuckToken,
+  Crypto,
+  createHashlock,
+  settlementWindow,
+  htlcSettlementNullifier
+} from '../../src/index.js';
+import type { HTLCCondition } from '../../src/types.js';
+import { TestRunner, createTestKeyPair, createTestServices, refusal, sleep } from '../helpers/test-utils.js';
+
+export async function runHashTimeHTLCTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Hash-Time HTLCs');
+  console.log('='.repeat(60) + '\n');
+
+  const { witness, freebird, sender, receiver, validator, mint } = createTestServices();
+
+  /** Lock a fresh token to a new recipient under a hash-time condition */
+  const lock = async (timelockIn: number) => {
+    const preimage = Crypto.randomBytes(32);
+    const recipient = createTestKeyPair();
+    const refunder = createTestKeyPair();
+    const condition: HTLCCondition = {
+      type: 'hash-time',
+      hashlock: createHashlock(preimage),
+      timelock: Date.now() + timelockIn
+    };
+    const pkg = await mint(40).transferHTLC(recipient.publicKey, condition, refunder.publicKey);
+    return { pkg, preimage, recipient, refunder };
+  };
+
+  await runner.run('Hash-time HTLCs need both locks and a refund key', async () => {
+    const key = createTestKeyPair().publicKey;
+    const hashlock = createHashlock(Crypto.randomBytes(32));
+
+    const noTimelock = await refusal(() => mint(5).transferHTLC(key, { type: 'hash-time', hashlock }, key));
+    runner.assert(noTimelock.includes('requires timelock'), `A timelock should be required (got: ${noTimelock})`);
+
+    const noHashlock = await refusal(() =>
+      mint(5).transferHTLC(key, { type: 'hash-time', timelock: Date.now() + 60_000 }, key)
+    );
+    runner.assert(noHashlock.includes('requires hashlock'), `A hashlock should be required (got: ${noHashlock})`);
+
+    const noRefund = await refusal(() =>
+      mint(5).transferHTLC(key, { type: 'hash-time', hashlock, timelock: Date.now() + 60_000 })
+    );
+    runner.assert(noRefund.includes('refundKey'), `A refund key should be required (got: ${noRefund})`);
+  });
+
+  await runner.run('Recipient claims with the preimage before the timelock', async () => {
+    const { pkg, preimage, recipient, refunder } = await lock(60_000);
+    runner.assertEquals(settlementWindow(pkg.condition), 'claim', 'The claim window should be open');
+
+    runner.assert((await validator.validateHTLC(pkg, preimage)).valid, 'A live lock should validate with its preimage');
+    runner.assertEquals(
+      (await validator.validateHTLC(pkg, Crypto.randomBytes(32))).code, 'condition_failed',
+      'A wrong preimage should be rejected'
+    );
+
+    const early = await refusal(() => ScarbuckToken.refundHTLC(pkg, refunder.secret, freebird, witness, receiver));
+    runner.assertEquals(early, 'condition_failed', 'Refunds should wait for the timelock');
+    const noPreimage = await refusal(() =>
+      ScarbuckToken.receiveHTLC(pkg, recipient.secret, undefined, freebird, witness, receiver)
+    );
+    runner.assertEquals(noPreimage, 'condition_failed', 'Claims should need the preimage');
+
+    const claimed = await ScarbuckToken.receiveHTLC(pkg, recipient.secret, preimage, freebird, witness, receiver);
+    runner.assertEquals(claimed.getMetadata().amount, 40, 'Recipient should receive the locked amount');
+    runner.assertEquals(
+      (await validator.validateHTLC(pkg)).code, 'already_settled',
+      'A claimed HTLC should read as settled, so it can no longer be refunded'
+    );
+  });
+
+  await runner.run('Sender refunds after the timelock', async () => {
+    const { pkg, preimage, recipient, refunder } = await lock(100);
+    await sleep(150);
+    runner.assertEquals(settlementWindow(pkg.condition), 'refund', 'The refund window should be open');
+
+    const late = await refusal(() =>
+      ScarbuckToken.receiveHTLC(pkg, recipient.secret, preimage, freebird, witness, receiver)
+    );
+    runner.assertEquals(late, 'condition_failed', 'The preimage should not claim after the timelock');
+    runner.assertEquals(
+      (await validator.validateHTLC(pkg, preimage)).code, 'condition_failed',
+      'Validators should reject locks past their timelock'
+    );
+
+    const stranger = await refusal(() =>
+      ScarbuckToken.refundHTLC(pkg, createTestKeyPair().secret, freebird, witness, receiver)
+    );
+    runner.assertEquals(stranger, 'ownership_invalid', 'Only the refund key should refund');
+
+    const refunded = await ScarbuckToken.refundHTLC(pkg, refunder.secret, freebird, witness, receiver);
+    runner.assertEquals(refunded.getMetadata().amount, 40, 'Refunder should get the locked amount back');
+  });
+
+  await runner.run('Locking spends the token and settling spends the lock', async () => {
+    const token = mint(40);
+    const copy = new ScarbuckToken({ ...token.getPersistentState(), auth: freebird, witness, gossip: sender });
+    const preimage = Crypto.randomBytes(32);
+    const recipient = createTestKeyPair();
+    const refunder = createTestKeyPair();
+    const pkg = await token.transferHTLC(
+      recipient.publicKey,
+      { type: 'hash-time', hashlock: createHashlock(preimage), timelock: Date.now() + 100 },
+      refunder.publicKey
+    );
+
+    runner.assert(await sender.checkNullifier(pkg.nullifier) > 0, 'Locking should publish the token nullifier');
+    const respent = await refusal(() => copy.transfer(createTestKeyPair().publicKey));
+    runner.assert(respent.includes('Double-spend'), `A copy of the locked token should not spend (got: ${respent})`);
+
+    await ScarbuckToken.receiveHTLC(pkg, recipient.secret, preimage, freebird, witness, receiver);
+    const settlement = htlcSettlementNullifier(pkg);
+    runner.assert(!Crypto.constantTimeEqual(settlement, pkg.nullifier), 'Settling should use a nullifier of its own');
+    runner.assert(await receiver.checkNullifier(settlement) > 0, 'Claiming should publish the settlement nullifier');
+
+    await sleep(150);
+    const refund = await refusal(() => ScarbuckToken.refundHTLC(pkg, refunder.secret, freebird, witness, receiver));
+    runner.assert(refund.includes('Double-spend'), `A claimed lock should not also refund (got: ${refund})`);
+  });
+
+  await runner.run('Hash-only HTLCs are never refundable', async () => {
+    const preimage = Crypto.randomBytes(32);
+    const refunder = createTestKeyPair();
+    const pkg = await mint(5).transferHTLC(
+      createTestKeyPair().publicKey,
+      { type: 'hash', hashlock: createHashlock(preimage) },
+      refunder.publicKey
+    );
+    runner.assertEquals(settlementWindow(pkg.condition), 'claim', 'Hash locks should stay claimable');
+    const refund = await refusal(() => ScarbuckToken.refundHTLC(pkg, refunder.secret, freebird, witness, receiver));
+    runner.assertEquals(refund, 'malformed_package', 'Hash-only HTLCs should refuse refunds');
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runHashTimeHTLCTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
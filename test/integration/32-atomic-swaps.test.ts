@@ -0,0 +1,397 @@
+/**
+ * Integration Test: Cross-federation atomic swaps
+ *
+ * Tests:
+ * - Two parties swap tokens across two in-process federations
+ * - Neither party can spend the token it locked once the other has claimed
+ * - The responder claims from the initiator's published claim, without a reveal
+ * - Swap progress survives a restart through FileSwapStore
+ * - Unclaimed swaps are refunded to both parties after their timelocks
+ * - Offers and messages that break the terms are refused
+ */
+
+import {
+  ScarbuckToken,
+  NullifierGossip,
+  TransferValidator,
+  SwapCoordinator,
+  SwapError,
+  FileSwapStore,
+  InMemorySwapStore,
+  encodeSwapMessage,
+  decodeSwapMessage,
+  Crypto
+} from '../../src/index.js';
+import type { SwapFederation, SwapOffer, SwapAcceptance } from '../../src/index.js';
+import { swapPreimages } from '../../src/cli/htlc-watchtower.js';
+import { TestRunner,
+  TestConfig,
+  createTestKeyPair,
+  createTestWitness,
+  createTestFreebird,
+  createTestGossip,
+  linkNodes,
+  sleep
+} from '../helpers/test-utils.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export async function runAtomicSwapsTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Atomic Swaps');
+  console.log('='.repeat(60) + '\n');
+
+  const freebird = createTestFreebird();
+
+  /**
+   * An in-process federation: its own Witness network and gossip node.
+   * Locks are validated on a second node, as a counterparty's own would
+   * be: a node without peers reads every nullifier published to it as
+   * seen everywhere.
+   */
+  const federation = (
+    id: string,
+    gatewayUrl: string
+  ): SwapFederation & { gossip: NullifierGossip; checker: NullifierGossip } => {
+    const witness = createTestWitness({ gatewayUrl, networkId: id });
+    const gossip = createTestGossip(witness);
+    const checker = createTestGossip(witness);
+    const validator = new TransferValidator({ freebird, gossip: checker, witness, waitTime: 0, minConfidence: 0.1 });
+    return { id, auth: freebird, witness, gossip, checker, validator };
+  };
+  const fedA = federation('federation-a', TestConfig.witness.gateway);
+  const fedB = federation('federation-b', TestConfig.witness.gateway2);
+  const mintIn = (fed: SwapFederation, amount: number) => ScarbuckToken.mint(amount, fed.auth, fed.witness, fed.gossip);
+
+  const testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scarcity-swaps-'));
+
+  const failure = async (run: () => unknown): Promise<string> => {
+    try {
+      await run();
+      return '';
+    } catch (error) {
+      return error instanceof SwapError ? error.category : (error as Error).message;
+    }
+  };
+
+  try {
+    await runner.run('Tokens swap across two federations', async () => {
+      const alice = createTestKeyPair();
+      const bob = createTestKeyPair();
+      const aliceSwaps = new SwapCoordinator({ federations: [fedA, fedB] });
+      const bobSwaps = new SwapCoordinator({ federations: [fedA, fedB] });
+      const aliceToken = mintIn(fedA, 30);
+      const bobToken = mintIn(fedB, 50);
+
+      const { record: started, offer } = await aliceSwaps.initiate({
+        token: aliceToken,
+        give: { federation: fedA.id, amount: 30 },
+        want: { federation: fedB.id, amount: 50 },
+        counterpartyKey: bob.publicKey,
+        ownKey: alice.publicKey
+      });
+      runner.assertEquals(started.state, 'locked', 'Initiator should have locked its token');
+      runner.assertEquals(
+        started.ownTimelock - started.counterTimelock, 12 * 3600 * 1000,
+        'T_A should follow T_B by a window'
+      );
+
+      // Messages travel as text
+      const received = decodeSwapMessage(encodeSwapMessage(offer)) as SwapOffer;
+      const { record: accepted, acceptance } = await bobSwaps.accept(received, {
+        token: bobToken,
+        ownKey: bob.publicKey
+      });
+      runner.assertEquals(accepted.state, 'ready', 'Responder should be ready once both tokens are locked');
+      runner.assertEquals(bobSwaps.nextAction(accepted), 'await-preimage', 'Responder should wait for the preimage');
+
+      const ready = await aliceSwaps.confirm(decodeSwapMessage(encodeSwapMessage(acceptance)) as SwapAcceptance);
+      runner.assertEquals(aliceSwaps.nextAction(ready), 'claim', 'Initiator should claim next');
+
+      const aliceClaim = await aliceSwaps.claim(ready.id, alice.secret);
+      runner.assertEquals(aliceClaim.token.getMetadata().amount, 50, 'Initiator should receive the responder token');
+      runner.assert(aliceClaim.reveal !== undefined, 'Claiming should produce the reveal');
+
+      bobSwaps.reveal(aliceClaim.reveal!);
+      const bobClaim = await bobSwaps.claim(ready.id, bob.secret);
+      runner.assertEquals(bobClaim.token.getMetadata().amount, 30, 'Responder should receive the initiator token');
+      runner.assertEquals(bobClaim.reveal, undefined, 'Responders reveal nothing');
+
+      // Copies of the locked tokens are spent: their nullifiers went out with the locks
+      for (const [token, fed] of [[aliceToken, fedA], [bobToken, fedB]] as const) {
+        const { auth, witness, gossip } = fed;
+        const copy = new ScarbuckToken({ ...token.getPersistentState(), auth, witness, gossip });
+        runner.assert(
+          (await failure(() => copy.transfer(createTestKeyPair().publicKey))).includes('Double-spend'),
+          'A locked token should not be spendable after the swap'
+        );
+      }
+
+      runner.assertEquals(
+        aliceClaim.record.history.map(step => step.state).join(), 'proposed,locked,ready,claimed',
+        'Initiator history should record each step'
+      );
+      runner.assertEquals(bobSwaps.nextAction(bobClaim.record), 'none', 'A claimed swap should be finished');
+      runner.assertEquals(
+        await failure(() => aliceSwaps.refund(ready.id, alice.secret)), 'invalid-state',
+        'Claimed swaps should not be refunded'
+      );
+    });
+
+    await runner.run('The responder claims when the initiator never reveals', async () => {
+      const alice = createTestKeyPair();
+      const bob = createTestKeyPair();
+
+      // Bob watches federation B through his own gossip node, which only
+      // hears what it exchanges with federation B's node
+      const bobNode = createTestGossip(fedB.witness);
+      linkNodes(fedB.gossip, 'federation-b-node', bobNode, 'bob-node');
+
+      try {
+        const aliceSwaps = new SwapCoordinator({ federations: [fedA, fedB] });
+        const bobSwaps = new SwapCoordinator({ federations: [fedA, { ...fedB, gossip: bobNode }] });
+
+        const { offer } = await aliceSwaps.initiate({
+          token: mintIn(fedA, 15),
+          give: { federation: fedA.id, amount: 15 },
+          want: { federation: fedB.id, amount: 25 },
+          counterpartyKey: bob.publicKey,
+          ownKey: alice.publicKey
+        });
+        const { record, acceptance } = await bobSwaps.accept(offer, {
+          token: mintIn(fedB, 25),
+          ownKey: bob.publicKey
+        });
+        runner.assertEquals(
+          await failure(() => bobSwaps.claim(record.id, bob.secret)), 'invalid-state',
+          'The responder cannot claim before the initiator does'
+        );
+
+        // Alice claims and keeps the reveal to herself
+        await aliceSwaps.confirm(acceptance);
+        const { record: claimed } = await aliceSwaps.claim(offer.swapId, alice.secret);
+
+        runner.assert(
+          Crypto.constantTimeEqual(bobNode.getPreimage(offer.swapId)!, claimed.preimage!),
+          'The claim should publish the preimage'
+        );
+        runner.assert(
+          swapPreimages(new InMemorySwapStore(), bobNode)(offer.swapId) !== undefined,
+          'The watchtower should learn the preimage from gossip'
+        );
+        runner.assertEquals(
+          bobSwaps.nextAction(bobSwaps.get(offer.swapId)!), 'claim',
+          'The responder should claim next'
+        );
+
+        const bobClaim = await bobSwaps.claim(offer.swapId, bob.secret);
+        runner.assertEquals(bobClaim.token.getMetadata().amount, 15, 'Responder should receive the initiator token');
+        runner.assert(bobClaim.record.preimage !== undefined, 'The learned preimage should be stored');
+      } finally {
+        fedB.gossip.removePeer('bob-node');
+        bobNode.destroy();
+      }
+    });
+
+    await runner.run('Swap progress survives a restart', async () => {
+      const alice = createTestKeyPair();
+      const bob = createTestKeyPair();
+      const storePath = path.join(testDir, 'alice-swaps.json');
+      const bobSwaps = new SwapCoordinator({ federations: [fedA, fedB] });
+      const aliceSwaps = new SwapCoordinator({ federations: [fedA, fedB], store: new FileSwapStore(storePath) });
+
+      const { offer } = await aliceSwaps.initiate({
+        token: mintIn(fedA, 20),
+        give: { federation: fedA.id, amount: 20 },
+        want: { federation: fedB.id, amount: 20 },
+        counterpartyKey: bob.publicKey,
+        ownKey: alice.publicKey
+      });
+      const { acceptance } = await bobSwaps.accept(offer, { token: mintIn(fedB, 20), ownKey: bob.publicKey });
+
+      // A new process reads the swap back, preimage and lock included
+      const restarted = new SwapCoordinator({ federations: [fedA, fedB], store: new FileSwapStore(storePath) });
+      const record = restarted.get(offer.swapId);
+      runner.assertEquals(record?.state, 'locked', 'The stored state should be read back');
+      runner.assert(record?.ownLock?.proof.hash === offer.lock.proof.hash, 'The stored lock should be read back');
+
+      await restarted.confirm(acceptance);
+      const { token, reveal } = await restarted.claim(offer.swapId, alice.secret);
+      runner.assertEquals(
+        token.getMetadata().amount, 20,
+        'The restarted initiator should claim with the stored preimage'
+      );
+      runner.assertEquals(
+        new FileSwapStore(storePath).get(offer.swapId)?.state, 'claimed',
+        'The claim should be stored'
+      );
+
+      bobSwaps.reveal(reveal!);
+      runner.assertEquals(
+        (await bobSwaps.claim(offer.swapId, bob.secret)).record.state, 'claimed',
+        'The responder should finish'
+      );
+    });
+
+    await runner.run('Abandoned swaps are refunded to both parties', async () => {
+      const alice = createTestKeyPair();
+      const bob = createTestKeyPair();
+      const windows = { lockWindowMs: 200, safetyMarginMs: 50 };
+      const aliceSwaps = new SwapCoordinator({ federations: [fedA, fedB], ...windows });
+      const bobSwaps = new SwapCoordinator({ federations: [fedA, fedB], ...windows });
+
+      const { offer } = await aliceSwaps.initiate({
+        token: mintIn(fedA, 10),
+        give: { federation: fedA.id, amount: 10 },
+        want: { federation: fedB.id, amount: 15 },
+        counterpartyKey: bob.publicKey,
+        ownKey: alice.publicKey
+      });
+      const { acceptance } = await bobSwaps.accept(offer, { token: mintIn(fedB, 15), ownKey: bob.publicKey });
+      await aliceSwaps.confirm(acceptance);
+
+      runner.assertEquals(
+        await failure(() => bobSwaps.claim(offer.swapId, bob.secret)), 'invalid-state',
+        'No preimage, no claim'
+      );
+      runner.assertEquals(
+        await failure(() => bobSwaps.refund(offer.swapId, bob.secret)), 'timelock',
+        'Refunds wait for T_B'
+      );
+
+      // The initiator never claims; T_B passes
+      await sleep(230);
+      runner.assertEquals(
+        bobSwaps.nextAction(bobSwaps.get(offer.swapId)!), 'refund',
+        'Responder should refund after T_B'
+      );
+      runner.assertEquals(
+        aliceSwaps.nextAction(aliceSwaps.get(offer.swapId)!), 'await-refund',
+        'Initiator should wait for T_A'
+      );
+      runner.assertEquals(
+        await failure(() => aliceSwaps.claim(offer.swapId, alice.secret)), 'timelock',
+        'The initiator should not claim after T_B'
+      );
+
+      const bobRefund = await bobSwaps.refund(offer.swapId, bob.secret);
+      runner.assertEquals(bobRefund.token.getMetadata().amount, 15, 'Responder should get its token back');
+      runner.assertEquals(bobRefund.record.state, 'refunded', 'Responder swap should be refunded');
+
+      await sleep(200);
+      const aliceRefund = await aliceSwaps.refund(offer.swapId, alice.secret);
+      runner.assertEquals(aliceRefund.token.getMetadata().amount, 10, 'Initiator should get its token back');
+    });
+
+    await runner.run('Offers and messages that break the terms are refused', async () => {
+      const alice = createTestKeyPair();
+      const bob = createTestKeyPair();
+      const aliceSwaps = new SwapCoordinator({ federations: [fedA, fedB] });
+      const bobSwaps = () => new SwapCoordinator({ federations: [fedA, fedB] });
+      const bobToken = () => ({ token: mintIn(fedB, 40), ownKey: bob.publicKey });
+
+      const { offer } = await aliceSwaps.initiate({
+        token: mintIn(fedA, 40),
+        give: { federation: fedA.id, amount: 40 },
+        want: { federation: fedB.id, amount: 40 },
+        counterpartyKey: bob.publicKey,
+        ownKey: alice.publicKey
+      });
+
+      const inflated = { ...offer, give: { ...offer.give, amount: 400 } };
+      runner.assertEquals(
+        await failure(() => bobSwaps().accept(inflated, bobToken())), 'terms-mismatch',
+        'Amounts must match the lock'
+      );
+
+      const rushed = { ...offer, responderTimelock: offer.lock.condition.timelock! - 1000 };
+      runner.assertEquals(
+        await failure(() => bobSwaps().accept(rushed, bobToken())), 'timelock',
+        'T_A must leave a claim window'
+      );
+
+      const distant = { ...offer, responderTimelock: Date.now() + 30 * 24 * 3600 * 1000 };
+      runner.assertEquals(
+        await failure(() => bobSwaps().accept(distant, bobToken())), 'timelock',
+        'T_B must not be too far ahead'
+      );
+      const impatient = new SwapCoordinator({ federations: [fedA, fedB], lockWindowMs: 2 * 3600 * 1000 });
+      runner.assertEquals(
+        await failure(() => impatient.accept(offer, bobToken())), 'timelock',
+        'T_B must fall within the responder\'s lock window'
+      );
+
+      const sameFederation = { ...offer, give: { ...offer.give, federation: fedB.id } };
+      runner.assertEquals(
+        await failure(() => bobSwaps().accept(sameFederation, bobToken())), 'terms-mismatch',
+        'Both legs must not be in one federation'
+      );
+
+      const otherHash = { ...offer, swapId: Crypto.hashString('another swap') };
+      runner.assertEquals(
+        await failure(() => bobSwaps().accept(otherHash, bobToken())), 'terms-mismatch',
+        'Hashlocks must match'
+      );
+
+      const forged = { ...offer, lock: { ...offer.lock, amount: 40, tokenId: 'forged' } };
+      runner.assertEquals(
+        await failure(() => bobSwaps().accept(forged, bobToken())), 'lock-invalid',
+        'Tampered locks must fail validation'
+      );
+
+      const unknown = { ...offer, want: { federation: 'federation-z', amount: 40 } };
+      runner.assertEquals(
+        await failure(() => bobSwaps().accept(unknown, bobToken())), 'unknown-federation',
+        'Federations must be configured'
+      );
+
+      const bob1 = bobSwaps();
+      const { acceptance } = await bob1.accept(offer, bobToken());
+      runner.assertEquals(
+        await failure(() => bob1.accept(offer, bobToken())), 'invalid-state',
+        'Offers are taken once'
+      );
+      runner.assertEquals(
+        await failure(() => bob1.reveal({ type: 'reveal', swapId: offer.swapId, preimage: Crypto.randomBytes(32) })),
+        'terms-mismatch',
+        'Wrong preimages should be refused'
+      );
+
+      await aliceSwaps.confirm(acceptance);
+      runner.assertEquals(
+        await failure(() => aliceSwaps.confirm(acceptance)), 'invalid-state',
+        'Acceptances are confirmed once'
+      );
+      runner.assertEquals(
+        await failure(() => decodeSwapMessage('{"type":"offer"}')), 'malformed-message',
+        'Bad messages should be refused'
+      );
+    });
+  } finally {
+    for (const fed of [fedA, fedB]) {
+      fed.gossip.destroy();
+      fed.checker.destroy();
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runAtomicSwapsTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
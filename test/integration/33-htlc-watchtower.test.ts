@@ -0,0 +1,198 @@
+/**
+ * Integration Test: HTLC watchtower
+ *
+ * Tests:
+ * - Recipients claim once the preimage is known, from a source or by hand
+ * - Senders refund after the timelock
+ * - Locks settled by the other side are marked settled
+ * - Closing claim windows warn once, then expire
+ * - The watchtower checks on its own once started
+ * - One HTLC that cannot be checked does not stop the pass
+ */
+
+import {
+  ScarbuckToken,
+  Crypto,
+  createHashlock
+} from '../../src/index.js';
+import { TokenStorage } from '../../src/cli/token-store.js';
+import { WalletManager } from '../../src/cli/wallet.js';
+import { HTLCWatchtower, trackHTLC, learnPreimage, type HTLCWatchEvent } from '../../src/cli/htlc-watchtower.js';
+import type { HTLCCondition } from '../../src/types.js';
+import { TestRunner, createTestWitness, createTestFreebird, createTestGossip, sleep } from '../helpers/test-utils.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export async function runHTLCWatchtowerTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: HTLC Watchtower');
+  console.log('='.repeat(60) + '\n');
+
+  const testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scarcity-watchtower-'));
+  const storage = new TokenStorage(path.join(testDir, 'tokens.json'));
+  const wallets = new WalletManager(path.join(testDir, 'wallets.json'));
+  wallets.createWallet('alice', true);
+  wallets.createWallet('bob');
+
+  const witness = createTestWitness();
+  const freebird = createTestFreebird();
+  const gossip = createTestGossip(witness);
+  const services = { auth: freebird, witness, gossip };
+
+  /** Lock a fresh token from alice to bob */
+  const lock = async (type: HTLCCondition['type'], timelockIn: number) => {
+    const preimage = Crypto.randomBytes(32);
+    const condition: HTLCCondition = {
+      type,
+      hashlock: type === 'time' ? undefined : createHashlock(preimage),
+      timelock: type === 'hash' ? undefined : Date.now() + timelockIn
+    };
+    const pkg = await ScarbuckToken.mint(30, freebird, witness, gossip)
+      .transferHTLC(wallets.getPublicKey('bob'), condition, wallets.getPublicKey('alice'));
+    return { pkg, preimage };
+  };
+  const types = (events: HTLCWatchEvent[]) => events.map(event => event.type).join();
+
+  try {
+    await runner.run('Recipients claim once the preimage is known', async () => {
+      const known = new Map<string, Uint8Array>();
+      const watchtower = new HTLCWatchtower(storage, wallets, services, {
+        sources: [hashlock => known.get(hashlock)],
+        warningMs: 0
+      });
+
+      const revealed = await lock('hash-time', 60_000);
+      const byHand = await lock('hash', 0);
+      const timeOnly = await lock('time', 60_000);
+      const id = trackHTLC(storage, revealed.pkg, 'recipient', 'bob').id;
+      const handId = trackHTLC(storage, byHand.pkg, 'recipient', 'bob').id;
+      trackHTLC(storage, timeOnly.pkg, 'recipient', 'bob');
+
+      runner.assertEquals(types(await watchtower.check()), 'claimed', 'Only the time lock should be claimable');
+
+      known.set(revealed.pkg.condition!.hashlock!, revealed.preimage);
+      runner.assertEquals(learnPreimage(storage, byHand.preimage), 1, 'The preimage should open one HTLC');
+      const events = await watchtower.check();
+      runner.assertEquals(types(events), 'claimed,claimed', 'Both hash locks should be claimed');
+
+      const claimed = storage.getHTLC(id)!;
+      runner.assertEquals(claimed.status, 'claimed', 'The record should be claimed');
+      runner.assertEquals(claimed.preimage, Crypto.toHex(revealed.preimage), 'The learned preimage should be kept');
+      runner.assertEquals(storage.getHTLC(handId)!.status, 'claimed', 'The HTLC opened by hand should be claimed');
+
+      const token = storage.getToken(claimed.tokenId!);
+      runner.assertEquals(token?.wallet, 'bob', 'The claimed token should be stored in bob\'s wallet');
+      runner.assertEquals(storage.getBalance('bob'), 90, 'Bob should hold all three claims');
+    });
+
+    await runner.run('Senders refund after the timelock', async () => {
+      const watchtower = new HTLCWatchtower(storage, wallets, services);
+      const { pkg } = await lock('hash-time', 150);
+      const id = trackHTLC(storage, pkg, 'sender', 'alice').id;
+
+      runner.assertEquals(types(await watchtower.check()), '', 'Nothing should happen before the timelock');
+      await sleep(200);
+      const events = await watchtower.check();
+      runner.assertEquals(types(events), 'refunded', 'The lock should be refunded');
+      runner.assertEquals(events[0].amount, 30, 'The event should carry the amount');
+      runner.assertEquals(storage.getHTLC(id)!.status, 'refunded', 'The record should be refunded');
+      runner.assertEquals(storage.getBalance('alice'), 30, 'Alice should get the amount back');
+
+      let refusal = '';
+      try {
+        trackHTLC(storage, (await lock('hash', 0)).pkg, 'sender', 'alice');
+      } catch (error) {
+        refusal = (error as Error).message;
+      }
+      runner.assert(refusal.includes('time-locked'), `Hash-only locks cannot be refunded (got: ${refusal})`);
+    });
+
+    await runner.run('Locks settled by the other side are marked settled', async () => {
+      const watchtower = new HTLCWatchtower(storage, wallets, services);
+      const { pkg, preimage } = await lock('hash-time', 60_000);
+      const id = trackHTLC(storage, pkg, 'sender', 'alice').id;
+
+      const secret = Crypto.fromHex(wallets.getWallet('bob').secretKey);
+      await ScarbuckToken.receiveHTLC(pkg, secret, preimage, freebird, witness, gossip);
+
+      const events = await watchtower.check();
+      runner.assertEquals(types(events), 'settled', 'The claim should be noticed');
+      runner.assertEquals(storage.getHTLC(id)!.status, 'settled', 'The record should be settled');
+      runner.assertEquals(types(await watchtower.check()), '', 'Settled locks should no longer be checked');
+    });
+
+    await runner.run('Closing claim windows warn once, then expire', async () => {
+      const watchtower = new HTLCWatchtower(storage, wallets, services, { warningMs: 60_000 });
+      const { pkg } = await lock('hash-time', 150);
+      const id = trackHTLC(storage, pkg, 'recipient', 'bob').id;
+
+      runner.assertEquals(types(await watchtower.check()), 'expiring', 'The recipient should be warned');
+      runner.assertEquals(types(await watchtower.check()), '', 'The warning should not repeat');
+      await sleep(200);
+      runner.assertEquals(types(await watchtower.check()), 'expired', 'The claim window should close');
+      runner.assertEquals(storage.getHTLC(id)!.status, 'expired', 'The record should be expired');
+    });
+
+    await runner.run('The watchtower checks on its own once started', async () => {
+      const watchtower = new HTLCWatchtower(storage, wallets, services, { intervalMs: 50 });
+      const events: HTLCWatchEvent[] = [];
+      const unsubscribe = watchtower.onEvent(event => events.push(event));
+
+      const { pkg } = await lock('time', 60_000);
+      trackHTLC(storage, pkg, 'recipient', 'bob');
+      watchtower.start();
+      runner.assert(watchtower.isRunning(), 'The watchtower should be running');
+      await sleep(300);
+      watchtower.stop();
+      unsubscribe();
+
+      runner.assertEquals(types(events), 'claimed', 'The started watchtower should claim the lock once');
+      runner.assert(!watchtower.isRunning(), 'The watchtower should stop');
+    });
+
+    await runner.run('One HTLC that cannot be checked does not stop the pass', async () => {
+      const watchtower = new HTLCWatchtower(storage, wallets, services);
+      storage.addHTLC({
+        id: 'ff'.repeat(32),
+        role: 'recipient',
+        wallet: 'bob',
+        package: 'scar1notapackage',
+        amount: 1,
+        status: 'pending',
+        added: Date.now()
+      });
+      const { pkg } = await lock('time', 60_000);
+      trackHTLC(storage, pkg, 'recipient', 'bob');
+
+      const events = await watchtower.check();
+      runner.assertEquals(
+        events.map(event => event.type).sort().join(), 'claimed,failed',
+        'The broken record should fail and the other HTLC should still be claimed'
+      );
+      runner.assertEquals(storage.getHTLC('ff'.repeat(32))!.status, 'pending', 'The broken record is retried later');
+    });
+  } finally {
+    gossip.destroy();
+    await fs.rm(testDir, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runHTLCWatchtowerTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,184 @@
+/**
+ * Integration Test: Multi-signature (m-of-n) locks
+ *
+ * Tests:
+ * - Locks refuse malformed policies
+ * - Locking spends the token; spending publishes the lock's own nullifier
+ * - Threshold approvals spend a lock to the recipient they name
+ * - Too few, repeated, unlisted or redirected approvals do not count
+ * - Locks survive the bearer string codec, and their policy is timestamped
+ */
+
+import {
+  ScarbuckToken,
+  Crypto,
+  multiSigKey,
+  approveMultiSig,
+  multiSigSpendNullifier
+} from '../../src/index.js';
+import { encodeBearerString, decodeBearerString } from '../../src/codec/bearer-string.js';
+import type { MultiSigPackage } from '../../src/types.js';
+import { TestRunner, createTestKeyPair, createTestServices, refusal } from '../helpers/test-utils.js';
+
+export async function runMultiSigTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Multisig Locks');
+  console.log('='.repeat(60) + '\n');
+
+  const { witness, freebird, sender, receiver, validator, mint } = createTestServices();
+
+  // Three keyholders, two of whom must approve
+  const holders = [createTestKeyPair(), createTestKeyPair(), createTestKeyPair()];
+  const policy = { threshold: 2, keys: holders.map(holder => multiSigKey(holder.secret)) };
+
+  await runner.run('Locks refuse malformed policies', async () => {
+    const keys = policy.keys;
+    const tooHigh = await refusal(() => mint(5).transferMultiSig({ threshold: 4, keys }));
+    runner.assert(tooHigh.includes('between 1 and 3'), `Threshold above n should fail (got: ${tooHigh})`);
+
+    const twice = await refusal(() => mint(5).transferMultiSig({ threshold: 2, keys: [keys[0], keys[0]] }));
+    runner.assert(twice.includes('twice'), `Repeated keys should fail (got: ${twice})`);
+
+    const walletKey = await refusal(() =>
+      mint(5).transferMultiSig({ threshold: 1, keys: [holders[0].publicKey.bytes] })
+    );
+    runner.assert(walletKey.includes('33-byte'), `Wallet public keys should be refused (got: ${walletKey})`);
+  });
+
+  await runner.run('Locking spends the token and spending publishes the lock\'s own nullifier', async () => {
+    const token = mint(40);
+    const pkg = await token.transferMultiSig(policy);
+    runner.assert(await sender.checkNullifier(pkg.nullifier) > 0, 'Locking should publish the token\'s nullifier');
+
+    // A copy of the locked token cannot be spent again
+    const copy = new ScarbuckToken({ ...token.getPersistentState(), auth: freebird, witness, gossip: sender });
+    const reused = await refusal(() => copy.transfer(createTestKeyPair().publicKey));
+    runner.assert(reused.includes('Double-spend'), `A copy of a locked token should be refused (got: ${reused})`);
+
+    const recipient = createTestKeyPair();
+    const approvals = [
+      await approveMultiSig(pkg, recipient.publicKey, holders[0].secret),
+      await approveMultiSig(pkg, recipient.publicKey, holders[1].secret)
+    ];
+    await ScarbuckToken.receiveMultiSig(pkg, approvals, recipient.secret, freebird, witness, receiver);
+    const spendNullifier = multiSigSpendNullifier(pkg);
+    runner.assert(
+      !Crypto.constantTimeEqual(spendNullifier, pkg.nullifier), 'The spend nullifier should differ from the token\'s'
+    );
+    runner.assert(await receiver.checkNullifier(spendNullifier) > 0, 'Spending should publish the spend nullifier');
+  });
+
+  await runner.run('Threshold approvals spend the lock to their recipient', async () => {
+    const pkg = await mint(60).transferMultiSig(policy);
+    const recipient = createTestKeyPair();
+
+    runner.assert((await validator.validateMultiSig(pkg)).valid, 'An unspent lock should validate');
+
+    const approvals = [
+      await approveMultiSig(pkg, recipient.publicKey, holders[0].secret),
+      await approveMultiSig(pkg, recipient.publicKey, holders[2].secret)
+    ];
+    const result = await validator.validateMultiSig(pkg, { recipient: recipient.publicKey, approvals });
+    runner.assert(result.valid, `Two of three approvals should validate (got: ${result.reason})`);
+
+    const token = await ScarbuckToken.receiveMultiSig(pkg, approvals, recipient.secret, freebird, witness, receiver);
+    runner.assertEquals(token.getMetadata().amount, 60, 'The recipient should receive the locked amount');
+    runner.assertEquals(
+      (await validator.validateMultiSig(pkg)).code, 'already_settled',
+      'A spent lock should read as settled'
+    );
+    const again = await refusal(() =>
+      ScarbuckToken.receiveMultiSig(pkg, approvals, recipient.secret, freebird, witness, receiver)
+    );
+    runner.assertEquals(again, 'already_settled', 'A lock should be spent only once');
+
+    // Keyholders who approve a second recipient still cannot spend the lock twice
+    const other = createTestKeyPair();
+    const second = [
+      await approveMultiSig(pkg, other.publicKey, holders[0].secret),
+      await approveMultiSig(pkg, other.publicKey, holders[1].secret)
+    ];
+    const twice = await refusal(() =>
+      ScarbuckToken.receiveMultiSig(pkg, second, other.secret, freebird, witness, receiver)
+    );
+    runner.assertEquals(twice, 'already_settled', 'A second approved recipient should be refused');
+  });
+
+  await runner.run('Too few, repeated, unlisted or redirected approvals do not count', async () => {
+    const pkg = await mint(25).transferMultiSig(policy);
+    const recipient = createTestKeyPair();
+    const thief = createTestKeyPair();
+    const outsider = createTestKeyPair();
+
+    const unlisted = await refusal(() => approveMultiSig(pkg, recipient.publicKey, outsider.secret));
+    runner.assert(unlisted.includes('not in the multisig policy'), `Outsiders cannot approve (got: ${unlisted})`);
+
+    const one = await approveMultiSig(pkg, recipient.publicKey, holders[1].secret);
+    const check = async (approvals: Uint8Array[], message: string) => {
+      runner.assertEquals(
+        (await validator.validateMultiSig(pkg, { recipient: recipient.publicKey, approvals })).code, 'condition_failed',
+        message
+      );
+      const spend = await refusal(() =>
+        ScarbuckToken.receiveMultiSig(pkg, approvals, recipient.secret, freebird, witness, receiver)
+      );
+      runner.assertEquals(spend, 'condition_failed', `${message} (spend)`);
+    };
+
+    await check([one], 'One approval should not reach the threshold');
+    await check([one, one], 'A key should count once');
+    await check(
+      [one, await approveMultiSig(pkg, thief.publicKey, holders[0].secret)],
+      'An approval for another recipient should not count'
+    );
+
+    // Approvals name the recipient, so they cannot be replayed to a thief
+    const approvals = [one, await approveMultiSig(pkg, recipient.publicKey, holders[0].secret)];
+    const stolen = await refusal(() =>
+      ScarbuckToken.receiveMultiSig(pkg, approvals, thief.secret, freebird, witness, receiver)
+    );
+    runner.assertEquals(stolen, 'condition_failed', 'Approvals should not pay anyone else');
+  });
+
+  await runner.run('Locks survive the bearer string codec with their policy timestamped', async () => {
+    const pkg = await mint(10).transferMultiSig({ threshold: 1, keys: policy.keys });
+    const decoded = decodeBearerString(encodeBearerString('multisig', pkg));
+    runner.assertEquals(decoded.kind, 'multisig', 'The bearer string should keep the kind');
+
+    const copy = decoded.pkg as MultiSigPackage;
+    runner.assertEquals(copy.policy.threshold, 1, 'The threshold should survive');
+    runner.assertEquals(
+      copy.policy.keys.map(key => Crypto.toHex(key)).join(), policy.keys.map(key => Crypto.toHex(key)).join(),
+      'The keys should survive'
+    );
+    runner.assert((await validator.validateMultiSig(copy)).valid, 'The decoded lock should validate');
+
+    const loosened = { ...copy, policy: { threshold: 1, keys: [policy.keys[0]] } };
+    runner.assertEquals(
+      (await validator.validateMultiSig(loosened)).code, 'hash_mismatch',
+      'Changing the policy should break the timestamp'
+    );
+  });
+
+  sender.destroy();
+  receiver.destroy();
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runMultiSigTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
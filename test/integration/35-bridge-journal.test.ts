@@ -0,0 +1,228 @@
+/**
+ * Integration Test: Bridge journal
+ *
+ * Tests:
+ * - Bridges are journaled through every state up to minted
+ * - A crash after the source lock is resumed from the file journal
+ * - A publish that landed before a crash is not repeated
+ * - Network failures keep the state; validation failures fail and retry
+ */
+
+import {
+  ScarbuckToken,
+  FederationBridge,
+  BridgeError,
+  ValidationError,
+  InMemoryBridgeJournal,
+  FileBridgeJournal,
+  journaledPackage,
+  Crypto
+} from '../../src/index.js';
+import type { BridgeJournal, BridgeJournalEntry, BridgeFailureHook, BridgeState } from '../../src/bridge-journal.js';
+import type { WitnessClient } from '../../src/types.js';
+import { TestRunner,
+  TestConfig,
+  createTestKeyPair,
+  createTestWitness,
+  createTestFreebird,
+  createTestGossip
+} from '../helpers/test-utils.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export async function runBridgeJournalTest(): Promise<void> {
+  const runner = new TestRunner();
+
+  console.log('\n' + '='.repeat(60));
+  console.log('TEST SUITE: Bridge Journal');
+  console.log('='.repeat(60) + '\n');
+
+  const testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scarcity-bridge-journal-'));
+
+  const sourceWitness = createTestWitness();
+  const targetWitness = createTestWitness({ gatewayUrl: TestConfig.witness.gateway2, networkId: 'test-federation-2' });
+  const freebird = createTestFreebird();
+
+  const sourceGossip = createTestGossip(sourceWitness);
+  const targetGossip = createTestGossip(targetWitness);
+
+  const createBridge = (journal: BridgeJournal, failureHook?: BridgeFailureHook, target?: WitnessClient) =>
+    new FederationBridge({
+      sourceFederation: 'test-federation-1',
+      targetFederation: 'test-federation-2',
+      sourceWitness,
+      targetWitness: target ?? targetWitness,
+      sourceGossip,
+      targetGossip,
+      freebird,
+      journal,
+      failureHook
+    });
+  /** Simulates the process dying right after the journal is written in a state */
+  const crashAt = (state: BridgeState): BridgeFailureHook => written => {
+    if (written === state) {
+      throw new Error(`Simulated crash at ${state}`);
+    }
+  };
+  const failure = async (run: () => Promise<unknown>): Promise<unknown> => {
+    try {
+      await run();
+      return undefined;
+    } catch (error) {
+      return error;
+    }
+  };
+  const states = (entry: BridgeJournalEntry) => entry.history.map(step => step.state).join();
+  const mint = (amount: number) => ScarbuckToken.mint(amount, freebird, sourceWitness, sourceGossip);
+
+  try {
+    await runner.run('Bridges are journaled through every state up to minted', async () => {
+      const journal = new InMemoryBridgeJournal();
+      const bridge = createBridge(journal);
+      const recipient = createTestKeyPair();
+      const token = mint(40);
+
+      const pkg = await bridge.bridgeToken(token, recipient.publicKey);
+      const id = Crypto.toHex(pkg.nullifier);
+      runner.assertEquals(
+        states(journal.get(id)!), 'prepared,locking,locked,target-timestamped',
+        'Every step should be journaled'
+      );
+      runner.assert(token.getMetadata().spent, 'The source token should be spent');
+
+      const received = await bridge.receiveBridged(pkg, recipient.secret);
+      runner.assertEquals(received.getMetadata().amount, 40, 'The recipient should receive the amount');
+      runner.assertEquals(journal.get(id)!.state, 'minted', 'A claimed bridge should be minted');
+      runner.assertEquals((await bridge.resume(id)).state, 'minted', 'Resuming a minted bridge should do nothing');
+    });
+
+    await runner.run('A crash after the source lock is resumed from the file journal', async () => {
+      const journalPath = path.join(testDir, 'bridges.json');
+      const recipient = createTestKeyPair();
+      const token = mint(25);
+      const id = Crypto.toHex(Crypto.hash(token.getPersistentState().secret, token.getPersistentState().id));
+
+      const crashed = await failure(() =>
+        createBridge(new FileBridgeJournal(journalPath), crashAt('locked')).bridgeToken(token, recipient.publicKey)
+      );
+      runner.assert((crashed as Error)?.message.includes('Simulated crash'), 'The bridge should crash');
+      runner.assertEquals(await sourceGossip.checkNullifier(Crypto.fromHex(id)), 1, 'The source should be locked');
+
+      // A restarted process only has the journal on disk
+      const journal = new FileBridgeJournal(journalPath);
+      runner.assertEquals(journal.get(id)?.state, 'locked', 'The journal should survive the crash');
+
+      const busy = await failure(() => createBridge(journal).bridgeToken(
+        ScarbuckToken.fromPersistentState({ ...token.getPersistentState(), spent: false },
+          freebird, sourceWitness, sourceGossip),
+        recipient.publicKey
+      ));
+      runner.assert(busy instanceof BridgeError && busy.category === 'invalid-state',
+        'A token being bridged should not be bridged again');
+
+      const resumed = await createBridge(journal).resume(id);
+      runner.assertEquals(resumed.state, 'target-timestamped', 'Resuming should timestamp the mint');
+
+      const reopened = new FileBridgeJournal(journalPath).get(id)!;
+      const received = await createBridge(new InMemoryBridgeJournal())
+        .receiveBridged(journaledPackage(reopened), recipient.secret);
+      runner.assertEquals(received.getMetadata().amount, 25, 'The resumed package should be claimable');
+    });
+
+    await runner.run('A publish that landed before a crash is not repeated', async () => {
+      const journal = new InMemoryBridgeJournal();
+      const token = mint(15);
+      const crashed = await failure(() =>
+        createBridge(journal, crashAt('locking')).bridgeToken(token, createTestKeyPair().publicKey)
+      );
+      runner.assert((crashed as Error)?.message.includes('Simulated crash'), 'The bridge should crash');
+
+      const [entry] = journal.list();
+      runner.assertEquals(entry.state, 'locking', 'The publish should be recorded before it is sent');
+
+      // The publish reached the federation, but the process died before writing locked
+      await sourceGossip.publish(entry.lock.nullifier, entry.sourceProof!);
+
+      const resumed = await createBridge(journal).resume(entry.id);
+      runner.assertEquals(resumed.state, 'target-timestamped', 'Resuming should not publish twice');
+      runner.assertEquals(resumed.error, undefined, 'The crash error should be cleared');
+    });
+
+    await runner.run('Network failures keep the state; validation failures fail and retry', async () => {
+      const journal = new InMemoryBridgeJournal();
+      let down = true;
+      const flaky: WitnessClient = Object.create(targetWitness);
+      flaky.timestamp = async (hash: string) => {
+        if (down) {
+          throw new Error('Target witness unreachable');
+        }
+        return targetWitness.timestamp(hash);
+      };
+
+      const token = mint(30);
+      const offline = await failure(() => createBridge(journal, undefined, flaky)
+        .bridgeToken(token, createTestKeyPair().publicKey));
+      runner.assert((offline as Error)?.message.includes('unreachable'), 'The bridge should fail');
+
+      const [entry] = journal.list();
+      runner.assertEquals(entry.state, 'locked', 'A network failure should keep the state');
+      runner.assertEquals(entry.error, 'Target witness unreachable', 'The error should be recorded');
+      runner.assert(token.getMetadata().spent, 'The locked token should be spent');
+
+      down = false;
+      runner.assertEquals(
+        (await createBridge(journal, undefined, flaky).resume(entry.id)).state, 'target-timestamped',
+        'The bridge should resume once the target is back'
+      );
+
+      // A copy of a token that was since spent elsewhere cannot be locked
+      const spent = mint(10);
+      const copy = ScarbuckToken.fromPersistentState(spent.getPersistentState(), freebird, sourceWitness, sourceGossip);
+      await spent.transfer(createTestKeyPair().publicKey);
+
+      const bridge = createBridge(journal);
+      const refused = await failure(() => bridge.bridgeToken(copy, createTestKeyPair().publicKey));
+      runner.assert(refused instanceof ValidationError && refused.code === 'gossip_double_spend',
+        'The lock should be refused');
+
+      const failed = journal.list().find(candidate => candidate.state === 'failed')!;
+      runner.assertEquals(failed.failedFrom, 'prepared', 'The failure should record where it happened');
+
+      const resumed = await failure(() => bridge.resume(failed.id));
+      runner.assert(resumed instanceof BridgeError && resumed.category === 'invalid-state',
+        'Failed bridges should be retried, not resumed');
+
+      await failure(() => bridge.retry(failed.id));
+      runner.assertEquals(
+        states(journal.get(failed.id)!), 'prepared,failed,prepared,failed',
+        'A retry should start over from the failed state'
+      );
+
+      const unknown = await failure(() => bridge.resume('00'.repeat(32)));
+      runner.assert(unknown instanceof BridgeError && unknown.category === 'unknown-bridge',
+        'Unknown bridges should be reported');
+    });
+  } finally {
+    sourceGossip.destroy();
+    targetGossip.destroy();
+    await fs.rm(testDir, { recursive: true, force: true });
+  }
+
+  runner.printSummary();
+
+  const summary = runner.getSummary();
+  if (summary.failed > 0) {
+    throw new Error(`${summary.failed} test(s) failed`);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runBridgeJournalTest()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
@@ -15,6 +15,31 @@ import { runSpamMitigationTest } from './integration/06-spam-mitigation.test.js'
 import { runSecurityHardeningTest } from './integration/07-security-hardening.test.js';
 import { runCryptoCorrectnessTest } from './integration/08-crypto-correctness.test.js';
 import { runWebLifecycleApiTest } from './integration/09-web-lifecycle-api.test.js';
+import { runNullifierStoreTest } from './integration/11-nullifier-store.test.js';
+import { runSetReconciliationTest } from './integration/12-set-reconciliation.test.js';
+import { runFilterDigestTest } from './integration/13-filter-digests.test.js';
+import { runDoubleSpendEvidenceTest } from './integration/14-double-spend-evidence.test.js';
+import { runShardingTest } from './integration/15-sharding.test.js';
+import { runNodeIdentityTest } from './integration/16-node-identity.test.js';
+import { runReputationTest } from './integration/17-reputation.test.js';
+import { runWitnessBatchingTest } from './integration/18-witness-batching.test.js';
+import { runWireFormatTest } from './integration/19-wire-format.test.js';
+import { runPropagationTracingTest } from './integration/20-propagation-tracing.test.js';
+import { runPackageValidatorsTest } from './integration/21-package-validators.test.js';
+import { runAcceptancePolicyTest } from './integration/22-acceptance-policy.test.js';
+import { runValidationCodesTest } from './integration/23-validation-codes.test.js';
+import { runProgressiveValidationTest } from './integration/24-progressive-validation.test.js';
+import { runDenominationsTest } from './integration/25-denominations.test.js';
+import { runPackageCodecTest } from './integration/26-package-codec.test.js';
+import { runBearerStringsTest } from './integration/27-bearer-strings.test.js';
+import { runPaymentRequestsTest } from './integration/28-payment-requests.test.js';
+import { runPayWithChangeTest } from './integration/29-pay-with-change.test.js';
+import { runCoinSelectionTest } from './integration/30-coin-selection.test.js';
+import { runHashTimeHTLCTest } from './integration/31-hash-time-htlc.test.js';
+import { runAtomicSwapsTest } from './integration/32-atomic-swaps.test.js';
+import { runHTLCWatchtowerTest } from './integration/33-htlc-watchtower.test.js';
+import { runMultiSigTest } from './integration/34-multisig.test.js';
+import { runBridgeJournalTest } from './integration/35-bridge-journal.test.js';
 
 interface TestSuite {
   name: string;
@@ -67,6 +92,131 @@ const testSuites: TestSuite[] = [
     name: 'Web API Lifecycle',
     run: runWebLifecycleApiTest,
     requiresServices: false // Designed to run in fallback mode
+  },
+  {
+    name: 'Persistent Nullifier Store',
+    run: runNullifierStoreTest,
+    requiresServices: false // Local SQLite + fallback Witness
+  },
+  {
+    name: 'Set Reconciliation',
+    run: runSetReconciliationTest,
+    requiresServices: false // In-process peers + fallback Witness
+  },
+  {
+    name: 'Filter Digests & Eclipse Detection',
+    run: runFilterDigestTest,
+    requiresServices: false // In-process peers + fallback Witness
+  },
+  {
+    name: 'Double-Spend Evidence',
+    run: runDoubleSpendEvidenceTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Sharded Nullifier Gossip',
+    run: runShardingTest,
+    requiresServices: false // In-process peers + fallback Witness
+  },
+  {
+    name: 'Node Identity & Signed Gossip',
+    run: runNodeIdentityTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Peer Reputation Ledger',
+    run: runReputationTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Batched Witness Attestations',
+    run: runWitnessBatchingTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Gossip Wire Format & Handshake',
+    run: runWireFormatTest,
+    requiresServices: false // In-process peers, no network
+  },
+  {
+    name: 'Propagation Tracing',
+    run: runPropagationTracingTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Package Validators',
+    run: runPackageValidatorsTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Acceptance Policies',
+    run: runAcceptancePolicyTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Validation Codes',
+    run: runValidationCodesTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Progressive Validation',
+    run: runProgressiveValidationTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Denominations',
+    run: runDenominationsTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Package Codec',
+    run: runPackageCodecTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Bearer Strings',
+    run: runBearerStringsTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Payment Requests',
+    run: runPaymentRequestsTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Pay With Change',
+    run: runPayWithChangeTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Coin Selection',
+    run: runCoinSelectionTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Hash-Time HTLCs',
+    run: runHashTimeHTLCTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Atomic Swaps',
+    run: runAtomicSwapsTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'HTLC Watchtower',
+    run: runHTLCWatchtowerTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Multisig Locks',
+    run: runMultiSigTest,
+    requiresServices: false // Works in fallback mode
+  },
+  {
+    name: 'Bridge Journal',
+    run: runBridgeJournalTest,
+    requiresServices: false // Works in fallback mode
   }
 ];
 